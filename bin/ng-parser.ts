@@ -6,10 +6,46 @@
 
 import { Command } from 'commander';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
 import {
   NgParser,
+  ProjectWatcher,
+  diffResults,
+  DiffFormatter,
+  detectApiChanges,
+  ApiChangeFormatter,
+  GraphQuery,
+  GraphServer,
+  QueryFormatter,
+  evaluateRules,
+  validateRules,
+  RuleFormatter,
+  DEFAULT_RULES_FILE,
+  resolveInjections,
+  DiFormatter,
+  validateTemplates,
+  analyzeTemplateMembers,
+  TemplateContractFormatter,
+  findUnusedEntities,
+  UnusedEntityFormatter,
+  collectFindings,
+  fromWarning,
+  SarifFormatter,
+  JUnitFormatter,
+  CheckstyleFormatter,
+  type Finding,
+  createBaseline,
+  applyBaseline,
+  validateBaseline,
+  DEFAULT_BASELINE_FILE,
+  DETAIL_LEVELS,
+  DEFAULT_CHUNK_TOKENS,
+  type DiffFormat,
+  type DetailLevel,
+  type JsonLdOptions,
+  type NgParseResult,
   RxJSPatternVisitor,
   SecurityVisitor,
   PerformanceVisitor,
@@ -31,6 +67,322 @@ program
   .description('Advanced Angular parser with RAG/GraphRAG optimized output')
   .version(packageJson.version);
 
+/**
+ * Register built-in visitors selected by --visitors / --all-visitors
+ *
+ * @returns Names of enabled visitors
+ */
+function registerVisitors(parser: NgParser, options: any): string[] {
+  const visitorsEnabled: string[] = [];
+
+  if (options.allVisitors) {
+    parser.registerVisitor(new RxJSPatternVisitor());
+    parser.registerVisitor(new SecurityVisitor());
+    parser.registerVisitor(new PerformanceVisitor());
+    visitorsEnabled.push('RxJS', 'Security', 'Performance');
+  } else if (options.visitors) {
+    const visitorList = options.visitors.split(',').map((v: string) => v.trim().toLowerCase());
+
+    if (visitorList.includes('rxjs')) {
+      parser.registerVisitor(new RxJSPatternVisitor());
+      visitorsEnabled.push('RxJS');
+    }
+    if (visitorList.includes('security') || visitorList.includes('sec')) {
+      parser.registerVisitor(new SecurityVisitor());
+      visitorsEnabled.push('Security');
+    }
+    if (visitorList.includes('performance') || visitorList.includes('perf')) {
+      parser.registerVisitor(new PerformanceVisitor());
+      visitorsEnabled.push('Performance');
+    }
+  }
+
+  return visitorsEnabled;
+}
+
+/**
+ * Write the selected output format(s)
+ */
+function writeOutputs(
+  result: NgParseResult,
+  output: string,
+  formatOption: string,
+  options: { level?: DetailLevel; maxTokens?: number; jsonld?: JsonLdOptions } = {}
+): void {
+  const outputPath = path.resolve(output);
+  const outputDir = path.dirname(outputPath);
+  const outputBase = path.basename(outputPath, path.extname(outputPath));
+
+  // Create output directory if needed
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+
+  const format = formatOption.toLowerCase();
+
+  if (format === 'all') {
+    // Export all formats
+    const fullJson = result.toJSON();
+    fs.writeFileSync(
+      path.join(outputDir, `${outputBase}.full.json`),
+      JSON.stringify(fullJson, null, 2)
+    );
+    console.log(`   ✓ ${outputBase}.full.json`);
+
+    const simpleJson = result.toSimpleJSON();
+    fs.writeFileSync(
+      path.join(outputDir, `${outputBase}.simple.json`),
+      JSON.stringify(simpleJson, null, 2)
+    );
+    console.log(`   ✓ ${outputBase}.simple.json`);
+
+    const html = result.toHTML();
+    fs.writeFileSync(path.join(outputDir, `${outputBase}.html`), html);
+    console.log(`   ✓ ${outputBase}.html`);
+
+    const markdown = result.toMarkdown(options.level);
+    fs.writeFileSync(path.join(outputDir, `${outputBase}.md`), markdown);
+    console.log(`   ✓ ${outputBase}.md`);
+
+    const jsonld = result.toJSONLD(options.jsonld);
+    fs.writeFileSync(path.join(outputDir, `${outputBase}.jsonld`), JSON.stringify(jsonld, null, 2));
+    console.log(`   ✓ ${outputBase}.jsonld`);
+
+    for (const [extension, content] of [
+      ['.cypher', result.toCypher()],
+      ['.graphml', result.toGraphML()],
+      ['.dot', result.toDOT()],
+    ]) {
+      fs.writeFileSync(path.join(outputDir, `${outputBase}${extension}`), content);
+      console.log(`   ✓ ${outputBase}${extension}`);
+    }
+
+    writeChunks(result, path.join(outputDir, `${outputBase}.chunks`), options.maxTokens);
+  } else if (format === 'chunks') {
+    writeChunks(result, path.join(outputDir, outputBase), options.maxTokens);
+  } else {
+    // Export single format
+    let content: string;
+    let extension: string;
+
+    switch (format) {
+      case 'simple':
+        content = JSON.stringify(result.toSimpleJSON(), null, 2);
+        extension = '.json';
+        break;
+      case 'html':
+        content = result.toHTML();
+        extension = '.html';
+        break;
+      case 'markdown':
+      case 'md':
+        content = result.toMarkdown(options.level);
+        extension = '.md';
+        break;
+      case 'jsonld':
+        content = JSON.stringify(result.toJSONLD(options.jsonld), null, 2);
+        extension = '.jsonld';
+        break;
+      case 'cypher':
+        content = result.toCypher();
+        extension = '.cypher';
+        break;
+      case 'graphml':
+        content = result.toGraphML();
+        extension = '.graphml';
+        break;
+      case 'dot':
+        content = result.toDOT();
+        extension = '.dot';
+        break;
+      case 'full':
+      default:
+        content = JSON.stringify(result.toJSON(), null, 2);
+        extension = '.json';
+        break;
+    }
+
+    const finalPath = outputPath.endsWith(extension) ? outputPath : outputPath + extension;
+    fs.writeFileSync(finalPath, content);
+    console.log(`   ✓ ${path.basename(finalPath)}`);
+  }
+}
+
+/**
+ * Write one JSON file per chunk plus the index.json manifest
+ */
+function writeChunks(result: NgParseResult, directory: string, maxTokens?: number): void {
+  const { chunks, manifest } = result.toChunks({ maxTokens });
+
+  // Remove chunks of a previous run (watch mode, smaller budget)
+  fs.mkdirSync(directory, { recursive: true });
+  for (const file of fs.readdirSync(directory)) {
+    if (/^chunk-\d+-.*\.json$/.test(file)) fs.rmSync(path.join(directory, file));
+  }
+  for (const chunk of chunks) {
+    fs.writeFileSync(path.join(directory, `${chunk.id}.json`), JSON.stringify(chunk, null, 2));
+  }
+  fs.writeFileSync(path.join(directory, 'index.json'), JSON.stringify(manifest, null, 2));
+
+  const oversized = chunks.filter((chunk) => chunk.oversized).length;
+  console.log(
+    `   ✓ ${path.basename(directory)}/ (${chunks.length} chunks, ${manifest.totalTokens} tokens` +
+    `${oversized > 0 ? `, ${oversized} oversized` : ''})`
+  );
+}
+
+/**
+ * Load a JSON export produced by `parse -f full`
+ */
+function loadJsonExport(file: string): any {
+  if (!fs.existsSync(file)) {
+    throw new Error(`File not found: ${file}`);
+  }
+  const data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  if (!Array.isArray(data.entities) || !Array.isArray(data.relationships)) {
+    throw new Error(`Not an ng-parser JSON export (expected entities and relationships): ${file}`);
+  }
+  return data;
+}
+
+/**
+ * Validate a text|json|markdown report format option
+ */
+function reportFormat(format: string): DiffFormat {
+  const normalized = format.toLowerCase();
+  if (!['text', 'json', 'markdown'].includes(normalized)) {
+    throw new Error(`Unknown report format: ${format} (expected text, json or markdown)`);
+  }
+  return normalized as DiffFormat;
+}
+
+/**
+ * Worker thread count of --workers (a bare flag uses all available cores)
+ */
+function workerCount(value: string | boolean | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  if (value === true) return os.availableParallelism();
+
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`Invalid worker count: ${value} (expected a positive integer)`);
+  }
+  return count;
+}
+
+/**
+ * Validate a --level option
+ */
+function detailLevel(level: string | undefined): DetailLevel | undefined {
+  if (level === undefined) return undefined;
+  const normalized = level.toLowerCase() as DetailLevel;
+  if (!DETAIL_LEVELS.includes(normalized)) {
+    throw new Error(`Unknown detail level: ${level} (expected ${DETAIL_LEVELS.join(', ')})`);
+  }
+  return normalized;
+}
+
+/**
+ * Validate a --jsonld-context option
+ */
+function jsonLdContext(mode: string): JsonLdOptions['context'] {
+  const normalized = mode.toLowerCase();
+  if (normalized !== 'embed' && normalized !== 'url') {
+    throw new Error(`Unknown JSON-LD context mode: ${mode} (expected embed or url)`);
+  }
+  return normalized;
+}
+
+/**
+ * Validate a --max-tokens option
+ */
+function tokenBudget(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const tokens = Number(value);
+  if (!Number.isInteger(tokens) || tokens < 1) {
+    throw new Error(`Invalid token budget: ${value} (expected a positive integer)`);
+  }
+  return tokens;
+}
+
+/**
+ * Write a report to a file, or stdout
+ */
+function writeReport(report: string, output?: string): void {
+  if (output) {
+    fs.writeFileSync(path.resolve(output), report);
+    console.log(`✓ ${output}`);
+  } else {
+    process.stdout.write(report.endsWith('\n') ? report : report + '\n');
+  }
+}
+
+const FINDING_REPORT_FORMATS = ['sarif', 'junit', 'checkstyle'];
+
+/**
+ * Accumulate repeated --report options
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Validate --report <format:file> options
+ */
+function findingReports(specs: string[]): Array<{ format: string; file: string }> {
+  return specs.map((spec) => {
+    const separator = spec.indexOf(':');
+    const format = spec.slice(0, separator).toLowerCase();
+    const file = spec.slice(separator + 1);
+    if (separator < 0 || !FINDING_REPORT_FORMATS.includes(format) || !file) {
+      throw new Error(`Invalid report: ${spec} (expected sarif|junit|checkstyle:<file>)`);
+    }
+    return { format, file };
+  });
+}
+
+/**
+ * Write findings as SARIF, JUnit or Checkstyle reports
+ */
+function writeFindingReports(findings: Finding[], reports: Array<{ format: string; file: string }>): void {
+  for (const { format, file } of reports) {
+    const content = format === 'sarif'
+      ? new SarifFormatter(findings, { toolVersion: packageJson.version }).format()
+      : format === 'junit'
+        ? new JUnitFormatter(findings).format()
+        : new CheckstyleFormatter(findings).format();
+    fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+    fs.writeFileSync(path.resolve(file), content);
+    console.log(`   ✓ ${file} (${format}, ${findings.length} finding(s))`);
+  }
+}
+
+/**
+ * Apply --baseline / --update-baseline and return the findings to report
+ *
+ * --update-baseline records all findings (nothing is new afterwards); --baseline keeps only new ones.
+ */
+function baselineFindings(findings: Finding[], options: { baseline?: string; updateBaseline?: boolean }): Finding[] {
+  const file = options.baseline ?? DEFAULT_BASELINE_FILE;
+
+  if (options.updateBaseline) {
+    fs.writeFileSync(path.resolve(file), JSON.stringify(createBaseline(findings), null, 2) + '\n');
+    console.log(`   ✓ ${file} (baseline, ${findings.length} finding(s))`);
+    return [];
+  }
+  if (!options.baseline) {
+    return findings;
+  }
+  if (!fs.existsSync(file)) {
+    throw new Error(`Baseline not found: ${file} (create it with --update-baseline)`);
+  }
+
+  const result = applyBaseline(findings, validateBaseline(JSON.parse(fs.readFileSync(file, 'utf-8'))));
+  const fixed = result.fixed.reduce((sum, entry) => sum + entry.count, 0);
+  console.log(`   Baseline: ${result.new.length} new, ${result.baselined.length} baselined, ${fixed} fixed`);
+  return result.new;
+}
+
 // Parse command
 program
   .command('parse <directory>')
@@ -38,15 +390,32 @@ program
   .option('-o, --output <file>', 'Output file path')
   .option(
     '-f, --format <format>',
-    'Output format: full|simple|html|all',
+    'Output format: full|simple|html|markdown|jsonld|cypher|graphml|dot|chunks|all',
     'full'
   )
+  .option('--level <level>', 'Markdown detail level: overview|features|detailed|complete', 'complete')
+  .option('--max-tokens <count>', 'Token budget per chunk (-f chunks)', String(DEFAULT_CHUNK_TOKENS))
+  .option('--jsonld-context <mode>', 'JSON-LD context: embed|url (-f jsonld)', 'embed')
   .option('--visitors <visitors>', 'Enable visitors (comma-separated: rxjs,security,performance)')
   .option('--all-visitors', 'Enable all built-in visitors')
+  .option('--cache-dir <dir>', 'Enable incremental parsing with a persistent cache directory')
+  .option('--since <ref>', 'Report entities impacted by the files changed since this Git ref')
+  .option('--until <ref>', 'End of the --since range (default: working tree)')
+  .option('--no-workspace', 'Ignore angular.json / project.json and parse the directory as one project')
+  .option('--workers [count]', 'Parse in parallel worker threads (default count: available cores)')
+  .option('--report <format:file>', 'Write visitor findings as sarif|junit|checkstyle (repeatable)', collect, [])
+  .option('--baseline <file>', 'Only report findings missing from this baseline')
+  .option('--update-baseline', `Record current findings in the baseline (default: ${DEFAULT_BASELINE_FILE})`)
   .option('-v, --verbose', 'Verbose output', false)
   .action(async (directory: string, options: any) => {
     try {
       console.log(`🚀 ng-parser v${packageJson.version}\n`);
+      const outputOptions = {
+        level: detailLevel(options.level),
+        maxTokens: tokenBudget(options.maxTokens),
+        jsonld: { context: jsonLdContext(options.jsonldContext) },
+      };
+      const reports = findingReports(options.report);
 
       // Validate directory
       if (!fs.existsSync(directory)) {
@@ -57,32 +426,16 @@ program
       console.log(`📦 Parsing: ${directory}\n`);
 
       // Create parser
-      const parser = new NgParser({ rootDir: directory });
+      const parser = new NgParser({
+        rootDir: directory,
+        cacheDir: options.cacheDir,
+        workspace: options.workspace,
+        workers: workerCount(options.workers),
+        git: options.since ? { since: options.since, until: options.until } : undefined,
+      });
 
       // Register visitors if requested
-      const visitorsEnabled: string[] = [];
-
-      if (options.allVisitors) {
-        parser.registerVisitor(new RxJSPatternVisitor());
-        parser.registerVisitor(new SecurityVisitor());
-        parser.registerVisitor(new PerformanceVisitor());
-        visitorsEnabled.push('RxJS', 'Security', 'Performance');
-      } else if (options.visitors) {
-        const visitorList = options.visitors.split(',').map((v: string) => v.trim().toLowerCase());
-
-        if (visitorList.includes('rxjs')) {
-          parser.registerVisitor(new RxJSPatternVisitor());
-          visitorsEnabled.push('RxJS');
-        }
-        if (visitorList.includes('security') || visitorList.includes('sec')) {
-          parser.registerVisitor(new SecurityVisitor());
-          visitorsEnabled.push('Security');
-        }
-        if (visitorList.includes('performance') || visitorList.includes('perf')) {
-          parser.registerVisitor(new PerformanceVisitor());
-          visitorsEnabled.push('Performance');
-        }
-      }
+      const visitorsEnabled = registerVisitors(parser, options);
 
       if (options.verbose && visitorsEnabled.length > 0) {
         console.log(`🔌 Visitors enabled: ${visitorsEnabled.join(', ')}\n`);
@@ -113,6 +466,17 @@ program
       console.log(`\n   Total entities:       ${result.metadata.totalEntities}`);
       console.log(`   Total relationships:  ${result.metadata.totalRelationships}`);
 
+      // Display workspace projects
+      const workspace = result.metadata.workspace;
+      if (workspace) {
+        console.log(`\n📁 Projects (${workspace.type === 'nx' ? 'Nx' : 'Angular'} workspace):`);
+        for (const project of workspace.projects) {
+          const count = Array.from(result.entities.values()).filter((e) => e.project === project.name).length;
+          const deps = project.dependencies ? ` → ${project.dependencies.join(', ')}` : '';
+          console.log(`   ${project.name.padEnd(20)} ${project.projectType.padEnd(12)} ${count} entities${deps}`);
+        }
+      }
+
       // Display visitor results
       if (visitorsEnabled.length > 0) {
         console.log('\n🔌 Visitor Results:');
@@ -144,73 +508,145 @@ program
         }
       }
 
+      // Display impacted entities
+      const impact = result.metadata.impact;
+      if (impact) {
+        console.log(`\n🎯 Impacted since ${impact.since}: ${impact.changedFiles.length} changed file(s)`);
+        const groups: Array<[string, string[]]> = [
+          ['Components', impact.components],
+          ['Routes', impact.routes],
+          ['Modules', impact.modules],
+        ];
+        for (const [label, ids] of groups) {
+          const names = ids.map((id) => {
+            const entity = result.entities.get(id) as any;
+            return entity?.fullPath ?? entity?.name ?? id;
+          });
+          const shown = options.verbose ? names : names.slice(0, 10);
+          const more = names.length > shown.length ? `, ... (+${names.length - shown.length})` : '';
+          console.log(`   ${label.padEnd(12)} ${names.length}${shown.length > 0 ? `: ${shown.join(', ')}${more}` : ''}`);
+        }
+      }
+
       // Export if output file specified
       if (options.output) {
         console.log('\n💾 Exporting...');
+        writeOutputs(result, options.output, options.format, outputOptions);
+      } else {
+        // Suggest export command
+        console.log('\n💡 Export results:');
+        console.log(`   ng-parser parse ${directory} -o output.json`);
+        console.log(`   ng-parser parse ${directory} -f all -o ./output/project`);
+      }
 
-        const outputPath = path.resolve(options.output);
-        const outputDir = path.dirname(outputPath);
-        const outputBase = path.basename(outputPath, path.extname(outputPath));
+      if (reports.length > 0 || options.baseline || options.updateBaseline) {
+        console.log('\n📋 Reports:');
+        const findings = baselineFindings(collectFindings(result, { rootDir: directory }), options);
+        writeFindingReports(findings, reports);
+      }
 
-        // Create output directory if needed
-        if (!fs.existsSync(outputDir)) {
-          fs.mkdirSync(outputDir, { recursive: true });
-        }
+      console.log('');
+    } catch (error: any) {
+      console.error(`\n❌ Error: ${error.message}`);
+      if (options.verbose) {
+        console.error(error.stack);
+      }
+      process.exit(1);
+    }
+  });
+
+// Watch command
+program
+  .command('watch <directory>')
+  .description('Parse an Angular project and re-emit outputs on file changes')
+  .option('-o, --output <file>', 'Output file path')
+  .option(
+    '-f, --format <format>',
+    'Output format: full|simple|html|markdown|jsonld|cypher|graphml|dot|chunks|all',
+    'full'
+  )
+  .option('--level <level>', 'Markdown detail level: overview|features|detailed|complete', 'complete')
+  .option('--max-tokens <count>', 'Token budget per chunk (-f chunks)', String(DEFAULT_CHUNK_TOKENS))
+  .option('--jsonld-context <mode>', 'JSON-LD context: embed|url (-f jsonld)', 'embed')
+  .option('--visitors <visitors>', 'Enable visitors (comma-separated: rxjs,security,performance)')
+  .option('--all-visitors', 'Enable all built-in visitors')
+  .option('--cache-dir <dir>', 'Persist the incremental parsing cache in this directory')
+  .option('--debounce <ms>', 'Delay before re-parsing after a change', '300')
+  .option('--workers [count]', 'Parse in parallel worker threads (default count: available cores)')
+  .option('-v, --verbose', 'Verbose output', false)
+  .action(async (directory: string, options: any) => {
+    try {
+      console.log(`🚀 ng-parser v${packageJson.version}\n`);
+      const outputOptions = {
+        level: detailLevel(options.level),
+        maxTokens: tokenBudget(options.maxTokens),
+        jsonld: { context: jsonLdContext(options.jsonldContext) },
+      };
 
-        const format = options.format.toLowerCase();
+      if (!fs.existsSync(directory)) {
+        console.error(`❌ Error: Directory not found: ${directory}`);
+        process.exit(1);
+      }
 
-        if (format === 'all') {
-          // Export all formats
-          const fullJson = result.toJSON();
-          fs.writeFileSync(
-            path.join(outputDir, `${outputBase}.full.json`),
-            JSON.stringify(fullJson, null, 2)
-          );
-          console.log(`   ✓ ${outputBase}.full.json`);
+      const parser = new NgParser({
+        rootDir: directory,
+        cacheDir: options.cacheDir,
+        incremental: true,
+        workers: workerCount(options.workers),
+      });
+      const visitorsEnabled = registerVisitors(parser, options);
+      if (options.verbose && visitorsEnabled.length > 0) {
+        console.log(`🔌 Visitors enabled: ${visitorsEnabled.join(', ')}\n`);
+      }
 
-          const simpleJson = result.toSimpleJSON();
-          fs.writeFileSync(
-            path.join(outputDir, `${outputBase}.simple.json`),
-            JSON.stringify(simpleJson, null, 2)
+      const emit = (result: NgParseResult) => {
+        if (options.output) {
+          writeOutputs(result, options.output, options.format, outputOptions);
+        }
+      };
+
+      const watcher = new ProjectWatcher(parser, directory, {
+        debounceMs: parseInt(options.debounce, 10),
+        onUpdate: (result, summary) => {
+          const files = summary.files.length > 3
+            ? `${summary.files.slice(0, 3).join(', ')} (+${summary.files.length - 3})`
+            : summary.files.join(', ');
+          console.log(`\n🔄 Changed: ${files}`);
+          console.log(
+            `   +${summary.added.length} added  -${summary.removed.length} removed  ` +
+            `~${summary.changed.length} changed (${summary.duration}ms)`
           );
-          console.log(`   ✓ ${outputBase}.simple.json`);
-
-          const html = result.toHTML();
-          fs.writeFileSync(path.join(outputDir, `${outputBase}.html`), html);
-          console.log(`   ✓ ${outputBase}.html`);
-        } else {
-          // Export single format
-          let content: string;
-          let extension: string;
-
-          switch (format) {
-            case 'simple':
-              content = JSON.stringify(result.toSimpleJSON(), null, 2);
-              extension = '.json';
-              break;
-            case 'html':
-              content = result.toHTML();
-              extension = '.html';
-              break;
-            case 'full':
-            default:
-              content = JSON.stringify(result.toJSON(), null, 2);
-              extension = '.json';
-              break;
+
+          const lines = [
+            ...summary.added.map((id) => `   + ${id}`),
+            ...summary.removed.map((id) => `   - ${id}`),
+            ...summary.changed.map((id) => `   ~ ${id}`),
+          ];
+          const limit = options.verbose ? lines.length : 10;
+          lines.slice(0, limit).forEach((line) => console.log(line));
+          if (lines.length > limit) {
+            console.log(`   ... and ${lines.length - limit} more`);
           }
 
-          const finalPath = outputPath.endsWith(extension) ? outputPath : outputPath + extension;
-          fs.writeFileSync(finalPath, content);
-          console.log(`   ✓ ${path.basename(finalPath)}`);
-        }
-      } else {
-        // Suggest export command
-        console.log('\n💡 Export results:');
-        console.log(`   ng-parser parse ${directory} -o output.json`);
-        console.log(`   ng-parser parse ${directory} -f all -o ./output/project`);
-      }
+          emit(result);
+        },
+        onError: (error) => {
+          console.error(`\n❌ Error: ${error.message}`);
+          if (options.verbose) {
+            console.error(error.stack);
+          }
+        },
+      });
 
-      console.log('');
+      const result = await watcher.start();
+      emit(result);
+
+      console.log(`\n👀 Watching ${directory} for changes (Ctrl+C to stop)...`);
+
+      process.on('SIGINT', () => {
+        watcher.close();
+        process.exit(0);
+      });
     } catch (error: any) {
       console.error(`\n❌ Error: ${error.message}`);
       if (options.verbose) {
@@ -220,6 +656,318 @@ program
     }
   });
 
+// Serve command
+program
+  .command('serve <directory>')
+  .description('Parse once and answer JSON-RPC / MCP tool calls over stdio, re-parsing on changes')
+  .option('--cache-dir <dir>', 'Persist the incremental parsing cache in this directory')
+  .option('--debounce <ms>', 'Delay before re-parsing after a change', '300')
+  .option('--workers [count]', 'Parse in parallel worker threads (default count: available cores)')
+  .option('--no-watch', 'Serve the initial parse result without watching for changes')
+  .option('-v, --verbose', 'Verbose output', false)
+  .action(async (directory: string, options: any) => {
+    // stdout carries protocol messages only; progress and parser logs go to stderr
+    console.log = console.error;
+
+    try {
+      if (!fs.existsSync(directory)) {
+        throw new Error(`Directory not found: ${directory}`);
+      }
+
+      const parser = new NgParser({
+        rootDir: directory,
+        cacheDir: options.cacheDir,
+        incremental: true,
+        workers: workerCount(options.workers),
+      });
+      const server = new GraphServer(directory, { name: 'ng-parser', version: packageJson.version });
+
+      const watcher = new ProjectWatcher(parser, directory, {
+        debounceMs: parseInt(options.debounce, 10),
+        onUpdate: (result, summary) => {
+          server.update(result);
+          console.error(
+            `🔄 Re-parsed ${summary.files.length} changed file(s): +${summary.added.length} ` +
+            `-${summary.removed.length} ~${summary.changed.length} (${summary.duration}ms)`
+          );
+        },
+        onError: (error) => console.error(`❌ Error: ${error.message}`),
+      });
+
+      const result = await watcher.start();
+      if (!options.watch) watcher.close();
+      server.update(result);
+      console.error(`🔌 Serving ${result.entities.size} entities from ${directory} on stdio`);
+
+      await server.listen(process.stdin, process.stdout);
+      watcher.close();
+    } catch (error: any) {
+      console.error(`❌ Error: ${error.message}`);
+      if (options.verbose) {
+        console.error(error.stack);
+      }
+      process.exit(1);
+    }
+  });
+
+// Check command
+program
+  .command('check <target>')
+  .description('Evaluate architecture rules against a project directory or JSON export (parse -f full)')
+  .option('-r, --rules <file>', `Rules file (default: ${DEFAULT_RULES_FILE} in the project, then the current directory)`)
+  .option('-f, --format <format>', 'Output format: text|json|markdown', 'text')
+  .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+  .option('--workers [count]', 'Parse in parallel worker threads (default count: available cores)')
+  .option('--report <format:file>', 'Also write violations as sarif|junit|checkstyle (repeatable)', collect, [])
+  .option('--baseline <file>', 'Only report violations missing from this baseline')
+  .option('--update-baseline', `Record current violations in the baseline (default: ${DEFAULT_BASELINE_FILE})`)
+  .action(async (target: string, options: any) => {
+    // Keep stdout for the report; parser progress goes to stderr
+    console.log = console.error;
+
+    try {
+      const reports = findingReports(options.report);
+      if (!fs.existsSync(target)) {
+        throw new Error(`Not found: ${target}`);
+      }
+      const isDirectory = fs.statSync(target).isDirectory();
+
+      const candidates = options.rules
+        ? [options.rules]
+        : [path.join(isDirectory ? target : path.dirname(target), DEFAULT_RULES_FILE), DEFAULT_RULES_FILE];
+      const rulesFile = candidates.find((file) => fs.existsSync(file));
+      if (!rulesFile) {
+        throw new Error(`Rules file not found: ${candidates[0]}`);
+      }
+      const rules = validateRules(JSON.parse(fs.readFileSync(rulesFile, 'utf-8')));
+      const format = reportFormat(options.format);
+
+      const result = isDirectory
+        ? await new NgParser({ rootDir: target, workers: workerCount(options.workers) }).parse(target)
+        : loadJsonExport(target);
+
+      const report = evaluateRules(result, rules);
+      const rootDir = isDirectory ? target : undefined;
+      const findings = report.violations.map((violation) => fromWarning(violation, { rootDir }));
+      const reported = baselineFindings(findings, options);
+      if (options.baseline || options.updateBaseline) {
+        const kept = new Set(reported);
+        report.violations = report.violations.filter((_, index) => kept.has(findings[index]));
+        report.summary = { error: 0, warning: 0, info: 0 };
+        report.violations.forEach((violation) => report.summary[violation.severity]++);
+      }
+
+      writeReport(new RuleFormatter(report).format(format), options.output);
+      writeFindingReports(reported, reports);
+
+      if (report.summary.error > 0) {
+        process.exit(1);
+      }
+    } catch (error: any) {
+      console.error(`❌ Error: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+// DI command
+program
+  .command('di <target>')
+  .description('Resolve dependency injection against the injector tree of a project directory or JSON export')
+  .option('-f, --format <format>', 'Output format: text|json|markdown', 'text')
+  .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+  .option('--workers [count]', 'Parse in parallel worker threads (default count: available cores)')
+  .option('--report <format:file>', 'Also write diagnostics as sarif|junit|checkstyle (repeatable)', collect, [])
+  .option('--fail-on-missing', 'Exit with code 1 when an injection has no provider')
+  .action(async (target: string, options: any) => {
+    // Keep stdout for the report; parser progress goes to stderr
+    console.log = console.error;
+
+    try {
+      const reports = findingReports(options.report);
+      const format = reportFormat(options.format);
+      if (!fs.existsSync(target)) {
+        throw new Error(`Not found: ${target}`);
+      }
+      const isDirectory = fs.statSync(target).isDirectory();
+
+      const result = isDirectory
+        ? await new NgParser({ rootDir: target, workers: workerCount(options.workers) }).parse(target)
+        : loadJsonExport(target);
+
+      const report = resolveInjections(result);
+      writeReport(new DiFormatter(report, result.entities).format(format), options.output);
+      const rootDir = isDirectory ? target : undefined;
+      writeFindingReports(report.diagnostics.map((diagnostic) => fromWarning(diagnostic, { rootDir })), reports);
+
+      if (options.failOnMissing && report.diagnostics.length > 0) {
+        process.exit(1);
+      }
+    } catch (error: any) {
+      console.error(`❌ Error: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+// Templates command
+program
+  .command('templates <target>')
+  .description('Check template bindings against component and directive inputs/outputs of a project directory or JSON export')
+  .option('-f, --format <format>', 'Output format: text|json|markdown', 'text')
+  .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+  .option('--workers [count]', 'Parse in parallel worker threads (default count: available cores)')
+  .option('--report <format:file>', 'Also write diagnostics as sarif|junit|checkstyle (repeatable)', collect, [])
+  .option('--members', 'Also report public members unused by templates and private members they reference')
+  .option('--fail-on-error', 'Exit with code 1 on error diagnostics (broken bindings, private members)')
+  .action(async (target: string, options: any) => {
+    // Keep stdout for the report; parser progress goes to stderr
+    console.log = console.error;
+
+    try {
+      const reports = findingReports(options.report);
+      const format = reportFormat(options.format);
+      if (!fs.existsSync(target)) {
+        throw new Error(`Not found: ${target}`);
+      }
+      const isDirectory = fs.statSync(target).isDirectory();
+
+      const result = isDirectory
+        ? await new NgParser({ rootDir: target, workers: workerCount(options.workers) }).parse(target)
+        : loadJsonExport(target);
+
+      const report = validateTemplates(result);
+      const members = options.members ? analyzeTemplateMembers(result) : undefined;
+      writeReport(new TemplateContractFormatter(report, members).format(format), options.output);
+      const rootDir = isDirectory ? target : undefined;
+      const diagnostics = [...report.diagnostics, ...(members?.diagnostics ?? [])];
+      writeFindingReports(diagnostics.map((diagnostic) => fromWarning(diagnostic, { rootDir })), reports);
+
+      if (options.failOnError && diagnostics.some((diagnostic) => diagnostic.severity === 'error')) {
+        process.exit(1);
+      }
+    } catch (error: any) {
+      console.error(`❌ Error: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+// Unused command
+program
+  .command('unused <target>')
+  .description('Report components, directives, pipes, services, InjectionTokens and NgModules nothing uses in a project directory or JSON export')
+  .option('-f, --format <format>', 'Output format: text|json|markdown', 'text')
+  .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+  .option('--workers [count]', 'Parse in parallel worker threads (default count: available cores)')
+  .option('--report <format:file>', 'Also write diagnostics as sarif|junit|checkstyle (repeatable)', collect, [])
+  .option('--entry <name>', 'Entity name or ID used from outside the project (repeatable)', collect, [])
+  .option('--barrel <file>', 'Public API file whose exported entities are entry points (repeatable)', collect, [])
+  .option('--no-bootstrap', 'Do not treat bootstrapped components and NgModules as entry points')
+  .option('--no-routes', 'Do not treat routed and lazily loaded entities as entry points')
+  .option('--fail-on-unused', 'Exit with code 1 when an unused entity is found')
+  .action(async (target: string, options: any) => {
+    // Keep stdout for the report; parser progress goes to stderr
+    console.log = console.error;
+
+    try {
+      const reports = findingReports(options.report);
+      const format = reportFormat(options.format);
+      if (!fs.existsSync(target)) {
+        throw new Error(`Not found: ${target}`);
+      }
+      const isDirectory = fs.statSync(target).isDirectory();
+
+      const result = isDirectory
+        ? await new NgParser({ rootDir: target, workers: workerCount(options.workers) }).parse(target)
+        : loadJsonExport(target);
+
+      // Entity file paths are relative to the Git root when the project is in a repository
+      const repository = result.metadata.repository as { rootDir?: string } | undefined;
+      const report = findUnusedEntities(result, {
+        bootstrap: options.bootstrap,
+        routes: options.routes,
+        barrels: options.barrel,
+        entryPoints: options.entry,
+        rootDir: repository?.rootDir ?? (isDirectory ? target : path.dirname(target)),
+      });
+      writeReport(new UnusedEntityFormatter(report).format(format), options.output);
+      const rootDir = isDirectory ? target : undefined;
+      writeFindingReports(report.diagnostics.map((diagnostic) => fromWarning(diagnostic, { rootDir })), reports);
+
+      if (options.failOnUnused && report.diagnostics.length > 0) {
+        process.exit(1);
+      }
+    } catch (error: any) {
+      console.error(`❌ Error: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+// Diff command
+program
+  .command('diff <before> <after>')
+  .description('Compare two JSON exports (parse -f full) and report entity/relationship changes')
+  .option('-f, --format <format>', 'Output format: text|json|markdown', 'text')
+  .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+  .action((beforeFile: string, afterFile: string, options: any) => {
+    try {
+      const diff = diffResults(loadJsonExport(beforeFile), loadJsonExport(afterFile));
+      writeReport(new DiffFormatter(diff).format(reportFormat(options.format)), options.output);
+    } catch (error: any) {
+      console.error(`❌ Error: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+// API check command
+program
+  .command('api-check <before> <after>')
+  .description('Detect breaking changes of component/directive/pipe contracts between two JSON exports')
+  .option('-f, --format <format>', 'Output format: text|json|markdown', 'text')
+  .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+  .option('--fail-on <severity>', 'Exit with code 1 if the required bump is at least major|minor|patch')
+  .action((beforeFile: string, afterFile: string, options: any) => {
+    try {
+      const report = detectApiChanges(loadJsonExport(beforeFile), loadJsonExport(afterFile));
+      writeReport(new ApiChangeFormatter(report).format(reportFormat(options.format)), options.output);
+
+      if (options.failOn) {
+        const levels = ['patch', 'minor', 'major'];
+        if (!levels.includes(options.failOn)) {
+          throw new Error(`Unknown severity: ${options.failOn} (expected major, minor or patch)`);
+        }
+        if (report.bump !== 'none' && levels.indexOf(report.bump) >= levels.indexOf(options.failOn)) {
+          process.exit(1);
+        }
+      }
+    } catch (error: any) {
+      console.error(`❌ Error: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+// Query command
+program
+  .command('query <result> <expression>')
+  .description('Query a JSON export (parse -f full): find, deps, rdeps or path')
+  .option('-f, --format <format>', 'Output format: text|json|markdown', 'text')
+  .option('-o, --output <file>', 'Write the result to a file instead of stdout')
+  .addHelpText('after', `
+Expressions:
+  find [type=component,directive] [name=*List*] [file=src/app/admin/**] [decorator=Injectable] [project=shop]
+  deps <entity> [depth=2] [via=injects,usesInTemplate]
+  rdeps <entity> [depth=2] [via=injects]
+  path <from> <to> [via=imports] [undirected]
+
+Entities are referenced by ID or unique name.`)
+  .action((resultFile: string, expression: string, options: any) => {
+    try {
+      const result = new GraphQuery(loadJsonExport(resultFile)).run(expression);
+      writeReport(new QueryFormatter(result).format(reportFormat(options.format)), options.output);
+    } catch (error: any) {
+      console.error(`❌ Error: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
 program.parse(process.argv);
 
 // Show help if no command provided
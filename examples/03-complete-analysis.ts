@@ -5,7 +5,7 @@
  * This example demonstrates ALL features of ng-parser:
  * - Core Angular parsing (Components, Services, Modules, Directives, Pipes)
  * - All built-in visitors (RxJS, Security, Performance)
- * - All export formats (JSON, Markdown, GraphRAG, SimpleJSON)
+ * - All export formats (JSON, Markdown, JSON-LD, SimpleJSON)
  * - Advanced analysis and reporting
  */
 
@@ -171,14 +171,14 @@ async function main() {
     console.log(`   ⚠️  Markdown export: ${e.message}`);
   }
 
-  // Export GraphRAG (knowledge graph for graph databases)
+  // Export JSON-LD (knowledge graph for graph databases)
   try {
-    const graphRAG = result.toGraphRAG();
-    fs.writeFileSync(`${outputDir}/ng-parser.graph.json`, JSON.stringify(graphRAG, null, 2));
-    console.log(`   ✓ GraphRAG (knowledge graph) exported (${JSON.stringify(graphRAG).length} bytes)`);
-    console.log(`     → ${outputDir}/ng-parser.graph.json`);
+    const jsonld = result.toJSONLD();
+    fs.writeFileSync(`${outputDir}/ng-parser.jsonld`, JSON.stringify(jsonld, null, 2));
+    console.log(`   ✓ JSON-LD (knowledge graph) exported (${JSON.stringify(jsonld).length} bytes)`);
+    console.log(`     → ${outputDir}/ng-parser.jsonld`);
   } catch (e: any) {
-    console.log(`   ⚠️  GraphRAG export: ${e.message}`);
+    console.log(`   ⚠️  JSON-LD export: ${e.message}`);
   }
 
   // Export SimpleJSON (ng-analyzer compatible, entities only)
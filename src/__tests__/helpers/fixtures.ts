@@ -280,6 +280,48 @@ export class ReversePipe implements PipeTransform {
 }
 `;
 
+export const STANDALONE_ROUTES = `
+import { Routes } from '@angular/router';
+import { HomeComponent } from './home/home.component';
+import { AuthGuard } from './core/auth.guard';
+import { userResolver } from './users/user.resolver';
+
+export const routes: Routes = [
+  { path: '', redirectTo: 'home', pathMatch: 'full' },
+  { path: 'home', component: HomeComponent, title: 'Home' },
+  {
+    path: 'users',
+    canActivate: [AuthGuard],
+    children: [
+      {
+        path: ':id',
+        loadComponent: () => import('./users/user-detail.component').then(m => m.UserDetailComponent),
+        resolve: { user: userResolver },
+        data: { breadcrumb: 'User' },
+      },
+    ],
+  },
+  { path: 'admin', loadChildren: () => import('./admin/admin.routes').then(m => m.ADMIN_ROUTES) },
+  { path: '**', component: HomeComponent },
+];
+`;
+
+export const ROUTER_MODULE_ROUTES = `
+import { NgModule } from '@angular/core';
+import { RouterModule } from '@angular/router';
+import { DashboardComponent } from './dashboard.component';
+
+const appRoutes = [
+  { path: 'dashboard', component: DashboardComponent, canActivate: [() => inject(Auth).isLoggedIn()] },
+];
+
+@NgModule({
+  imports: [RouterModule.forRoot(appRoutes)],
+  exports: [RouterModule],
+})
+export class AppRoutingModule {}
+`;
+
 export const MALFORMED_COMPONENT = `
 import { Component } from '@angular/core';
 
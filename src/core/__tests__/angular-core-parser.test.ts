@@ -0,0 +1,132 @@
+/**
+ * End-to-end tests for AngularCoreParser with a persistent parse cache
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AngularCoreParser } from '../angular-core-parser.js';
+
+// @angular/compiler is ESM-only and cannot be loaded by jest; the fixture has no templates to parse
+jest.mock('@angular/compiler', () => ({}));
+
+const FILES: Record<string, string> = {
+  'tsconfig.json': '{ "compilerOptions": { "strict": true } }',
+  'src/app/home.component.ts': [
+    "import { Component } from '@angular/core';",
+    "import { DataService } from './data.service';",
+    '',
+    "@Component({ selector: 'app-home', standalone: true, template: '' })",
+    'export class HomeComponent {',
+    '  constructor(private data: DataService) {}',
+    '}',
+  ].join('\n'),
+  'src/app/data.service.ts': [
+    "import { Injectable } from '@angular/core';",
+    '',
+    "@Injectable({ providedIn: 'root' })",
+    'export class DataService {}',
+  ].join('\n'),
+  'src/app/app.routes.ts': [
+    "import { Routes } from '@angular/router';",
+    "import { HomeComponent } from './home.component';",
+    '',
+    'export const routes: Routes = [',
+    "  { path: '', component: HomeComponent },",
+    "  { path: 'admin', loadChildren: () => import('./admin.routes').then((m) => m.ADMIN_ROUTES) },",
+    '];',
+  ].join('\n'),
+  'src/app/admin.routes.ts': [
+    "import { HomeComponent } from './home.component';",
+    '',
+    "export const ADMIN_ROUTES = [{ path: 'users', component: HomeComponent }];",
+  ].join('\n'),
+  'src/app/app.config.ts': [
+    "import { ApplicationConfig } from '@angular/core';",
+    "import { provideRouter } from '@angular/router';",
+    "import { routes } from './app.routes';",
+    '',
+    'export const appConfig: ApplicationConfig = { providers: [provideRouter(routes)] };',
+  ].join('\n'),
+  'src/main.ts': [
+    "import { bootstrapApplication } from '@angular/platform-browser';",
+    "import { HomeComponent } from './app/home.component';",
+    "import { appConfig } from './app/app.config';",
+    '',
+    'bootstrapApplication(HomeComponent, appConfig);',
+  ].join('\n'),
+};
+
+describe('AngularCoreParser', () => {
+  let rootDir: string;
+  let cacheDir: string;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ng-parser-project-'));
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ng-parser-cache-'));
+    for (const [file, content] of Object.entries(FILES)) {
+      fs.mkdirSync(path.dirname(path.join(rootDir, file)), { recursive: true });
+      fs.writeFileSync(path.join(rootDir, file), content);
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  /** Parse with a fresh parser, as separate `parse --cache-dir` runs do */
+  const parse = async (options: { cacheDir?: string } = {}) => {
+    const project = await new AngularCoreParser({ rootDir, ...options }).parseProject({ rootDir });
+    return {
+      entities: Array.from(project.entities.values()).sort((a, b) => a.id.localeCompare(b.id)),
+      relationships: [...project.relationships].sort((a, b) => a.id.localeCompare(b.id)),
+      applications: project.metadata.applications,
+    };
+  };
+
+  it('should parse with a persistent cache across runs', async () => {
+    const first = await parse({ cacheDir });
+    expect(fs.existsSync(path.join(cacheDir, 'ng-parser.tsbuildinfo'))).toBe(true);
+
+    const second = await parse({ cacheDir });
+    expect(second.entities.map((e) => e.name)).toEqual(first.entities.map((e) => e.name));
+    expect(second.entities.map((e) => e.name)).toContain('HomeComponent');
+  });
+
+  it('should restore the same result as a clean run', async () => {
+    const clean = await parse();
+    await parse({ cacheDir });
+    const cached = await parse({ cacheDir });
+
+    expect(cached).toEqual(clean);
+    expect(cached.entities.find((e) => e.name === '/')).toMatchObject({ routerConfig: 'provideRouter' });
+    expect(cached.entities.find((e) => e.name === '/admin/users')).toMatchObject({ parentRoute: expect.any(String) });
+  });
+
+  it('should link lazy routes when rootDir is relative', async () => {
+    const cwd = process.cwd();
+    process.chdir(rootDir);
+    try {
+      const project = await new AngularCoreParser({ rootDir: '.' }).parseProject({ rootDir: '.' });
+      const routes = Array.from(project.entities.values()).filter((e) => e.type === 'route');
+
+      expect(routes.map((e) => e.name).sort()).toEqual(['/', '/admin', '/admin/users']);
+      expect(routes.find((e) => e.name === '/admin/users')).toMatchObject({ parentRoute: expect.any(String) });
+    } finally {
+      process.chdir(cwd);
+    }
+  });
+
+  it('should record standalone applications and the providers of their root injector', async () => {
+    const { entities, applications } = await parse();
+
+    expect(applications).toEqual([{
+      component: 'HomeComponent',
+      config: 'appConfig',
+      providers: ['provideRouter(routes)'],
+      location: expect.objectContaining({ filePath: 'src/main.ts', line: 5 }),
+    }]);
+    expect(entities.filter((e) => e.type === 'constant')).toEqual([]);
+  });
+});
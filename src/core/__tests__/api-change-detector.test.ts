@@ -0,0 +1,158 @@
+/**
+ * Unit tests for detectApiChanges / ApiChangeFormatter
+ */
+
+import { detectApiChanges } from '../api-change-detector.js';
+import { ApiChangeFormatter } from '../../formatters/api-change-formatter.js';
+import { EntityType } from '../../types/index.js';
+import type { Entity } from '../../types/index.js';
+
+function entity(type: EntityType, name: string, fields: Record<string, any> = {}, file = name): Entity {
+  return {
+    id: `${type}:src/lib/${file}.ts:${name}`,
+    type,
+    name,
+    location: { filePath: `src/lib/${file}.ts`, start: 0, end: 0, line: 1, column: 0 },
+    modifiers: ['exportkeyword'],
+    ...fields,
+  } as Entity;
+}
+
+const card = (fields: Record<string, any> = {}) =>
+  entity(EntityType.Component, 'CardComponent', {
+    selector: 'lib-card',
+    inputs: [{ name: 'title', propertyName: 'title', type: 'string' }],
+    outputs: [{ name: 'closed', propertyName: 'closed', type: 'void' }],
+    ...fields,
+  });
+
+function check(before: Entity[], after: Entity[]) {
+  return detectApiChanges({ entities: before, relationships: [] }, { entities: after, relationships: [] });
+}
+
+describe('detectApiChanges', () => {
+  it('should report no changes for identical APIs', () => {
+    const report = check([card()], [card()]);
+
+    expect(report.bump).toBe('none');
+    expect(report.changes).toEqual([]);
+  });
+
+  it('should classify removed and renamed inputs as major', () => {
+    const removed = check([card()], [card({ inputs: [] })]);
+    expect(removed.changes).toEqual([
+      expect.objectContaining({ kind: 'input-removed', severity: 'major', member: 'title' }),
+    ]);
+
+    const renamed = check([card()], [card({ inputs: [{ name: 'heading', propertyName: 'heading', type: 'string' }] })]);
+    expect(renamed.changes).toEqual([
+      expect.objectContaining({ kind: 'input-renamed', severity: 'major', before: 'title', after: 'heading' }),
+    ]);
+  });
+
+  it('should pair renames by property name on JSON exports without propertyName', () => {
+    const before = card({ inputs: [{ name: 'title', type: 'string' }, { name: 'size', type: 'number' }, { name: 'value', alias: 'val', type: 'string' }] });
+    const after = card({ inputs: [{ name: 'label', type: 'string' }, { name: 'value', alias: 'current', type: 'string' }] });
+
+    const { changes } = check([before], [after]);
+
+    expect(changes.map((c) => [c.kind, c.member])).toEqual([
+      ['input-renamed', 'current'],
+      ['input-removed', 'title'],
+      ['input-removed', 'size'],
+      ['input-added', 'label'],
+    ]);
+    expect(changes[0]).toMatchObject({ before: 'val', after: 'current' });
+  });
+
+  it('should classify added inputs by requiredness', () => {
+    const report = check([card()], [card({
+      inputs: [
+        { name: 'title', propertyName: 'title', type: 'string' },
+        { name: 'size', propertyName: 'size', type: 'number' },
+        { name: 'id', propertyName: 'id', type: 'string', required: true },
+      ],
+    })]);
+
+    expect(report.changes).toEqual(expect.arrayContaining([
+      expect.objectContaining({ kind: 'input-added', severity: 'minor', member: 'size' }),
+      expect.objectContaining({ kind: 'input-added', severity: 'major', member: 'id' }),
+    ]));
+    expect(report.bump).toBe('major');
+  });
+
+  it('should detect inputs that became required or optional', () => {
+    const required = check([card()], [card({ inputs: [{ name: 'title', propertyName: 'title', type: 'string', required: true }] })]);
+    expect(required.changes[0]).toMatchObject({ kind: 'input-required', severity: 'major' });
+
+    const optional = check(
+      [card({ inputs: [{ name: 'title', propertyName: 'title', type: 'string', required: true }] })],
+      [card()]
+    );
+    expect(optional.changes[0]).toMatchObject({ kind: 'input-optional', severity: 'minor' });
+  });
+
+  it('should treat widened input types as minor and other type changes as major', () => {
+    const widened = check([card()], [card({ inputs: [{ name: 'title', propertyName: 'title', type: 'string | null' }] })]);
+    expect(widened.changes[0]).toMatchObject({ kind: 'input-type-changed', severity: 'minor' });
+
+    const narrowed = check([card()], [card({ inputs: [{ name: 'title', propertyName: 'title', type: 'number' }] })]);
+    expect(narrowed.changes[0]).toMatchObject({ kind: 'input-type-changed', severity: 'major', before: 'string', after: 'number' });
+  });
+
+  it('should classify output changes', () => {
+    expect(check([card()], [card({ outputs: [] })]).changes[0]).toMatchObject({ kind: 'output-removed', severity: 'major' });
+    expect(check([card()], [card({ outputs: [{ name: 'closed', propertyName: 'closed', type: 'boolean' }] })]).changes[0])
+      .toMatchObject({ kind: 'output-type-changed', severity: 'major' });
+  });
+
+  it('should classify selector changes', () => {
+    expect(check([card()], [card({ selector: 'lib-card, [libCard]' })]).changes[0])
+      .toMatchObject({ kind: 'selector-changed', severity: 'minor' });
+    expect(check([card()], [card({ selector: 'ui-card' })]).changes[0])
+      .toMatchObject({ kind: 'selector-changed', severity: 'major' });
+  });
+
+  it('should classify pipe changes', () => {
+    const pipe = (pipeName: string) => entity(EntityType.Pipe, 'DatePipe', { pipeName });
+
+    expect(check([pipe('libDate')], [pipe('date')]).changes[0]).toMatchObject({ kind: 'pipe-name-changed', severity: 'major' });
+    expect(check([pipe('libDate')], []).changes[0]).toMatchObject({ kind: 'entity-removed', severity: 'major' });
+    expect(check([], [pipe('libDate')]).changes[0]).toMatchObject({ kind: 'entity-added', severity: 'minor' });
+  });
+
+  it('should report other changes as patch', () => {
+    const report = check([card()], [card({ providers: ['CardService'] })]);
+
+    expect(report.bump).toBe('patch');
+    expect(report.changes[0]).toMatchObject({ kind: 'implementation-changed', severity: 'patch' });
+  });
+
+  it('should match moved entities by name and ignore non-exported ones', () => {
+    const moved = entity(EntityType.Component, 'CardComponent', { selector: 'lib-card' }, 'card/card');
+    const internal = entity(EntityType.Directive, 'InternalDirective', { modifiers: ['abstractkeyword'] });
+
+    const report = check([entity(EntityType.Component, 'CardComponent', { selector: 'lib-card' })], [moved, internal]);
+
+    expect(report.changes).toEqual([]);
+  });
+});
+
+describe('ApiChangeFormatter', () => {
+  const report = detectApiChanges(
+    { entities: [card()], relationships: [] },
+    { entities: [card({ inputs: [] })], relationships: [] }
+  );
+
+  it('should render text grouped by severity', () => {
+    const text = new ApiChangeFormatter(report).format('text');
+    expect(text).toContain('Required version bump: major');
+    expect(text).toContain("MAJOR:\n  💥 component CardComponent input 'title' was removed");
+  });
+
+  it('should render markdown tables', () => {
+    const markdown = new ApiChangeFormatter(report).format('markdown');
+    expect(markdown).toContain('## ng-parser API check');
+    expect(markdown).toContain('| 💥 major | `CardComponent` | input-removed |');
+  });
+});
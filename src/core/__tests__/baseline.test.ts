@@ -0,0 +1,95 @@
+/**
+ * Unit tests for finding baselines
+ */
+
+import { applyBaseline, createBaseline, fingerprintFinding, validateBaseline } from '../baseline.js';
+import { collectFindings, type Finding } from '../findings.js';
+
+const finding = (ruleId: string, filePath: string, line: number, entityId?: string): Finding => ({
+  ruleId,
+  severity: 'warning',
+  message: ruleId,
+  location: { filePath, line, column: 1 },
+  ...(entityId && { entityId }),
+});
+
+describe('fingerprintFinding', () => {
+  it('should ignore line, column and message', () => {
+    const moved = { ...finding('security/eval', 'src/a.ts', 40, 'c1'), message: 'eval() call in A' };
+    expect(fingerprintFinding(moved)).toBe(fingerprintFinding(finding('security/eval', 'src/a.ts', 12, 'c1')));
+  });
+
+  it('should distinguish rule, entity and file', () => {
+    const base = fingerprintFinding(finding('security/eval', 'src/a.ts', 12, 'c1'));
+    expect(fingerprintFinding(finding('security/Function', 'src/a.ts', 12, 'c1'))).not.toBe(base);
+    expect(fingerprintFinding(finding('security/eval', 'src/a.ts', 12, 'c2'))).not.toBe(base);
+    expect(fingerprintFinding(finding('security/eval', 'src/b.ts', 12, 'c1'))).not.toBe(base);
+  });
+
+  it('should normalize path separators', () => {
+    expect(fingerprintFinding(finding('security/eval', 'src\\a.ts', 1))).toBe(
+      fingerprintFinding(finding('security/eval', 'src/a.ts', 1))
+    );
+  });
+});
+
+describe('createBaseline / applyBaseline', () => {
+  const baseline = createBaseline([
+    finding('security/eval', 'src/a.ts', 12, 'c1'),
+    finding('security/eval', 'src/a.ts', 20, 'c1'),
+    finding('performance/ngfor_without_trackby', 'src/list.ts', 3, 'c2'),
+  ]);
+
+  it('should count findings per fingerprint', () => {
+    expect(baseline.version).toBe(1);
+    expect(baseline.entries.map((e) => [e.ruleId, e.filePath, e.entityId, e.count])).toEqual([
+      ['security/eval', 'src/a.ts', 'c1', 2],
+      ['performance/ngfor_without_trackby', 'src/list.ts', 'c2', 1],
+    ]);
+  });
+
+  it('should report findings beyond the baseline as new and missing ones as fixed', () => {
+    const result = applyBaseline(
+      [
+        finding('security/eval', 'src/a.ts', 14, 'c1'),
+        finding('security/eval', 'src/a.ts', 22, 'c1'),
+        finding('security/eval', 'src/a.ts', 30, 'c1'),
+        finding('security/innerHTML', 'src/b.ts', 5, 'c3'),
+      ],
+      baseline
+    );
+
+    expect(result.baselined.map((f) => f.location?.line)).toEqual([14, 22]);
+    expect(result.new.map((f) => [f.ruleId, f.location?.line])).toEqual([
+      ['security/eval', 30],
+      ['security/innerHTML', 5],
+    ]);
+    expect(result.fixed.map((e) => [e.ruleId, e.count])).toEqual([['performance/ngfor_without_trackby', 1]]);
+  });
+
+  it('should round-trip through JSON', () => {
+    const loaded = validateBaseline(JSON.parse(JSON.stringify(baseline)));
+    expect(applyBaseline([finding('security/eval', 'src/a.ts', 1, 'c1')], loaded).new).toEqual([]);
+  });
+
+  it('should reject invalid baselines', () => {
+    expect(() => validateBaseline({ entries: [] })).toThrow('Invalid baseline');
+    expect(() => validateBaseline({ version: 1, entries: [{ ruleId: 'x' }] })).toThrow('Invalid baseline entry');
+  });
+});
+
+describe('collectFindings rootDir', () => {
+  it('should make absolute paths relative to the root', () => {
+    const findings = collectFindings(
+      {
+        customAnalysis: new Map([
+          ['SecurityVisitor', { patterns: [{ pattern: 'eval', location: { filePath: '/repo/app/src/a.ts', line: 3, column: 1 } }] }],
+        ]),
+        warnings: [{ code: 'w', message: 'w', severity: 'warning', location: { filePath: 'src/b.ts', line: 1, column: 1 } }],
+      },
+      { rootDir: '/repo/app' }
+    );
+
+    expect(findings.map((f) => f.location?.filePath)).toEqual(['src/a.ts', 'src/b.ts']);
+  });
+});
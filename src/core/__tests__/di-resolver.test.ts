@@ -0,0 +1,178 @@
+/**
+ * Unit tests for the DI resolver
+ */
+
+import { DiResolver, resolveInjections } from '../di-resolver.js';
+import type { ApplicationBootstrap, Entity, Relationship } from '../../types/index.js';
+
+const entity = (type: string, name: string, extra: Record<string, unknown> = {}): Entity =>
+  ({
+    id: `${type}:src/${name}.ts:${name}`,
+    type,
+    name,
+    location: { filePath: `src/${name}.ts`, start: 0, end: 0, line: 1, column: 1 },
+    ...extra,
+  }) as Entity;
+
+const entities = [
+  entity('service', 'ApiService', { providedIn: 'root' }),
+  entity('service', 'CacheService'),
+  entity('service', 'ShellStore'),
+  entity('service', 'SettingsService'),
+  entity('constant', 'API_URL', { constantType: 'InjectionToken' }),
+  entity('constant', 'INTERCEPTORS', { constantType: 'InjectionToken' }),
+  entity('component', 'ShellComponent', { providers: [{ provide: 'Store', useExisting: 'ShellStore' }, 'ShellStore'] }),
+  entity('component', 'ChildComponent'),
+  entity('component', 'SettingsComponent'),
+  entity('component', 'AdminComponent'),
+  entity('component', 'CycleComponent', {
+    providers: [
+      { provide: 'A', useExisting: 'B' },
+      { provide: 'B', useExisting: 'A' },
+    ],
+  }),
+  entity('class', 'Store'),
+  entity('module', 'AdminModule', { providers: ['CacheService'] }),
+  entity('route', 'shellRoute', { path: '', fullPath: '/' }),
+  entity('route', 'settingsRoute', { path: 'settings', fullPath: '/settings', providers: ['SettingsService'] }),
+  entity('route', 'adminRoute', { path: 'admin', fullPath: '/admin', loadChildren: './admin.module', lazyExport: 'AdminModule' }),
+];
+
+const applications = [
+  {
+    component: 'ShellComponent',
+    providers: [
+      { provide: 'API_URL', useValue: 'https://api' },
+      { provide: 'INTERCEPTORS', useClass: 'AuthInterceptor', multi: true },
+      { provide: 'INTERCEPTORS', useClass: 'LogInterceptor', multi: true },
+    ],
+    location: { filePath: 'src/main.ts', start: 0, end: 0, line: 3, column: 1 },
+  },
+] as unknown as ApplicationBootstrap[];
+
+const id = (name: string) => entities.find((e) => e.name === name)!.id;
+
+let counter = 0;
+const rel = (type: string, source: string, target: string, metadata?: Record<string, unknown>): Relationship => ({
+  id: `r${++counter}`,
+  type: type as Relationship['type'],
+  source: id(source),
+  target: entities.some((e) => e.name === target) ? id(target) : target,
+  metadata,
+});
+
+const relationships = [
+  rel('routesTo', 'shellRoute', 'ShellComponent'),
+  rel('routesTo', 'settingsRoute', 'SettingsComponent'),
+  rel('lazyLoads', 'adminRoute', 'AdminModule'),
+  rel('declares', 'AdminModule', 'AdminComponent'),
+  rel('usesInTemplate', 'ShellComponent', 'ChildComponent'),
+  rel('injects', 'ChildComponent', 'Store'),                                   // r6: alias from the parent
+  rel('injects', 'ChildComponent', 'API_URL'),                                 // r7: bootstrapApplication() config
+  rel('injects', 'ChildComponent', 'INTERCEPTORS'),                            // r8: multi
+  rel('injects', 'AdminComponent', 'CacheService'),                            // r9: lazy module
+  rel('injects', 'ChildComponent', 'CacheService'),                            // r10: missing
+  rel('injects', 'ChildComponent', 'ApiService', { self: true }),             // r11: missing (self)
+  rel('injects', 'ChildComponent', 'ApiService', { self: true, optional: true }), // r12: optional
+  rel('injects', 'ShellComponent', 'ShellStore', { skipSelf: true }),         // r13: missing (skipSelf)
+  rel('injects', 'SettingsComponent', 'SettingsService'),                      // r14: route providers
+  rel('injects', 'CycleComponent', 'A'),                                       // r15: alias cycle
+  rel('injects', 'ApiService', 'unresolved:HttpClient', { originalName: 'HttpClient' }), // r16: external
+  rel('injects', 'ShellStore', 'ApiService'),                                  // r17: service in an element injector
+];
+
+const report = resolveInjections({ entities, relationships, metadata: { applications } });
+const injection = (relationshipId: string) => report.injections.find((i) => i.relationshipId === relationshipId)!;
+
+describe('DiResolver', () => {
+  it('should model the injector tree', () => {
+    expect(report.injectors.map((i) => [i.id, i.kind, i.parent, i.providers.map((p) => p.token)])).toEqual([
+      ['platform', 'platform', undefined, []],
+      ['root', 'root', 'platform', ['ApiService', 'API_URL', 'INTERCEPTORS', 'INTERCEPTORS']],
+      [id('AdminModule'), 'environment', 'root', ['CacheService']],
+      [id('ShellComponent'), 'element', undefined, ['Store', 'ShellStore']],
+      [id('CycleComponent'), 'element', undefined, ['A', 'B']],
+      [id('settingsRoute'), 'environment', 'root', ['SettingsService']],
+    ]);
+  });
+
+  it('should resolve useExisting aliases from a parent element injector', () => {
+    expect(injection('r6')).toMatchObject({
+      token: 'Store',
+      status: 'resolved',
+      injector: id('ShellComponent'),
+      providedBy: id('ShellComponent'),
+      aliases: ['ShellStore'],
+      providers: [{ token: 'ShellStore', kind: 'class' }],
+    });
+  });
+
+  it('should resolve application config, multi, lazy module and route providers', () => {
+    expect(injection('r7')).toMatchObject({ status: 'resolved', injector: 'root', providedBy: id('ShellComponent') });
+    expect(injection('r8').providers.map((p) => p.implementation)).toEqual(['AuthInterceptor', 'LogInterceptor']);
+    expect(injection('r9')).toMatchObject({ status: 'resolved', injector: id('AdminModule') });
+    expect(injection('r14')).toMatchObject({ status: 'resolved', injector: id('settingsRoute') });
+  });
+
+  it('should honor self, skipSelf and optional', () => {
+    expect(injection('r11')).toMatchObject({ status: 'missing', flags: { self: true } });
+    expect(injection('r12').status).toBe('optional');
+    expect(injection('r13').status).toBe('missing');
+  });
+
+  it('should resolve services from the injector providing them', () => {
+    expect(new DiResolver({ entities, relationships }).injectorChain(entities.find((e) => e.name === 'ShellStore')!)).toEqual([
+      id('ShellComponent'),
+      id('shellRoute'),
+      'root',
+      'platform',
+    ]);
+    expect(injection('r17')).toMatchObject({ status: 'resolved', injector: 'root' });
+    expect(injection('r16')).toMatchObject({ token: 'HttpClient', status: 'external' });
+  });
+
+  it('should report missing providers and alias cycles', () => {
+    expect(report.diagnostics.map((d) => [d.code, d.message, d.relationshipId])).toEqual([
+      ['di-no-provider', 'ChildComponent: no provider for CacheService', 'r10'],
+      ['di-no-provider', 'ChildComponent: no provider for ApiService (@Self)', 'r11'],
+      ['di-no-provider', 'ShellComponent: no provider for ShellStore (@SkipSelf)', 'r13'],
+      ['di-alias-cycle', 'CycleComponent: useExisting cycle A → B → A', 'r15'],
+    ]);
+    expect(report.diagnostics[0].fix).toBe("Set providedIn: 'root' on CacheService or add it to a providers array");
+    expect(report.summary).toEqual({ resolved: 6, optional: 1, external: 1, missing: 4 });
+  });
+
+  it('should hide viewProviders from content projected into a host', () => {
+    const element = (name: string, parent?: number) => ({ name, attributes: [], bindings: [], line: 1, parent });
+    const page = entity('component', 'PageComponent', {
+      selector: 'app-page',
+      viewProviders: ['PageState'],
+      templateAnalysis: { elements: [element('app-tabs'), element('app-panel', 0)] },
+    });
+    const tabs = entity('component', 'TabsComponent', { selector: 'app-tabs', providers: ['TabsState'], viewProviders: ['TabsViewState'] });
+    const panel = entity('component', 'PanelComponent', { selector: 'app-panel' });
+    const header = entity('component', 'HeaderComponent', { selector: 'app-header' });
+    const link = (type: string, source: Entity, target: string): Relationship =>
+      ({ id: `${source.name}->${target}`, type, source: source.id, target }) as Relationship;
+
+    const { injections } = resolveInjections({
+      entities: [page, tabs, panel, header, entity('service', 'TabsViewState')],
+      relationships: [
+        link('usesInTemplate', page, tabs.id),
+        link('usesInTemplate', page, panel.id),
+        link('usesInTemplate', tabs, header.id),
+        link('injects', panel, 'TabsState'),
+        link('injects', panel, 'TabsViewState'),
+        link('injects', panel, 'PageState'),
+        link('injects', header, 'TabsViewState'),
+      ],
+    });
+
+    expect(injections.map((i) => [i.relationshipId, i.status, i.injector])).toEqual([
+      ['PanelComponent->TabsState', 'resolved', tabs.id],
+      ['PanelComponent->TabsViewState', 'missing', undefined],
+      ['PanelComponent->PageState', 'resolved', page.id],
+      ['HeaderComponent->TabsViewState', 'resolved', tabs.id],
+    ]);
+  });
+});
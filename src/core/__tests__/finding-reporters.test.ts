@@ -0,0 +1,144 @@
+/**
+ * Unit tests for findings and the SARIF, JUnit and Checkstyle reporters
+ */
+
+import { collectFindings, findingRules, fromWarning } from '../findings.js';
+import { SarifFormatter } from '../../formatters/sarif-formatter.js';
+import { JUnitFormatter } from '../../formatters/junit-formatter.js';
+import { CheckstyleFormatter } from '../../formatters/checkstyle-formatter.js';
+
+const location = (filePath: string, line: number, column = 3) => ({ filePath, line, column });
+
+const findings = collectFindings({
+  customAnalysis: new Map<string, unknown>([
+    [
+      'SecurityVisitor',
+      {
+        patterns: [
+          { pattern: 'eval', entityId: 'c1', entityName: 'EditorComponent', location: location('src/editor.ts', 12), context: 'eval(code)' },
+          { pattern: 'innerHTML', entityId: 'c1', entityName: 'EditorComponent', location: location('src/editor.ts', 20) },
+        ],
+      },
+    ],
+    [
+      'PerformanceVisitor',
+      { patterns: [{ pattern: 'change_detection_default', entityName: 'ListComponent', location: location('src/list.ts', 4, 1) }] },
+    ],
+    ['RxJSPatternVisitor', { patterns: [{ type: 'Subject', location: location('src/list.ts', 8) }] }],
+    ['TodoVisitor', { patterns: [{ pattern: 'todo', location: location('src/list.ts', 30) }] }],
+  ]),
+  warnings: [
+    { code: 'deprecated-api', message: 'Uses <ComponentFactoryResolver> & "friends"', severity: 'warning', location: location('src/list.ts', 6) },
+  ],
+  errors: [{ code: 'visitor-crash', message: 'TodoVisitor failed', severity: 'error' }],
+});
+
+describe('collectFindings', () => {
+  it('should map visitor patterns to rule IDs with default severities', () => {
+    expect(findings.slice(0, 4)).toEqual([
+      {
+        ruleId: 'security/eval',
+        severity: 'error',
+        message: 'eval() call in EditorComponent: eval(code)',
+        location: location('src/editor.ts', 12),
+        entityId: 'c1',
+      },
+      expect.objectContaining({ ruleId: 'security/innerHTML', severity: 'warning' }),
+      expect.objectContaining({ ruleId: 'performance/change_detection_default', severity: 'info' }),
+      { ruleId: 'todo/todo', severity: 'info', message: 'todo', location: location('src/list.ts', 30) },
+    ]);
+  });
+
+  it('should keep visitor warning and error codes', () => {
+    expect(findings.slice(4).map((f) => [f.ruleId, f.severity, f.location?.line])).toEqual([
+      ['deprecated-api', 'warning', 6],
+      ['visitor-crash', 'error', undefined],
+    ]);
+  });
+
+  it('should map rule violations', () => {
+    const violation = {
+      code: 'ui-onpush', message: 'CardComponent: expected OnPush', severity: 'warning' as const,
+      location: location('src/card.ts', 5), entityId: 'c2', fix: 'Set changeDetection to "OnPush"',
+    };
+    expect(fromWarning(violation)).toEqual({
+      ruleId: 'ui-onpush',
+      severity: 'warning',
+      message: 'CardComponent: expected OnPush',
+      location: location('src/card.ts', 5),
+      entityId: 'c2',
+      fix: 'Set changeDetection to "OnPush"',
+    });
+  });
+
+  it('should list rules once with their descriptions', () => {
+    expect(findingRules(findings).map((r) => [r.id, r.description])).toEqual([
+      ['security/eval', 'eval() call'],
+      ['security/innerHTML', 'innerHTML binding or assignment'],
+      ['performance/change_detection_default', 'Default change detection'],
+      ['todo/todo', 'todo/todo'],
+      ['deprecated-api', 'deprecated-api'],
+      ['visitor-crash', 'visitor-crash'],
+    ]);
+  });
+});
+
+describe('SarifFormatter', () => {
+  const sarif = JSON.parse(new SarifFormatter(findings, { toolVersion: '1.2.3' }).format());
+  const run = sarif.runs[0];
+
+  it('should describe the tool and its rules', () => {
+    expect(sarif.version).toBe('2.1.0');
+    expect(run.tool.driver).toMatchObject({ name: 'ng-parser', version: '1.2.3' });
+    expect(run.tool.driver.rules[2]).toEqual({
+      id: 'performance/change_detection_default',
+      shortDescription: { text: 'Default change detection' },
+      defaultConfiguration: { level: 'note' },
+    });
+  });
+
+  it('should emit results with levels and regions', () => {
+    expect(run.results[0]).toEqual({
+      ruleId: 'security/eval',
+      ruleIndex: 0,
+      level: 'error',
+      message: { text: 'eval() call in EditorComponent: eval(code)' },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: 'src/editor.ts', uriBaseId: '%SRCROOT%' },
+            region: { startLine: 12, startColumn: 3 },
+          },
+        },
+      ],
+    });
+    expect(run.results[5].locations).toBeUndefined();
+  });
+});
+
+describe('JUnitFormatter', () => {
+  const junit = new JUnitFormatter(findings).format();
+
+  it('should group test cases by file and fail on errors and warnings', () => {
+    expect(junit).toContain('<testsuites name="ng-parser" tests="6" failures="4" errors="0">');
+    expect(junit).toContain('<testsuite name="src/editor.ts" tests="2" failures="2" errors="0">');
+    expect(junit).toContain('<testcase name="src/editor.ts:12:3 security/eval" classname="security/eval">');
+    expect(junit).toContain('<system-out>Default change detection in ListComponent</system-out>');
+  });
+
+  it('should escape XML', () => {
+    expect(junit).toContain('message="Uses &lt;ComponentFactoryResolver&gt; &amp; &quot;friends&quot;"');
+  });
+});
+
+describe('CheckstyleFormatter', () => {
+  const checkstyle = new CheckstyleFormatter(findings).format();
+
+  it('should emit one error element per finding', () => {
+    expect(checkstyle).toContain(
+      '<error line="12" column="3" severity="error" message="eval() call in EditorComponent: eval(code)" source="security/eval"/>'
+    );
+    expect(checkstyle).toContain('<file name=".">\n    <error severity="error" message="TodoVisitor failed" source="visitor-crash"/>');
+    expect(checkstyle.match(/<error /g)).toHaveLength(6);
+  });
+});
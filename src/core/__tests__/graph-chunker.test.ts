@@ -0,0 +1,94 @@
+/**
+ * Unit tests for chunkGraph
+ */
+
+import { chunkGraph, estimateTokens } from '../graph-chunker.js';
+import { EntityType, RelationType } from '../../types/index.js';
+import type { Entity, HierarchyNode, KnowledgeGraph, Relationship } from '../../types/index.js';
+
+function component(name: string, size = 0): Entity {
+  return {
+    id: `component:src/app/${name}.ts:${name}`,
+    type: EntityType.Component,
+    name,
+    location: { filePath: `src/app/${name}.ts`, start: 0, end: 0, line: 1, column: 0 },
+    ...(size > 0 ? { documentation: 'x'.repeat(size) } : {}),
+  } as Entity;
+}
+
+function uses(source: Entity, target: Entity): Relationship {
+  return { id: `${source.id}:uses:${target.id}`, type: RelationType.UsesInTemplate, source: source.id, target: target.id };
+}
+
+function node(name: string, entities: Entity[], children: HierarchyNode[] = []): HierarchyNode {
+  return { id: name, name, type: 'feature', entities: entities.map((e) => e.id), children };
+}
+
+function graphOf(entities: Entity[], relationships: Relationship[], hierarchy: HierarchyNode): KnowledgeGraph {
+  return {
+    entities: new Map(entities.map((e) => [e.id, e])),
+    relationships,
+    hierarchy,
+    metadata: { totalEntities: entities.length, totalRelationships: relationships.length, timestamp: '' },
+  };
+}
+
+describe('chunkGraph', () => {
+  const list = component('ListComponent');
+  const item = component('ItemComponent');
+  const login = component('LoginComponent', 800);
+  const button = component('ButtonComponent');
+  const relationships = [uses(list, item), uses(list, button), uses(login, button)];
+  const hierarchy = { ...node('shop', [button], [node('items', [list, item]), node('auth', [login])]), type: 'app' as const };
+  const graph = graphOf([list, item, login, button], relationships, hierarchy);
+
+  it('should keep a graph fitting the budget in one chunk', () => {
+    const { chunks, manifest } = chunkGraph(graph);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].entities).toHaveLength(4);
+    expect(chunks[0].relationships).toHaveLength(3);
+    expect(chunks[0].references).toEqual([]);
+    expect(manifest.totalEntities).toBe(4);
+  });
+
+  it('should split by cluster and record cross-chunk references', () => {
+    const { chunks, manifest } = chunkGraph(graph, { maxTokens: 450 });
+
+    expect(chunks.map((chunk) => chunk.title)).toEqual(['shared', 'items', 'auth']);
+    expect(chunks[1].entities.map((e) => e.name)).toEqual(['ListComponent', 'ItemComponent']);
+    expect(chunks[1].relationships).toEqual([relationships[0]]);
+    expect(chunks[1].references).toEqual([
+      { type: 'usesInTemplate', direction: 'outgoing', entity: list.id, related: button.id, chunk: chunks[0].id },
+    ]);
+    expect(chunks[0].references.map((ref) => ref.related)).toEqual([list.id, login.id]);
+    expect(manifest.entityChunks[login.id]).toBe(chunks[2].id);
+  });
+
+  it('should estimate tokens and stay within the budget', () => {
+    const { chunks, manifest } = chunkGraph(graph, { maxTokens: 450 });
+
+    for (const chunk of chunks) {
+      expect(chunk.tokens).toBeGreaterThanOrEqual(estimateTokens(JSON.stringify({ ...chunk, tokens: 0 })));
+      expect(chunk.tokens).toBeLessThanOrEqual(450);
+    }
+    expect(manifest.totalTokens).toBe(chunks.reduce((sum, chunk) => sum + chunk.tokens, 0));
+  });
+
+  it('should split oversized clusters and flag oversized entities', () => {
+    const huge = component('HugeComponent', 4000);
+    const small = component('SmallComponent');
+    const { chunks } = chunkGraph(graphOf([huge, small], [], node('app', [], [node('big', [huge, small])])), {
+      maxTokens: 500,
+    });
+
+    expect(chunks.map((chunk) => chunk.entities.map((e) => e.name))).toEqual([['HugeComponent'], ['SmallComponent']]);
+    expect(chunks[0].oversized).toBe(true);
+    expect(chunks[1].oversized).toBeUndefined();
+    expect(chunks[1].path).toEqual(['app', 'big']);
+  });
+
+  it('should reject invalid budgets', () => {
+    expect(() => chunkGraph(graph, { maxTokens: 0 })).toThrow('Invalid token budget: 0');
+  });
+});
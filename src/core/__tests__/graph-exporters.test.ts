@@ -0,0 +1,123 @@
+/**
+ * Unit tests for the Cypher, GraphML and DOT exporters
+ */
+
+import { ParseResultImpl } from '../parse-result.js';
+import { collectGraphData } from '../../formatters/graph-data.js';
+import { EntityType, RelationType } from '../../types/index.js';
+import type { Entity, KnowledgeGraph, Relationship } from '../../types/index.js';
+
+function entity(type: EntityType, name: string, fields: Record<string, any> = {}): Entity {
+  return {
+    id: `${type}:src/app/${name}.ts:${name}`,
+    type,
+    name,
+    location: { filePath: `src/app/${name}.ts`, start: 0, end: 0, line: 4, column: 0 },
+    ...fields,
+  } as Entity;
+}
+
+const list = entity(EntityType.Component, 'ListComponent', {
+  selector: 'app-list',
+  standalone: true,
+  location: {
+    filePath: 'src/app/list.ts', start: 0, end: 0, line: 4, column: 0,
+    sourceUrl: 'https://github.com/acme/shop/blob/main/src/app/list.ts#L4',
+  },
+});
+const store = entity(EntityType.Service, "Item'Store", { providedIn: 'root' });
+const shared = entity(EntityType.Module, 'SharedModule');
+
+const relationships: Relationship[] = [
+  {
+    id: 'r1', type: RelationType.Injects, source: list.id, target: store.id,
+    metadata: { classification: 'internal', optional: false, nested: { ignored: true } },
+  },
+  {
+    id: 'r2', type: RelationType.UsesInTemplate, source: list.id, target: 'external:@angular/material:MatTable',
+    metadata: { classification: 'external', originalName: 'MatTable', packageName: '@angular/material' },
+  },
+  { id: 'r3', type: RelationType.Declares, source: shared.id, target: list.id },
+];
+
+const graph: KnowledgeGraph = {
+  entities: new Map([list, store, shared].map((e) => [e.id, e])),
+  relationships,
+  hierarchy: {
+    id: 'root', name: 'shop', type: 'app', entities: [store.id],
+    children: [{ id: shared.id, name: 'SharedModule', type: 'module', entities: [shared.id, list.id], children: [] }],
+  },
+  metadata: { totalEntities: 3, totalRelationships: 3, timestamp: '2024-01-01T00:00:00.000Z' },
+};
+
+const result = new ParseResultImpl(graph, { rootDir: '/projects/shop' });
+
+describe('collectGraphData', () => {
+  it('should add virtual nodes for non-entity targets and keep scalar metadata', () => {
+    const { nodes, edges } = collectGraphData(graph);
+
+    expect(nodes.map((node) => node.label)).toEqual(['component', 'service', 'module', 'external']);
+    expect(nodes[3].properties).toEqual({ name: 'MatTable', type: 'external', packageName: '@angular/material' });
+    expect(nodes[0].properties).toMatchObject({
+      selector: 'app-list',
+      standalone: true,
+      file: 'src/app/list.ts',
+      sourceUrl: 'https://github.com/acme/shop/blob/main/src/app/list.ts#L4',
+    });
+    expect(nodes[1].properties.providedIn).toBe('root');
+    expect(edges[0].properties).toEqual({ classification: 'internal', optional: false });
+  });
+});
+
+describe('CypherFormatter', () => {
+  const cypher = result.toCypher();
+
+  it('should MERGE nodes by ID with a type label', () => {
+    expect(cypher).toContain('CREATE CONSTRAINT ng_entity_id IF NOT EXISTS FOR (n:NgEntity) REQUIRE n.id IS UNIQUE;');
+    expect(cypher).toContain(`MERGE (n:NgEntity {id: '${list.id}'}) SET n:Component, n += {name: 'ListComponent'`);
+    expect(cypher).toContain("SET n:External, n += {name: 'MatTable'");
+  });
+
+  it('should escape string literals', () => {
+    expect(cypher).toContain("name: 'Item\\'Store'");
+  });
+
+  it('should MERGE relationships by ID with metadata', () => {
+    expect(cypher).toContain(
+      "MERGE (a)-[r:USES_IN_TEMPLATE {id: 'r2'}]->(b) SET r += {classification: 'external', originalName: 'MatTable', packageName: '@angular/material'};"
+    );
+    expect(cypher).toContain("MERGE (a)-[r:DECLARES {id: 'r3'}]->(b) SET r += {};");
+  });
+});
+
+describe('GraphMlFormatter', () => {
+  const graphml = result.toGraphML();
+
+  it('should declare typed keys', () => {
+    expect(graphml).toContain('<key id="n_standalone" for="node" attr.name="standalone" attr.type="boolean"/>');
+    expect(graphml).toContain('<key id="n_line" for="node" attr.name="line" attr.type="int"/>');
+    expect(graphml).toContain('<key id="e_classification" for="edge" attr.name="classification" attr.type="string"/>');
+  });
+
+  it('should emit escaped nodes and edges', () => {
+    expect(graphml).toContain(`<node id="${store.id.replace(/'/g, '&apos;')}">`);
+    expect(graphml).toContain('<data key="n_label">Item&apos;Store</data>');
+    expect(graphml).toContain(`<edge id="e0" source="${list.id}" target="${store.id.replace(/'/g, '&apos;')}">`);
+    expect(graphml.match(/<edge /g)).toHaveLength(3);
+  });
+});
+
+describe('DotFormatter', () => {
+  const dot = result.toDOT();
+
+  it('should cluster entities by hierarchy node', () => {
+    expect(dot).toMatch(/subgraph cluster_0 \{\n {4}label="SharedModule";\n {4}style="rounded,dashed";\n {4}"module:/);
+    expect(dot.indexOf(`"${store.id}" [`)).toBeLessThan(dot.indexOf('subgraph cluster_0'));
+  });
+
+  it('should label nodes and dash external edges', () => {
+    expect(dot).toContain(`"${list.id}" [label="ListComponent\\n<component>\\napp-list", fillcolor="#dbeafe", URL=`);
+    expect(dot).toContain(`"${list.id}" -> "external:@angular/material:MatTable" [label="usesInTemplate", style="dashed"];`);
+    expect(dot).toContain(`"${shared.id}" -> "${list.id}" [label="declares"];`);
+  });
+});
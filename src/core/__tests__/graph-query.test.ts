@@ -0,0 +1,145 @@
+/**
+ * Unit tests for GraphQuery
+ */
+
+import { GraphQuery } from '../graph-query.js';
+import { QueryFormatter } from '../../formatters/query-formatter.js';
+import { EntityType, RelationType } from '../../types/index.js';
+import type { Entity, Relationship } from '../../types/index.js';
+
+function entity(type: EntityType, name: string, file: string, fields: Record<string, any> = {}): Entity {
+  return {
+    id: `${type}:${file}:${name}`,
+    type,
+    name,
+    location: { filePath: file, start: 0, end: 0, line: 1, column: 0 },
+    ...fields,
+  } as Entity;
+}
+
+const shell = entity(EntityType.Component, 'ShellComponent', 'src/app/shell.component.ts', {
+  decorators: [{ name: 'Component' }],
+});
+const list = entity(EntityType.Component, 'UserListComponent', 'src/app/users/user-list.component.ts', {
+  decorators: [{ name: 'Component' }],
+});
+const users = entity(EntityType.Service, 'UserService', 'src/app/users/user.service.ts', {
+  decorators: [{ name: 'Injectable' }],
+});
+const http = entity(EntityType.Service, 'ApiClient', 'src/app/core/api-client.ts', {
+  decorators: [{ name: 'Injectable' }],
+});
+const pipe = entity(EntityType.Pipe, 'InitialsPipe', 'src/app/users/initials.pipe.ts');
+
+const rel = (id: string, type: RelationType, source: Entity, target: Entity | string): Relationship => ({
+  id,
+  type,
+  source: source.id,
+  target: typeof target === 'string' ? target : target.id,
+});
+
+const relationships = [
+  rel('r1', RelationType.UsesInTemplate, shell, list),
+  rel('r2', RelationType.Injects, list, users),
+  rel('r3', RelationType.Injects, users, http),
+  rel('r4', RelationType.Imports, list, pipe),
+  rel('r5', RelationType.Imports, list, 'external:@angular/common:DatePipe'),
+];
+
+const query = new GraphQuery({ entities: [shell, list, users, http, pipe], relationships });
+
+describe('GraphQuery', () => {
+  describe('find', () => {
+    it('should filter by type, name glob, file glob and decorator', () => {
+      expect(query.find({ type: 'service' }).map((e) => e.name)).toEqual(['UserService', 'ApiClient']);
+      expect(query.find({ name: '*user*' }).map((e) => e.name)).toEqual(['UserListComponent', 'UserService']);
+      expect(query.find({ file: 'src/app/users/**' })).toHaveLength(3);
+      expect(query.find({ file: 'src/app/*.ts' }).map((e) => e.name)).toEqual(['ShellComponent']);
+      expect(query.find({ decorator: '@Injectable', name: 'Api*' }).map((e) => e.name)).toEqual(['ApiClient']);
+    });
+  });
+
+  describe('get', () => {
+    it('should resolve entities by ID or name', () => {
+      expect(query.get(users.id)).toBe(users);
+      expect(query.get('UserService')).toBe(users);
+      expect(() => query.get('Missing')).toThrow('Entity not found: Missing');
+    });
+  });
+
+  describe('traversals', () => {
+    it('should walk dependencies breadth-first with depth and relationship limits', () => {
+      const steps = query.dependencies('ShellComponent');
+      expect(steps.map((s) => [s.entity.name, s.depth])).toEqual([
+        ['UserListComponent', 1],
+        ['UserService', 2],
+        ['InitialsPipe', 2],
+        ['ApiClient', 3],
+      ]);
+      expect(query.dependencies('ShellComponent', { depth: 2 })).toHaveLength(3);
+      expect(query.dependencies('UserListComponent', { via: ['injects'] }).map((s) => s.entity.name)).toEqual([
+        'UserService',
+        'ApiClient',
+      ]);
+    });
+
+    it('should walk reverse dependencies', () => {
+      const steps = query.dependents('ApiClient');
+      expect(steps.map((s) => s.entity.name)).toEqual(['UserService', 'UserListComponent', 'ShellComponent']);
+      expect(steps[1]).toMatchObject({ depth: 2, from: users.id, relation: 'injects' });
+    });
+  });
+
+  describe('shortestPath', () => {
+    it('should follow relationship direction unless undirected', () => {
+      expect(query.shortestPath('ShellComponent', 'ApiClient')?.map((s) => s.entity.name)).toEqual([
+        'ShellComponent',
+        'UserListComponent',
+        'UserService',
+        'ApiClient',
+      ]);
+      expect(query.shortestPath('InitialsPipe', 'UserService')).toBeUndefined();
+
+      const path = query.shortestPath('InitialsPipe', 'UserService', { undirected: true });
+      expect(path?.map((s) => s.entity.name)).toEqual(['InitialsPipe', 'UserListComponent', 'UserService']);
+      expect(path?.[1]).toMatchObject({ relation: 'imports', reverse: true });
+    });
+  });
+
+  describe('run', () => {
+    it('should evaluate query expressions', () => {
+      expect(query.run('find type=component,pipe file="src/app/users/**"')).toMatchObject({
+        kind: 'entities',
+        entities: [list, pipe],
+      });
+      expect(query.run('rdeps UserService depth=1')).toMatchObject({ kind: 'dependents', root: users });
+      expect(query.run('path ShellComponent InitialsPipe via=usesInTemplate')).toMatchObject({ path: undefined });
+    });
+
+    it('should reject invalid expressions', () => {
+      expect(() => query.run('count')).toThrow('Unknown query: count');
+      expect(() => query.run('deps')).toThrow('expected deps <entity>');
+      expect(() => query.run('deps UserService depth=0')).toThrow('Invalid depth: 0');
+    });
+  });
+});
+
+describe('QueryFormatter', () => {
+  it('should render traversals as indented text', () => {
+    const text = new QueryFormatter(query.run('deps UserListComponent')).format('text');
+    expect(text).toContain('3 dependencies of component UserListComponent');
+    expect(text).toContain('  --injects--> service UserService\n    --injects--> service ApiClient');
+  });
+
+  it('should render compact JSON', () => {
+    const json = JSON.parse(new QueryFormatter(query.run('path ShellComponent UserService')).format('json'));
+    expect(json.found).toBe(true);
+    expect(json.path[1]).toEqual({
+      id: list.id,
+      type: 'component',
+      name: 'UserListComponent',
+      file: 'src/app/users/user-list.component.ts',
+      relation: 'usesInTemplate',
+    });
+  });
+});
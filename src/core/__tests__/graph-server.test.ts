@@ -0,0 +1,159 @@
+/**
+ * Unit tests for the JSON-RPC / MCP graph server
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import { GraphServer } from '../graph-server.js';
+import { EntityType, RelationType } from '../../types/index.js';
+import type { Entity, Relationship } from '../../types/index.js';
+
+const source = [
+  "import { Component, input } from '@angular/core';",
+  '',
+  '@Component({ selector: "app-badge", template: "{{ label() | initials }}" })',
+  'export class BadgeComponent {',
+  '  label = input.required<string>();',
+  '}',
+].join('\n');
+
+function entity(type: EntityType, name: string, file: string, fields: Record<string, any> = {}): Entity {
+  return {
+    id: `${type}:${file}:${name}`,
+    type,
+    name,
+    location: { filePath: file, start: 0, end: 0, line: 1, column: 0 },
+    ...fields,
+  } as Entity;
+}
+
+const badge = entity(EntityType.Component, 'BadgeComponent', 'src/badge.component.ts', {
+  selector: 'app-badge',
+  standalone: true,
+  inputs: [{ name: 'label', propertyName: 'label', type: 'string', required: true, isSignal: true }],
+  location: { filePath: 'src/badge.component.ts', start: source.indexOf('@Component'), end: source.length, line: 3, column: 0 },
+});
+const card = entity(EntityType.Component, 'CardComponent', 'src/card.component.ts');
+const page = entity(EntityType.Component, 'PageComponent', 'src/page.component.ts');
+const initials = entity(EntityType.Pipe, 'InitialsPipe', 'src/initials.pipe.ts', { pipeName: 'initials', pure: true });
+
+const relationships: Relationship[] = [
+  {
+    id: 'r1', type: RelationType.UsesInTemplate, source: card.id, target: badge.id,
+    metadata: { templateUsage: 'component', selector: 'app-badge' },
+  },
+  { id: 'r2', type: RelationType.UsesInTemplate, source: page.id, target: card.id, metadata: { templateUsage: 'component' } },
+  { id: 'r3', type: RelationType.UsesInTemplate, source: badge.id, target: 'initials', metadata: { templateUsage: 'pipe' } },
+];
+
+describe('GraphServer', () => {
+  let rootDir: string;
+  let server: GraphServer;
+
+  beforeAll(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ng-parser-server-'));
+    fs.mkdirSync(path.join(rootDir, 'src'));
+    fs.writeFileSync(path.join(rootDir, 'src/badge.component.ts'), source);
+
+    server = new GraphServer(rootDir, { version: '1.0.0' });
+    server.update({ entities: [badge, card, page, initials], relationships });
+  });
+
+  afterAll(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  const call = (method: string, params?: any) => server.handle({ jsonrpc: '2.0', id: 1, method, params });
+
+  it('should answer the MCP handshake and list tools', () => {
+    expect(call('initialize')?.result).toMatchObject({
+      capabilities: { tools: {} },
+      serverInfo: { name: 'ng-parser', version: '1.0.0' },
+    });
+    expect(server.handle({ jsonrpc: '2.0', method: 'notifications/initialized' })).toBeUndefined();
+    expect((call('tools/list')?.result as any).tools.map((t: any) => t.name)).toEqual([
+      'find_entities',
+      'get_component_contract',
+      'list_dependents',
+      'list_template_usages',
+      'get_source_snippet',
+    ]);
+  });
+
+  it('should wrap tool results as MCP text content', () => {
+    const result = call('tools/call', { name: 'find_entities', arguments: { type: 'component', name: '*card*' } })?.result as any;
+    expect(JSON.parse(result.content[0].text)).toEqual({
+      total: 1,
+      entities: [{ id: card.id, type: 'component', name: 'CardComponent', file: 'src/card.component.ts', line: 1 }],
+    });
+
+    const failed = call('tools/call', { name: 'get_component_contract', arguments: { entity: 'Missing' } })?.result;
+    expect(failed).toEqual({ content: [{ type: 'text', text: 'Entity not found: Missing' }], isError: true });
+  });
+
+  it('should return component contracts', () => {
+    expect(call('get_component_contract', { entity: 'BadgeComponent' })?.result).toMatchObject({
+      selector: 'app-badge',
+      standalone: true,
+      inputs: [{ name: 'label', required: true }],
+      outputs: [],
+    });
+    expect(call('get_component_contract', { entity: 'InitialsPipe' })?.result).toMatchObject({ pipeName: 'initials', pure: true });
+  });
+
+  it('should list dependents and template usages', () => {
+    const dependents = call('list_dependents', { entity: badge.id })?.result as any[];
+    expect(dependents.map((d) => [d.name, d.depth])).toEqual([['CardComponent', 1], ['PageComponent', 2]]);
+
+    expect(call('list_template_usages', { entity: 'InitialsPipe' })?.result).toMatchObject([
+      { name: 'BadgeComponent', usage: 'pipe', template: 'src/badge.component.ts' },
+    ]);
+  });
+
+  it('should return source snippets by entity or location', () => {
+    expect(call('get_source_snippet', { entity: 'BadgeComponent' })?.result).toMatchObject({
+      startLine: 3,
+      endLine: 6,
+      code: source.slice(source.indexOf('@Component')),
+    });
+    expect(call('get_source_snippet', { filePath: 'src/badge.component.ts', line: 5, context: 0 })?.result).toMatchObject({
+      code: '  label = input.required<string>();',
+    });
+    expect(call('get_source_snippet', { filePath: '../secret.txt' })?.error?.message).toBe('File outside project root: ../secret.txt');
+  });
+
+  it('should resolve snippets against the repository root for projects in a subdirectory', () => {
+    const projectDir = path.join(rootDir, 'apps/shop');
+    fs.mkdirSync(path.join(projectDir, 'src'), { recursive: true });
+    fs.writeFileSync(path.join(projectDir, 'src/badge.component.ts'), source);
+
+    const nested = new GraphServer(projectDir);
+    const moved = { ...badge, location: { ...badge.location, filePath: 'apps/shop/src/badge.component.ts' } };
+    nested.update({ entities: [moved], relationships: [], metadata: { repository: { rootDir } } });
+    const snippet = (params: any) => nested.handle({ jsonrpc: '2.0', id: 1, method: 'get_source_snippet', params });
+
+    expect(snippet({ entity: 'BadgeComponent' })?.result).toMatchObject({ startLine: 3, endLine: 6 });
+    expect(snippet({ filePath: 'apps/shop/src/badge.component.ts', line: 5, context: 0 })?.result).toMatchObject({
+      code: '  label = input.required<string>();',
+    });
+    expect(snippet({ filePath: '../secret.txt' })?.error?.message).toBe('File outside project root: ../secret.txt');
+  });
+
+  it('should report JSON-RPC errors', () => {
+    expect(call('unknown')?.error).toEqual({ code: -32601, message: 'Method not found: unknown' });
+    expect(server.handleLine('{')?.error?.code).toBe(-32700);
+  });
+
+  it('should serve newline-delimited messages', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const done = server.listen(input, output);
+
+    input.end('{"jsonrpc":"2.0","id":7,"method":"ping"}\n\n');
+    await done;
+
+    expect(output.read().toString()).toBe('{"jsonrpc":"2.0","id":7,"result":{}}\n');
+  });
+});
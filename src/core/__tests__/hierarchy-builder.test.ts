@@ -0,0 +1,137 @@
+/**
+ * Unit tests for HierarchyBuilder
+ */
+
+import { HierarchyBuilder, collectHierarchyEntities } from '../hierarchy-builder.js';
+import { EntityType, RelationType } from '../../types/index.js';
+import type { Entity, HierarchyNode, Relationship } from '../../types/index.js';
+
+function entity(type: EntityType, name: string, filePath: string, extra: Record<string, any> = {}): Entity {
+  return {
+    id: `${type}:${filePath}:${name}`,
+    type,
+    name,
+    location: { filePath, start: 0, end: 0, line: 1, column: 0 },
+    ...extra,
+  } as Entity;
+}
+
+function rel(type: RelationType, source: Entity, target: Entity): Relationship {
+  return { id: `${source.id}:${type}:${target.id}`, type, source: source.id, target: target.id };
+}
+
+function findNode(node: HierarchyNode, id: string): HierarchyNode | undefined {
+  if (node.id === id) return node;
+  for (const child of node.children) {
+    const found = findNode(child, id);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function nodeOf(root: HierarchyNode, entityId: string): HierarchyNode | undefined {
+  if (root.entities.includes(entityId)) return root;
+  for (const child of root.children) {
+    const found = nodeOf(child, entityId);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function build(entities: Entity[], relationships: Relationship[]): HierarchyNode {
+  return new HierarchyBuilder(new Map(entities.map((e) => [e.id, e])), relationships).build();
+}
+
+describe('HierarchyBuilder', () => {
+  // Standalone app: routes -> components -> shared imports
+  const appComponent = entity(EntityType.Component, 'AppComponent', 'src/app/app.component.ts');
+  const home = entity(EntityType.Component, 'HomeComponent', 'src/app/home/home.component.ts');
+  const userList = entity(EntityType.Component, 'UserListComponent', 'src/app/users/user-list.component.ts');
+  const userCard = entity(EntityType.Component, 'UserCardComponent', 'src/app/users/user-card.component.ts');
+  const userService = entity(EntityType.Service, 'UserService', 'src/app/users/user.service.ts');
+  const avatar = entity(EntityType.Component, 'AvatarComponent', 'src/app/shared/avatar.component.ts');
+  const homeRoute = entity(EntityType.Route, '/home', 'src/app/app.routes.ts', { path: 'home', fullPath: '/home' });
+  const usersRoute = entity(EntityType.Route, '/users', 'src/app/app.routes.ts', { path: 'users', fullPath: '/users' });
+  const fallbackRoute = entity(EntityType.Route, '/**', 'src/app/app.routes.ts', { path: '**', fullPath: '/**', redirectTo: 'home' });
+
+  const entities = [appComponent, home, userList, userCard, userService, avatar, homeRoute, usersRoute, fallbackRoute];
+  const relationships = [
+    rel(RelationType.RoutesTo, homeRoute, home),
+    rel(RelationType.LazyLoads, usersRoute, userList),
+    rel(RelationType.Imports, userList, userCard),
+    rel(RelationType.Injects, userCard, userService),
+    rel(RelationType.Imports, home, avatar),
+    rel(RelationType.Imports, userCard, avatar),
+  ];
+
+  it('should assign every entity exactly once', () => {
+    const root = build(entities, relationships);
+
+    const assigned = collectHierarchyEntities(root);
+    expect(assigned.sort()).toEqual(entities.map((e) => e.id).sort());
+  });
+
+  it('should create features from top-level routes with component nodes', () => {
+    const root = build(entities, relationships);
+
+    const users = findNode(root, 'feature:users')!;
+    expect(users.type).toBe('feature');
+    expect(users.entities).toContain(usersRoute.id);
+
+    const listNode = findNode(root, userList.id)!;
+    expect(listNode.type).toBe('component');
+    expect(users.children).toContain(listNode);
+  });
+
+  it('should pull exclusive standalone import trees into the component node', () => {
+    const root = build(entities, relationships);
+
+    expect(nodeOf(root, userCard.id)!.id).toBe(userList.id);
+    expect(nodeOf(root, userService.id)!.id).toBe(userList.id);
+  });
+
+  it('should keep shared dependencies and catch-all routes at the app root', () => {
+    const root = build(entities, relationships);
+
+    expect(root.type).toBe('app');
+    expect(nodeOf(root, avatar.id)).toBe(root);
+    expect(nodeOf(root, fallbackRoute.id)).toBe(root);
+    expect(nodeOf(root, appComponent.id)).toBe(root);
+  });
+
+  it('should nest NgModules with their declarations under the lazy-loading feature', () => {
+    const adminModule = entity(EntityType.Module, 'AdminModule', 'src/app/admin/admin.module.ts');
+    const adminRouting = entity(EntityType.Module, 'AdminRoutingModule', 'src/app/admin/admin-routing.module.ts');
+    const dashboard = entity(EntityType.Component, 'DashboardComponent', 'src/app/admin/dashboard.component.ts');
+    const adminRoute = entity(EntityType.Route, '/admin', 'src/app/app.routes.ts', { path: 'admin', fullPath: '/admin' });
+
+    const root = build(
+      [adminModule, adminRouting, dashboard, adminRoute],
+      [
+        rel(RelationType.Declares, adminModule, dashboard),
+        rel(RelationType.Imports, adminModule, adminRouting),
+        rel(RelationType.LazyLoads, adminRoute, adminModule),
+      ]
+    );
+
+    const feature = findNode(root, 'feature:admin')!;
+    const moduleNode = findNode(root, adminModule.id)!;
+    expect(moduleNode.type).toBe('module');
+    expect(feature.children).toContain(moduleNode);
+    expect(moduleNode.entities).toEqual([adminModule.id, dashboard.id].sort());
+    expect(moduleNode.children.map((c) => c.id)).toEqual([adminRouting.id]);
+  });
+
+  it('should fall back to folder layout for unrelated entities', () => {
+    const a = entity(EntityType.Service, 'OrderService', 'src/app/orders/order.service.ts');
+    const b = entity(EntityType.Pipe, 'OrderStatusPipe', 'src/app/orders/order-status.pipe.ts');
+    const c = entity(EntityType.Service, 'LoggerService', 'src/app/core/logger.service.ts');
+
+    const root = build([a, b, c], []);
+
+    const orders = findNode(root, 'feature:orders')!;
+    expect(orders.entities).toEqual([a.id, b.id].sort());
+    // A single entity does not make a feature
+    expect(nodeOf(root, c.id)).toBe(root);
+  });
+});
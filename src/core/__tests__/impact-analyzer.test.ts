@@ -0,0 +1,84 @@
+/**
+ * Unit tests for analyzeImpact
+ */
+
+import { analyzeImpact } from '../impact-analyzer.js';
+import { EntityType, RelationType } from '../../types/index.js';
+import type { Entity, Relationship } from '../../types/index.js';
+
+function entity(type: EntityType, name: string, filePath: string, fields: Record<string, any> = {}): Entity {
+  return {
+    id: `${type}:${filePath}:${name}`,
+    type,
+    name,
+    location: { filePath, start: 0, end: 0, line: 1, column: 0 },
+    ...fields,
+  } as Entity;
+}
+
+function rel(type: RelationType, source: Entity, target: Entity): Relationship {
+  return { id: `${source.id}:${type}:${target.id}`, type, source: source.id, target: target.id };
+}
+
+describe('analyzeImpact', () => {
+  const service = entity(EntityType.Service, 'UserService', 'src/app/users/user.service.ts');
+  const list = entity(EntityType.Component, 'UserListComponent', 'src/app/users/user-list.component.ts', {
+    templateLocation: { filePath: 'src/app/users/user-list.component.html', exists: true },
+    styleLocations: [{ originalPath: './user-list.component.scss', filePath: 'src/app/users/user-list.component.scss', exists: true }],
+  });
+  const page = entity(EntityType.Component, 'UsersPageComponent', 'src/app/users/users-page.component.ts');
+  const module = entity(EntityType.Module, 'UsersModule', 'src/app/users/users.module.ts');
+  const parentRoute = entity(EntityType.Route, '/users', 'src/app/app.routes.ts', { children: [] as string[] });
+  const childRoute = entity(EntityType.Route, '/list', 'src/app/users/users.routes.ts', { parentRoute: parentRoute.id });
+  const home = entity(EntityType.Component, 'HomeComponent', 'src/app/home.component.ts');
+
+  const entities = new Map([service, list, page, module, parentRoute, childRoute, home].map((e) => [e.id, e]));
+  const relationships = [
+    rel(RelationType.Injects, list, service),
+    rel(RelationType.UsesInTemplate, page, list),
+    rel(RelationType.Declares, module, list),
+    rel(RelationType.RoutesTo, childRoute, page),
+  ];
+
+  it('should walk dependents transitively', () => {
+    const impact = analyzeImpact(entities, relationships, ['src/app/users/user.service.ts'], { since: 'main' });
+
+    expect(impact.changedEntities).toEqual([service.id]);
+    expect(impact.impactedEntities.map((e) => [e.name, e.depth])).toEqual([
+      ['UserService', 0],
+      ['UserListComponent', 1],
+      ['UsersPageComponent', 2],
+      ['UsersModule', 2],
+      ['/list', 3],
+      ['/users', 4],
+    ]);
+    expect(impact.impactedEntities.find((e) => e.name === '/users')).toMatchObject({
+      via: childRoute.id,
+      relation: 'childRoute',
+    });
+  });
+
+  it('should group impacted components, routes and modules', () => {
+    const impact = analyzeImpact(entities, relationships, ['src/app/users/user.service.ts'], { since: 'main' });
+
+    expect(impact.components).toEqual([list.id, page.id]);
+    expect(impact.routes).toEqual([childRoute.id, parentRoute.id]);
+    expect(impact.modules).toEqual([module.id]);
+    expect(impact.files).not.toContain('src/app/home.component.ts');
+  });
+
+  it('should map template and style files to their component', () => {
+    const template = analyzeImpact(entities, relationships, ['src/app/users/user-list.component.html'], { since: 'main' });
+    const style = analyzeImpact(entities, relationships, ['src/app/users/user-list.component.scss'], { since: 'main' });
+
+    expect(template.changedEntities).toEqual([list.id]);
+    expect(style.changedEntities).toEqual([list.id]);
+  });
+
+  it('should report nothing for files without entities', () => {
+    const impact = analyzeImpact(entities, relationships, ['README.md'], { since: 'HEAD~1', until: 'HEAD' });
+
+    expect(impact).toMatchObject({ since: 'HEAD~1', until: 'HEAD', changedFiles: ['README.md'] });
+    expect(impact.impactedEntities).toEqual([]);
+  });
+});
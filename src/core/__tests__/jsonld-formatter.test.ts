@@ -0,0 +1,107 @@
+/**
+ * Unit tests for JsonLdFormatter / ParseResultImpl.toJSONLD
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ParseResultImpl } from '../parse-result.js';
+import { JsonLdFormatter, toNodeId } from '../../formatters/jsonld-formatter.js';
+import { JSONLD_CONTEXT, JSONLD_CONTEXT_URL } from '../../formatters/jsonld-context.js';
+import { EntityType, RelationType } from '../../types/index.js';
+import type { Entity, KnowledgeGraph, Relationship } from '../../types/index.js';
+
+function entity(type: EntityType, name: string, fields: Record<string, any> = {}): Entity {
+  return {
+    id: `${type}:src/app/${name}.ts:${name}`,
+    type,
+    name,
+    location: { filePath: `src/app/${name}.ts`, start: 0, end: 0, line: 5, column: 0 },
+    ...fields,
+  } as Entity;
+}
+
+function rel(type: RelationType, source: Entity, target: Entity): Relationship {
+  return { id: `${source.id}:${type}:${target.id}`, type, source: source.id, target: target.id };
+}
+
+const list = entity(EntityType.Component, 'ListComponent', {
+  selector: 'app-list',
+  standalone: true,
+  inputs: [{ name: 'items', propertyName: 'items' }],
+  location: {
+    filePath: 'src/app/list.ts', start: 0, end: 0, line: 5, column: 0,
+    sourceUrl: 'https://github.com/acme/shop/blob/main/src/app/list.ts#L5',
+  },
+});
+const store = entity(EntityType.Service, 'ItemStore', { providedIn: 'root' });
+const route = entity(EntityType.Route, 'items', { path: 'items', fullPath: '/items' });
+
+const graph: KnowledgeGraph = {
+  entities: new Map([list, store, route].map((e) => [e.id, e])),
+  relationships: [
+    rel(RelationType.Injects, list, store),
+    rel(RelationType.Injects, list, store),
+    rel(RelationType.RoutesTo, route, list),
+  ],
+  hierarchy: { id: 'root', name: 'shop', type: 'app', entities: [], children: [] },
+  metadata: { angularVersion: '19.0.0', totalEntities: 3, totalRelationships: 3, timestamp: '2024-01-01T00:00:00.000Z' },
+};
+
+const config = { rootDir: '/projects/shop' };
+
+describe('JsonLdFormatter', () => {
+  const document = new JsonLdFormatter(graph, config).format();
+  const node = (id: string) => document['@graph'].find((n: any) => n['@id'] === toNodeId(id));
+
+  it('should embed the context by default', () => {
+    expect(document['@context']).toBe(JSONLD_CONTEXT);
+  });
+
+  it('should reference the context URL on request', () => {
+    const json = new ParseResultImpl(graph, config).toJSONLD({ context: 'url' });
+    expect(json['@context']).toBe(JSONLD_CONTEXT_URL);
+  });
+
+  it('should emit typed nodes with stable IDs', () => {
+    expect(node(list.id)).toEqual({
+      '@id': `entity:${list.id}`,
+      '@type': 'ng:Component',
+      name: 'ListComponent',
+      filePath: 'src/app/list.ts',
+      line: 5,
+      url: 'https://github.com/acme/shop/blob/main/src/app/list.ts#L5',
+      selector: 'app-list',
+      standalone: true,
+      inputs: ['items'],
+      injects: [toNodeId(store.id)],
+    });
+    expect(node(store.id)['@type']).toBe('ng:Service');
+    expect(node(route.id)).toMatchObject({ '@type': 'ng:Route', path: 'items', fullPath: '/items' });
+  });
+
+  it('should express relationships as linked properties', () => {
+    expect(node(route.id).routesTo).toEqual([toNodeId(list.id)]);
+    expect(node(store.id).injects).toBeUndefined();
+  });
+
+  it('should describe the project', () => {
+    expect(document['@graph'][0]).toMatchObject({ '@id': 'entity:project', '@type': 'code', name: 'shop', angularVersion: '19.0.0' });
+  });
+
+  it('should define every emitted property in the context', () => {
+    const keys = new Set(document['@graph'].flatMap((n: any) => Object.keys(n)));
+    const builtIns = ['@id', '@type', 'name', 'description', 'programmingLanguage', 'dateCreated'];
+    for (const key of keys) {
+      if (!builtIns.includes(key as string)) expect(JSONLD_CONTEXT).toHaveProperty([key as string]);
+    }
+  });
+
+  it('should match the published jsonld-context.json', () => {
+    const file = path.resolve(__dirname, '../../formatters/jsonld-context.json');
+    expect(JSON.parse(fs.readFileSync(file, 'utf-8'))).toEqual({ '@context': JSONLD_CONTEXT });
+  });
+
+  it('should reject unknown context modes', () => {
+    expect(() => new JsonLdFormatter(graph, config, { context: 'inline' as any })).toThrow('Unknown JSON-LD context mode');
+  });
+});
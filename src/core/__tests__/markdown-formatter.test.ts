@@ -0,0 +1,99 @@
+/**
+ * Unit tests for MarkdownFormatter / ParseResultImpl.toMarkdown
+ */
+
+import { ParseResultImpl } from '../parse-result.js';
+import { MarkdownFormatter } from '../../formatters/markdown-formatter.js';
+import { EntityType, RelationType } from '../../types/index.js';
+import type { Entity, KnowledgeGraph } from '../../types/index.js';
+
+function entity(type: EntityType, name: string, fields: Record<string, any> = {}): Entity {
+  return {
+    id: `${type}:src/app/${name}.ts:${name}`,
+    type,
+    name,
+    location: { filePath: `src/app/${name}.ts`, start: 0, end: 0, line: 3, column: 0 },
+    ...fields,
+  } as Entity;
+}
+
+const list = entity(EntityType.Component, 'ListComponent', {
+  selector: 'app-list',
+  standalone: true,
+  inputs: [{ name: 'items', propertyName: 'items', type: 'Item[]', required: true }],
+  outputs: [{ name: 'selected', propertyName: 'selected', type: 'EventEmitter<Item>' }],
+  dependencies: [{ name: 'store', type: 'ItemStore' }],
+  templateAnalysis: {
+    usedComponents: ['app-card'],
+    usedDirectives: [],
+    usedPipes: ['async'],
+    bindings: [],
+    templateRefs: [],
+    controlFlow: [{ type: 'for', line: 2, expression: 'items', alias: 'item', track: 'item.id' }],
+  },
+});
+const store = entity(EntityType.Service, 'ItemStore', { providedIn: 'root' });
+const date = entity(EntityType.Pipe, 'DatePipe', { pipeName: 'date | short' });
+
+const graph: KnowledgeGraph = {
+  entities: new Map([list, store, date].map((e) => [e.id, e])),
+  relationships: [{ id: 'r1', type: RelationType.Injects, source: list.id, target: store.id }],
+  hierarchy: {
+    id: 'root',
+    name: 'shop',
+    type: 'app',
+    entities: [date.id],
+    children: [{ id: 'items', name: 'items', type: 'feature', entities: [list.id, store.id], children: [] }],
+  },
+  metadata: { totalEntities: 3, totalRelationships: 1, timestamp: '2024-01-01T00:00:00.000Z' },
+};
+
+const config = { rootDir: '/projects/shop/src' };
+
+describe('MarkdownFormatter', () => {
+  it('should render the overview with counts and feature summaries only', () => {
+    const markdown = new MarkdownFormatter(graph, config, 'overview').format();
+
+    expect(markdown).toMatch(/^---\nproject: shop\nlevel: overview\n/);
+    expect(markdown).toContain('# Angular Project: shop');
+    expect(markdown).toContain('| Components | 1 |');
+    expect(markdown).toContain('- **items**: 2 entities (1 components, 1 services)');
+    expect(markdown).toContain('- **shared**: 1 entities (1 pipes)');
+    expect(markdown).not.toContain('## Feature: items');
+  });
+
+  it('should add entity tables per feature', () => {
+    const markdown = new MarkdownFormatter(graph, config, 'features').format();
+
+    expect(markdown).toContain('## Feature: items');
+    expect(markdown).toContain('| ListComponent | component | `app-list` | `src/app/ListComponent.ts:3` |');
+    expect(markdown).toContain('| DatePipe | pipe | `date \\| short` |');
+    expect(markdown).not.toContain('**Inputs**');
+  });
+
+  it('should add inputs, outputs, DI and architecture context', () => {
+    const markdown = new MarkdownFormatter(graph, config, 'detailed').format();
+
+    expect(markdown).toContain('### ListComponent (component)');
+    expect(markdown).toContain('| items | `Item[]` | yes |  |');
+    expect(markdown).toContain('| selected | `EventEmitter<Item>` |  |');
+    expect(markdown).toContain('- `store`: `ItemStore`');
+    expect(markdown).toContain('- → injects: ItemStore');
+    expect(markdown).toContain('- ← injects: ListComponent');
+    expect(markdown).not.toContain('**Template**');
+    expect(markdown).not.toContain('## Relationships');
+  });
+
+  it('should add template analysis, relationships and hierarchy when complete', () => {
+    const markdown = new ParseResultImpl(graph, config).toMarkdown();
+
+    expect(markdown).toContain('- Components: `app-card`');
+    expect(markdown).toContain('- `@for (items)` as item; track item.id');
+    expect(markdown).toContain('| ListComponent | injects | ItemStore |');
+    expect(markdown).toContain('  - **items** (feature): ListComponent, ItemStore');
+  });
+
+  it('should reject unknown levels', () => {
+    expect(() => new MarkdownFormatter(graph, config, 'full' as any)).toThrow('Unknown detail level: full');
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Unit tests for ParseCache
+ */
+
+import * as ts from 'typescript';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ParseCache } from '../parse-cache.js';
+
+describe('ParseCache', () => {
+  let rootDir: string;
+  let cacheDir: string;
+
+  const write = (file: string, content: string) => {
+    fs.writeFileSync(path.join(rootDir, file), content);
+  };
+
+  const program = () => {
+    const rootNames = fs.readdirSync(rootDir).filter((f) => f.endsWith('.ts')).map((f) => path.join(rootDir, f));
+    const p = ts.createProgram({ rootNames, options: { noEmit: true } });
+    return { program: p, sourceFiles: p.getSourceFiles().filter((sf) => !sf.isDeclarationFile) };
+  };
+
+  /** Simulate a parser run: parse dirty files, keep the others, save */
+  const run = (key = 'key') => {
+    const cache = new ParseCache(cacheDir, rootDir);
+    cache.load(key);
+    const { program: p, sourceFiles } = program();
+    const dirty = cache.computeDirtyFiles(sourceFiles, p);
+
+    for (const sf of sourceFiles) {
+      if (dirty.has(sf.fileName)) {
+        cache.set(sf.fileName, sf.text, [], []);
+      } else {
+        cache.keep(sf.fileName);
+      }
+    }
+    cache.save(key);
+    return [...dirty].map((f) => path.basename(f)).sort();
+  };
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ng-parser-cache-'));
+    cacheDir = path.join(rootDir, '.cache');
+    write('a.ts', `import { b } from './b';\nexport const a = b;\n`);
+    write('b.ts', `export const b = 1;\n`);
+    write('c.ts', `export const c = 2;\n`);
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('should parse everything on first run and nothing when unchanged', () => {
+    expect(run()).toEqual(['a.ts', 'b.ts', 'c.ts']);
+    expect(run()).toEqual([]);
+  });
+
+  it('should re-parse changed files and their dependents', () => {
+    run();
+    write('b.ts', `export const b = 42;\n`);
+
+    expect(run()).toEqual(['a.ts', 'b.ts']);
+  });
+
+  it('should re-parse importers of deleted files', () => {
+    run();
+    fs.unlinkSync(path.join(rootDir, 'b.ts'));
+
+    expect(run()).toEqual(['a.ts']);
+  });
+
+  it('should re-parse all routing files when one of them changes', () => {
+    write('routes.ts', `export const routes: Routes = [];\n`);
+    write('config.ts', `export const config = provideRouter(other);\n`);
+    run();
+    write('routes.ts', `export const routes: Routes = [{ path: 'home' }];\n`);
+
+    expect(run()).toEqual(['config.ts', 'routes.ts']);
+  });
+
+  it('should re-parse the imports of a changed routing file', () => {
+    write('config.ts', `import { a } from './a';\nexport const config = 1;\n`);
+    run();
+    write('config.ts', `import { a } from './a';\nexport const config = provideRouter(a);\n`);
+
+    expect(run()).toEqual(['a.ts', 'config.ts']);
+  });
+
+  it('should be invalidated when the key changes', () => {
+    run('first');
+    expect(run('second')).toEqual(['a.ts', 'b.ts', 'c.ts']);
+  });
+
+  it('should return cached results', () => {
+    run();
+    const cache = new ParseCache(cacheDir, rootDir);
+    cache.load('key');
+    expect(cache.get(path.join(rootDir, 'b.ts'))).toMatchObject({ entities: [], relationships: [] });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Unit tests for the worker pool sharding and merging helpers
+ */
+
+import { shardTasks, mergeVisitorShards, ParseWorkerPool, type VisitorShard } from '../parse-worker-pool.js';
+
+const task = (fileName: string, size: number) => ({ program: 0, fileName, size });
+
+const file = (fileName: string, warnings: string[] = [], metrics: Array<[string, number]> = []) => ({
+  fileName,
+  warnings,
+  errors: [],
+  metrics,
+});
+
+describe('shardTasks', () => {
+  it('should balance shards by size and keep the task order within a shard', () => {
+    const tasks = [task('a', 10), task('b', 50), task('c', 30), task('d', 20), task('e', 5)];
+
+    const shards = shardTasks(tasks, 2);
+
+    expect(shards.map((shard) => shard.map((t) => t.fileName))).toEqual([
+      ['a', 'b'],
+      ['c', 'd', 'e'],
+    ]);
+  });
+
+  it('should not create more shards than tasks', () => {
+    expect(shardTasks([task('a', 1)], 4)).toHaveLength(1);
+  });
+
+  it('should be deterministic', () => {
+    const tasks = Array.from({ length: 20 }, (_, i) => task(`f${i}`, (i * 7) % 5));
+    expect(shardTasks(tasks, 3)).toEqual(shardTasks(tasks, 3));
+  });
+});
+
+describe('mergeVisitorShards', () => {
+  it('should merge per-file outputs in file order', () => {
+    const shards: VisitorShard[] = [
+      { files: [file('b', ['w-b'], [['count', 2]])], lastFile: 'b', results: 'from-b' },
+      { files: [file('a', ['w-a'], [['count', 1]]), file('c', ['w-c'])], lastFile: 'c', results: 'from-c' },
+    ];
+
+    const outcome = mergeVisitorShards(['a', 'b', 'c'], shards);
+
+    expect(outcome.warnings).toEqual(['w-a', 'w-b', 'w-c']);
+    expect(outcome.metrics).toEqual(new Map([['count', 2]]));
+    expect(outcome.results).toBe('from-c');
+    expect(outcome.failure).toBeUndefined();
+  });
+
+  it('should stop at the first failing file', () => {
+    const shards: VisitorShard[] = [
+      { files: [file('a', ['w-a'])], lastFile: 'c', failure: { fileName: 'c', message: 'Error: late' } },
+      { files: [], lastFile: 'b', failure: { fileName: 'b', message: 'Error: boom' } },
+    ];
+
+    const outcome = mergeVisitorShards(['a', 'b', 'c'], shards);
+
+    expect(outcome.warnings).toEqual(['w-a']);
+    expect(outcome.failure).toBe('Error: boom');
+    expect(outcome.results).toBeUndefined();
+  });
+
+  it('should report a getResults() failure after all outputs', () => {
+    const shards: VisitorShard[] = [
+      { files: [file('a', ['w-a'])], lastFile: 'a', resultsFailure: 'Error: results' },
+    ];
+
+    const outcome = mergeVisitorShards(['a'], shards);
+
+    expect(outcome.warnings).toEqual(['w-a']);
+    expect(outcome.failure).toBe('Error: results');
+  });
+});
+
+describe('ParseWorkerPool', () => {
+  it('should reject invalid sizes', () => {
+    expect(() => new ParseWorkerPool(0)).toThrow('Invalid worker count: 0');
+    expect(() => new ParseWorkerPool(1.5)).toThrow('Invalid worker count: 1.5');
+  });
+});
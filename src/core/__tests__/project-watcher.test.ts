@@ -0,0 +1,129 @@
+/**
+ * Unit tests for ProjectWatcher and its helpers
+ */
+
+import fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProjectWatcher, summarizeEntityChanges, collectWatchedFiles } from '../project-watcher.js';
+import { EntityType } from '../../types/index.js';
+import type { Entity } from '../../types/index.js';
+import type { NgParser, NgParseResult } from '../ng-parser.js';
+
+function entity(name: string, line = 1, extra: Record<string, any> = {}): Entity {
+  return {
+    id: `component:src/app/${name}.ts:${name}`,
+    type: EntityType.Component,
+    name,
+    location: { filePath: `src/app/${name}.ts`, start: 0, end: 0, line, column: 0 },
+    ...extra,
+  } as Entity;
+}
+
+describe('summarizeEntityChanges', () => {
+  it('should report added, removed and changed entities', () => {
+    const kept = entity('Kept');
+    const moved = entity('Moved');
+    const removed = entity('Removed');
+    const added = entity('Added');
+
+    const before = new Map([kept, moved, removed].map((e) => [e.id, e]));
+    const after = new Map([kept, entity('Moved', 10), added].map((e) => [e.id, e]));
+
+    expect(summarizeEntityChanges(before, after)).toEqual({
+      added: [added.id],
+      removed: [removed.id],
+      changed: [moved.id],
+    });
+  });
+
+  it('should ignore key order and undefined properties', () => {
+    const parsed = entity('Card', 1, { selector: 'app-card', inputs: [{ name: 'title', alias: undefined }] });
+    const restored = JSON.parse(JSON.stringify({ inputs: [{ name: 'title' }], ...parsed })) as Entity;
+
+    expect(summarizeEntityChanges(new Map([[parsed.id, parsed]]), new Map([[restored.id, restored]])).changed).toEqual([]);
+  });
+});
+
+describe('collectWatchedFiles', () => {
+  it('should collect external templates, styles and SCSS imports', () => {
+    const rootDir = path.resolve('/project');
+    const component = entity('Home', 1, {
+      templateLocation: { filePath: 'src/app/home.html', exists: true },
+      styleLocations: [{ originalPath: './home.scss', filePath: 'src/app/home.scss', exists: true }],
+      styleAnalysis: {
+        files: [{
+          filePath: 'src/app/home.scss',
+          imports: [{ path: 'theme', statement: '@import "theme"', resolvedPath: '/project/src/theme.scss', line: 1 }],
+          uses: [],
+        }],
+      },
+    });
+    const result = {
+      entities: new Map([[component.id, component]]),
+      metadata: {},
+    } as unknown as NgParseResult;
+
+    const files = collectWatchedFiles(result, rootDir);
+
+    expect([...files].sort()).toEqual([
+      path.resolve('/project/src/app/home.html'),
+      path.resolve('/project/src/app/home.scss'),
+      path.resolve('/project/src/theme.scss'),
+    ]);
+  });
+
+  it('should resolve paths against the Git root of a project nested in a repository', () => {
+    const component = entity('Home', 1, {
+      templateLocation: { filePath: 'apps/web/src/app/home.html', exists: true },
+      styleLocations: [{ originalPath: './home.scss', filePath: 'apps/web/src/app/home.scss', exists: true }],
+      styleAnalysis: { files: [{ filePath: 'apps/web/src/app/home.scss', imports: [], uses: [] }] },
+    });
+    const result = {
+      entities: new Map([[component.id, component]]),
+      metadata: { repository: { rootDir: path.resolve('/repo') }, globalStyles: [{ filePath: 'apps/web/src/styles.scss', imports: [], uses: [] }] },
+    } as unknown as NgParseResult;
+
+    const files = collectWatchedFiles(result, path.resolve('/repo/apps/web'));
+
+    expect([...files].sort()).toEqual([
+      path.resolve('/repo/apps/web/src/app/home.html'),
+      path.resolve('/repo/apps/web/src/app/home.scss'),
+      path.resolve('/repo/apps/web/src/styles.scss'),
+    ]);
+  });
+});
+
+describe('ProjectWatcher', () => {
+  it('should watch every directory when recursive watching is unavailable (Linux, Node 18)', async () => {
+    const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ng-parser-watch-'));
+    fs.mkdirSync(path.join(rootDir, 'src/app'), { recursive: true });
+    fs.mkdirSync(path.join(rootDir, 'node_modules'));
+
+    const watch = fs.watch;
+    const spy = jest.spyOn(fs, 'watch').mockImplementation(((dir: fs.PathLike, ...args: any[]) => {
+      if (args[0]?.recursive) {
+        throw Object.assign(new Error('recursive watch unavailable'), { code: 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM' });
+      }
+      return (watch as any)(dir, ...args);
+    }) as typeof fs.watch);
+
+    const result = { entities: new Map(), relationships: [], metadata: {} } as unknown as NgParseResult;
+    const parser = { parse: async () => result } as unknown as NgParser;
+    let watcher: ProjectWatcher | undefined;
+    try {
+      const updated = new Promise<string[]>((resolve) => {
+        watcher = new ProjectWatcher(parser, rootDir, { debounceMs: 10, onUpdate: (_result, summary) => resolve(summary.files) });
+      });
+      await watcher!.start();
+      expect(spy.mock.calls.map((call) => path.relative(rootDir, String(call[0]))).sort()).toEqual(['', '', 'src', 'src/app']);
+
+      fs.writeFileSync(path.join(rootDir, 'src/app/home.component.ts'), 'export class HomeComponent {}\n');
+      expect(await updated).toEqual(['src/app/home.component.ts']);
+    } finally {
+      watcher?.close();
+      spy.mockRestore();
+      fs.rmSync(rootDir, { recursive: true, force: true });
+    }
+  });
+});
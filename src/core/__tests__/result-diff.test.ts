@@ -0,0 +1,134 @@
+/**
+ * Unit tests for diffResults / DiffFormatter
+ */
+
+import { diffResults } from '../result-diff.js';
+import { DiffFormatter } from '../../formatters/diff-formatter.js';
+import { EntityType, RelationType } from '../../types/index.js';
+import type { Entity, Relationship } from '../../types/index.js';
+
+function component(name: string, fields: Record<string, any> = {}, line = 1): Entity {
+  return {
+    id: `component:src/app/${name}.ts:${name}`,
+    type: EntityType.Component,
+    name,
+    location: { filePath: `src/app/${name}.ts`, start: 0, end: 0, line, column: 0 },
+    ...fields,
+  } as Entity;
+}
+
+function uses(source: Entity, target: Entity): Relationship {
+  return { id: `${source.id}:uses:${target.id}`, type: RelationType.UsesInTemplate, source: source.id, target: target.id };
+}
+
+describe('diffResults', () => {
+  const card = component('CardComponent', {
+    selector: 'app-card',
+    inputs: [{ name: 'title', propertyName: 'title', type: 'string' }],
+    outputs: [{ name: 'closed', propertyName: 'closed' }],
+    providers: ['CardService'],
+  });
+  const list = component('ListComponent', { selector: 'app-list' });
+  const legacy = component('LegacyComponent');
+
+  const before = { entities: [card, list, legacy], relationships: [uses(list, card)] };
+
+  it('should report added, removed and unchanged entities', () => {
+    const added = component('NewComponent');
+    const diff = diffResults(before, { entities: [card, list, added], relationships: [uses(list, card)] });
+
+    expect(diff.entities.added.map((e) => e.name)).toEqual(['NewComponent']);
+    expect(diff.entities.removed.map((e) => e.name)).toEqual(['LegacyComponent']);
+    expect(diff.summary.entities).toEqual({ added: 1, removed: 1, modified: 0, unchanged: 2 });
+  });
+
+  it('should ignore moved code', () => {
+    const moved = component('ListComponent', { selector: 'app-list' }, 42);
+    const diff = diffResults(before, { entities: [card, moved, legacy], relationships: before.relationships });
+
+    expect(diff.summary.entities.modified).toBe(0);
+  });
+
+  it('should ignore absolute SCSS import paths of another checkout', () => {
+    const styled = (checkout: string) => component('ListComponent', {
+      selector: 'app-list',
+      styleAnalysis: {
+        files: [{
+          filePath: 'src/app/list.scss',
+          imports: [{ path: 'theme', resolvedPath: `${checkout}/src/theme.scss`, line: 1 }],
+          uses: [{ path: 'mixins', resolvedPath: `${checkout}/src/mixins.scss`, line: 2 }],
+          forwards: [{ path: 'tokens', resolvedPath: `${checkout}/src/tokens.scss`, line: 3 }],
+        }],
+      },
+    });
+    const diff = diffResults(
+      { entities: [styled('/work/main')], relationships: [] },
+      { entities: [styled('/tmp/pr-checkout')], relationships: [] }
+    );
+
+    expect(diff.summary.entities.modified).toBe(0);
+  });
+
+  it('should report field changes for inputs, outputs, selectors and providers', () => {
+    const changed = component('CardComponent', {
+      selector: 'app-card-v2',
+      inputs: [
+        { name: 'title', propertyName: 'title', type: 'string | null', required: true },
+        { name: 'subtitle', propertyName: 'subtitle' },
+      ],
+      providers: ['CardService', 'CardStore'],
+    });
+    const diff = diffResults(before, { entities: [changed, list, legacy], relationships: before.relationships });
+
+    const changes = diff.entities.modified[0].changes;
+    expect(changes).toEqual(expect.arrayContaining([
+      { field: 'selector', kind: 'changed', before: 'app-card', after: 'app-card-v2' },
+      { field: 'inputs[title].type', kind: 'changed', before: 'string', after: 'string | null' },
+      { field: 'inputs[title].required', kind: 'added', after: true },
+      { field: 'inputs', kind: 'added', after: { name: 'subtitle', propertyName: 'subtitle' } },
+      { field: 'outputs', kind: 'removed', before: { name: 'closed', propertyName: 'closed' } },
+      { field: 'providers', kind: 'added', after: 'CardStore' },
+    ]));
+    expect(changes).toHaveLength(6);
+  });
+
+  it('should report relationship changes', () => {
+    const diff = diffResults(before, { entities: before.entities, relationships: [uses(legacy, card)] });
+
+    expect(diff.relationships.added).toEqual([
+      expect.objectContaining({ source: legacy.id, target: card.id, sourceName: 'LegacyComponent' }),
+    ]);
+    expect(diff.relationships.removed).toHaveLength(1);
+  });
+
+  it('should accept entity maps', () => {
+    const diff = diffResults(
+      { entities: new Map([[card.id, card]]), relationships: [] },
+      { entities: new Map([[card.id, card]]), relationships: [] }
+    );
+
+    expect(diff.summary.entities.unchanged).toBe(1);
+  });
+});
+
+describe('DiffFormatter', () => {
+  const before = component('CardComponent', { selector: 'app-card' });
+  const after = component('CardComponent', { selector: 'app-card-v2' });
+  const diff = diffResults({ entities: [before], relationships: [] }, { entities: [after], relationships: [] });
+
+  it('should render text', () => {
+    const text = new DiffFormatter(diff).format('text');
+    expect(text).toContain('~ component CardComponent');
+    expect(text).toContain("selector: 'app-card' → 'app-card-v2'");
+  });
+
+  it('should render markdown tables', () => {
+    const markdown = new DiffFormatter(diff).format('markdown');
+    expect(markdown).toContain('## ng-parser diff');
+    expect(markdown).toContain("| `selector` | changed | `'app-card'` | `'app-card-v2'` |");
+  });
+
+  it('should render JSON', () => {
+    expect(JSON.parse(new DiffFormatter(diff).format('json'))).toEqual(diff);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Unit tests for the architecture rule engine
+ */
+
+import { evaluateRules, validateRules, type RulesConfig } from '../rule-engine.js';
+import { RuleFormatter } from '../../formatters/rule-formatter.js';
+import { EntityType, RelationType } from '../../types/index.js';
+import type { Entity, Relationship } from '../../types/index.js';
+
+function entity(type: EntityType, name: string, file: string, fields: Record<string, any> = {}): Entity {
+  return {
+    id: `${type}:${file}:${name}`,
+    type,
+    name,
+    location: { filePath: file, start: 0, end: 0, line: 5, column: 1 },
+    ...fields,
+  } as Entity;
+}
+
+const adminPage = entity(EntityType.Component, 'AdminPageComponent', 'src/app/admin/admin-page.component.ts');
+const cart = entity(EntityType.Service, 'CartService', 'src/app/shop/cart.service.ts', { providedIn: 'root' });
+const button = entity(EntityType.Component, 'ButtonComponent', 'src/app/ui/button.component.ts', { changeDetection: 'OnPush' });
+const card = entity(EntityType.Component, 'CardComponent', 'src/app/ui/card.component.ts');
+const api = entity(EntityType.Service, 'ApiService', 'src/app/core/api.service.ts', { providedIn: 'any' });
+const uiModule = entity(EntityType.Module, 'UiModule', 'src/app/ui/ui.module.ts');
+const pipe = entity(EntityType.Pipe, 'PricePipe', 'src/app/ui/price.pipe.ts');
+
+const rel = (type: RelationType, source: Entity, target: Entity): Relationship => ({
+  id: `${source.name}:${type}:${target.name}`,
+  type,
+  source: source.id,
+  target: target.id,
+});
+
+const input = {
+  entities: [adminPage, cart, button, card, api, uiModule, pipe],
+  relationships: [
+    rel(RelationType.Injects, adminPage, cart),
+    rel(RelationType.UsesInTemplate, adminPage, button),
+    rel(RelationType.Declares, uiModule, button),
+    rel(RelationType.Declares, uiModule, card),
+    rel(RelationType.Declares, uiModule, pipe),
+  ],
+};
+
+const config: RulesConfig = {
+  rules: [
+    {
+      id: 'admin-not-shop',
+      type: 'no-dependency',
+      from: { file: 'src/app/admin/**' },
+      to: { file: 'src/app/shop/**' },
+      message: 'features must not depend on each other',
+    },
+    { id: 'ui-onpush', type: 'require', severity: 'warning', match: { type: 'component', file: 'src/app/ui/**' }, expect: { changeDetection: 'OnPush' } },
+    { id: 'core-root', type: 'require', match: { type: 'service', file: 'src/app/core/**' }, expect: { providedIn: ['root', 'platform'] } },
+    { id: 'small-modules', type: 'max-relations', match: { type: 'module' }, relation: 'declares', target: { type: 'component' }, max: 1 },
+  ],
+};
+
+describe('evaluateRules', () => {
+  const report = evaluateRules(input, config);
+  const byRule = (id: string) => report.violations.filter((v) => v.code === id);
+
+  it('should report forbidden dependencies at the source entity', () => {
+    expect(byRule('admin-not-shop')).toEqual([
+      {
+        code: 'admin-not-shop',
+        message: 'AdminPageComponent → CartService: features must not depend on each other',
+        severity: 'error',
+        location: { filePath: 'src/app/admin/admin-page.component.ts', line: 5, column: 1 },
+        entityId: adminPage.id,
+        relationshipId: 'AdminPageComponent:injects:CartService',
+      },
+    ]);
+  });
+
+  it('should check required property values', () => {
+    expect(byRule('ui-onpush').map((v) => [v.entityId, v.severity])).toEqual([[card.id, 'warning']]);
+    expect(byRule('core-root')[0]).toMatchObject({
+      message: 'ApiService: expected providedIn to be "root" or "platform", found "any"',
+      fix: 'Set providedIn to "root"',
+    });
+  });
+
+  it('should count relationships to matching targets', () => {
+    expect(byRule('small-modules').map((v) => v.message)).toEqual(['UiModule has 2 declares relationships (max 1)']);
+  });
+
+  it('should summarize violations by severity', () => {
+    expect(report.summary).toEqual({ error: 3, warning: 1, info: 0 });
+    expect(report.rules).toBe(4);
+  });
+
+  it('should only follow the given relationship types', () => {
+    const rules: RulesConfig = {
+      rules: [{ id: 'x', type: 'no-dependency', from: { file: 'src/app/admin/**' }, to: {}, via: ['usesInTemplate'] }],
+    };
+    expect(evaluateRules(input, rules).violations.map((v) => v.relationshipId)).toEqual([
+      'AdminPageComponent:usesInTemplate:ButtonComponent',
+    ]);
+  });
+});
+
+describe('validateRules', () => {
+  it('should reject malformed rules', () => {
+    expect(() => validateRules({})).toThrow('expected a "rules" array');
+    expect(() => validateRules({ rules: [{ type: 'require' }] })).toThrow('Invalid rule #1: missing "id"');
+    expect(() => validateRules({ rules: [{ id: 'a', type: 'forbid' }] })).toThrow('unknown type "forbid"');
+    expect(() => validateRules({ rules: [{ id: 'a', type: 'require', match: {}, expect: {}, severity: 'fatal' }] })).toThrow(
+      'unknown severity "fatal"'
+    );
+    expect(() => validateRules({ rules: [{ id: 'a', type: 'no-dependency', from: {} }] })).toThrow('"to" must be an entity filter');
+    expect(() => validateRules({ rules: [{ id: 'a', type: 'max-relations', match: {}, relation: 'declares', max: -1 }] })).toThrow(
+      '"max" must be a non-negative integer'
+    );
+  });
+
+  it('should accept valid rules', () => {
+    expect(validateRules(config)).toBe(config);
+  });
+});
+
+describe('RuleFormatter', () => {
+  it('should group text output by file', () => {
+    const text = new RuleFormatter(evaluateRules(input, config)).format('text');
+    expect(text).toContain(
+      'src/app/ui/card.component.ts\n  5:1  warning  CardComponent: expected changeDetection to be "OnPush", found none  [ui-onpush]'
+    );
+    expect(text.trimEnd().split('\n').pop()).toBe('3 error(s), 1 warning(s), 0 info (4 rule(s))');
+  });
+
+  it('should report passing checks', () => {
+    const markdown = new RuleFormatter(evaluateRules(input, { rules: [] })).format('markdown');
+    expect(markdown).toContain('✅ 0 rule(s) passed');
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Unit tests for the template contract validator
+ */
+
+import { ParseResultImpl } from '../parse-result.js';
+import { TemplateContractValidator, validateTemplates } from '../template-contract-validator.js';
+import type { BindingMetadata, Entity, KnowledgeGraph, TemplateElement } from '../../types/index.js';
+
+const entity = (type: string, name: string, extra: Record<string, unknown> = {}): Entity =>
+  ({
+    id: `${type}:src/${name}.ts:${name}`,
+    type,
+    name,
+    location: { filePath: `src/${name}.ts`, start: 0, end: 0, line: 4, column: 1 },
+    ...extra,
+  }) as Entity;
+
+const binding = (type: BindingMetadata['type'], name: string, line: number): BindingMetadata => ({
+  type,
+  name,
+  line,
+  sourceUrl: `https://github.com/acme/app/blob/main/src/page.html#L${line}`,
+});
+
+const element = (name: string, attributes: string[], bindings: BindingMetadata[], line = 0): TemplateElement => ({
+  name,
+  attributes,
+  bindings,
+  line,
+});
+
+const card = entity('component', 'CardComponent', {
+  selector: 'app-card',
+  inputs: [
+    { name: 'title', propertyName: 'title', required: true, isSignal: true },
+    { name: 'subtitle', propertyName: 'subtitle' },
+    { name: 'expanded', propertyName: 'expanded', isSignal: true },
+  ],
+  outputs: [
+    { name: 'closed', propertyName: 'closed' },
+    { name: 'expandedChange', propertyName: 'expanded', isSignal: true },
+  ],
+});
+const highlight = entity('directive', 'HighlightDirective', {
+  selector: '[appHighlight]',
+  inputs: [{ name: 'color', propertyName: 'color', alias: 'appHighlight' }, { name: 'delay', propertyName: 'delay' }],
+});
+const matButton = entity('directive', 'ButtonDirective', {
+  selector: 'button[appButton]',
+  inputs: [{ name: 'variant', propertyName: 'variant', required: true }],
+});
+
+const page = entity('component', 'PageComponent', {
+  templateLocation: { filePath: 'src/page.html', exists: true },
+  templateAnalysis: {
+    usedComponents: [], usedDirectives: [], usedPipes: [], bindings: [], templateRefs: [],
+    elements: [
+      element('app-card', ['title'], [binding('twoWay', 'expanded', 0), binding('event', 'closed', 0), binding('event', 'click', 0)]),
+      element('app-card', [], [binding('property', 'subtitel', 1), binding('event', 'selectd', 1), binding('property', 'hidden', 1)], 1),
+      element('div', ['appHighlight'], [binding('property', 'delay', 2), binding('property', 'dealy', 2), binding('event', 'keydown.enter', 2)], 2),
+      element('a', ['appButton'], [binding('property', 'ngClass', 3)], 3),
+      element('app-unknown', [], [binding('property', 'anything', 4)], 4),
+      element('app-card', ['title'], [binding('twoWay', 'subtitle', 5), binding('attribute', 'aria-label', 5)], 5),
+    ],
+  },
+});
+const inline = entity('component', 'InlineComponent', {
+  template: '<app-card></app-card>',
+  templateAnalysis: {
+    usedComponents: [], usedDirectives: [], usedPipes: [], bindings: [], templateRefs: [],
+    elements: [element('app-card', [], [])],
+  },
+});
+
+const report = validateTemplates({ entities: [card, highlight, matButton, page], relationships: [] });
+
+describe('TemplateContractValidator', () => {
+  it('should match elements by their full selector', () => {
+    const validator = new TemplateContractValidator({ entities: [card, highlight, matButton], relationships: [] });
+    expect(validator.matchElement(element('app-card', [], [])).map((e) => e.name)).toEqual(['CardComponent']);
+    expect(validator.matchElement(element('span', [], [binding('property', 'appHighlight', 0)])).map((e) => e.name)).toEqual([
+      'HighlightDirective',
+    ]);
+    expect(validator.matchElement(element('a', ['appButton'], []))).toEqual([]);
+    expect(validator.matchElement(element('button', [], []))).toEqual([]);
+  });
+
+  it('should report bindings outside the contracts of matched entities', () => {
+    expect(report.diagnostics.map((d) => [d.code, d.severity, d.message])).toEqual([
+      ['template-unknown-input', 'error', 'PageComponent: [subtitel] on <app-card> is not an input of CardComponent'],
+      ['template-unknown-output', 'warning', 'PageComponent: (selectd) on <app-card> is neither an output of CardComponent nor a DOM event'],
+      ['template-missing-required-input', 'error', 'PageComponent: <app-card> is missing required input title of CardComponent'],
+      ['template-unknown-input', 'warning', 'PageComponent: [dealy] on <div> is not an input of HighlightDirective'],
+      ['template-unknown-output', 'error', 'PageComponent: [(subtitle)] on <app-card> needs an output subtitleChange on CardComponent'],
+    ]);
+  });
+
+  it('should locate diagnostics in the template file', () => {
+    expect(report.diagnostics[0]).toMatchObject({
+      location: { filePath: 'src/page.html', line: 2, column: 1 },
+      entityId: page.id,
+      element: 'app-card',
+      binding: 'subtitel',
+      targets: [card.id],
+      sourceUrl: 'https://github.com/acme/app/blob/main/src/page.html#L1',
+    });
+    expect(report.diagnostics[2].fix).toBe('Bind [title] on <app-card>');
+  });
+
+  it('should locate inline template diagnostics at the component', () => {
+    const inlineReport = validateTemplates({ entities: [card, inline], relationships: [] });
+    expect(inlineReport.diagnostics.map((d) => [d.code, d.location])).toEqual([
+      ['template-missing-required-input', { filePath: 'src/InlineComponent.ts', line: 4, column: 1 }],
+    ]);
+  });
+
+  it('should validate JSON exports, which drop empty attribute and binding arrays', () => {
+    const entities = [card, highlight, matButton, page];
+    const graph: KnowledgeGraph = {
+      entities: new Map(entities.map((e) => [e.id, e])),
+      relationships: [],
+      hierarchy: { id: 'root', name: 'app', type: 'app', entities: [], children: [] },
+      metadata: { totalEntities: entities.length, totalRelationships: 0, timestamp: '2024-01-01T00:00:00.000Z' },
+    };
+    const exported = new ParseResultImpl(graph, { rootDir: '/app' }).toJSON();
+
+    expect(exported.entities[3].templateAnalysis.elements[1].attributes).toBeUndefined();
+    expect(validateTemplates(exported)).toEqual(report);
+  });
+
+  it('should summarize checked templates, elements and bindings', () => {
+    expect(report.summary).toEqual({ templates: 1, elements: 4, bindings: 10, errors: 3, warnings: 2 });
+  });
+});
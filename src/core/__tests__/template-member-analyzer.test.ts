@@ -0,0 +1,96 @@
+/**
+ * Unit tests for the template member analyzer
+ */
+
+import { analyzeTemplateMembers } from '../template-member-analyzer.js';
+import { optimizeEntity } from '../../utils/optimization-helpers.js';
+import type { Entity, MemberMetadata, TemplateMemberUsage } from '../../types/index.js';
+
+const member = (name: string, visibility: MemberMetadata['visibility'] = 'public', extra: Partial<MemberMetadata> = {}): MemberMetadata => ({
+  name,
+  kind: 'property',
+  visibility,
+  ...extra,
+});
+
+const usage = (name: string, context: string, line: number, kind: TemplateMemberUsage['kind'] = 'member'): TemplateMemberUsage => ({
+  name,
+  kind,
+  access: 'read',
+  context,
+  line,
+});
+
+const page = {
+  id: 'component:src/page.ts:PageComponent',
+  type: 'component',
+  name: 'PageComponent',
+  location: { filePath: 'src/page.ts', start: 0, end: 0, line: 6, column: 1 },
+  decorators: [{ name: 'Component', arguments: { host: { '(window:scroll)': 'onScroll()' } }, location: {} }],
+  templateLocation: { filePath: 'src/page.html', exists: true },
+  templateAnalysis: {
+    usedComponents: [], usedDirectives: [], usedPipes: [], bindings: [], templateRefs: [],
+    memberUsages: [
+      usage('items', '@for', 0),
+      usage('total', '{{ }}', 1, 'let'),
+      usage('cache', '[value]', 2),
+      usage('label', '{{ }}', 3),
+      usage('missing', '{{ }}', 4),
+    ],
+  },
+  inputs: [{ name: 'title', propertyName: 'title' }],
+  outputs: [{ name: 'closed', propertyName: 'closed' }],
+  members: [
+    member('items'),
+    member('unused'),
+    member('total'),
+    member('cache', 'private'),
+    member('label', 'protected'),
+    member('title'),
+    member('closed'),
+    member('VERSION', 'public', { static: true }),
+    member('onScroll', 'public', { kind: 'method' }),
+    member('ngOnInit', 'public', { kind: 'method' }),
+    member('writeValue', 'public', { kind: 'method' }),
+    member('onClick', 'public', { kind: 'method', decorators: ['HostListener'] }),
+  ],
+} as unknown as Entity;
+
+const report = analyzeTemplateMembers({ entities: [page], relationships: [] });
+
+describe('analyzeTemplateMembers', () => {
+  it('should compare template usages with member visibility', () => {
+    expect(report.components).toEqual([
+      {
+        entityId: page.id,
+        used: ['items', 'cache', 'label'],
+        unusedPublic: ['unused', 'total'],
+        privateReferenced: ['cache'],
+      },
+    ]);
+  });
+
+  it('should report private members at the template line and unused ones at the class', () => {
+    expect(report.diagnostics.map((d) => [d.code, d.severity, d.message, d.location.filePath, d.location.line])).toEqual([
+      ['template-private-member', 'error', 'PageComponent: private member cache is used by the template in [value]', 'src/page.html', 3],
+      ['template-unused-public-member', 'info', 'PageComponent: public member unused is not used by the template', 'src/page.ts', 6],
+      ['template-unused-public-member', 'info', 'PageComponent: public member total is not used by the template', 'src/page.ts', 6],
+    ]);
+  });
+
+  it('should treat inputs and outputs of JSON exports as framework members', () => {
+    const exported = JSON.parse(JSON.stringify(optimizeEntity({
+      ...page,
+      inputs: [...(page as any).inputs, { name: 'size', propertyName: 'size', alias: 'cardSize' }],
+      members: [...(page as any).members, member('size')],
+    }))) as Entity;
+    expect((exported as any).inputs[0].propertyName).toBeUndefined();
+
+    expect(analyzeTemplateMembers({ entities: [exported], relationships: [] }).components[0].unusedPublic).toEqual(['unused', 'total']);
+  });
+
+  it('should skip components without member metadata', () => {
+    const { members: _members, ...legacy } = page as any;
+    expect(analyzeTemplateMembers({ entities: [legacy], relationships: [] })).toEqual({ components: [], diagnostics: [] });
+  });
+});
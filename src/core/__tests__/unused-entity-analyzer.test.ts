@@ -0,0 +1,137 @@
+/**
+ * Unit tests for the unused entity analyzer
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findUnusedEntities } from '../unused-entity-analyzer.js';
+import type { ApplicationBootstrap, Entity, Relationship } from '../../types/index.js';
+
+const entity = (type: string, name: string, extra: Record<string, unknown> = {}): Entity =>
+  ({
+    id: `${type}:src/${name}.ts:${name}`,
+    type,
+    name,
+    location: { filePath: `src/${name}.ts`, start: 0, end: 0, line: 3, column: 1 },
+    ...extra,
+  }) as Entity;
+
+const rel = (type: string, source: Entity | string, target: Entity | string, metadata?: Record<string, unknown>): Relationship =>
+  ({
+    id: `${type}:${typeof target === 'string' ? target : target.id}`,
+    type,
+    source: typeof source === 'string' ? source : source.id,
+    target: typeof target === 'string' ? target : target.id,
+    metadata,
+  }) as Relationship;
+
+const app = entity('component', 'AppComponent');
+const home = entity('component', 'HomeComponent');
+const card = entity('component', 'CardComponent');
+const tree = entity('component', 'TreeComponent');
+const widget = entity('component', 'WidgetComponent');
+const tooltip = entity('directive', 'TooltipDirective');
+const shout = entity('pipe', 'ShoutPipe', { pipeName: 'shout' });
+const whisper = entity('pipe', 'WhisperPipe', { pipeName: 'whisper' });
+const data = entity('service', 'DataService');
+const guard = entity('service', 'AuthGuard');
+const interceptor = entity('service', 'AuthInterceptor');
+const registered = entity('service', 'RegisteredService');
+const apiUrl = entity('constant', 'API_URL', { constantType: 'InjectionToken' });
+const locale = entity('constant', 'LOCALE', { constantType: 'InjectionToken' });
+const dead = entity('constant', 'DEAD_TOKEN', { constantType: 'InjectionToken' });
+const shared = entity('module', 'SharedModule', { exports: ['CardComponent'] });
+const legacy = entity('module', 'LegacyModule');
+const orphan = entity('module', 'OrphanModule', { exports: ['TooltipDirective'] });
+const applications = [
+  {
+    component: 'AppComponent',
+    providers: [
+      'provideRouter(routes)',
+      ['importProvidersFrom(LegacyModule)'],
+      { provide: 'LOCALE', useValue: 'en' },
+      { provide: 'HTTP_INTERCEPTORS', useClass: 'AuthInterceptor', multi: true },
+    ],
+    location: { filePath: 'src/main.ts', start: 0, end: 0, line: 5, column: 1 },
+  },
+] as unknown as ApplicationBootstrap[];
+const route = entity('route', 'home', { path: 'home', fullPath: '/home' });
+
+const entities = [
+  app, home, card, tree, widget, tooltip, shout, whisper, data, guard, interceptor, registered,
+  apiUrl, locale, dead, shared, legacy, orphan, route,
+];
+const relationships = [
+  rel('routesTo', route, home),
+  rel('guardedBy', route, guard),
+  rel('usesInTemplate', home, shout, { templateUsage: 'pipe' }),
+  rel('usesInTemplate', tree, tree),
+  rel('imports', home, shared),
+  rel('injects', home, data),
+  rel('injects', data, apiUrl),
+  rel('provides', home, registered, { providerType: 'token' }),
+];
+
+describe('findUnusedEntities', () => {
+  const report = findUnusedEntities({ entities, relationships, metadata: { applications } });
+
+  it('should report entities nothing uses', () => {
+    expect(report.diagnostics.map((d) => [d.code, d.message])).toEqual([
+      ['unused-component', 'CardComponent is not used by any template, route or bootstrap'],
+      ['unused-component', 'TreeComponent is not used by any template, route or bootstrap'],
+      ['unused-component', 'WidgetComponent is not used by any template, route or bootstrap'],
+      ['unused-directive', 'TooltipDirective is not used by any template'],
+      ['unused-pipe', 'WhisperPipe is not used by any template'],
+      ['unused-service', 'RegisteredService is never injected'],
+      ['unused-injection-token', 'DEAD_TOKEN is never provided or injected'],
+      ['unused-module', 'OrphanModule is never imported, so its exports are unused'],
+    ]);
+  });
+
+  it('should locate diagnostics at the entity', () => {
+    expect(report.diagnostics[0]).toMatchObject({
+      severity: 'warning',
+      location: { filePath: 'src/CardComponent.ts', line: 3, column: 1 },
+      entityId: card.id,
+      name: 'CardComponent',
+      kind: 'component',
+    });
+  });
+
+  it('should summarize checked and unused entities per kind', () => {
+    expect(report.summary).toEqual({
+      component: { total: 5, unused: 3 },
+      directive: { total: 1, unused: 1 },
+      pipe: { total: 2, unused: 1 },
+      service: { total: 4, unused: 1 },
+      token: { total: 3, unused: 1 },
+      module: { total: 3, unused: 1 },
+    });
+    expect(report.entryPoints).toEqual([app.id, home.id]);
+  });
+
+  it('should make bootstrap and routes configurable entry points', () => {
+    const strict = findUnusedEntities({ entities, relationships, metadata: { applications } }, { bootstrap: false, routes: false });
+    expect(strict.diagnostics.filter((d) => d.kind === 'component').map((d) => d.name)).toEqual([
+      'AppComponent', 'HomeComponent', 'CardComponent', 'TreeComponent', 'WidgetComponent',
+    ]);
+  });
+
+  it('should treat configured entry points and barrel exports as used', () => {
+    const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ng-parser-unused-'));
+    try {
+      fs.mkdirSync(path.join(rootDir, 'src'));
+      fs.writeFileSync(path.join(rootDir, 'src', 'WidgetComponent.ts'), 'export class WidgetComponent {}\n');
+      fs.writeFileSync(path.join(rootDir, 'src', 'index.ts'), "export * from './WidgetComponent';\nexport { TooltipDirective as Tooltip } from './tooltip';\n");
+
+      const withEntries = findUnusedEntities(
+        { entities, relationships, metadata: { applications } },
+        { barrels: [path.join(rootDir, 'src', 'index.ts')], entryPoints: ['TreeComponent', dead.id], rootDir }
+      );
+      expect(withEntries.diagnostics.map((d) => d.name)).toEqual(['CardComponent', 'WhisperPipe', 'RegisteredService', 'OrphanModule']);
+    } finally {
+      fs.rmSync(rootDir, { recursive: true, force: true });
+    }
+  });
+});
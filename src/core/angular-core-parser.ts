@@ -6,21 +6,26 @@
 import * as ts from 'typescript';
 import * as fs from 'fs';
 import * as path from 'path';
-import type { Entity, Relationship, ParserConfig, StyleFileMetadata } from '../types/index.js';
-import { RelationType } from '../types/index.js';
-import { ComponentParser, ServiceParser, ModuleParser, DirectiveParser, PipeParser, ConstantParser, TemplateParser, StyleParser } from './parsers/index.js';
+import type { Entity, Relationship, ParserConfig, StyleFileMetadata, StyleGraph, RouteEntity, ImpactAnalysis, WorkspaceInfo, WorkspaceProject, ApplicationBootstrap } from '../types/index.js';
+import { RelationType, EntityType } from '../types/index.js';
+import { ComponentParser, ServiceParser, ModuleParser, DirectiveParser, PipeParser, ConstantParser, RouteParser, TemplateParser, StyleParser } from './parsers/index.js';
 import { VisitorContextImpl as OldVisitorContextImpl } from './visitor-context.js';
 import { findTypeScriptFiles, findTsConfig, resolvePath } from '../utils/file-helpers.js';
 import { EntityResolver } from './entity-resolver.js';
 import { GitRemoteParser } from './parsers/git-remote-parser.js';
 import { SelectorResolver } from '../utils/selector-resolver.js';
-import type { GitRepository } from '../utils/git-helpers.js';
-import type { ComponentEntity } from '../types/index.js';
-import { parseScssFile } from '../utils/style-helpers.js';
+import { getChangedFiles, getBaseDir, makeRelative, type GitRepository } from '../utils/git-helpers.js';
+import type { ComponentEntity, PipeEntity } from '../types/index.js';
+import { parseStyleFile } from '../utils/style-helpers.js';
+import { ParseCache, hashContent, isRoutingSource, type CachedFile } from './parse-cache.js';
+import { ParseWorkerPool, toProgramSpec, type FileParseResult, type ParseTask } from './parse-worker-pool.js';
+import { analyzeImpact } from './impact-analyzer.js';
+import { detectWorkspace, findOwningProject } from '../utils/workspace-helpers.js';
 import { loadAngularCompiler } from '../utils/template-helpers.js';
+import { getSourceLocation, parseExpression } from '../utils/ast-helpers.js';
 import { loadPackageJson, getDependencyInfo } from '../utils/package-helpers.js';
 import { loadTsConfig } from '../utils/tsconfig-helpers.js';
-import { isAngularStructuralElement, isAngularBuiltinPipe } from '../utils/angular-builtin-registry.js';
+import { isAngularStructuralElement, isAngularBuiltinPipe, isAngularPurePipe } from '../utils/angular-builtin-registry.js';
 
 export interface AngularProject {
   entities: Map<string, Entity>;
@@ -32,11 +37,24 @@ export interface AngularProject {
     angularVersion?: string;
     repository?: GitRepository;
     globalStyles?: StyleFileMetadata[];
+    styleGraph?: StyleGraph;
     dependencies?: import('../types/index.js').DependencyInfo;
     typescript?: import('../types/index.js').TypeScriptConfig;
+    impact?: ImpactAnalysis;
+    workspace?: WorkspaceInfo;
+    applications?: ApplicationBootstrap[];
   };
 }
 
+/**
+ * Source files compiled by one program (one per workspace project)
+ */
+interface CompilationUnit {
+  project?: WorkspaceProject;
+  program: ts.Program;
+  sourceFiles: ts.SourceFile[];
+}
+
 /**
  * Core Angular parser - extracts Angular entities
  * This parser is non-extensible and uses built-in Angular parsers only
@@ -48,7 +66,12 @@ export class AngularCoreParser {
   private directiveParser: DirectiveParser;
   private pipeParser: PipeParser;
   private constantParser: ConstantParser;
+  private routeParser: RouteParser;
   private program?: ts.Program;
+  private units: CompilationUnit[] = [];
+  private builderProgram?: ts.BuilderProgram;
+  private parseCache?: ParseCache;
+  private sourceFileCache = new Map<string, ts.SourceFile>(); // Reused across runs (watch mode)
 
   constructor(private config: Partial<ParserConfig> = {}) {
     this.componentParser = new ComponentParser();
@@ -57,12 +80,13 @@ export class AngularCoreParser {
     this.directiveParser = new DirectiveParser();
     this.pipeParser = new PipeParser();
     this.constantParser = new ConstantParser();
+    this.routeParser = new RouteParser();
   }
 
   /**
    * Parse Angular project and extract entities
    */
-  async parseProject(options: { rootDir: string }): Promise<AngularProject> {
+  async parseProject(options: { rootDir: string; workerPool?: ParseWorkerPool }): Promise<AngularProject> {
     const rootDir = options.rootDir;
 
     // Validate input directory
@@ -80,9 +104,25 @@ export class AngularCoreParser {
       throw new Error(`No TypeScript files found in ${rootDir}`);
     }
 
-    // Create TypeScript program
-    this.program = await this.createProgram(files, rootDir);
-    const typeChecker = this.program.getTypeChecker();
+    // Incremental mode: per-file results are reused across runs (and persisted with cacheDir)
+    const cache = this.getParseCache(rootDir);
+
+    // Angular CLI / Nx workspace: every project is compiled with its own tsconfig
+    const workspace = this.config.workspace !== false ? detectWorkspace(rootDir) : undefined;
+    if (workspace) {
+      console.log(
+        `📦 ${workspace.type === 'nx' ? 'Nx' : 'Angular'} workspace detected: ` +
+        `${workspace.projects.length} project(s) (${workspace.projects.map((p) => p.name).join(', ')})`
+      );
+    }
+
+    // Create TypeScript program(s)
+    const units = workspace
+      ? await this.createWorkspacePrograms(files, rootDir, workspace)
+      : [await this.createProjectProgram(files, rootDir, cache)];
+    this.pruneSourceFileCache(units);
+    this.units = units;
+    this.program = units[0].program;
 
     // Detect Git repository FIRST (needed for paths)
     let gitInfo: GitRepository | undefined;
@@ -102,6 +142,7 @@ export class AngularCoreParser {
     this.directiveParser.reset();
     this.pipeParser.reset();
     this.constantParser.reset();
+    this.routeParser.reset();
 
     // Load package.json for dependency classification
     const packageInfo = loadPackageJson(rootDir);
@@ -120,56 +161,95 @@ export class AngularCoreParser {
     const allRelationships: Relationship[] = [];
     const sourceFileMap = new Map<string, ts.SourceFile>();
 
-    // Process each source file
-    for (const sourceFile of this.program.getSourceFiles()) {
-      if (this.shouldSkipFile(sourceFile)) continue;
+    const sourceFiles = units.flatMap((unit) => unit.sourceFiles);
+    const optionsForFile = workspace ? this.getOptionsLookup(units) : undefined;
 
-      const context = new OldVisitorContextImpl(
-        sourceFile,
-        typeChecker,
-        this.program,
-        path.resolve(rootDir),
-        gitInfo
-      );
+    // Load cache and find files to re-parse
+    const cacheKey = hashContent(JSON.stringify({
+      rootDir: path.resolve(rootDir),
+      includeTests: this.config.includeTests ?? false,
+      compilerOptions: this.program.getCompilerOptions(),
+      workspace: workspace && units.map((unit) => [unit.project?.name, unit.program.getCompilerOptions()]),
+      git: gitInfo ? { provider: gitInfo.provider, url: gitInfo.url, branch: gitInfo.branch } : null,
+    }));
+    cache?.load(cacheKey);
+    const dirtyFiles = cache?.computeDirtyFiles(sourceFiles, this.program, optionsForFile);
+    const getCached = (fileName: string) =>
+      dirtyFiles && !dirtyFiles.has(fileName) ? cache!.get(fileName) : undefined;
+    const parsedFiles: Array<{ sourceFile: ts.SourceFile; entities: Entity[]; relationships: Relationship[] }> = [];
+
+    // Parse in worker threads first (workers > 1); results are collected in file order below
+    const workerResults = await this.parseInWorkers(units, getCached, rootDir, gitInfo, options.workerPool);
+
+    // Process each source file with the program of its project
+    for (const unit of units) {
+      for (const sourceFile of unit.sourceFiles) {
+        const cached = getCached(sourceFile.fileName);
+
+        if (cached) {
+          cache!.keep(sourceFile.fileName);
+          this.routeParser.restore(
+            cached.entities.filter((e): e is RouteEntity => e.type === EntityType.Route),
+            sourceFile.fileName
+          );
+          cached.entities.forEach((entity) =>
+            this.collectEntity(entity, sourceFile, allEntities, sourceFileMap)
+          );
+          allRelationships.push(...cached.relationships);
+          continue;
+        }
 
-      // Traverse AST with all parsers
-      this.traverseNode(sourceFile, context);
-
-      // Collect results with collision detection
-      context.entities.forEach((entity, id) => {
-        if (allEntities.has(id)) {
-          const existing = allEntities.get(id)!;
-          // Check if it's truly a duplicate (same file = OK, different file = collision)
-          if (existing.location.filePath !== entity.location.filePath) {
-            const error = new Error(
-              `Duplicate entity ID detected: ${id}\n` +
-              `  Existing: ${existing.name} in ${existing.location.filePath}:${existing.location.line}\n` +
-              `  New: ${entity.name} in ${entity.location.filePath}:${entity.location.line}\n` +
-              `This may indicate a bug in ID generation or duplicate class names.`
-            );
-            console.error('⚠️  ' + error.message);
-
-            // In strict mode, throw; otherwise just warn
-            if (this.config.strictMode) {
-              throw error;
-            }
-            // Skip the duplicate
-            return;
-          }
+        const parsed = workerResults?.get(sourceFile.fileName);
+        if (parsed) {
+          this.routeParser.restore(
+            parsed.entities.filter((e): e is RouteEntity => e.type === EntityType.Route),
+            sourceFile.fileName
+          );
+        }
+        const { entities, relationships } = parsed
+          ?? this.parseSourceFile(sourceFile, unit.program, rootDir, gitInfo);
+
+        // Tag entities with their workspace project
+        if (unit.project) {
+          entities.forEach((entity) => (entity.project = unit.project!.name));
         }
-        allEntities.set(id, entity);
-        // Map entity to source file for import resolution
-        sourceFileMap.set(id, sourceFile);
+
+        // Collect results with collision detection
+        entities.forEach((entity) =>
+          this.collectEntity(entity, sourceFile, allEntities, sourceFileMap)
+        );
+        allRelationships.push(...relationships);
+
+        parsedFiles.push({ sourceFile, entities, relationships });
+      }
+    }
+
+    // Persist the cache once files parsed later applied their route registrations
+    // (provideRouter, forRoot, forChild), but before lazy route linking mutates entities
+    if (cache) {
+      for (const { sourceFile, entities, relationships } of parsedFiles) {
+        cache.set(sourceFile.fileName, sourceFile.text, entities, relationships);
+      }
+      cache.save(cacheKey);
+      this.builderProgram?.emit(undefined, (fileName, text) => {
+        if (fileName.endsWith('.tsbuildinfo')) ts.sys.writeFile(fileName, text);
       });
-      allRelationships.push(...context.relationships);
+      console.log(`♻️  Incremental parse: ${parsedFiles.length}/${sourceFiles.length} files re-parsed`);
     }
 
+    // Link lazy-loaded child routes (loadChildren targets live in other files)
+    this.routeParser.linkLazyRoutes(allEntities, allRelationships, this.program, optionsForFile);
+
+    // Standalone applications and the providers of their root injector
+    const applications = this.findApplications(units, rootDir, gitInfo);
+
     // Resolve entity IDs and classify dependencies (internal vs external)
     const resolver = new EntityResolver(
       allEntities,
       this.program,
       path.resolve(rootDir),
-      packageInfo
+      packageInfo,
+      optionsForFile
     );
     const resolvedRelationships = resolver.resolveRelationships(
       allRelationships,
@@ -199,6 +279,14 @@ export class AngularCoreParser {
     const selectorResolver = new SelectorResolver();
     selectorResolver.buildIndex(allEntities);
 
+    // Pipe entity IDs by pipe name, for pipes used in templates
+    const pipesByName = new Map<string, string[]>();
+    for (const entity of allEntities.values()) {
+      if (entity.type !== EntityType.Pipe) continue;
+      const { pipeName } = entity as PipeEntity;
+      pipesByName.set(pipeName, [...(pipesByName.get(pipeName) ?? []), entity.id]);
+    }
+
     // Parse templates and styles for components
     const templateParser = new TemplateParser();
     const styleParser = new StyleParser();
@@ -223,18 +311,23 @@ export class AngularCoreParser {
 
           // Components used in template
           templateAnalysis.usedComponents.forEach((selector) => {
+            // Components only rendered inside @defer blocks are lazy-loaded
+            const relationType = templateAnalysis.deferredComponents?.includes(selector)
+              ? RelationType.DefersInTemplate
+              : RelationType.UsesInTemplate;
+
             // Resolve selector to entity IDs
-            const entityIds = selectorResolver.resolve(selector);
+            const entityIds = this.filterVisibleEntities(selectorResolver.resolve(selector), component, allEntities, workspace);
 
             if (entityIds.length > 0) {
               // Create relationships to resolved entities
               entityIds.forEach(entityId => {
-                const relKey = `${component.id}::${entityId}::usesInTemplate`;
+                const relKey = `${component.id}::${entityId}::${relationType}`;
                 if (!createdRelationships.has(relKey)) {
                   createdRelationships.add(relKey);
                   resolvedRelationships.push({
-                    id: `${component.id}:usesInTemplate:${entityId}`,
-                    type: RelationType.UsesInTemplate,
+                    id: `${component.id}:${relationType}:${entityId}`,
+                    type: relationType,
                     source: component.id,
                     target: entityId,
                     metadata: {
@@ -250,12 +343,12 @@ export class AngularCoreParser {
               // Check if it's an Angular built-in structural element
               if (isAngularStructuralElement(selector)) {
                 // Angular built-in (ng-content, ng-container, ng-template)
-                const relKey = `${component.id}::${selector}::usesInTemplate`;
+                const relKey = `${component.id}::${selector}::${relationType}`;
                 if (!createdRelationships.has(relKey)) {
                   createdRelationships.add(relKey);
                   resolvedRelationships.push({
-                    id: `${component.id}:usesInTemplate:angular-builtin:${selector}`,
-                    type: RelationType.UsesInTemplate,
+                    id: `${component.id}:${relationType}:angular-builtin:${selector}`,
+                    type: relationType,
                     source: component.id,
                     target: `angular-builtin:${selector}`,
                     metadata: {
@@ -269,12 +362,12 @@ export class AngularCoreParser {
                 }
               } else {
                 // Keep unresolved selector for visibility
-                const relKey = `${component.id}::${selector}::usesInTemplate`;
+                const relKey = `${component.id}::${selector}::${relationType}`;
                 if (!createdRelationships.has(relKey)) {
                   createdRelationships.add(relKey);
                   resolvedRelationships.push({
-                    id: `${component.id}:usesInTemplate:${selector}`,
-                    type: RelationType.UsesInTemplate,
+                    id: `${component.id}:${relationType}:${selector}`,
+                    type: relationType,
                     source: component.id,
                     target: selector,
                     metadata: {
@@ -293,7 +386,7 @@ export class AngularCoreParser {
           // Directives used in template
           templateAnalysis.usedDirectives.forEach((selector) => {
             // Resolve selector to entity IDs
-            const entityIds = selectorResolver.resolve(selector);
+            const entityIds = this.filterVisibleEntities(selectorResolver.resolve(selector), component, allEntities, workspace);
 
             if (entityIds.length > 0) {
               // Create relationships to resolved entities
@@ -365,6 +458,11 @@ export class AngularCoreParser {
             if (!createdRelationships.has(relKey)) {
               createdRelationships.add(relKey);
 
+              // Where the pipe is applied: argument count, binding or block, template line
+              const usages = (templateAnalysis.pipeUsages ?? [])
+                .filter((usage) => usage.name === pipe)
+                .map(({ args, context, line }) => ({ args, context, line }));
+
               // Check if it's an Angular built-in pipe
               if (isAngularBuiltinPipe(pipe)) {
                 // Angular built-in pipe (async, json, date, etc.)
@@ -375,29 +473,51 @@ export class AngularCoreParser {
                   target: `angular-builtin:pipe:${pipe}`,
                   metadata: {
                     templateUsage: 'pipe',
+                    pipeName: pipe,
+                    pure: isAngularPurePipe(pipe),
+                    usages,
                     classification: 'external',
                     packageName: '@angular/common',
                     resolved: true,
                   },
                 });
               } else {
-                // Check if pipe exists as an entity
-                const pipeExists = Array.from(allEntities.values()).some(
-                  e => e.type === 'pipe' && (e as any).pipeName === pipe
-                );
-
-                resolvedRelationships.push({
-                  id: `${component.id}:usesInTemplate:${pipe}`,
-                  type: RelationType.UsesInTemplate,
-                  source: component.id,
-                  target: pipe,
-                  metadata: {
-                    templateUsage: 'pipe',
-                    unresolved: !pipeExists,
-                    classification: pipeExists ? 'internal' : 'unresolved',
-                    resolved: pipeExists,
-                  },
-                });
+                const entityIds = this.filterVisibleEntities(pipesByName.get(pipe) ?? [], component, allEntities, workspace);
+
+                if (entityIds.length > 0) {
+                  // Link the pipe entities
+                  entityIds.forEach((entityId) => {
+                    resolvedRelationships.push({
+                      id: `${component.id}:usesInTemplate:${entityId}`,
+                      type: RelationType.UsesInTemplate,
+                      source: component.id,
+                      target: entityId,
+                      metadata: {
+                        templateUsage: 'pipe',
+                        pipeName: pipe,
+                        pure: (allEntities.get(entityId) as PipeEntity).pure ?? true,
+                        usages,
+                        classification: 'internal',
+                        resolved: true,
+                      },
+                    });
+                  });
+                } else {
+                  resolvedRelationships.push({
+                    id: `${component.id}:usesInTemplate:${pipe}`,
+                    type: RelationType.UsesInTemplate,
+                    source: component.id,
+                    target: pipe,
+                    metadata: {
+                      templateUsage: 'pipe',
+                      pipeName: pipe,
+                      usages,
+                      unresolved: true,
+                      classification: 'unresolved',
+                      resolved: false,
+                    },
+                  });
+                }
               }
             }
           });
@@ -420,6 +540,10 @@ export class AngularCoreParser {
       console.log(`📦 Found ${globalStyles.length} global style file(s)`);
     }
 
+    // Link component, global and imported style files
+    const components = Array.from(allEntities.values()).filter((e): e is ComponentEntity => e.type === 'component');
+    const styleGraph = styleParser.buildStyleGraph(components, globalStyles, path.resolve(rootDir), gitInfo);
+
     // Count external dependencies in relationships
     const externalCount = resolvedRelationships.filter(
       r => r.metadata?.classification === 'external'
@@ -458,6 +582,14 @@ export class AngularCoreParser {
       console.log(`🔧 Removed ${duplicatesRemoved} duplicate relationship(s)`);
     }
 
+    // Dependencies between workspace projects
+    const workspaceInfo = workspace ? this.linkProjects(workspace, allEntities, uniqueRelationships) : undefined;
+
+    // Entities impacted by the changes since a Git ref (affected-test selection)
+    const impact = this.config.git?.since
+      ? await this.analyzeChanges(rootDir, gitInfo, allEntities, uniqueRelationships)
+      : undefined;
+
     // Note on self-references:
     // Some relationships may have source === target (e.g., MatFormField provides MatFormField).
     // This is legitimate Angular pattern for self-providing components and should not be filtered.
@@ -472,15 +604,401 @@ export class AngularCoreParser {
         angularVersion: this.detectAngularVersion(rootDir),
         repository: gitInfo,
         globalStyles: globalStyles.length > 0 ? globalStyles : undefined,
+        styleGraph: styleGraph.files.length > 0 ? styleGraph : undefined,
         dependencies: getDependencyInfo(packageInfo, externalCount),
         typescript: tsConfig || undefined,
+        impact,
+        workspace: workspaceInfo,
+        applications: applications.length > 0 ? applications : undefined,
       },
     };
   }
 
-  private async createProgram(files: string[], rootDir: string): Promise<ts.Program> {
-    const tsConfigPath = this.config.tsConfigPath || await findTsConfig(rootDir);
-    let options: ts.CompilerOptions;
+  /**
+   * Extract the entities and raw relationships of one source file
+   *
+   * Relationships are unresolved; entities are not tagged with their project.
+   */
+  parseSourceFile(
+    sourceFile: ts.SourceFile,
+    program: ts.Program,
+    rootDir: string,
+    gitInfo?: GitRepository
+  ): { entities: Entity[]; relationships: Relationship[] } {
+    const context = new OldVisitorContextImpl(
+      sourceFile,
+      program.getTypeChecker(),
+      program,
+      path.resolve(rootDir),
+      gitInfo
+    );
+
+    // Traverse AST with all parsers
+    this.traverseNode(sourceFile, context);
+
+    return { entities: Array.from(context.entities.values()), relationships: context.relationships };
+  }
+
+  /**
+   * Parse the files missing from the cache in worker threads (`workers` > 1)
+   *
+   * Routing files stay on the main thread: routes are linked across files during traversal.
+   * Returns undefined when the pool is disabled or fails (files are then parsed sequentially).
+   */
+  private async parseInWorkers(
+    units: CompilationUnit[],
+    getCached: (fileName: string) => CachedFile | undefined,
+    rootDir: string,
+    gitInfo: GitRepository | undefined,
+    workerPool?: ParseWorkerPool
+  ): Promise<Map<string, FileParseResult> | undefined> {
+    if (!workerPool && (this.config.workers ?? 1) < 2) return undefined;
+
+    const tasks: ParseTask[] = [];
+    units.forEach((unit, index) => {
+      for (const sourceFile of unit.sourceFiles) {
+        if (!getCached(sourceFile.fileName) && !isRoutingSource(sourceFile.text)) {
+          tasks.push({ program: index, fileName: sourceFile.fileName, size: sourceFile.text.length });
+        }
+      }
+    });
+    if (tasks.length === 0) return undefined;
+
+    const pool = workerPool ?? new ParseWorkerPool(this.config.workers!);
+    try {
+      const results = await pool.parseFiles(units.map((unit) => toProgramSpec(unit.program)), tasks, {
+        rootDir: path.resolve(rootDir),
+        gitInfo,
+      });
+      console.log(`🧵 Parsed ${tasks.length} file(s) in ${Math.min(pool.size, tasks.length)} worker thread(s)`);
+      return results;
+    } catch (error) {
+      console.warn(`⚠️  Worker parsing failed, parsing sequentially: ${(error as Error).message}`);
+      return undefined;
+    } finally {
+      if (!workerPool) await pool.close();
+    }
+  }
+
+  /**
+   * Keep the template matches visible from a component's workspace project:
+   * its own project first, then libraries (other applications are never visible)
+   */
+  private filterVisibleEntities(
+    entityIds: string[],
+    component: Entity,
+    entities: Map<string, Entity>,
+    workspace?: WorkspaceInfo
+  ): string[] {
+    if (!workspace || !component.project || entityIds.length < 2) return entityIds;
+
+    const projectOf = (id: string) => entities.get(id)?.project;
+    const own = entityIds.filter((id) => projectOf(id) === component.project);
+    if (own.length > 0) return own;
+
+    const libraries = new Set(workspace.projects.filter((p) => p.projectType === 'library').map((p) => p.name));
+    const visible = entityIds.filter((id) => !projectOf(id) || libraries.has(projectOf(id)!));
+    return visible.length > 0 ? visible : entityIds;
+  }
+
+  /**
+   * Mark relationships between entities of different projects and collect project dependencies
+   */
+  private linkProjects(
+    workspace: WorkspaceInfo,
+    entities: Map<string, Entity>,
+    relationships: Relationship[]
+  ): WorkspaceInfo {
+    const dependencies = new Map<string, Set<string>>();
+    let crossProjectCount = 0;
+
+    for (const rel of relationships) {
+      const sourceProject = entities.get(rel.source)?.project;
+      const targetProject = entities.get(rel.target)?.project;
+      if (!sourceProject || !targetProject || sourceProject === targetProject) continue;
+
+      rel.metadata = { ...rel.metadata, crossProject: true, sourceProject, targetProject };
+      if (!dependencies.has(sourceProject)) dependencies.set(sourceProject, new Set());
+      dependencies.get(sourceProject)!.add(targetProject);
+      crossProjectCount++;
+    }
+
+    if (crossProjectCount > 0) {
+      console.log(`🔗 Found ${crossProjectCount} cross-project relationship(s)`);
+    }
+
+    return {
+      ...workspace,
+      projects: workspace.projects.map((project) => ({
+        ...project,
+        dependencies: dependencies.has(project.name) ? [...dependencies.get(project.name)!].sort() : undefined,
+      })),
+    };
+  }
+
+  /**
+   * Map the files changed since `git.since` to entities and their transitive dependents
+   */
+  private async analyzeChanges(
+    rootDir: string,
+    gitInfo: GitRepository | undefined,
+    entities: Map<string, Entity>,
+    relationships: Relationship[]
+  ): Promise<ImpactAnalysis> {
+    const { since, until } = this.config.git!;
+    const changedFiles = await getChangedFiles(rootDir, since!, until);
+    const baseDir = getBaseDir(path.resolve(rootDir), gitInfo);
+
+    const impact = analyzeImpact(
+      entities,
+      relationships,
+      changedFiles.map((file) => makeRelative(file, baseDir)),
+      { since: since!, until }
+    );
+
+    console.log(
+      `🎯 Impact since ${since}: ${impact.changedFiles.length} changed file(s), ` +
+      `${impact.changedEntities.length} changed / ${impact.impactedEntities.length} impacted entities ` +
+      `(${impact.components.length} components, ${impact.routes.length} routes, ${impact.modules.length} modules)`
+    );
+    return impact;
+  }
+
+  /**
+   * Add an entity to the project with collision detection
+   */
+  private collectEntity(
+    entity: Entity,
+    sourceFile: ts.SourceFile,
+    allEntities: Map<string, Entity>,
+    sourceFileMap: Map<string, ts.SourceFile>
+  ): void {
+    const id = entity.id;
+    if (allEntities.has(id)) {
+      const existing = allEntities.get(id)!;
+      // Check if it's truly a duplicate (same file = OK, different file = collision)
+      if (existing.location.filePath !== entity.location.filePath) {
+        const error = new Error(
+          `Duplicate entity ID detected: ${id}\n` +
+          `  Existing: ${existing.name} in ${existing.location.filePath}:${existing.location.line}\n` +
+          `  New: ${entity.name} in ${entity.location.filePath}:${entity.location.line}\n` +
+          `This may indicate a bug in ID generation or duplicate class names.`
+        );
+        console.error('⚠️  ' + error.message);
+
+        // In strict mode, throw; otherwise just warn
+        if (this.config.strictMode) {
+          throw error;
+        }
+        // Skip the duplicate
+        return;
+      }
+    }
+    allEntities.set(id, entity);
+    // Map entity to source file for import resolution
+    sourceFileMap.set(id, sourceFile);
+  }
+
+  /**
+   * Standalone applications: bootstrapApplication() calls and the providers of their root injector
+   *
+   * Collected from the programs rather than per file (and not cached), since named configs
+   * usually live in another file (app.config.ts).
+   */
+  private findApplications(units: CompilationUnit[], rootDir: string, gitInfo?: GitRepository): ApplicationBootstrap[] {
+    const applications: ApplicationBootstrap[] = [];
+
+    for (const unit of units) {
+      const typeChecker = unit.program.getTypeChecker();
+      for (const sourceFile of unit.sourceFiles) {
+        if (!sourceFile.text.includes('bootstrapApplication')) continue;
+
+        const visit = (node: ts.Node): void => {
+          if (
+            ts.isCallExpression(node) &&
+            node.expression.getText(sourceFile) === 'bootstrapApplication' &&
+            node.arguments.length > 0
+          ) {
+            const [component, config] = node.arguments;
+            applications.push({
+              component: component.getText(sourceFile),
+              ...(config && ts.isIdentifier(config) && { config: config.text }),
+              providers: config && this.applicationProviders(config, typeChecker, new Set()),
+              location: getSourceLocation(node, sourceFile, path.resolve(rootDir), gitInfo),
+            });
+          }
+          ts.forEachChild(node, visit);
+        };
+        visit(sourceFile);
+      }
+    }
+
+    return applications;
+  }
+
+  /**
+   * Providers of an ApplicationConfig: object literal, (imported) constant or mergeApplicationConfig()
+   */
+  private applicationProviders(
+    expression: ts.Expression,
+    typeChecker: ts.TypeChecker,
+    seen: Set<ts.Node>
+  ): string[] | undefined {
+    while (ts.isSatisfiesExpression(expression) || ts.isAsExpression(expression) || ts.isParenthesizedExpression(expression)) {
+      expression = expression.expression;
+    }
+    if (seen.has(expression)) return undefined;
+    seen.add(expression);
+    const sourceFile = expression.getSourceFile();
+
+    if (ts.isObjectLiteralExpression(expression)) {
+      const providers = expression.properties.find(
+        (prop): prop is ts.PropertyAssignment => ts.isPropertyAssignment(prop) && prop.name.getText(sourceFile) === 'providers'
+      );
+      const value = providers ? parseExpression(providers.initializer, sourceFile) : undefined;
+      return Array.isArray(value) ? value : undefined;
+    }
+
+    if (ts.isCallExpression(expression) && expression.expression.getText(sourceFile) === 'mergeApplicationConfig') {
+      return expression.arguments.flatMap((arg) => this.applicationProviders(arg, typeChecker, seen) ?? []);
+    }
+
+    if (ts.isIdentifier(expression)) {
+      let symbol = typeChecker.getSymbolAtLocation(expression);
+      if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+        symbol = typeChecker.getAliasedSymbol(symbol);
+      }
+      const declaration = symbol?.valueDeclaration;
+      if (declaration && ts.isVariableDeclaration(declaration) && declaration.initializer) {
+        return this.applicationProviders(declaration.initializer, typeChecker, seen);
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Parse cache for incremental mode, kept across runs for the same root directory
+   */
+  private getParseCache(rootDir: string): ParseCache | undefined {
+    if (!this.config.cacheDir && !this.config.incremental) return undefined;
+
+    const absoluteRootDir = path.resolve(rootDir);
+    if (this.parseCache?.rootDir !== absoluteRootDir) {
+      this.parseCache = new ParseCache(
+        this.config.cacheDir ? path.resolve(this.config.cacheDir) : undefined,
+        absoluteRootDir
+      );
+    }
+    return this.parseCache;
+  }
+
+  /**
+   * Compiler host reusing unchanged SourceFiles of previous runs
+   *
+   * Built as an incremental host so every SourceFile carries the `version` the builder program
+   * of `--cache-dir` runs requires.
+   */
+  private createCompilerHost(options: ts.CompilerOptions): ts.CompilerHost {
+    const host = ts.createIncrementalCompilerHost(options);
+    const getSourceFile = host.getSourceFile;
+
+    host.getSourceFile = (fileName, languageVersion, onError, shouldCreateNewSourceFile) => {
+      const cached = this.sourceFileCache.get(fileName);
+      if (cached && !shouldCreateNewSourceFile && cached.text === host.readFile(fileName)) {
+        return cached;
+      }
+      const sourceFile = getSourceFile.call(host, fileName, languageVersion, onError, shouldCreateNewSourceFile);
+      if (sourceFile) this.sourceFileCache.set(fileName, sourceFile);
+      return sourceFile;
+    };
+
+    return host;
+  }
+
+  /**
+   * Single program for the whole root directory
+   */
+  private async createProjectProgram(files: string[], rootDir: string, cache?: ParseCache): Promise<CompilationUnit> {
+    const program = await this.createProgram(files, rootDir, { cache, oldProgram: this.program });
+    return { program, sourceFiles: program.getSourceFiles().filter((sf) => !this.shouldSkipFile(sf)) };
+  }
+
+  /**
+   * One program per workspace project, compiled with the project's own tsconfig (and path aliases)
+   *
+   * Files outside of every project form a unit without project. A unit only parses its own
+   * files, so library files pulled in through path aliases are not extracted twice.
+   */
+  private async createWorkspacePrograms(
+    files: string[],
+    rootDir: string,
+    workspace: WorkspaceInfo
+  ): Promise<CompilationUnit[]> {
+    const filesByProject = new Map<WorkspaceProject | undefined, string[]>();
+    for (const project of [...workspace.projects, undefined]) {
+      filesByProject.set(project, []);
+    }
+    for (const file of files) {
+      filesByProject.get(findOwningProject(workspace.projects, rootDir, file))!.push(file);
+    }
+
+    const units: CompilationUnit[] = [];
+    for (const [project, projectFiles] of filesByProject) {
+      if (projectFiles.length === 0) continue;
+
+      const program = await this.createProgram(
+        projectFiles,
+        project ? path.resolve(rootDir, project.root) : rootDir,
+        {
+          tsConfigPath: project?.tsConfigPath && path.resolve(rootDir, project.tsConfigPath),
+          oldProgram: this.units.find((unit) => unit.project?.name === project?.name)?.program,
+        }
+      );
+
+      const ownFiles = new Set(projectFiles.map((file) => path.resolve(file)));
+      units.push({
+        project,
+        program,
+        sourceFiles: program.getSourceFiles().filter(
+          (sf) => !this.shouldSkipFile(sf) && ownFiles.has(path.resolve(sf.fileName))
+        ),
+      });
+    }
+
+    return units;
+  }
+
+  /**
+   * Compiler options of the project owning each file
+   */
+  private getOptionsLookup(units: CompilationUnit[]): (fileName: string) => ts.CompilerOptions {
+    const optionsByFile = new Map<string, ts.CompilerOptions>();
+    for (const unit of units) {
+      const options = unit.program.getCompilerOptions();
+      unit.sourceFiles.forEach((sf) => optionsByFile.set(sf.fileName, options));
+    }
+    return (fileName) => optionsByFile.get(fileName) ?? this.program!.getCompilerOptions();
+  }
+
+  /**
+   * Drop SourceFiles that are no longer part of any program
+   */
+  private pruneSourceFileCache(units: CompilationUnit[]): void {
+    const current = new Set(units.flatMap((unit) => unit.program.getSourceFiles().map((sf) => sf.fileName)));
+    for (const fileName of this.sourceFileCache.keys()) {
+      if (!current.has(fileName)) this.sourceFileCache.delete(fileName);
+    }
+  }
+
+  private async createProgram(
+    files: string[],
+    rootDir: string,
+    options: { cache?: ParseCache; tsConfigPath?: string; oldProgram?: ts.Program } = {}
+  ): Promise<ts.Program> {
+    const { cache, oldProgram } = options;
+    const tsConfigPath = options.tsConfigPath || this.config.tsConfigPath || await findTsConfig(rootDir);
+    let compilerOptions: ts.CompilerOptions;
 
     if (tsConfigPath && tsConfigPath.endsWith('.json')) {
       try {
@@ -490,20 +1008,38 @@ export class AngularCoreParser {
           ts.sys,
           resolvePath(tsConfigPath, '..')
         );
-        options = parsedConfig.options;
+        compilerOptions = parsedConfig.options;
       } catch (error: any) {
         console.warn(`⚠️  Failed to parse tsconfig at ${tsConfigPath}: ${error.message}`);
         console.warn('   Falling back to default compiler options');
-        options = this.getDefaultCompilerOptions();
+        compilerOptions = this.getDefaultCompilerOptions();
       }
     } else {
-      options = this.getDefaultCompilerOptions();
+      compilerOptions = this.getDefaultCompilerOptions();
     }
 
-    return ts.createProgram({
-      rootNames: files,
-      options,
-    });
+    const host = this.createCompilerHost(compilerOptions);
+    let program: ts.Program;
+
+    if (cache?.buildInfoPath) {
+      // Reuse TypeScript incremental builder state (only the .tsbuildinfo file is emitted)
+      this.builderProgram = ts.createIncrementalProgram({
+        rootNames: files,
+        options: { ...compilerOptions, incremental: true, noEmit: true, tsBuildInfoFile: cache.buildInfoPath },
+        host,
+      });
+      program = this.builderProgram.getProgram();
+    } else {
+      this.builderProgram = undefined;
+      program = ts.createProgram({
+        rootNames: files,
+        options: compilerOptions,
+        host,
+        oldProgram,
+      });
+    }
+
+    return program;
   }
 
   private getDefaultCompilerOptions(): ts.CompilerOptions {
@@ -526,6 +1062,7 @@ export class AngularCoreParser {
     this.directiveParser.parse(node, context);
     this.pipeParser.parse(node, context);
     this.constantParser.parse(node, context);
+    this.routeParser.parse(node, context);
 
     // Traverse children
     ts.forEachChild(node, (child) => {
@@ -625,6 +1162,13 @@ export class AngularCoreParser {
     return this.program;
   }
 
+  /**
+   * Get the TypeScript programs of the last parse (one per workspace project)
+   */
+  getPrograms(): ts.Program[] {
+    return this.units.map((unit) => unit.program);
+  }
+
   /**
    * Scan for global SCSS files at common locations
    */
@@ -644,6 +1188,9 @@ export class AngularCoreParser {
       'theme.scss',
       'variables.scss',
       '_variables.scss',
+      'styles.css',
+      'styles.sass',
+      'styles.less',
     ];
 
     for (const dir of searchDirs) {
@@ -654,7 +1201,7 @@ export class AngularCoreParser {
 
         if (fs.existsSync(stylePath)) {
           try {
-            const styleFile = parseScssFile(stylePath, absoluteRootDir, gitInfo);
+            const styleFile = parseStyleFile(stylePath, absoluteRootDir, gitInfo);
             globalStyles.push(styleFile);
           } catch (error) {
             console.warn(`⚠️  Failed to parse global style file ${stylePath}:`, (error as Error).message);
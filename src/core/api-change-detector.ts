@@ -0,0 +1,304 @@
+/**
+ * API change detector
+ * Classifies public contract changes of components, directives and pipes as major/minor/patch
+ */
+
+import type { ComponentEntity, DirectiveEntity, Entity, InputMetadata, OutputMetadata, PipeEntity } from '../types/index.js';
+import { EntityType } from '../types/index.js';
+import { diffEntity, type DiffInput } from './result-diff.js';
+
+export type ChangeSeverity = 'major' | 'minor' | 'patch';
+
+export type ApiChangeKind =
+  | 'entity-removed'
+  | 'entity-added'
+  | 'input-removed'
+  | 'input-renamed'
+  | 'input-added'
+  | 'input-required'
+  | 'input-optional'
+  | 'input-type-changed'
+  | 'output-removed'
+  | 'output-renamed'
+  | 'output-added'
+  | 'output-type-changed'
+  | 'selector-changed'
+  | 'pipe-name-changed'
+  | 'implementation-changed';
+
+/**
+ * One classified change of the public API
+ */
+export interface ApiChange {
+  entityId: string;
+  entityName: string;
+  entityType: string;
+  kind: ApiChangeKind;
+  severity: ChangeSeverity;
+  member?: string;   // Input/output binding name
+  before?: string;
+  after?: string;
+  message: string;
+}
+
+export interface ApiChangeReport {
+  bump: ChangeSeverity | 'none';  // Required semver bump
+  summary: Record<ChangeSeverity, number>;
+  changes: ApiChange[];
+}
+
+type ContractEntity = ComponentEntity | DirectiveEntity | PipeEntity;
+
+const SEVERITY_ORDER: ChangeSeverity[] = ['patch', 'minor', 'major'];
+
+/**
+ * Compare the public API of two versions of a library
+ *
+ * Public API = exported components, directives and pipes. Entities are matched
+ * by ID, then by type and name (so moving a file is not a removal).
+ */
+export function detectApiChanges(before: DiffInput, after: DiffInput): ApiChangeReport {
+  const beforeEntities = publicEntities(before);
+  const afterEntities = publicEntities(after);
+  const changes: ApiChange[] = [];
+
+  const afterByName = new Map(afterEntities.map((e) => [`${e.type}:${e.name}`, e]));
+  const afterById = new Map(afterEntities.map((e) => [e.id, e]));
+  const matched = new Set<string>();
+
+  for (const previous of beforeEntities) {
+    const current = afterById.get(previous.id) ?? afterByName.get(`${previous.type}:${previous.name}`);
+    if (!current || matched.has(current.id)) {
+      changes.push(change(previous, 'entity-removed', 'major', `${label(previous)} was removed`));
+      continue;
+    }
+    matched.add(current.id);
+    changes.push(...compareContracts(previous, current));
+  }
+
+  for (const current of afterEntities) {
+    if (!matched.has(current.id)) {
+      changes.push(change(current, 'entity-added', 'minor', `${label(current)} was added`));
+    }
+  }
+
+  const summary: Record<ChangeSeverity, number> = { major: 0, minor: 0, patch: 0 };
+  changes.forEach((c) => summary[c.severity]++);
+
+  const bump = [...SEVERITY_ORDER].reverse().find((severity) => summary[severity] > 0) ?? 'none';
+
+  return { bump, summary, changes };
+}
+
+/**
+ * Changes between two versions of the same entity
+ */
+function compareContracts(before: ContractEntity, after: ContractEntity): ApiChange[] {
+  const changes: ApiChange[] = [];
+
+  if (before.type === EntityType.Pipe && after.type === EntityType.Pipe) {
+    if (before.pipeName !== after.pipeName) {
+      changes.push(change(after, 'pipe-name-changed', 'major',
+        `${label(after)} name changed from '${before.pipeName}' to '${after.pipeName}'`,
+        { before: before.pipeName, after: after.pipeName }));
+    }
+  } else if (before.type !== EntityType.Pipe && after.type !== EntityType.Pipe) {
+    const selectorChange = compareSelectors(before.selector, after.selector);
+    if (selectorChange) {
+      changes.push(change(after, 'selector-changed', selectorChange,
+        `${label(after)} selector changed from '${before.selector ?? ''}' to '${after.selector ?? ''}'`,
+        { before: before.selector, after: after.selector }));
+    }
+    changes.push(...compareInputs(after, before.inputs ?? [], after.inputs ?? []));
+    changes.push(...compareOutputs(after, before.outputs ?? [], after.outputs ?? []));
+  }
+
+  // Anything else that changed does not affect consumers' code (the ID only encodes the file path)
+  if (changes.length === 0 && diffEntity(before, after).some((c) => c.field !== 'id')) {
+    changes.push(change(after, 'implementation-changed', 'patch', `${label(after)} implementation changed`));
+  }
+
+  return changes;
+}
+
+function compareInputs(entity: ContractEntity, before: InputMetadata[], after: InputMetadata[]): ApiChange[] {
+  const changes: ApiChange[] = [];
+  const { removed, added, kept } = matchMembers(before, after);
+
+  for (const [previous, current] of renamed(removed, added)) {
+    changes.push(change(entity, 'input-renamed', 'major',
+      `${label(entity)} input '${bindingName(previous)}' was renamed to '${bindingName(current)}'`,
+      { member: bindingName(current), before: bindingName(previous), after: bindingName(current) }));
+  }
+  for (const input of removed) {
+    changes.push(change(entity, 'input-removed', 'major',
+      `${label(entity)} input '${bindingName(input)}' was removed`, { member: bindingName(input) }));
+  }
+  for (const input of added) {
+    const required = input.required === true;
+    changes.push(change(entity, 'input-added', required ? 'major' : 'minor',
+      `${label(entity)} ${required ? 'required ' : ''}input '${bindingName(input)}' was added`,
+      { member: bindingName(input) }));
+  }
+
+  for (const [previous, current] of kept) {
+    const member = bindingName(current);
+    if (!previous.required && current.required) {
+      changes.push(change(entity, 'input-required', 'major',
+        `${label(entity)} input '${member}' became required`, { member }));
+    } else if (previous.required && !current.required) {
+      changes.push(change(entity, 'input-optional', 'minor',
+        `${label(entity)} input '${member}' is no longer required`, { member }));
+    }
+
+    if (normalizeType(previous.type) !== normalizeType(current.type)) {
+      const severity = isWidened(previous.type, current.type) ? 'minor' : 'major';
+      changes.push(change(entity, 'input-type-changed', severity,
+        `${label(entity)} input '${member}' type changed from '${previous.type ?? 'any'}' to '${current.type ?? 'any'}'`,
+        { member, before: previous.type, after: current.type }));
+    }
+  }
+
+  return changes;
+}
+
+function compareOutputs(entity: ContractEntity, before: OutputMetadata[], after: OutputMetadata[]): ApiChange[] {
+  const changes: ApiChange[] = [];
+  const { removed, added, kept } = matchMembers(before, after);
+
+  for (const [previous, current] of renamed(removed, added)) {
+    changes.push(change(entity, 'output-renamed', 'major',
+      `${label(entity)} output '${bindingName(previous)}' was renamed to '${bindingName(current)}'`,
+      { member: bindingName(current), before: bindingName(previous), after: bindingName(current) }));
+  }
+  for (const output of removed) {
+    changes.push(change(entity, 'output-removed', 'major',
+      `${label(entity)} output '${bindingName(output)}' was removed`, { member: bindingName(output) }));
+  }
+  for (const output of added) {
+    changes.push(change(entity, 'output-added', 'minor',
+      `${label(entity)} output '${bindingName(output)}' was added`, { member: bindingName(output) }));
+  }
+
+  // Emitted type changes affect every subscriber, whatever the direction
+  for (const [previous, current] of kept) {
+    if (normalizeType(previous.type) !== normalizeType(current.type)) {
+      const member = bindingName(current);
+      changes.push(change(entity, 'output-type-changed', 'major',
+        `${label(entity)} output '${member}' type changed from '${previous.type ?? 'any'}' to '${current.type ?? 'any'}'`,
+        { member, before: previous.type, after: current.type }));
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Match inputs/outputs by public binding name
+ */
+function matchMembers<T extends InputMetadata | OutputMetadata>(before: T[], after: T[]) {
+  const afterByName = new Map(after.map((m) => [bindingName(m), m]));
+  const beforeNames = new Set(before.map(bindingName));
+
+  return {
+    removed: before.filter((m) => !afterByName.has(bindingName(m))),
+    added: after.filter((m) => !beforeNames.has(bindingName(m))),
+    kept: before
+      .filter((m) => afterByName.has(bindingName(m)))
+      .map((m) => [m, afterByName.get(bindingName(m))!] as [T, T]),
+  };
+}
+
+/**
+ * Pair removed/added members that are renames (same property with a new alias, or
+ * a single removed/added pair of the same type). Paired members are taken out of the lists.
+ */
+function renamed<T extends InputMetadata | OutputMetadata>(removed: T[], added: T[]): Array<[T, T]> {
+  const pairs: Array<[T, T]> = [];
+
+  // JSON exports omit propertyName when it equals name
+  const property = (member: T) => member.propertyName ?? member.name;
+  for (const previous of removed) {
+    const current = added.find((m) =>
+      property(m) === property(previous) &&
+      bindingName(m) !== bindingName(previous) &&
+      !pairs.some(([, paired]) => paired === m)
+    );
+    if (current) pairs.push([previous, current]);
+  }
+
+  if (pairs.length === 0 && removed.length === 1 && added.length === 1 &&
+      normalizeType(removed[0].type) === normalizeType(added[0].type) && removed[0].type) {
+    pairs.push([removed[0], added[0]]);
+  }
+
+  for (const [previous, current] of pairs) {
+    removed.splice(removed.indexOf(previous), 1);
+    added.splice(added.indexOf(current), 1);
+  }
+  return pairs;
+}
+
+/**
+ * Selector changes: adding alternatives is minor, anything else breaks templates
+ */
+function compareSelectors(before?: string, after?: string): ChangeSeverity | undefined {
+  const split = (selector?: string) =>
+    new Set((selector ?? '').split(',').map((s) => s.trim()).filter(Boolean));
+  const previous = split(before);
+  const current = split(after);
+
+  if ([...previous].every((s) => current.has(s))) {
+    return current.size > previous.size ? 'minor' : undefined;
+  }
+  return 'major';
+}
+
+/**
+ * Union type that keeps all previous members (e.g. `string` -> `string | null`)
+ */
+function isWidened(before?: string, after?: string): boolean {
+  if (!before || !after) return !after; // Dropping the annotation accepts anything
+  const members = (type: string) => new Set(type.split('|').map((t) => t.trim()));
+  const current = members(after);
+  return [...members(before)].every((t) => current.has(t));
+}
+
+function normalizeType(type?: string): string {
+  return (type ?? '').replace(/\s+/g, '');
+}
+
+function bindingName(member: InputMetadata | OutputMetadata): string {
+  return member.alias ?? member.name;
+}
+
+function publicEntities(input: DiffInput): ContractEntity[] {
+  const entities: Entity[] = input.entities instanceof Map ? Array.from(input.entities.values()) : input.entities;
+  return entities.filter(
+    (e): e is ContractEntity =>
+      (e.type === EntityType.Component || e.type === EntityType.Directive || e.type === EntityType.Pipe) &&
+      (!e.modifiers || e.modifiers.length === 0 || e.modifiers.includes('exportkeyword'))
+  );
+}
+
+function label(entity: Entity): string {
+  return `${entity.type} ${entity.name}`;
+}
+
+function change(
+  entity: Entity,
+  kind: ApiChangeKind,
+  severity: ChangeSeverity,
+  message: string,
+  details: { member?: string; before?: string; after?: string } = {}
+): ApiChange {
+  return {
+    entityId: entity.id,
+    entityName: entity.name,
+    entityType: entity.type,
+    kind,
+    severity,
+    ...details,
+    message,
+  };
+}
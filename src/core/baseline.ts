@@ -0,0 +1,119 @@
+/**
+ * Finding baselines
+ * Records the findings of a run by stable fingerprint so later runs only report new findings
+ */
+
+import { createHash } from 'crypto';
+import type { Finding } from './findings.js';
+
+export const DEFAULT_BASELINE_FILE = 'ng-parser.baseline.json';
+
+/**
+ * Baselined findings sharing one fingerprint
+ */
+export interface BaselineEntry {
+  fingerprint: string;
+  ruleId: string;
+  filePath?: string;
+  entityId?: string;
+  count: number;
+}
+
+/**
+ * Baseline file contents
+ */
+export interface Baseline {
+  version: 1;
+  createdAt: string;
+  entries: BaselineEntry[];
+}
+
+/**
+ * Findings of a run split against a baseline
+ */
+export interface BaselineResult {
+  new: Finding[];
+  baselined: Finding[];
+  fixed: BaselineEntry[];  // Entries (with the remaining count) no longer found
+}
+
+/**
+ * Stable fingerprint of a finding: rule ID, entity and file path
+ *
+ * Line and column are left out so that edits elsewhere in the file keep findings baselined.
+ */
+export function fingerprintFinding(finding: Finding): string {
+  const filePath = finding.location?.filePath.replace(/\\/g, '/') ?? '';
+  return createHash('sha256')
+    .update([finding.ruleId, finding.entityId ?? '', filePath].join('|'))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Create a baseline from the findings of a run
+ */
+export function createBaseline(findings: Finding[]): Baseline {
+  const entries = new Map<string, BaselineEntry>();
+  for (const finding of findings) {
+    const fingerprint = fingerprintFinding(finding);
+    const entry = entries.get(fingerprint);
+    if (entry) {
+      entry.count++;
+      continue;
+    }
+    entries.set(fingerprint, {
+      fingerprint,
+      ruleId: finding.ruleId,
+      ...(finding.location && { filePath: finding.location.filePath.replace(/\\/g, '/') }),
+      ...(finding.entityId && { entityId: finding.entityId }),
+      count: 1,
+    });
+  }
+
+  return { version: 1, createdAt: new Date().toISOString(), entries: Array.from(entries.values()) };
+}
+
+/**
+ * Split findings into new and baselined ones
+ *
+ * Each entry absorbs up to `count` findings with its fingerprint; further ones are new.
+ */
+export function applyBaseline(findings: Finding[], baseline: Baseline): BaselineResult {
+  const remaining = new Map(baseline.entries.map((entry) => [entry.fingerprint, entry.count]));
+  const result: BaselineResult = { new: [], baselined: [], fixed: [] };
+
+  for (const finding of findings) {
+    const fingerprint = fingerprintFinding(finding);
+    const count = remaining.get(fingerprint) ?? 0;
+    if (count > 0) {
+      remaining.set(fingerprint, count - 1);
+      result.baselined.push(finding);
+    } else {
+      result.new.push(finding);
+    }
+  }
+
+  for (const entry of baseline.entries) {
+    const count = remaining.get(entry.fingerprint) ?? 0;
+    if (count > 0) result.fixed.push({ ...entry, count });
+  }
+
+  return result;
+}
+
+/**
+ * Validate parsed baseline file contents
+ */
+export function validateBaseline(data: unknown): Baseline {
+  const baseline = data as Baseline;
+  if (!baseline || typeof baseline !== 'object' || baseline.version !== 1 || !Array.isArray(baseline.entries)) {
+    throw new Error('Invalid baseline: expected { version: 1, entries: [...] }');
+  }
+  for (const entry of baseline.entries) {
+    if (typeof entry?.fingerprint !== 'string' || typeof entry.count !== 'number') {
+      throw new Error(`Invalid baseline entry: ${JSON.stringify(entry)}`);
+    }
+  }
+  return baseline;
+}
@@ -0,0 +1,678 @@
+/**
+ * DI resolver
+ * Models the injector tree of a parse result and resolves each injection to the provider that satisfies it
+ */
+
+import type {
+  ComponentEntity,
+  ConstantEntity,
+  DirectiveEntity,
+  Entity,
+  ModuleEntity,
+  Relationship,
+  RouteEntity,
+  ServiceEntity,
+} from '../types/index.js';
+import { EntityType, RelationType } from '../types/index.js';
+import type { VisitorWarning } from '../visitors/base/custom-visitor.js';
+import { parseProviders, type ProviderKind } from '../utils/provider-helpers.js';
+import { SelectorResolver } from '../utils/selector-resolver.js';
+import type { QueryInput } from './graph-query.js';
+
+export type InjectorKind = 'platform' | 'root' | 'environment' | 'element';
+
+/**
+ * Provider registered in an injector
+ */
+export interface DiProvider {
+  token: string;
+  kind: ProviderKind;
+  implementation?: string;   // useClass / useFactory / useExisting target
+  multi?: boolean;
+  view?: boolean;            // Declared in viewProviders
+  injector: string;
+  entityId?: string;         // Declaring entity: module, route, component, directive, providedIn class/token or bootstrapped component
+}
+
+/**
+ * Injector: platform, root, environment (lazy module or route providers) or element (component/directive)
+ */
+export interface InjectorNode {
+  id: string;                // 'platform', 'root' or the owning entity ID
+  kind: InjectorKind;
+  entityId?: string;
+  parent?: string;           // Environment injectors only; element injectors chain through template usage
+  providers: DiProvider[];
+}
+
+export interface InjectFlags {
+  optional?: boolean;
+  self?: boolean;
+  skipSelf?: boolean;
+  host?: boolean;
+}
+
+export type InjectionStatus = 'resolved' | 'optional' | 'external' | 'missing';
+
+/**
+ * Resolution of one injection (constructor parameter or inject() call)
+ */
+export interface InjectionResolution {
+  consumerId: string;
+  token: string;
+  relationshipId: string;
+  flags?: InjectFlags;
+  status: InjectionStatus;   // optional/external: not found, but @Optional() or a token from outside the project
+  injector?: string;         // Injector that satisfied the injection
+  providedBy?: string;       // Entity ID declaring the provider
+  providers: DiProvider[];   // Several for multi providers; useExisting aliases are followed
+  aliases?: string[];        // useExisting tokens followed, in order
+}
+
+/**
+ * DI diagnostic; `code` is `di-no-provider` or `di-alias-cycle`
+ */
+export interface DiDiagnostic extends VisitorWarning {
+  entityId: string;
+  relationshipId?: string;
+}
+
+export interface DiReport {
+  injectors: InjectorNode[];
+  injections: InjectionResolution[];
+  diagnostics: DiDiagnostic[];
+  summary: Record<InjectionStatus, number>;
+}
+
+/**
+ * Injector in a lookup chain; `view` is false for injectors whose viewProviders the consumer
+ * cannot see (hosts it is projected into, environment injectors)
+ */
+interface ChainLink {
+  id: string;
+  view: boolean;
+}
+
+interface Match {
+  injector: string;
+  providers: DiProvider[];
+  aliases: string[];
+  cycle?: string[];
+  missingAlias?: string;
+}
+
+const ENV_ROOT = ['root', 'platform'];
+
+/**
+ * Resolves injections against a model of Angular's injector hierarchy
+ *
+ * - platform / root: `providedIn` classes and InjectionTokens, `bootstrapApplication()` config
+ *   providers (`metadata.applications`), providers of eagerly imported NgModules
+ * - environment: lazily loaded NgModules (with their imports) and route `providers`
+ * - element: component `providers` / `viewProviders` and directive `providers`; a component's
+ *   element injector's parents are the components/directives on the elements it is projected into,
+ *   then the components using it in their templates. `viewProviders` are only visible to the
+ *   component itself and its view, not to projected content
+ *
+ * Components resolve through their element injectors, then the environment injector of the
+ * route rendering them (or of the lazy module declaring them). Services resolve from the injector
+ * providing them. `self`, `skipSelf`, `host` and `optional` are honored; multi providers collect all
+ * entries of the nearest injector, and `useExisting` aliases are resolved from the injector declaring them.
+ */
+export class DiResolver {
+  private entities: Map<string, Entity>;
+  private byName = new Map<string, Entity>();
+  private injectors = new Map<string, InjectorNode>();
+  private templateParents = new Map<string, string[]>();
+  private selectorResolver = new SelectorResolver();
+  private routedBy = new Map<string, string[]>();
+  private declaredBy = new Map<string, string[]>();
+  private moduleImports = new Map<string, string[]>();
+  private lazyModules = new Map<string, string>();   // Lazy module ID -> loading route ID
+  private eagerModules = new Set<string>();
+
+  constructor(private input: QueryInput) {
+    this.entities = input.entities instanceof Map ? input.entities : new Map(input.entities.map((e) => [e.id, e]));
+    for (const entity of this.entities.values()) {
+      if (!this.byName.has(entity.name)) this.byName.set(entity.name, entity);
+    }
+    this.selectorResolver.buildIndex(this.entities);
+    this.index();
+    this.buildInjectors();
+  }
+
+  /**
+   * Injectors with providers, platform and root first
+   */
+  getInjectors(): InjectorNode[] {
+    return Array.from(this.injectors.values()).filter(
+      (injector) => injector.kind === 'platform' || injector.kind === 'root' || injector.providers.length > 0
+    );
+  }
+
+  /**
+   * Resolve every `injects` relationship
+   */
+  resolve(): DiReport {
+    const injections: InjectionResolution[] = [];
+    const diagnostics: DiDiagnostic[] = [];
+
+    for (const rel of this.input.relationships) {
+      if (rel.type !== RelationType.Injects) continue;
+      const consumer = this.entities.get(rel.source);
+      if (!consumer) continue;
+
+      const { resolution, diagnostic } = this.resolveInjection(consumer, rel);
+      injections.push(resolution);
+      if (diagnostic) diagnostics.push(diagnostic);
+    }
+
+    const summary: Record<InjectionStatus, number> = { resolved: 0, optional: 0, external: 0, missing: 0 };
+    injections.forEach((injection) => summary[injection.status]++);
+
+    return { injectors: this.getInjectors(), injections, diagnostics, summary };
+  }
+
+  /**
+   * Injector IDs searched for an entity's injections, nearest first
+   */
+  injectorChain(entity: Entity): string[] {
+    return this.chainOf(entity).map((link) => link.id);
+  }
+
+  private chainOf(entity: Entity): ChainLink[] {
+    if (entity.type === EntityType.Component || entity.type === EntityType.Directive) {
+      return [...this.elementChain(entity.id), ...environment(this.environmentChain(entity.id, new Set()))];
+    }
+    if (entity.type === EntityType.Service || entity.type === EntityType.Injectable) {
+      return this.providingChain(entity);
+    }
+    return environment(ENV_ROOT);
+  }
+
+  private resolveInjection(
+    consumer: Entity,
+    rel: Relationship
+  ): { resolution: InjectionResolution; diagnostic?: DiDiagnostic } {
+    const target = this.entities.get(rel.target) ?? this.byName.get(rel.target);
+    const token = target?.name ?? rel.metadata?.originalName ?? rel.target.split(':').pop()!;
+    const flags = pickFlags(rel.metadata);
+
+    let chain = this.chainOf(consumer);
+    const isDeclarable = consumer.type === EntityType.Component || consumer.type === EntityType.Directive;
+    if (flags.self) {
+      chain = chain.slice(0, 1);
+    } else if (flags.host && isDeclarable) {
+      // @Host() stops at the host component: the component itself, or the component whose template holds the directive
+      const host = consumer.type === EntityType.Component ? 0 : chain.findIndex((link, index) => index > 0 && link.view);
+      chain = chain.slice(0, host + 1);
+    }
+    if (flags.skipSelf) {
+      chain = chain.slice(1);
+    }
+
+    const match = this.lookup(token, chain, 0, [token]);
+    const base = {
+      consumerId: consumer.id,
+      token,
+      relationshipId: rel.id,
+      ...(Object.keys(flags).length > 0 && { flags }),
+    };
+
+    if (match && !match.cycle && !match.missingAlias) {
+      return {
+        resolution: {
+          ...base,
+          status: 'resolved',
+          injector: match.injector,
+          providedBy: match.providers[0]?.entityId,
+          providers: match.providers,
+          ...(match.aliases.length > 0 && { aliases: match.aliases }),
+        },
+      };
+    }
+
+    if (match?.cycle) {
+      return {
+        resolution: { ...base, status: 'missing', injector: match.injector, providers: [], aliases: match.aliases },
+        diagnostic: this.diagnostic(consumer, rel, 'di-alias-cycle', `${consumer.name}: useExisting cycle ${match.cycle.join(' → ')}`),
+      };
+    }
+
+    const missing = match?.missingAlias ?? token;
+    const internal = match?.missingAlias ? this.byName.has(missing) : target !== undefined;
+    const status: InjectionStatus = flags.optional ? 'optional' : internal ? 'missing' : 'external';
+    const resolution: InjectionResolution = {
+      ...base,
+      status,
+      providers: [],
+      ...(match && { aliases: match.aliases }),
+    };
+    if (status !== 'missing') {
+      return { resolution };
+    }
+
+    const scope = flags.self ? ' (@Self)' : flags.host ? ' (@Host)' : flags.skipSelf ? ' (@SkipSelf)' : '';
+    const alias = match?.missingAlias ? ` (useExisting alias of ${token})` : '';
+    const missingEntity = this.byName.get(missing);
+    const fix = missingEntity?.type === EntityType.Service || missingEntity?.type === EntityType.Injectable
+      ? `Set providedIn: 'root' on ${missing} or add it to a providers array`
+      : `Add ${missing} to a providers array`;
+
+    return {
+      resolution,
+      diagnostic: {
+        ...this.diagnostic(consumer, rel, 'di-no-provider', `${consumer.name}: no provider for ${missing}${alias}${scope}`),
+        fix,
+      },
+    };
+  }
+
+  /**
+   * Find a token from `start` in a chain; useExisting aliases continue from the declaring injector
+   */
+  private lookup(token: string, chain: ChainLink[], start: number, seen: string[]): Match | undefined {
+    for (let index = start; index < chain.length; index++) {
+      const injector = this.injectors.get(chain[index].id);
+      if (!injector) continue;
+
+      let matches = injector.providers.filter(
+        (provider) => provider.token === token && (chain[index].view || !provider.view)
+      );
+      if (matches.length === 0 && injector.kind === 'element' && this.entities.get(injector.id)?.name === token) {
+        // An element injector also provides its own component/directive instance
+        matches = [{ token, kind: 'class', implementation: token, injector: injector.id, entityId: injector.id }];
+      }
+      if (matches.length === 0) continue;
+
+      // Multi providers are merged; otherwise the last provider wins
+      const chosen = matches.some((provider) => provider.multi)
+        ? matches.filter((provider) => provider.multi)
+        : [matches[matches.length - 1]];
+
+      const result: Match = { injector: injector.id, providers: [], aliases: [] };
+      for (const provider of chosen) {
+        if (provider.kind !== 'existing' || !provider.implementation) {
+          result.providers.push(provider);
+          continue;
+        }
+
+        const alias = provider.implementation;
+        result.aliases.push(alias);
+        if (seen.includes(alias)) {
+          return { ...result, cycle: [...seen, alias] };
+        }
+        const aliased = this.lookup(alias, chain, index, [...seen, alias]);
+        if (!aliased) {
+          return { ...result, missingAlias: alias };
+        }
+        result.aliases.push(...aliased.aliases);
+        if (aliased.cycle || aliased.missingAlias) {
+          return { ...result, cycle: aliased.cycle, missingAlias: aliased.missingAlias };
+        }
+        result.providers.push(...aliased.providers);
+      }
+      return result;
+    }
+    return undefined;
+  }
+
+  // === Chains ===
+
+  /**
+   * The entity's element injector, then for each component using it in a template (breadth-first)
+   * the hosts it is projected into there, without their viewProviders, and the component itself
+   */
+  private elementChain(entityId: string): ChainLink[] {
+    const chain: ChainLink[] = [{ id: entityId, view: true }];
+    const queue = [entityId];
+    const seen = new Set(queue);
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      for (const parent of this.templateParents.get(id) ?? []) {
+        for (const host of this.contentHosts(parent, id)) {
+          if (seen.has(host)) continue;
+          seen.add(host);
+          chain.push({ id: host, view: false });
+        }
+        if (seen.has(parent)) continue;
+        seen.add(parent);
+        chain.push({ id: parent, view: true });
+        queue.push(parent);
+      }
+    }
+    return chain;
+  }
+
+  /**
+   * Components/directives on the elements enclosing an entity's elements in a component template, nearest first
+   */
+  private contentHosts(componentId: string, entityId: string): string[] {
+    const elements = (this.entities.get(componentId) as ComponentEntity | undefined)?.templateAnalysis?.elements ?? [];
+    const matches = elements.map((element) =>
+      this.selectorResolver.resolveElement(element.name, [
+        ...(element.attributes ?? []),
+        ...(element.bindings ?? []).map((binding) => binding.name),
+      ])
+    );
+
+    const hosts: string[] = [];
+    elements.forEach((element, index) => {
+      if (!matches[index].includes(entityId)) return;
+      for (let parent = element.parent; parent !== undefined; parent = elements[parent].parent) {
+        matches[parent].filter((id) => id !== entityId && !hosts.includes(id)).forEach((id) => hosts.push(id));
+      }
+    });
+    return hosts;
+  }
+
+  /**
+   * Environment injectors of a component/directive: rendering route, declaring lazy module, or template parents'
+   */
+  private environmentChain(entityId: string, seen: Set<string>): string[] {
+    seen.add(entityId);
+
+    const route = this.routedBy.get(entityId)?.[0];
+    if (route) {
+      return this.routeChain(route);
+    }
+
+    for (const moduleId of this.declaredBy.get(entityId) ?? []) {
+      if (this.lazyModules.has(moduleId)) {
+        return [moduleId, ...this.routeChain(this.lazyModules.get(moduleId)!)];
+      }
+    }
+
+    for (const parent of this.templateParents.get(entityId) ?? []) {
+      if (seen.has(parent)) continue;
+      const chain = this.environmentChain(parent, seen);
+      if (chain !== ENV_ROOT) return chain;
+    }
+
+    return ENV_ROOT;
+  }
+
+  /**
+   * Route providers up to the root; a route loading a lazy module adds the module's injector below its own
+   */
+  private routeChain(routeId: string): string[] {
+    const chain: string[] = [];
+    const seen = new Set<string>();
+    let current = this.entities.get(routeId) as RouteEntity | undefined;
+    let below = false;
+
+    while (current && !seen.has(current.id)) {
+      seen.add(current.id);
+      const lazyModule = below ? this.lazyModuleOf(current.id) : undefined;
+      if (lazyModule) chain.push(lazyModule);
+      chain.push(current.id);
+      below = true;
+      current = current.parentRoute ? (this.entities.get(current.parentRoute) as RouteEntity | undefined) : undefined;
+    }
+
+    return [...chain, ...ENV_ROOT];
+  }
+
+  /**
+   * Where a service is resolved from: the first injector providing it
+   */
+  private providingChain(service: Entity): ChainLink[] {
+    for (const injector of this.injectors.values()) {
+      if (!injector.providers.some((provider) => provider.token === service.name)) continue;
+
+      switch (injector.kind) {
+        case 'platform':
+          return environment(['platform']);
+        case 'root':
+          return environment(ENV_ROOT);
+        case 'element':
+          return this.chainOf(this.entities.get(injector.id)!);
+        case 'environment': {
+          const entity = this.entities.get(injector.id);
+          return environment(entity?.type === EntityType.Route
+            ? this.routeChain(entity.id)
+            : [injector.id, ...this.routeChain(this.lazyModules.get(injector.id)!)]);
+        }
+      }
+    }
+    return environment(ENV_ROOT);
+  }
+
+  private lazyModuleOf(routeId: string): string | undefined {
+    for (const [moduleId, loadingRoute] of this.lazyModules) {
+      if (loadingRoute === routeId) return moduleId;
+    }
+    return undefined;
+  }
+
+  // === Index ===
+
+  private index(): void {
+    for (const rel of this.input.relationships) {
+      switch (rel.type) {
+        case RelationType.UsesInTemplate:
+        case RelationType.DefersInTemplate:
+          push(this.templateParents, rel.target, rel.source);
+          break;
+        case RelationType.RoutesTo:
+          push(this.routedBy, rel.target, rel.source);
+          break;
+        case RelationType.LazyLoads: {
+          const target = this.entities.get(rel.target);
+          if (target?.type === EntityType.Component) push(this.routedBy, rel.target, rel.source);
+          if (target?.type === EntityType.Module) this.lazyModules.set(target.id, rel.source);
+          break;
+        }
+        case RelationType.Declares:
+          push(this.declaredBy, rel.target, rel.source);
+          break;
+        case RelationType.Imports:
+          if (this.entities.get(rel.source)?.type === EntityType.Module && this.entities.get(rel.target)?.type === EntityType.Module) {
+            push(this.moduleImports, rel.source, rel.target);
+          }
+          break;
+      }
+    }
+
+    // loadChildren: () => import(...).then((m) => m.AdminModule)
+    for (const entity of this.entities.values()) {
+      const route = entity as RouteEntity;
+      if (entity.type !== EntityType.Route || !route.loadChildren || !route.lazyExport) continue;
+      const target = this.byName.get(route.lazyExport);
+      if (target?.type === EntityType.Module && !this.lazyModules.has(target.id)) {
+        this.lazyModules.set(target.id, route.id);
+      }
+    }
+
+    // Eager modules: reachable through imports from a module that is not lazily loaded
+    const lazyClosure = new Set<string>();
+    for (const moduleId of this.lazyModules.keys()) {
+      this.moduleClosure(moduleId).forEach((id) => lazyClosure.add(id));
+    }
+    for (const entity of this.entities.values()) {
+      if (entity.type !== EntityType.Module || lazyClosure.has(entity.id)) continue;
+      this.moduleClosure(entity.id).forEach((id) => this.eagerModules.add(id));
+    }
+  }
+
+  private moduleClosure(moduleId: string): string[] {
+    const closure = [moduleId];
+    for (let index = 0; index < closure.length; index++) {
+      for (const imported of this.moduleImports.get(closure[index]) ?? []) {
+        if (!closure.includes(imported)) closure.push(imported);
+      }
+    }
+    return closure;
+  }
+
+  // === Injectors ===
+
+  private buildInjectors(): void {
+    const platform = this.addInjector('platform', 'platform');
+    const root = this.addInjector('root', 'root');
+
+    for (const moduleId of this.lazyModules.keys()) {
+      this.addInjector(moduleId, 'environment', moduleId);
+    }
+
+    for (const entity of this.entities.values()) {
+      switch (entity.type) {
+        case EntityType.Service:
+        case EntityType.Injectable:
+        case EntityType.Constant: {
+          const { providedIn } = entity as ServiceEntity | ConstantEntity;
+          if (providedIn) {
+            const injector = this.providedInInjector(providedIn, platform, root);
+            injector.providers.push({
+              token: entity.name,
+              kind: 'class',
+              implementation: entity.name,
+              injector: injector.id,
+              entityId: entity.id,
+            });
+          }
+          break;
+        }
+        case EntityType.Module: {
+          const module = entity as ModuleEntity;
+          const injector = this.moduleInjector(entity.id) ?? root;
+          injector.providers.push(...this.providersOf(module.providers, injector.id, entity.id));
+          break;
+        }
+        case EntityType.Route: {
+          const route = entity as RouteEntity;
+          if (!route.providers?.length) break;
+          const injector = this.addInjector(entity.id, 'environment', entity.id);
+          injector.providers.push(...this.providersOf(route.providers, injector.id, entity.id));
+          break;
+        }
+        case EntityType.Component:
+        case EntityType.Directive: {
+          const declarable = entity as ComponentEntity | DirectiveEntity;
+          const injector = this.addInjector(entity.id, 'element', entity.id);
+          injector.providers.push(...this.providersOf(declarable.providers, injector.id, entity.id));
+          injector.providers.push(
+            ...this.providersOf((entity as ComponentEntity).viewProviders, injector.id, entity.id)
+              .map((provider) => ({ ...provider, view: true }))
+          );
+          break;
+        }
+      }
+    }
+
+    // bootstrapApplication(AppComponent, { providers }), attributed to the bootstrapped component;
+    // added last since explicit providers override providedIn: 'root'
+    for (const application of this.input.metadata?.applications ?? []) {
+      const component = this.byName.get(application.component);
+      root.providers.push(...this.providersOf(application.providers, root.id, component?.id));
+    }
+
+    root.parent = platform.id;
+    for (const injector of this.injectors.values()) {
+      if (injector.kind !== 'environment') continue;
+      const chain = this.entities.get(injector.id)?.type === EntityType.Route
+        ? this.routeChain(injector.id)
+        : [injector.id, ...this.routeChain(this.lazyModules.get(injector.id)!)];
+      injector.parent = chain.slice(1).find((id) => this.injectors.get(id)?.providers.length || ENV_ROOT.includes(id));
+    }
+  }
+
+  /**
+   * Injector of an NgModule: its own when lazily loaded, the closest lazy module importing it, or root
+   */
+  private moduleInjector(moduleId: string): InjectorNode | undefined {
+    if (this.eagerModules.has(moduleId)) return undefined;
+    if (this.lazyModules.has(moduleId)) return this.injectors.get(moduleId);
+    for (const lazyId of this.lazyModules.keys()) {
+      if (this.moduleClosure(lazyId).includes(moduleId)) return this.injectors.get(lazyId);
+    }
+    return undefined;
+  }
+
+  private providedInInjector(providedIn: string, platform: InjectorNode, root: InjectorNode): InjectorNode {
+    if (providedIn === 'platform') return platform;
+    const module = this.byName.get(providedIn);
+    if (module?.type === EntityType.Module) return this.moduleInjector(module.id) ?? root;
+    return root;  // 'root', 'any'
+  }
+
+  /**
+   * Parse a raw providers array; importProvidersFrom(SomeModule) contributes the module's providers
+   */
+  private providersOf(raw: unknown[] | undefined, injector: string, entityId: string | undefined): DiProvider[] {
+    if (!Array.isArray(raw)) return [];
+
+    const providers: DiProvider[] = [];
+    for (const item of raw.flat(Infinity)) {
+      const imported = typeof item === 'string' ? /^importProvidersFrom\(([\s\S]*)\)$/.exec(item) : null;
+      if (imported) {
+        for (const name of imported[1].split(',').map((part) => part.trim())) {
+          const module = this.byName.get(name);
+          if (module?.type !== EntityType.Module) continue;
+          for (const id of this.moduleClosure(module.id)) {
+            const providersOfModule = (this.entities.get(id) as ModuleEntity).providers;
+            providers.push(...this.providersOf(providersOfModule, injector, id));
+          }
+        }
+        continue;
+      }
+
+      for (const info of parseProviders([item])) {
+        providers.push({
+          token: info.token,
+          kind: info.kind ?? 'class',
+          ...(info.implementation && { implementation: info.implementation }),
+          ...(info.multi && { multi: true }),
+          injector,
+          ...(entityId && { entityId }),
+        });
+      }
+    }
+    return providers;
+  }
+
+  private addInjector(id: string, kind: InjectorKind, entityId?: string): InjectorNode {
+    const injector: InjectorNode = { id, kind, ...(entityId && { entityId }), providers: [] };
+    this.injectors.set(id, injector);
+    return injector;
+  }
+
+  private diagnostic(consumer: Entity, rel: Relationship, code: string, message: string): DiDiagnostic {
+    return {
+      code,
+      message,
+      severity: 'error',
+      location: { filePath: consumer.location.filePath, line: consumer.location.line, column: consumer.location.column },
+      entityId: consumer.id,
+      relationshipId: rel.id,
+    };
+  }
+}
+
+/**
+ * Resolve all injections of a parse result or JSON export
+ */
+export function resolveInjections(input: QueryInput): DiReport {
+  return new DiResolver(input).resolve();
+}
+
+function environment(chain: string[]): ChainLink[] {
+  return chain.map((id) => ({ id, view: false }));
+}
+
+function pickFlags(metadata: Record<string, any> | undefined): InjectFlags {
+  const flags: InjectFlags = {};
+  for (const flag of ['optional', 'self', 'skipSelf', 'host'] as const) {
+    if (metadata?.[flag] === true) flags[flag] = true;
+  }
+  return flags;
+}
+
+function push(map: Map<string, string[]>, key: string, value: string): void {
+  const values = map.get(key);
+  if (values) {
+    if (!values.includes(value)) values.push(value);
+  } else {
+    map.set(key, [value]);
+  }
+}
@@ -5,6 +5,7 @@
 
 import * as ts from 'typescript';
 import type { Entity, Relationship } from '../types/index.js';
+import { EntityType } from '../types/index.js';
 import { ImportResolver } from '../utils/import-resolver.js';
 import { extractPackageName, getDependencyVersion, type PackageInfo } from '../utils/package-helpers.js';
 
@@ -21,11 +22,12 @@ export class EntityResolver {
     entities: Map<string, Entity>,
     program: ts.Program,
     rootDir: string,
-    packageInfo: PackageInfo | null
+    packageInfo: PackageInfo | null,
+    optionsForFile?: (fileName: string) => ts.CompilerOptions
   ) {
     this.entityMap = entities;
     this.entityNameIndex = this.buildNameIndex(entities);
-    this.importResolver = new ImportResolver(program, rootDir, packageInfo);
+    this.importResolver = new ImportResolver(program, rootDir, packageInfo, optionsForFile);
     this.packageInfo = packageInfo;
   }
 
@@ -37,6 +39,9 @@ export class EntityResolver {
     const index = new Map<string, string[]>();
 
     for (const [id, entity] of entities) {
+      // Routes are named by their URL path and never referenced by name
+      if (entity.type === EntityType.Route) continue;
+
       // Index by name
       if (entity.name) {
         const existing = index.get(entity.name) || [];
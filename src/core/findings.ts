@@ -0,0 +1,162 @@
+/**
+ * Findings
+ * Normalizes visitor patterns, visitor warnings/errors and rule violations for SARIF, JUnit and Checkstyle reports
+ */
+
+import * as path from 'path';
+import type { VisitorError, VisitorWarning } from '../visitors/base/custom-visitor.js';
+
+export type FindingSeverity = VisitorWarning['severity'];
+
+/**
+ * One reportable finding with a stable rule ID
+ */
+export interface Finding {
+  ruleId: string;            // `security/innerHTML`, `performance/ngfor_without_trackby`, visitor warning code, rule ID
+  severity: FindingSeverity;
+  message: string;
+  location?: {
+    filePath: string;
+    line: number;
+    column: number;
+  };
+  entityId?: string;
+  fix?: string;
+}
+
+/**
+ * Report rule metadata
+ */
+export interface FindingRule {
+  id: string;
+  description: string;
+  severity: FindingSeverity;
+}
+
+/**
+ * Pattern findings of the built-in visitors (they only extract patterns; these are the default report levels)
+ */
+export const PATTERN_RULES: Record<string, Omit<FindingRule, 'id'>> = {
+  'security/innerHTML': { severity: 'warning', description: 'innerHTML binding or assignment' },
+  'security/outerHTML': { severity: 'warning', description: 'outerHTML binding or assignment' },
+  'security/bypassSecurityTrust': { severity: 'warning', description: 'DomSanitizer bypassSecurityTrust* call' },
+  'security/eval': { severity: 'error', description: 'eval() call' },
+  'security/Function': { severity: 'error', description: 'Function constructor call' },
+  'security/http_url': { severity: 'warning', description: 'Non-HTTPS URL' },
+  'security/potential_secret': { severity: 'warning', description: 'Potential hardcoded secret' },
+  'security/xsrf_disabled': { severity: 'error', description: 'XSRF protection disabled' },
+  'performance/change_detection_default': { severity: 'info', description: 'Default change detection' },
+  'performance/change_detection_onpush': { severity: 'info', description: 'OnPush change detection' },
+  'performance/ngfor_without_trackby': { severity: 'warning', description: '*ngFor without trackBy' },
+  'performance/ngfor_with_trackby': { severity: 'info', description: '*ngFor with trackBy' },
+  'performance/function_in_template': { severity: 'warning', description: 'Function call in template' },
+  'performance/http_in_constructor': { severity: 'warning', description: 'HTTP call in constructor' },
+  'performance/loop_in_constructor': { severity: 'info', description: 'Loop in constructor' },
+  'performance/large_library_import': { severity: 'warning', description: 'Import of a large library' },
+  'performance/array_chain': { severity: 'info', description: 'Chained array operations' },
+  'performance/indexof_in_loop': { severity: 'info', description: 'indexOf() inside a loop' },
+  'performance/storage_in_loop': { severity: 'warning', description: 'localStorage/sessionStorage access inside a loop' },
+};
+
+/**
+ * Input: an NgParseResult (or any object with visitor results)
+ */
+export interface FindingsInput {
+  customAnalysis?: Map<string, unknown>;
+  warnings?: VisitorWarning[];
+  errors?: VisitorError[];
+}
+
+export interface FindingsOptions {
+  rootDir?: string;  // Absolute file paths are made relative to it (stable across checkouts)
+}
+
+/**
+ * Collect findings from visitor results
+ *
+ * Every visitor result with a `patterns` list of `{ pattern, location }` objects (SecurityVisitor,
+ * PerformanceVisitor, custom visitors following the same shape) is mapped to `<visitor>/<pattern>`
+ * rule IDs, e.g. `security/eval`. Visitor warnings and errors keep their `code`.
+ */
+export function collectFindings(input: FindingsInput, options: FindingsOptions = {}): Finding[] {
+  const findings: Finding[] = [];
+
+  for (const [visitorName, results] of input.customAnalysis ?? []) {
+    const patterns = (results as { patterns?: unknown })?.patterns;
+    if (!Array.isArray(patterns)) continue;
+
+    const prefix = visitorName.replace(/Visitor$/, '').toLowerCase();
+    for (const pattern of patterns) {
+      if (typeof pattern?.pattern !== 'string' || !pattern.location) continue;
+      const ruleId = `${prefix}/${pattern.pattern}`;
+      const rule = PATTERN_RULES[ruleId];
+      const description = rule?.description ?? pattern.pattern;
+
+      findings.push({
+        ruleId,
+        severity: rule?.severity ?? 'info',
+        message: `${description}${pattern.entityName ? ` in ${pattern.entityName}` : ''}${pattern.context ? `: ${pattern.context}` : ''}`,
+        location: pickLocation(pattern.location, options.rootDir),
+        ...(pattern.entityId && { entityId: pattern.entityId }),
+      });
+    }
+  }
+
+  for (const warning of input.warnings ?? []) {
+    findings.push(fromWarning(warning, options));
+  }
+  for (const error of input.errors ?? []) {
+    findings.push({
+      ruleId: error.code,
+      severity: error.severity,
+      message: error.message,
+      ...(error.location && { location: pickLocation(error.location, options.rootDir) }),
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * Map a VisitorWarning (or a rule violation, which extends it) to a finding
+ */
+export function fromWarning(
+  warning: VisitorWarning & { entityId?: string },
+  options: FindingsOptions = {}
+): Finding {
+  return {
+    ruleId: warning.code,
+    severity: warning.severity,
+    message: warning.message,
+    location: pickLocation(warning.location, options.rootDir),
+    ...(warning.entityId && { entityId: warning.entityId }),
+    ...(warning.fix && { fix: warning.fix }),
+  };
+}
+
+/**
+ * Rules referenced by findings, in first-seen order
+ */
+export function findingRules(findings: Finding[]): FindingRule[] {
+  const rules = new Map<string, FindingRule>();
+  for (const finding of findings) {
+    if (rules.has(finding.ruleId)) continue;
+    const known = PATTERN_RULES[finding.ruleId];
+    rules.set(finding.ruleId, {
+      id: finding.ruleId,
+      description: known?.description ?? finding.ruleId,
+      severity: known?.severity ?? finding.severity,
+    });
+  }
+  return Array.from(rules.values());
+}
+
+function pickLocation(
+  location: { filePath: string; line: number; column: number },
+  rootDir?: string
+): Finding['location'] {
+  const filePath = rootDir && path.isAbsolute(location.filePath)
+    ? path.relative(path.resolve(rootDir), location.filePath).replace(/\\/g, '/')
+    : location.filePath;
+  return { filePath, line: location.line, column: location.column };
+}
@@ -0,0 +1,220 @@
+/**
+ * Graph chunker
+ * Splits the knowledge graph into token-budgeted chunks of related entities for RAG ingestion
+ */
+
+import type { ChunkOptions, ChunkSet, Entity, GraphChunk, HierarchyNode, KnowledgeGraph } from '../types/index.js';
+import { optimizeEntity } from '../utils/optimization-helpers.js';
+
+export const DEFAULT_CHUNK_TOKENS = 4000;
+
+/**
+ * Rough token estimate of a text (~4 characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+interface Cluster {
+  path: string[];
+  labels: string[];   // Hierarchy paths of the packed parts
+  entities: Entity[];
+  tokens: number;
+}
+
+/**
+ * Split a knowledge graph into chunks fitting a token budget
+ *
+ * Chunks follow the hierarchy (feature → module → component clusters). A cluster that fits
+ * the budget stays whole; an oversized one is split into its own entities and its child
+ * clusters, packed in order so that small siblings share a chunk. Relationships crossing
+ * chunks are recorded on both sides as references.
+ */
+export function chunkGraph(graph: KnowledgeGraph, options: ChunkOptions = {}): ChunkSet {
+  const maxTokens = options.maxTokens ?? DEFAULT_CHUNK_TOKENS;
+  if (!Number.isInteger(maxTokens) || maxTokens < 1) {
+    throw new Error(`Invalid token budget: ${maxTokens}`);
+  }
+
+  const weights = weighEntities(graph);
+  const budget = Math.max(1, maxTokens - estimateTokens(JSON.stringify(emptyChunk())));
+  const clusters = new Chunker(graph, weights, budget).split(graph.hierarchy, []);
+
+  const chunkOf = new Map<string, string>();
+  const chunks: GraphChunk[] = clusters.map((cluster, index) => {
+    const title = cluster.labels.join(' + ');
+    const id = `chunk-${String(index + 1).padStart(3, '0')}-${slugify(title)}`;
+    cluster.entities.forEach((entity) => chunkOf.set(entity.id, id));
+    return {
+      ...emptyChunk(),
+      id,
+      title,
+      path: cluster.path,
+      ...(cluster.entities.length === 1 && cluster.tokens > budget ? { oversized: true } : {}),
+      entities: cluster.entities.map((entity) => optimizeEntity(entity)),
+    };
+  });
+
+  const byId = new Map(chunks.map((chunk) => [chunk.id, chunk]));
+  for (const rel of graph.relationships) {
+    const sourceChunk = chunkOf.get(rel.source);
+    const targetChunk = chunkOf.get(rel.target);
+    if (!sourceChunk || !targetChunk) continue;
+
+    if (sourceChunk === targetChunk) {
+      byId.get(sourceChunk)!.relationships.push(rel);
+    } else {
+      byId.get(sourceChunk)!.references.push({
+        type: rel.type, direction: 'outgoing', entity: rel.source, related: rel.target, chunk: targetChunk,
+      });
+      byId.get(targetChunk)!.references.push({
+        type: rel.type, direction: 'incoming', entity: rel.target, related: rel.source, chunk: sourceChunk,
+      });
+    }
+  }
+
+  for (const chunk of chunks) {
+    chunk.tokens = estimateTokens(JSON.stringify(chunk));
+  }
+
+  return {
+    chunks,
+    manifest: {
+      project: graph.metadata.projectName ?? graph.hierarchy.name,
+      maxTokens,
+      totalChunks: chunks.length,
+      totalEntities: chunkOf.size,
+      totalTokens: chunks.reduce((sum, chunk) => sum + chunk.tokens, 0),
+      chunks: chunks.map((chunk) => ({
+        id: chunk.id,
+        title: chunk.title,
+        path: chunk.path,
+        file: `${chunk.id}.json`,
+        tokens: chunk.tokens,
+        entities: chunk.entities.map((entity) => entity.id),
+        references: chunk.references.length,
+      })),
+      entityChunks: Object.fromEntries(chunkOf),
+    },
+  };
+}
+
+/**
+ * Packs hierarchy clusters into chunks
+ */
+class Chunker {
+  private subtreeTokens = new Map<HierarchyNode, number>();
+
+  constructor(
+    private graph: KnowledgeGraph,
+    private weights: Map<string, number>,
+    private budget: number
+  ) {}
+
+  split(node: HierarchyNode, parentPath: string[]): Cluster[] {
+    const path = [...parentPath, node.name];
+    const whole = this.clusterOf(node, path);
+    if (whole.entities.length === 0) return [];
+    if (whole.tokens <= this.budget) return [whole];
+
+    // Own entities and child clusters, in order; oversized children are split recursively
+    const parts: Cluster[] = this.toEntities(node.entities).map((entity) => this.single(entity, path));
+    for (const child of node.children) {
+      parts.push(...(this.tokensOf(child) <= this.budget
+        ? [this.clusterOf(child, [...path, child.name])]
+        : this.split(child, path)));
+    }
+
+    return this.pack(parts.filter((part) => part.entities.length > 0));
+  }
+
+  /**
+   * Merge consecutive parts while they fit the budget
+   */
+  private pack(parts: Cluster[]): Cluster[] {
+    const packed: Cluster[] = [];
+    let current: Cluster | undefined;
+
+    for (const part of parts) {
+      if (current && current.tokens + part.tokens <= this.budget) {
+        current.entities.push(...part.entities);
+        current.tokens += part.tokens;
+        current.path = commonPrefix(current.path, part.path);
+        for (const label of part.labels) {
+          if (!current.labels.includes(label)) current.labels.push(label);
+        }
+      } else {
+        current = { ...part, labels: [...part.labels], entities: [...part.entities] };
+        packed.push(current);
+      }
+    }
+
+    return packed;
+  }
+
+  private clusterOf(node: HierarchyNode, path: string[]): Cluster {
+    const entities = this.toEntities(collectIds(node));
+    return { path, labels: [label(path)], entities, tokens: this.tokensOf(node) };
+  }
+
+  private single(entity: Entity, path: string[]): Cluster {
+    return { path, labels: [label(path)], entities: [entity], tokens: this.weights.get(entity.id) ?? 0 };
+  }
+
+  private tokensOf(node: HierarchyNode): number {
+    let tokens = this.subtreeTokens.get(node);
+    if (tokens === undefined) {
+      tokens = node.entities.reduce((sum, id) => sum + (this.weights.get(id) ?? 0), 0) +
+        node.children.reduce((sum, child) => sum + this.tokensOf(child), 0);
+      this.subtreeTokens.set(node, tokens);
+    }
+    return tokens;
+  }
+
+  private toEntities(ids: string[]): Entity[] {
+    return ids.map((id) => this.graph.entities.get(id)).filter((e): e is Entity => e !== undefined);
+  }
+}
+
+/**
+ * Token weight of each entity: its serialized form plus its relationships (an upper bound of
+ * what it adds to a chunk, as relationship or reference)
+ */
+function weighEntities(graph: KnowledgeGraph): Map<string, number> {
+  const weights = new Map<string, number>();
+  for (const entity of graph.entities.values()) {
+    weights.set(entity.id, estimateTokens(JSON.stringify(optimizeEntity(entity))));
+  }
+  for (const rel of graph.relationships) {
+    const tokens = estimateTokens(JSON.stringify(rel));
+    for (const id of [rel.source, rel.target]) {
+      if (weights.has(id)) weights.set(id, weights.get(id)! + tokens);
+    }
+  }
+  return weights;
+}
+
+function emptyChunk(): GraphChunk {
+  return { id: '', title: '', path: [], tokens: 0, entities: [], relationships: [], references: [] };
+}
+
+function collectIds(node: HierarchyNode): string[] {
+  return [...node.entities, ...node.children.flatMap(collectIds)];
+}
+
+/**
+ * Hierarchy path without the app root; entities left at the root are shared
+ */
+function label(path: string[]): string {
+  return path.slice(1).join(' / ') || 'shared';
+}
+
+function commonPrefix(a: string[], b: string[]): string[] {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) length++;
+  return a.slice(0, length);
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'chunk';
+}
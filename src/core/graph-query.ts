@@ -0,0 +1,298 @@
+/**
+ * Graph query
+ * Filters, traversals and shortest paths over a parse result or its JSON export
+ */
+
+import type { Entity, GraphMetadata, Relationship } from '../types/index.js';
+import { globToRegExp } from '../utils/file-helpers.js';
+
+/**
+ * Graph to query: an NgParseResult, a KnowledgeGraph or a JSON export (`toJSON()`)
+ */
+export interface QueryInput {
+  entities: Map<string, Entity> | Entity[];
+  relationships: Relationship[];
+  metadata?: Partial<GraphMetadata>;   // Standalone applications are read by the DI resolver and unused analyzer
+}
+
+/**
+ * Entity filter; all given criteria must match
+ */
+export interface EntityFilter {
+  type?: string | string[];
+  name?: string;        // Glob, case-insensitive (`*Service`)
+  file?: string;        // Glob on the file path (`src/app/admin/**`)
+  decorator?: string;   // Decorator name, with or without `@`
+  project?: string;     // Workspace project
+}
+
+export interface TraversalOptions {
+  via?: string[];       // Relationship types to follow (default: all)
+  depth?: number;       // Maximum depth (default: unlimited)
+}
+
+export interface PathOptions {
+  via?: string[];
+  undirected?: boolean; // Also follow relationships backwards
+}
+
+/**
+ * Entity reached by a traversal
+ */
+export interface TraversalStep {
+  entity: Entity;
+  depth: number;
+  from: string;         // Entity ID it was reached from
+  relation: string;     // Relationship type between both
+}
+
+export interface PathStep {
+  entity: Entity;
+  relation?: string;    // Relationship type to the previous step
+  reverse?: boolean;    // The relationship points to the previous step (undirected paths)
+}
+
+export type QueryResult =
+  | { kind: 'entities'; entities: Entity[] }
+  | { kind: 'dependencies' | 'dependents'; root: Entity; steps: TraversalStep[] }
+  | { kind: 'path'; from: Entity; to: Entity; path?: PathStep[] };
+
+interface Edge {
+  entity: string;       // Entity at the other end
+  relation: string;
+  reverse: boolean;
+}
+
+/**
+ * Query API over the knowledge graph
+ *
+ * Entities are referenced by ID or by name (names must be unique). Traversals and paths
+ * only follow relationships between entities; external and unresolved targets are skipped.
+ */
+export class GraphQuery {
+  private entities: Map<string, Entity>;
+  private outgoing = new Map<string, Edge[]>();
+  private incoming = new Map<string, Edge[]>();
+
+  constructor(input: QueryInput) {
+    this.entities = input.entities instanceof Map
+      ? input.entities
+      : new Map(input.entities.map((entity) => [entity.id, entity]));
+
+    for (const rel of input.relationships) {
+      if (!this.entities.has(rel.source) || !this.entities.has(rel.target)) continue;
+      push(this.outgoing, rel.source, { entity: rel.target, relation: rel.type, reverse: false });
+      push(this.incoming, rel.target, { entity: rel.source, relation: rel.type, reverse: true });
+    }
+  }
+
+  /**
+   * Entities matching a filter, in graph order
+   */
+  find(filter: EntityFilter = {}): Entity[] {
+    return Array.from(this.entities.values()).filter(entityMatcher(filter));
+  }
+
+  /**
+   * Entity by ID or unique name
+   */
+  get(ref: string): Entity {
+    const byId = this.entities.get(ref);
+    if (byId) return byId;
+
+    const matches = Array.from(this.entities.values()).filter((entity) => entity.name === ref);
+    if (matches.length === 0) {
+      throw new Error(`Entity not found: ${ref}`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`Ambiguous entity name: ${ref} (use an ID: ${matches.map((e) => e.id).join(', ')})`);
+    }
+    return matches[0];
+  }
+
+  /**
+   * Entities the given entity depends on (outgoing relationships), breadth-first
+   */
+  dependencies(ref: string, options: TraversalOptions = {}): TraversalStep[] {
+    return this.traverse(this.get(ref), this.outgoing, options);
+  }
+
+  /**
+   * Entities depending on the given entity (incoming relationships), breadth-first
+   */
+  dependents(ref: string, options: TraversalOptions = {}): TraversalStep[] {
+    return this.traverse(this.get(ref), this.incoming, options);
+  }
+
+  /**
+   * Shortest path between two entities, or undefined if they are not connected
+   */
+  shortestPath(fromRef: string, toRef: string, options: PathOptions = {}): PathStep[] | undefined {
+    const from = this.get(fromRef);
+    const to = this.get(toRef);
+    const previous = new Map<string, { id: string; edge: Edge } | null>([[from.id, null]]);
+    const queue = [from.id];
+
+    while (queue.length > 0 && !previous.has(to.id)) {
+      const id = queue.shift()!;
+      const edges = [
+        ...(this.outgoing.get(id) ?? []),
+        ...(options.undirected ? this.incoming.get(id) ?? [] : []),
+      ];
+      for (const edge of edges) {
+        if (previous.has(edge.entity) || (options.via && !options.via.includes(edge.relation))) continue;
+        previous.set(edge.entity, { id, edge });
+        queue.push(edge.entity);
+      }
+    }
+
+    if (!previous.has(to.id)) return undefined;
+
+    const path: PathStep[] = [];
+    for (let id: string | undefined = to.id; id !== undefined;) {
+      const step = previous.get(id);
+      path.unshift({
+        entity: this.entities.get(id)!,
+        ...(step && { relation: step.edge.relation }),
+        ...(step?.edge.reverse && { reverse: true }),
+      });
+      id = step?.id;
+    }
+    return path;
+  }
+
+  /**
+   * Run a query expression
+   *
+   * - `find [type=component,directive] [name=*List*] [file=src/app/**] [decorator=Injectable] [project=shop]`
+   * - `deps <entity> [depth=2] [via=injects,usesInTemplate]`
+   * - `rdeps <entity> [depth=2] [via=injects]`
+   * - `path <from> <to> [via=imports] [undirected]`
+   */
+  run(expression: string): QueryResult {
+    const [command, ...tokens] = tokenize(expression);
+    const args = tokens.filter((token) => !token.includes('=') && token !== 'undirected');
+    const options = parseOptions(tokens.filter((token) => token.includes('=')));
+
+    switch (command) {
+      case 'find':
+        expectArgs(command, args, 0);
+        return {
+          kind: 'entities',
+          entities: this.find({
+            type: options.list('type'),
+            name: options.string('name'),
+            file: options.string('file'),
+            decorator: options.string('decorator'),
+            project: options.string('project'),
+          }),
+        };
+      case 'deps':
+      case 'rdeps': {
+        expectArgs(command, args, 1);
+        const traversal = { via: options.list('via'), depth: options.number('depth') };
+        return command === 'deps'
+          ? { kind: 'dependencies', root: this.get(args[0]), steps: this.dependencies(args[0], traversal) }
+          : { kind: 'dependents', root: this.get(args[0]), steps: this.dependents(args[0], traversal) };
+      }
+      case 'path': {
+        expectArgs(command, args, 2);
+        const path = this.shortestPath(args[0], args[1], {
+          via: options.list('via'),
+          undirected: tokens.includes('undirected'),
+        });
+        return { kind: 'path', from: this.get(args[0]), to: this.get(args[1]), path };
+      }
+      default:
+        throw new Error(`Unknown query: ${command ?? '(empty)'} (expected find, deps, rdeps or path)`);
+    }
+  }
+
+  private traverse(root: Entity, edgesOf: Map<string, Edge[]>, options: TraversalOptions): TraversalStep[] {
+    const maxDepth = options.depth ?? Infinity;
+    const visited = new Set([root.id]);
+    const steps: TraversalStep[] = [];
+    let frontier = [root.id];
+
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        for (const edge of edgesOf.get(id) ?? []) {
+          if (visited.has(edge.entity) || (options.via && !options.via.includes(edge.relation))) continue;
+          visited.add(edge.entity);
+          steps.push({ entity: this.entities.get(edge.entity)!, depth, from: id, relation: edge.relation });
+          next.push(edge.entity);
+        }
+      }
+      frontier = next;
+    }
+
+    return steps;
+  }
+}
+
+/**
+ * Predicate matching entities against a filter (globs are compiled once)
+ */
+export function entityMatcher(filter: EntityFilter): (entity: Entity) => boolean {
+  const types = filter.type === undefined ? undefined : ([] as string[]).concat(filter.type);
+  const name = filter.name ? globToRegExp(filter.name, 'i') : undefined;
+  const file = filter.file ? globToRegExp(filter.file) : undefined;
+  const decorator = filter.decorator?.replace(/^@/, '');
+
+  return (entity) =>
+    (!types || types.includes(entity.type)) &&
+    (!name || name.test(entity.name)) &&
+    (!file || file.test(entity.location.filePath)) &&
+    (!decorator || (entity.decorators ?? []).some((d) => d.name === decorator)) &&
+    (!filter.project || entity.project === filter.project);
+}
+
+function push(map: Map<string, Edge[]>, key: string, edge: Edge): void {
+  const edges = map.get(key);
+  if (edges) {
+    edges.push(edge);
+  } else {
+    map.set(key, [edge]);
+  }
+}
+
+/**
+ * Split on whitespace, keeping quoted strings together
+ */
+function tokenize(expression: string): string[] {
+  const tokens: string[] = [];
+  for (const match of expression.matchAll(/(?:[^\s"']+|"[^"]*"|'[^']*')+/g)) {
+    tokens.push(match[0].replace(/["']/g, ''));
+  }
+  return tokens;
+}
+
+function parseOptions(tokens: string[]) {
+  const values = new Map<string, string>();
+  for (const token of tokens) {
+    const index = token.indexOf('=');
+    values.set(token.slice(0, index), token.slice(index + 1));
+  }
+
+  return {
+    string: (key: string) => values.get(key) || undefined,
+    list: (key: string) => values.get(key)?.split(',').map((value) => value.trim()).filter(Boolean),
+    number: (key: string) => {
+      const value = values.get(key);
+      if (value === undefined) return undefined;
+      const number = Number(value);
+      if (!Number.isInteger(number) || number < 1) {
+        throw new Error(`Invalid ${key}: ${value} (expected a positive integer)`);
+      }
+      return number;
+    },
+  };
+}
+
+function expectArgs(command: string, args: string[], count: number): void {
+  if (args.length !== count) {
+    const usage = { find: 'find [key=value ...]', deps: 'deps <entity>', rdeps: 'rdeps <entity>', path: 'path <from> <to>' };
+    throw new Error(`Invalid query: expected ${usage[command as keyof typeof usage]}`);
+  }
+}
@@ -0,0 +1,334 @@
+/**
+ * Graph server
+ * JSON-RPC 2.0 / MCP tools over stdio, answering questions about an in-memory parse result
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import type { Readable, Writable } from 'stream';
+import { GraphQuery, type QueryInput } from './graph-query.js';
+import type { ComponentEntity, DirectiveEntity, Entity, PipeEntity, SourceLocation } from '../types/index.js';
+
+export const MCP_PROTOCOL_VERSION = '2024-11-05';
+
+export interface GraphServerOptions {
+  name?: string;        // Default: 'ng-parser'
+  version?: string;
+}
+
+/**
+ * Tool exposed through `tools/list` / `tools/call` (and as a plain JSON-RPC method)
+ */
+export interface GraphServerTool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+}
+
+interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method: string;
+  params?: any;
+}
+
+interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+// JSON-RPC error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+
+const ENTITY_PARAM = { type: 'string', description: 'Entity ID or unique name' };
+
+const TOOLS: GraphServerTool[] = [
+  {
+    name: 'find_entities',
+    description: 'Find Angular entities by type, name glob, file glob, decorator or workspace project',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        type: { type: 'string', description: 'Entity type(s), comma-separated (component, service, ...)' },
+        name: { type: 'string', description: 'Name glob, case-insensitive (*Service)' },
+        file: { type: 'string', description: 'File path glob (src/app/admin/**)' },
+        decorator: { type: 'string', description: 'Decorator name (Injectable)' },
+        project: { type: 'string', description: 'Workspace project' },
+        limit: { type: 'number', description: 'Maximum number of results (default 50)' },
+      },
+    },
+  },
+  {
+    name: 'get_component_contract',
+    description: 'Public contract of a component, directive or pipe: selector, inputs, outputs, pipe name',
+    inputSchema: { type: 'object', properties: { entity: ENTITY_PARAM }, required: ['entity'] },
+  },
+  {
+    name: 'list_dependents',
+    description: 'Entities depending on an entity, transitively (injection, template usage, imports, ...)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        entity: ENTITY_PARAM,
+        depth: { type: 'number', description: 'Maximum depth (default unlimited)' },
+        via: { type: 'array', items: { type: 'string' }, description: 'Relationship types to follow (injects, usesInTemplate, ...)' },
+      },
+      required: ['entity'],
+    },
+  },
+  {
+    name: 'list_template_usages',
+    description: 'Components using a component, directive or pipe in their templates',
+    inputSchema: { type: 'object', properties: { entity: ENTITY_PARAM }, required: ['entity'] },
+  },
+  {
+    name: 'get_source_snippet',
+    description: 'Source code of an entity, or of a file region given as a SourceLocation (filePath, line, start, end)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        entity: ENTITY_PARAM,
+        filePath: { type: 'string', description: 'File path as in entity locations (relative to the Git root, or the project root outside a repository)' },
+        line: { type: 'number', description: '1-based line' },
+        start: { type: 'number', description: 'Start offset' },
+        end: { type: 'number', description: 'End offset' },
+        context: { type: 'number', description: 'Lines around `line` when no offsets are given (default 10)' },
+      },
+    },
+  },
+];
+
+/**
+ * Serves a parse result over JSON-RPC
+ *
+ * Implements the MCP stdio transport (`initialize`, `tools/list`, `tools/call`, newline-delimited
+ * messages); tools can also be called directly as JSON-RPC methods (`find_entities`, ...).
+ * Call `update()` with each new result, e.g. from a ProjectWatcher.
+ */
+export class GraphServer {
+  private result?: QueryInput;
+  private query?: GraphQuery;
+  private sourceRoot: string;
+
+  constructor(
+    private rootDir: string,
+    private options: GraphServerOptions = {}
+  ) {
+    this.rootDir = path.resolve(rootDir);
+    this.sourceRoot = this.rootDir;
+  }
+
+  /**
+   * Replace the served result
+   */
+  update(result: QueryInput & { metadata?: { repository?: { rootDir?: string } } }): void {
+    this.result = result;
+    this.query = new GraphQuery(result);
+    // Entity file paths are relative to the Git root when the project is in a repository
+    this.sourceRoot = path.resolve(this.rootDir, result.metadata?.repository?.rootDir ?? '.');
+  }
+
+  get tools(): GraphServerTool[] {
+    return TOOLS;
+  }
+
+  /**
+   * Handle one JSON-RPC message; returns undefined for notifications
+   */
+  handle(message: unknown): JsonRpcResponse | undefined {
+    const request = message as JsonRpcRequest;
+    if (!request || typeof request !== 'object' || typeof request.method !== 'string') {
+      return failure(request?.id ?? null, INVALID_REQUEST, 'Invalid request');
+    }
+    const isNotification = request.id === undefined;
+
+    try {
+      const result = this.dispatch(request.method, request.params ?? {});
+      return isNotification ? undefined : { jsonrpc: '2.0', id: request.id!, result };
+    } catch (error: any) {
+      return isNotification ? undefined : failure(request.id!, error.code ?? INVALID_PARAMS, error.message);
+    }
+  }
+
+  /**
+   * Handle one newline-delimited message (as read from stdio)
+   */
+  handleLine(line: string): JsonRpcResponse | undefined {
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      return failure(null, PARSE_ERROR, 'Parse error');
+    }
+    return this.handle(message);
+  }
+
+  /**
+   * Serve newline-delimited messages until the input ends
+   */
+  listen(input: Readable, output: Writable): Promise<void> {
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+    lines.on('line', (line) => {
+      if (!line.trim()) return;
+      const response = this.handleLine(line);
+      if (response) output.write(JSON.stringify(response) + '\n');
+    });
+    return new Promise((resolve) => lines.once('close', () => resolve()));
+  }
+
+  private dispatch(method: string, params: any): unknown {
+    switch (method) {
+      case 'initialize':
+        return {
+          protocolVersion: MCP_PROTOCOL_VERSION,
+          capabilities: { tools: {} },
+          serverInfo: { name: this.options.name ?? 'ng-parser', version: this.options.version ?? '0.0.0' },
+        };
+      case 'notifications/initialized':
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return { tools: TOOLS };
+      case 'tools/call':
+        try {
+          const data = this.callTool(params.name, params.arguments ?? {});
+          return { content: [{ type: 'text', text: JSON.stringify(data, null, 2) }] };
+        } catch (error: any) {
+          if (error.code === METHOD_NOT_FOUND) throw error;
+          return { content: [{ type: 'text', text: error.message }], isError: true };
+        }
+      default:
+        return this.callTool(method, params);
+    }
+  }
+
+  private callTool(name: string, args: Record<string, any>): unknown {
+    switch (name) {
+      case 'find_entities':
+        return this.findEntities(args);
+      case 'get_component_contract':
+        return this.componentContract(this.graph().get(stringParam(args, 'entity')));
+      case 'list_dependents':
+        return this.graph()
+          .dependents(stringParam(args, 'entity'), { depth: args.depth, via: args.via })
+          .map((step) => ({ ...summarize(step.entity), depth: step.depth, from: step.from, relation: step.relation }));
+      case 'list_template_usages':
+        return this.templateUsages(this.graph().get(stringParam(args, 'entity')));
+      case 'get_source_snippet':
+        return this.sourceSnippet(args);
+      default:
+        throw Object.assign(new Error(`Method not found: ${name}`), { code: METHOD_NOT_FOUND });
+    }
+  }
+
+  private graph(): GraphQuery {
+    if (!this.query) {
+      throw new Error('No parse result loaded yet');
+    }
+    return this.query;
+  }
+
+  private findEntities(args: Record<string, any>) {
+    const limit = args.limit ?? 50;
+    const entities = this.graph().find({
+      type: typeof args.type === 'string' ? args.type.split(',').map((t: string) => t.trim()) : args.type,
+      name: args.name,
+      file: args.file,
+      decorator: args.decorator,
+      project: args.project,
+    });
+    return { total: entities.length, entities: entities.slice(0, limit).map(summarize) };
+  }
+
+  private componentContract(entity: Entity) {
+    if (!['component', 'directive', 'pipe'].includes(entity.type)) {
+      throw new Error(`Not a component, directive or pipe: ${entity.name} (${entity.type})`);
+    }
+    if (entity.type === 'pipe') {
+      const pipe = entity as PipeEntity;
+      return { ...summarize(entity), pipeName: pipe.pipeName, pure: pipe.pure, standalone: pipe.standalone, location: entity.location };
+    }
+    const declarable = entity as ComponentEntity | DirectiveEntity;
+    return {
+      ...summarize(entity),
+      selector: declarable.selector,
+      standalone: declarable.standalone,
+      inputs: declarable.inputs ?? [],
+      outputs: declarable.outputs ?? [],
+      location: entity.location,
+    };
+  }
+
+  /**
+   * usesInTemplate relationships pointing at the entity (pipe usages target the pipe name)
+   */
+  private templateUsages(entity: Entity) {
+    const pipeName = (entity as PipeEntity).pipeName;
+    const graph = this.graph();
+
+    return this.result!.relationships
+      .filter((rel) =>
+        rel.type === 'usesInTemplate' &&
+        (rel.target === entity.id || (pipeName !== undefined && rel.metadata?.templateUsage === 'pipe' && rel.target === pipeName))
+      )
+      .map((rel) => {
+        const component = graph.get(rel.source) as ComponentEntity;
+        return {
+          ...summarize(component),
+          usage: rel.metadata?.templateUsage,
+          selector: rel.metadata?.selector,
+          template: component.templateLocation?.filePath ?? component.location.filePath,
+        };
+      });
+  }
+
+  private sourceSnippet(args: Record<string, any>) {
+    const location: Partial<SourceLocation> = args.entity
+      ? this.graph().get(String(args.entity)).location
+      : { filePath: stringParam(args, 'filePath'), line: args.line, start: args.start, end: args.end };
+
+    const file = path.resolve(this.sourceRoot, location.filePath!);
+    const relative = path.relative(this.sourceRoot, file);
+    if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+      throw new Error(`File outside project root: ${location.filePath}`);
+    }
+    if (!fs.existsSync(file)) {
+      throw new Error(`File not found: ${location.filePath}`);
+    }
+    const source = fs.readFileSync(file, 'utf-8');
+
+    if (location.start !== undefined && location.end !== undefined && location.end > location.start) {
+      const startLine = source.slice(0, location.start).split('\n').length;
+      const code = source.slice(location.start, location.end);
+      return { filePath: location.filePath, startLine, endLine: startLine + code.split('\n').length - 1, code };
+    }
+
+    const lines = source.split('\n');
+    const context = args.context ?? 10;
+    const line = location.line ?? 1;
+    const startLine = Math.max(1, line - context);
+    const endLine = Math.min(lines.length, line + context);
+    return { filePath: location.filePath, startLine, endLine, code: lines.slice(startLine - 1, endLine).join('\n') };
+  }
+}
+
+function summarize(entity: Entity) {
+  return { id: entity.id, type: entity.type, name: entity.name, file: entity.location.filePath, line: entity.location.line };
+}
+
+function stringParam(args: Record<string, any>, name: string): string {
+  if (typeof args[name] !== 'string' || !args[name]) {
+    throw new Error(`Missing parameter: ${name}`);
+  }
+  return args[name];
+}
+
+function failure(id: string | number | null, code: number, message: string): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
@@ -0,0 +1,401 @@
+/**
+ * Hierarchy builder
+ * Clusters entities into app → feature → module → component levels for GraphRAG chunking
+ */
+
+import type {
+  Entity,
+  HierarchyNode,
+  Relationship,
+  RouteEntity,
+} from '../types/index.js';
+import { EntityType, RelationType } from '../types/index.js';
+
+/**
+ * Relationship types that pull a dependency into the cluster of the entity using it
+ */
+const CLUSTERING_RELATIONS = new Set<string>([
+  RelationType.Imports,
+  RelationType.UsesInTemplate,
+  RelationType.DefersInTemplate,
+  RelationType.Injects,
+  RelationType.Uses,
+  RelationType.GuardedBy,
+  RelationType.Provides,
+]);
+
+/**
+ * Builds the HierarchyNode tree from project structure
+ *
+ * Every entity is assigned to exactly one node:
+ * 1. NgModules become `module` nodes owning their declarations and providers
+ * 2. Top-level routes become `feature` nodes owning their route subtree; routed
+ *    components become `component` nodes, lazy-loaded modules are nested below
+ * 3. Dependencies used by a single cluster (standalone import trees, injected
+ *    services, pipes...) join that cluster, shared ones go to the closest common ancestor
+ * 4. Remaining entities are grouped by feature folder, or stay at the app root
+ */
+export class HierarchyBuilder {
+  private root: HierarchyNode;
+  private nodeOf = new Map<string, HierarchyNode>();     // entity ID -> owning node
+  private parentOf = new Map<HierarchyNode, HierarchyNode>();
+  private nodesById = new Map<string, HierarchyNode>();
+  private outgoing = new Map<string, Relationship[]>();
+
+  constructor(
+    private entities: Map<string, Entity>,
+    private relationships: Relationship[],
+    private projectName: string = 'Angular Project'
+  ) {
+    this.root = this.createNode('root', this.projectName, 'app');
+    for (const rel of relationships) {
+      const list = this.outgoing.get(rel.source) || [];
+      list.push(rel);
+      this.outgoing.set(rel.source, list);
+    }
+  }
+
+  /**
+   * Build the hierarchy tree
+   */
+  build(): HierarchyNode {
+    const moduleNodes = this.buildModuleNodes();
+    this.buildRouteFeatures(moduleNodes);
+    this.attachModuleNodes(moduleNodes);
+    this.claimExclusiveDependencies();
+    this.groupByFolder();
+
+    return this.finalize(this.root);
+  }
+
+  // === Step 1: NgModules ===
+
+  private buildModuleNodes(): Map<string, HierarchyNode> {
+    const moduleNodes = new Map<string, HierarchyNode>();
+
+    for (const entity of this.sortedEntities()) {
+      if (entity.type !== EntityType.Module) continue;
+
+      const node = this.createNode(entity.id, entity.name, 'module');
+      moduleNodes.set(entity.id, node);
+      this.assign(entity.id, node);
+    }
+
+    // Declarations belong to their declaring module (first declarer wins)
+    for (const [moduleId, node] of moduleNodes) {
+      for (const rel of this.outgoing.get(moduleId) || []) {
+        if (rel.type === RelationType.Declares && this.isUnassignedEntity(rel.target)) {
+          this.assign(rel.target, node);
+        }
+      }
+    }
+
+    return moduleNodes;
+  }
+
+  // === Step 2: Route tree ===
+
+  private buildRouteFeatures(moduleNodes: Map<string, HierarchyNode>): void {
+    const routes = this.sortedEntities().filter(
+      (e): e is RouteEntity => e.type === EntityType.Route
+    );
+    const topLevel = routes.filter((r) => !r.parentRoute);
+
+    const featureRoutes: RouteEntity[] = [];
+    const collect = (route: RouteEntity): void => {
+      // Layout shells ({ path: '', component: Shell, children: [...] }) stay at the root
+      if (!route.path && route.children?.length) {
+        this.assign(route.id, this.root);
+        this.routeChildren(route).forEach(collect);
+        return;
+      }
+      if (!route.path || route.path === '**' || (route.redirectTo && !route.children?.length)) {
+        this.assign(route.id, this.root);
+        return;
+      }
+      featureRoutes.push(route);
+    };
+    topLevel.forEach(collect);
+
+    for (const route of featureRoutes) {
+      const featureName = route.path.split('/')[0];
+      const feature = this.getOrCreateFeature(featureName);
+
+      for (const subRoute of this.routeSubtree(route)) {
+        this.assign(subRoute.id, feature);
+
+        for (const rel of this.outgoing.get(subRoute.id) || []) {
+          const target = this.entities.get(rel.target);
+          if (!target) continue;
+
+          if (rel.type === RelationType.LazyLoads && target.type === EntityType.Module) {
+            const moduleNode = moduleNodes.get(target.id);
+            if (moduleNode && !this.parentOf.has(moduleNode)) {
+              this.addChild(feature, moduleNode);
+            }
+          } else if (
+            (rel.type === RelationType.RoutesTo || rel.type === RelationType.LazyLoads) &&
+            target.type === EntityType.Component
+          ) {
+            const owner = this.nodeOf.get(target.id);
+            if (!owner) {
+              const componentNode = this.createNode(target.id, target.name, 'component');
+              this.addChild(feature, componentNode);
+              this.assign(target.id, componentNode);
+            } else if (owner.type === 'module' && !this.parentOf.has(owner)) {
+              // Routed component declared in a module: the module belongs to this feature
+              this.addChild(feature, owner);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  // === Step 2b: Remaining module nodes ===
+
+  private attachModuleNodes(moduleNodes: Map<string, HierarchyNode>): void {
+    // Importers of each module (module -> modules importing it)
+    const importers = new Map<string, string[]>();
+    for (const moduleId of moduleNodes.keys()) {
+      for (const rel of this.outgoing.get(moduleId) || []) {
+        if (rel.type === RelationType.Imports && moduleNodes.has(rel.target) && rel.target !== moduleId) {
+          const list = importers.get(rel.target) || [];
+          list.push(moduleId);
+          importers.set(rel.target, list);
+        }
+      }
+    }
+
+    // Modules imported by exactly one other module nest under it (e.g. routing modules)
+    for (const [moduleId, node] of moduleNodes) {
+      if (this.parentOf.has(node)) continue;
+      const moduleImporters = importers.get(moduleId) || [];
+      if (moduleImporters.length !== 1) continue;
+
+      const parent = moduleNodes.get(moduleImporters[0])!;
+      if (!this.isAncestor(node, parent)) {
+        this.addChild(parent, node);
+      }
+    }
+
+    for (const node of moduleNodes.values()) {
+      if (!this.parentOf.has(node)) {
+        this.addChild(this.root, node);
+      }
+    }
+  }
+
+  // === Step 3: Exclusive dependencies ===
+
+  private claimExclusiveDependencies(): void {
+    // Wait until every user of a dependency is placed; relax only when stuck (cycles, orphans)
+    let strict = true;
+    for (;;) {
+      const changed = this.claimPass(strict);
+      if (changed) {
+        strict = true;
+      } else if (strict) {
+        strict = false;
+      } else {
+        break;
+      }
+    }
+  }
+
+  private claimPass(strict: boolean): boolean {
+    const users = new Map<string, Set<HierarchyNode>>();
+    const pending = new Set<string>();
+
+    for (const rel of this.relationships) {
+      if (!CLUSTERING_RELATIONS.has(rel.type)) continue;
+      if (!this.isUnassignedEntity(rel.target) || rel.source === rel.target) continue;
+
+      const owner = this.nodeOf.get(rel.source);
+      if (!owner) {
+        if (this.entities.has(rel.source)) pending.add(rel.target);
+        continue;
+      }
+
+      const set = users.get(rel.target) || new Set<HierarchyNode>();
+      set.add(owner);
+      users.set(rel.target, set);
+    }
+
+    let changed = false;
+    for (const [entityId, owners] of [...users.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+      if (strict && pending.has(entityId)) continue;
+
+      const target = this.commonAncestor([...owners]);
+      if (target && target !== this.root) {
+        this.assign(entityId, target);
+        changed = true;
+      }
+    }
+    return changed;
+  }
+
+  // === Step 4: Folder fallback ===
+
+  private groupByFolder(): void {
+    const unassigned = this.sortedEntities().filter((e) => !this.nodeOf.has(e.id));
+    if (unassigned.length === 0) return;
+
+    const prefix = commonDirectoryPrefix(
+      Array.from(this.entities.values()).map((e) => e.location.filePath)
+    );
+
+    const byFolder = new Map<string, Entity[]>();
+    for (const entity of unassigned) {
+      const folder = featureFolder(entity.location.filePath, prefix);
+      if (!folder) {
+        this.assign(entity.id, this.root);
+        continue;
+      }
+      const list = byFolder.get(folder) || [];
+      list.push(entity);
+      byFolder.set(folder, list);
+    }
+
+    for (const [folder, folderEntities] of byFolder) {
+      const existing = this.nodesById.get(`feature:${folder}`);
+      if (!existing && folderEntities.length < 2) {
+        folderEntities.forEach((e) => this.assign(e.id, this.root));
+        continue;
+      }
+      const feature = existing ?? this.getOrCreateFeature(folder);
+      folderEntities.forEach((e) => this.assign(e.id, feature));
+    }
+  }
+
+  // === Helpers ===
+
+  private createNode(id: string, name: string, type: HierarchyNode['type']): HierarchyNode {
+    const node: HierarchyNode = { id, name, type, children: [], entities: [] };
+    this.nodesById.set(id, node);
+    return node;
+  }
+
+  private getOrCreateFeature(name: string): HierarchyNode {
+    const id = `feature:${name}`;
+    let feature = this.nodesById.get(id);
+    if (!feature) {
+      feature = this.createNode(id, name, 'feature');
+      this.addChild(this.root, feature);
+    }
+    return feature;
+  }
+
+  private addChild(parent: HierarchyNode, child: HierarchyNode): void {
+    const previous = this.parentOf.get(child);
+    if (previous) {
+      previous.children = previous.children.filter((c) => c !== child);
+    }
+    parent.children.push(child);
+    this.parentOf.set(child, parent);
+  }
+
+  private assign(entityId: string, node: HierarchyNode): void {
+    if (this.nodeOf.has(entityId) || !this.entities.has(entityId)) return;
+    this.nodeOf.set(entityId, node);
+    node.entities.push(entityId);
+  }
+
+  private isUnassignedEntity(entityId: string): boolean {
+    return this.entities.has(entityId) && !this.nodeOf.has(entityId);
+  }
+
+  private isAncestor(candidate: HierarchyNode, node: HierarchyNode): boolean {
+    let current: HierarchyNode | undefined = node;
+    while (current) {
+      if (current === candidate) return true;
+      current = this.parentOf.get(current);
+    }
+    return false;
+  }
+
+  /**
+   * Closest node containing all given nodes (a node is its own ancestor)
+   */
+  private commonAncestor(nodes: HierarchyNode[]): HierarchyNode | undefined {
+    if (nodes.length === 0) return undefined;
+
+    const pathToRoot = (node: HierarchyNode): HierarchyNode[] => {
+      const path: HierarchyNode[] = [];
+      let current: HierarchyNode | undefined = node;
+      while (current) {
+        path.push(current);
+        current = this.parentOf.get(current);
+      }
+      return path;
+    };
+
+    let candidates = pathToRoot(nodes[0]);
+    for (const node of nodes.slice(1)) {
+      const ancestors = new Set(pathToRoot(node));
+      candidates = candidates.filter((c) => ancestors.has(c));
+    }
+
+    // Detached nodes (not reachable from root) have no meaningful common ancestor
+    const result = candidates[0];
+    return result && this.isAncestor(this.root, result) ? result : undefined;
+  }
+
+  private routeChildren(route: RouteEntity): RouteEntity[] {
+    return (route.children || [])
+      .map((id) => this.entities.get(id))
+      .filter((e): e is RouteEntity => e?.type === EntityType.Route);
+  }
+
+  private routeSubtree(route: RouteEntity): RouteEntity[] {
+    return [route, ...this.routeChildren(route).flatMap((child) => this.routeSubtree(child))];
+  }
+
+  private sortedEntities(): Entity[] {
+    return Array.from(this.entities.values()).sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  /**
+   * Sort children/entities for deterministic output
+   */
+  private finalize(node: HierarchyNode): HierarchyNode {
+    node.entities.sort();
+    node.children.sort((a, b) => a.type.localeCompare(b.type) || a.name.localeCompare(b.name));
+    node.children.forEach((child) => this.finalize(child));
+    return node;
+  }
+}
+
+/**
+ * Longest directory prefix shared by all file paths ('src/app/')
+ */
+function commonDirectoryPrefix(filePaths: string[]): string[] {
+  if (filePaths.length === 0) return [];
+
+  let prefix = filePaths[0].replace(/\\/g, '/').split('/').slice(0, -1);
+  for (const filePath of filePaths.slice(1)) {
+    const dirs = filePath.replace(/\\/g, '/').split('/').slice(0, -1);
+    let i = 0;
+    while (i < prefix.length && i < dirs.length && prefix[i] === dirs[i]) i++;
+    prefix = prefix.slice(0, i);
+  }
+  return prefix;
+}
+
+/**
+ * First folder below the common prefix (skipping a conventional 'app' folder)
+ */
+function featureFolder(filePath: string, prefix: string[]): string | undefined {
+  const dirs = filePath.replace(/\\/g, '/').split('/').slice(0, -1).slice(prefix.length);
+  while (dirs.length > 0 && (dirs[0] === 'src' || dirs[0] === 'app')) {
+    dirs.shift();
+  }
+  return dirs[0];
+}
+
+/**
+ * Collect entity IDs of a node and all its descendants
+ */
+export function collectHierarchyEntities(node: HierarchyNode): string[] {
+  return [...node.entities, ...node.children.flatMap(collectHierarchyEntities)];
+}
@@ -0,0 +1,120 @@
+/**
+ * Impact analyzer
+ * Maps changed files to entities and walks their dependents transitively
+ */
+
+import type { ComponentEntity, Entity, ImpactAnalysis, ImpactedEntity, Relationship, RouteEntity } from '../types/index.js';
+import { EntityType } from '../types/index.js';
+
+/**
+ * Compute the entities impacted by a set of changed files
+ *
+ * @param changedFiles - Paths relative to the entity base directory (same as `location.filePath`)
+ *
+ * An entity is changed when its source, template or style file changed. Dependents are
+ * the sources of incoming relationships (as `findDependents`), plus parent routes of
+ * impacted child routes.
+ */
+export function analyzeImpact(
+  entities: Map<string, Entity>,
+  relationships: Relationship[],
+  changedFiles: string[],
+  range: { since: string; until?: string }
+): ImpactAnalysis {
+  const changed = new Set(changedFiles.map(normalizePath));
+  const dependents = indexDependents(entities, relationships);
+
+  const impacted = new Map<string, ImpactedEntity>();
+  const queue: Entity[] = [];
+
+  for (const entity of entities.values()) {
+    if (entityFiles(entity).some((file) => changed.has(file))) {
+      impacted.set(entity.id, summarize(entity, 0));
+      queue.push(entity);
+    }
+  }
+  const changedEntities = queue.map((e) => e.id);
+
+  // Breadth-first, so every entity keeps its shortest path to a change
+  while (queue.length > 0) {
+    const entity = queue.shift()!;
+    const depth = impacted.get(entity.id)!.depth + 1;
+
+    for (const { source, relation } of dependents.get(entity.id) ?? []) {
+      if (impacted.has(source.id)) continue;
+      impacted.set(source.id, { ...summarize(source, depth), via: entity.id, relation });
+      queue.push(source);
+    }
+  }
+
+  const impactedEntities = Array.from(impacted.values()).sort(
+    (a, b) => a.depth - b.depth || a.id.localeCompare(b.id)
+  );
+  const idsOfType = (type: EntityType) => impactedEntities.filter((e) => e.type === type).map((e) => e.id);
+
+  return {
+    since: range.since,
+    until: range.until,
+    changedFiles: Array.from(changed).sort(),
+    changedEntities: changedEntities.sort(),
+    impactedEntities,
+    components: idsOfType(EntityType.Component),
+    routes: idsOfType(EntityType.Route),
+    modules: idsOfType(EntityType.Module),
+    files: Array.from(new Set(impactedEntities.map((e) => e.filePath))).sort(),
+  };
+}
+
+/**
+ * Incoming edges per entity: who depends on it, and through which relationship
+ */
+function indexDependents(
+  entities: Map<string, Entity>,
+  relationships: Relationship[]
+): Map<string, Array<{ source: Entity; relation: string }>> {
+  const index = new Map<string, Array<{ source: Entity; relation: string }>>();
+  const add = (targetId: string, source: Entity | undefined, relation: string) => {
+    if (!source || source.id === targetId || !entities.has(targetId)) return;
+    if (!index.has(targetId)) index.set(targetId, []);
+    index.get(targetId)!.push({ source, relation });
+  };
+
+  for (const rel of relationships) {
+    add(rel.target, entities.get(rel.source), rel.type);
+  }
+
+  // A parent route is impacted by its children (no relationship is emitted for nesting)
+  for (const entity of entities.values()) {
+    const parentRoute = entity.type === EntityType.Route ? (entity as RouteEntity).parentRoute : undefined;
+    if (parentRoute) add(entity.id, entities.get(parentRoute), 'childRoute');
+  }
+
+  return index;
+}
+
+/**
+ * Files an entity is built from: source, external template and styles
+ */
+function entityFiles(entity: Entity): string[] {
+  const files = [entity.location.filePath];
+  if (entity.type === EntityType.Component) {
+    const component = entity as ComponentEntity;
+    if (component.templateLocation) files.push(component.templateLocation.filePath);
+    component.styleLocations?.forEach((style) => files.push(style.filePath));
+  }
+  return files.filter(Boolean).map(normalizePath);
+}
+
+function summarize(entity: Entity, depth: number): ImpactedEntity {
+  return {
+    id: entity.id,
+    name: entity.name,
+    type: entity.type,
+    filePath: entity.location.filePath,
+    depth,
+  };
+}
+
+function normalizePath(file: string): string {
+  return file.replace(/\\/g, '/').replace(/^\.\//, '');
+}
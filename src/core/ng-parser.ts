@@ -6,10 +6,19 @@
 import type { CustomVisitor } from '../visitors/base/custom-visitor.js';
 import { AngularCoreParser, type AngularProject } from './angular-core-parser.js';
 import { VisitorEngine } from './visitor-engine.js';
-import type { ParserConfig, Entity, Relationship, KnowledgeGraph } from '../types/index.js';
+import { ParseWorkerPool } from './parse-worker-pool.js';
+import type { ParserConfig, Entity, Relationship, KnowledgeGraph, ImpactAnalysis, WorkspaceInfo, ApplicationBootstrap, DetailLevel, ChunkOptions, ChunkSet, JsonLdOptions } from '../types/index.js';
 import { SimpleJsonFormatter } from '../formatters/simple-json-formatter.js';
 import { HtmlFormatter } from '../formatters/html-formatter.js';
+import { MarkdownFormatter } from '../formatters/markdown-formatter.js';
+import { JsonLdFormatter } from '../formatters/jsonld-formatter.js';
+import { CypherFormatter } from '../formatters/cypher-formatter.js';
+import { GraphMlFormatter } from '../formatters/graphml-formatter.js';
+import { DotFormatter } from '../formatters/dot-formatter.js';
 import { ParseResultImpl } from './parse-result.js';
+import { chunkGraph } from './graph-chunker.js';
+import { HierarchyBuilder } from './hierarchy-builder.js';
+import type { GitRepository } from '../utils/git-helpers.js';
 
 /**
  * Parse result combining core + custom analysis
@@ -25,6 +34,10 @@ export interface NgParseResult {
     totalRelationships: number;
     timestamp: string;
     angularVersion?: string;
+    repository?: GitRepository; // Set when the project is in a Git repository
+    impact?: ImpactAnalysis; // Set when git.since is configured
+    workspace?: WorkspaceInfo; // Set for angular.json / project.json workspaces
+    applications?: ApplicationBootstrap[]; // Set for standalone applications (bootstrapApplication())
   };
 
   // Custom visitor results
@@ -37,6 +50,12 @@ export interface NgParseResult {
   toJSON(): any;
   toSimpleJSON(): any;
   toHTML(): string;
+  toMarkdown(level?: DetailLevel): string;
+  toJSONLD(options?: JsonLdOptions): any;
+  toCypher(): string;
+  toGraphML(): string;
+  toDOT(): string;
+  toChunks(options?: ChunkOptions): ChunkSet;
 }
 
 /**
@@ -52,10 +71,12 @@ export interface NgParseResult {
 export class NgParser {
   private coreParser: AngularCoreParser;
   private visitorEngine: VisitorEngine;
+  private workers: number;
 
   constructor(config: Partial<ParserConfig> = {}) {
     this.coreParser = new AngularCoreParser(config);
     this.visitorEngine = new VisitorEngine();
+    this.workers = config.workers ?? 1;
   }
 
   /**
@@ -87,12 +108,23 @@ export class NgParser {
    * This is a two-phase process:
    * 1. Core parsing: Extract Angular entities with built-in parsers
    * 2. Custom visitors: Run user-defined analysis on the parsed entities
+   *
+   * With `workers` > 1, both phases share one pool of worker threads.
    */
   async parse(rootDir?: string): Promise<NgParseResult> {
+    const workerPool = this.workers > 1 ? new ParseWorkerPool(this.workers) : undefined;
+    try {
+      return await this.parseWith(rootDir, workerPool);
+    } finally {
+      await workerPool?.close();
+    }
+  }
+
+  private async parseWith(rootDir: string | undefined, workerPool?: ParseWorkerPool): Promise<NgParseResult> {
     const targetDir = rootDir || process.cwd();
 
     console.log('📊 Phase 1: Parsing Angular entities...');
-    const angularProject = await this.coreParser.parseProject({ rootDir: targetDir });
+    const angularProject = await this.coreParser.parseProject({ rootDir: targetDir, workerPool });
 
     console.log(`✅ Found ${angularProject.metadata.totalEntities} Angular entities`);
     console.log(`✅ Found ${angularProject.metadata.totalRelationships} relationships`);
@@ -112,9 +144,9 @@ export class NgParser {
 
     if (this.visitorEngine.getVisitors().length > 0) {
       console.log('\n🔌 Phase 2: Running custom visitors...');
-      const program = this.coreParser.getProgram();
-      if (program) {
-        visitorResults = await this.visitorEngine.execute(angularProject, program);
+      const programs = this.coreParser.getPrograms();
+      if (programs.length > 0) {
+        visitorResults = await this.visitorEngine.execute(angularProject, programs, workerPool);
 
         // Summary of visitor results
         console.log('\n📊 Visitor Results:');
@@ -165,6 +197,40 @@ export class NgParser {
         const formatter = new HtmlFormatter(knowledgeGraph, config);
         return formatter.format();
       },
+      toMarkdown: (level: DetailLevel = 'complete') => {
+        const knowledgeGraph = this.toKnowledgeGraph(angularProject, visitorResults);
+        const config = { rootDir: targetDir, ...(this.coreParser['config'] || {}) } as ParserConfig;
+        const formatter = new MarkdownFormatter(knowledgeGraph, config, level);
+        return formatter.format();
+      },
+      toJSONLD: (options?: JsonLdOptions) => {
+        const knowledgeGraph = this.toKnowledgeGraph(angularProject, visitorResults);
+        const config = { rootDir: targetDir, ...(this.coreParser['config'] || {}) } as ParserConfig;
+        const formatter = new JsonLdFormatter(knowledgeGraph, config, options);
+        return formatter.format();
+      },
+      toCypher: () => {
+        const knowledgeGraph = this.toKnowledgeGraph(angularProject, visitorResults);
+        const config = { rootDir: targetDir, ...(this.coreParser['config'] || {}) } as ParserConfig;
+        const formatter = new CypherFormatter(knowledgeGraph, config);
+        return formatter.format();
+      },
+      toGraphML: () => {
+        const knowledgeGraph = this.toKnowledgeGraph(angularProject, visitorResults);
+        const config = { rootDir: targetDir, ...(this.coreParser['config'] || {}) } as ParserConfig;
+        const formatter = new GraphMlFormatter(knowledgeGraph, config);
+        return formatter.format();
+      },
+      toDOT: () => {
+        const knowledgeGraph = this.toKnowledgeGraph(angularProject, visitorResults);
+        const config = { rootDir: targetDir, ...(this.coreParser['config'] || {}) } as ParserConfig;
+        const formatter = new DotFormatter(knowledgeGraph, config);
+        return formatter.format();
+      },
+      toChunks: (options?: ChunkOptions) => {
+        const knowledgeGraph = this.toKnowledgeGraph(angularProject, visitorResults);
+        return chunkGraph(knowledgeGraph, options);
+      },
     };
 
     return result;
@@ -185,13 +251,7 @@ export class NgParser {
     return {
       entities: angularProject.entities,
       relationships: angularProject.relationships,
-      hierarchy: {
-        id: 'root',
-        name: 'Angular Project',
-        type: 'app',
-        children: [],
-        entities: Array.from(angularProject.entities.keys()),
-      },
+      hierarchy: new HierarchyBuilder(angularProject.entities, angularProject.relationships).build(),
       metadata: angularProject.metadata,
     };
   }
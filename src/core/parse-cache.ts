@@ -0,0 +1,284 @@
+/**
+ * Parse cache
+ * Persists per-file parsing results on disk for incremental parsing
+ */
+
+import * as ts from 'typescript';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import type { Entity, Relationship } from '../types/index.js';
+
+/**
+ * Bump when entity/relationship extraction changes, to invalidate old caches
+ */
+const CACHE_VERSION = 10;
+
+const CACHE_FILE = 'ng-parser-cache.json';
+const BUILD_INFO_FILE = 'ng-parser.tsbuildinfo';
+
+/**
+ * Files mentioning router APIs interact with each other (registrations, lazy children)
+ */
+const ROUTING_PATTERN = /\b(Routes|Route\s*\[\]|forRoot|forChild|provideRouter|loadChildren|loadComponent)\b/;
+
+/**
+ * Cached parsing results of one source file
+ */
+export interface CachedFile {
+  hash: string;                  // Content hash
+  dependencies: string[];        // Project files imported by this file (relative to rootDir)
+  routing: boolean;              // File declares or registers routes
+  entities: Entity[];            // Entities with route registrations applied, before lazy route linking
+  relationships: Relationship[]; // Raw relationships (before entity resolution)
+}
+
+interface CacheData {
+  version: number;
+  key: string;
+  files: Record<string, CachedFile>;
+}
+
+/**
+ * Cache of per-file parse results, kept in memory across runs and optionally on disk
+ *
+ * A file is re-parsed when its content or resolved imports changed, when one of
+ * its imports changed (type information may differ), when a routing file importing it
+ * changed (it may now hold an untyped routes array), or when any routing file is
+ * re-parsed (routes are linked across files during traversal).
+ */
+export class ParseCache {
+  private files = new Map<string, CachedFile>();
+  private fresh = new Map<string, CachedFile>();
+  private dependencies = new Map<string, string[]>(); // file -> resolved project imports
+  private loadedKey?: string;
+
+  /**
+   * @param cacheDir - Directory for the persistent cache (memory only if omitted)
+   * @param rootDir - Project root, cached file names are relative to it
+   */
+  constructor(
+    private cacheDir: string | undefined,
+    readonly rootDir: string
+  ) {}
+
+  /**
+   * Path of the TypeScript incremental build info file
+   */
+  get buildInfoPath(): string | undefined {
+    return this.cacheDir ? path.join(this.cacheDir, BUILD_INFO_FILE) : undefined;
+  }
+
+  /**
+   * Load the cache, discarding it if written by another version or configuration
+   */
+  load(key: string): void {
+    this.fresh.clear();
+
+    // Results of the previous run are still in memory
+    if (this.loadedKey === key) return;
+
+    this.files.clear();
+    this.loadedKey = undefined;
+    if (!this.cacheDir) return;
+
+    const cachePath = path.join(this.cacheDir, CACHE_FILE);
+    if (!fs.existsSync(cachePath)) return;
+
+    try {
+      const data = JSON.parse(fs.readFileSync(cachePath, 'utf-8')) as CacheData;
+      if (data.version !== CACHE_VERSION || data.key !== key) {
+        console.log('♻️  Parse cache invalidated (configuration changed)');
+        return;
+      }
+      for (const [file, entry] of Object.entries(data.files)) {
+        this.files.set(file, entry);
+      }
+    } catch (error) {
+      console.warn(`⚠️  Ignoring unreadable parse cache ${cachePath}:`, (error as Error).message);
+    }
+  }
+
+  /**
+   * Compute the files to re-parse
+   *
+   * @param sourceFiles - Project source files to parse
+   * @param program - Program used to resolve imports
+   * @param optionsForFile - Compiler options per file, when files belong to several programs
+   * @returns Absolute file names to re-parse
+   */
+  computeDirtyFiles(
+    sourceFiles: readonly ts.SourceFile[],
+    program: ts.Program,
+    optionsForFile?: (fileName: string) => ts.CompilerOptions
+  ): Set<string> {
+    const byRelative = new Map<string, ts.SourceFile>();
+    for (const sourceFile of sourceFiles) {
+      byRelative.set(this.relative(sourceFile.fileName), sourceFile);
+    }
+
+    const dependencies = this.resolveDependencies(sourceFiles, program, byRelative, optionsForFile);
+    const changed = new Set<string>();
+
+    for (const [file, sourceFile] of byRelative) {
+      const cached = this.files.get(file);
+      const deps = dependencies.get(file)!;
+      if (
+        !cached ||
+        cached.hash !== hashContent(sourceFile.text) ||
+        cached.dependencies.join('\n') !== deps.join('\n')
+      ) {
+        changed.add(file);
+      }
+    }
+
+    // Deleted files affect the files that imported them
+    for (const file of this.files.keys()) {
+      if (!byRelative.has(file)) changed.add(file);
+    }
+
+    const dirty = new Set(changed);
+    for (const [file, deps] of dependencies) {
+      if (deps.some((dep) => changed.has(dep))) dirty.add(file);
+    }
+
+    const isRouting = (file: string): boolean =>
+      this.files.get(file)?.routing ?? isRoutingSource(byRelative.get(file)?.text ?? '');
+
+    for (const file of changed) {
+      if (isRouting(file) || isRoutingSource(byRelative.get(file)?.text ?? '')) {
+        dependencies.get(file)?.forEach((dep) => dirty.add(dep));
+      }
+    }
+
+    if ([...dirty].some(isRouting)) {
+      for (const file of byRelative.keys()) {
+        if (isRouting(file)) dirty.add(file);
+      }
+    }
+
+    // Keep dependency info for the entries written by set()
+    this.dependencies = dependencies;
+
+    return new Set(
+      [...dirty].filter((file) => byRelative.has(file)).map((file) => byRelative.get(file)!.fileName)
+    );
+  }
+
+  /**
+   * Cached results for a file (a copy, callers may mutate it)
+   */
+  get(fileName: string): CachedFile | undefined {
+    const cached = this.files.get(this.relative(fileName));
+    return cached ? structuredClone(cached) : undefined;
+  }
+
+  /**
+   * Store the results of a parsed file once all files were parsed (cloned, since entities are mutated later)
+   */
+  set(fileName: string, text: string, entities: Entity[], relationships: Relationship[]): void {
+    const file = this.relative(fileName);
+    this.fresh.set(file, {
+      hash: hashContent(text),
+      dependencies: this.dependencies.get(file) ?? [],
+      routing: entities.some((e) => e.type === 'route') || isRoutingSource(text),
+      entities: JSON.parse(JSON.stringify(entities)),
+      relationships: JSON.parse(JSON.stringify(relationships)),
+    });
+  }
+
+  /**
+   * Keep the cached entry of an unchanged file
+   */
+  keep(fileName: string): void {
+    const file = this.relative(fileName);
+    const cached = this.files.get(file);
+    if (cached) this.fresh.set(file, cached);
+  }
+
+  /**
+   * Write the cache (only entries stored/kept during this run)
+   */
+  save(key: string): void {
+    this.files = new Map(this.fresh);
+    this.loadedKey = key;
+    if (!this.cacheDir) return;
+
+    const data: CacheData = {
+      version: CACHE_VERSION,
+      key,
+      files: Object.fromEntries(this.fresh),
+    };
+
+    try {
+      fs.mkdirSync(this.cacheDir, { recursive: true });
+      fs.writeFileSync(path.join(this.cacheDir, CACHE_FILE), JSON.stringify(data));
+    } catch (error) {
+      console.warn(`⚠️  Failed to write parse cache to ${this.cacheDir}:`, (error as Error).message);
+    }
+  }
+
+  /**
+   * Resolve project-local imports (static and dynamic) of each file
+   */
+  private resolveDependencies(
+    sourceFiles: readonly ts.SourceFile[],
+    program: ts.Program,
+    byRelative: Map<string, ts.SourceFile>,
+    optionsForFile?: (fileName: string) => ts.CompilerOptions
+  ): Map<string, string[]> {
+    // One resolution cache per compiler options (one per workspace project)
+    const resolutionCaches = new Map<ts.CompilerOptions, ts.ModuleResolutionCache>();
+    const result = new Map<string, string[]>();
+
+    for (const sourceFile of sourceFiles) {
+      const options = optionsForFile?.(sourceFile.fileName) ?? program.getCompilerOptions();
+      if (!resolutionCaches.has(options)) {
+        resolutionCaches.set(
+          options,
+          ts.createModuleResolutionCache(program.getCurrentDirectory(), (fileName) => fileName, options)
+        );
+      }
+      const resolutionCache = resolutionCaches.get(options)!;
+
+      const { importedFiles } = ts.preProcessFile(sourceFile.text, true, true);
+      const deps = new Set<string>();
+
+      for (const imported of importedFiles) {
+        const resolved = ts.resolveModuleName(
+          imported.fileName,
+          sourceFile.fileName,
+          options,
+          ts.sys,
+          resolutionCache
+        ).resolvedModule;
+        if (!resolved || resolved.isExternalLibraryImport) continue;
+
+        const dep = this.relative(resolved.resolvedFileName);
+        if (byRelative.has(dep)) deps.add(dep);
+      }
+
+      result.set(this.relative(sourceFile.fileName), [...deps].sort());
+    }
+
+    return result;
+  }
+
+  private relative(fileName: string): string {
+    return path.relative(this.rootDir, fileName).replace(/\\/g, '/');
+  }
+}
+
+/**
+ * Hash used for cache keys and file contents
+ */
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Whether a source mentions router APIs (its routes are linked with other routing files)
+ */
+export function isRoutingSource(text: string): boolean {
+  return ROUTING_PATTERN.test(text);
+}
@@ -2,9 +2,15 @@
  * Parse result implementation
  */
 
-import type { ParseResult, KnowledgeGraph, ParserConfig } from '../types/index.js';
+import type { ParseResult, KnowledgeGraph, ParserConfig, DetailLevel, ChunkOptions, ChunkSet, JsonLdOptions } from '../types/index.js';
 import { SimpleJsonFormatter } from '../formatters/simple-json-formatter.js';
 import { HtmlFormatter } from '../formatters/html-formatter.js';
+import { MarkdownFormatter } from '../formatters/markdown-formatter.js';
+import { JsonLdFormatter } from '../formatters/jsonld-formatter.js';
+import { CypherFormatter } from '../formatters/cypher-formatter.js';
+import { GraphMlFormatter } from '../formatters/graphml-formatter.js';
+import { DotFormatter } from '../formatters/dot-formatter.js';
+import { chunkGraph } from './graph-chunker.js';
 import { optimizeEntity, removeEmptyDefaults } from '../utils/optimization-helpers.js';
 
 /**
@@ -48,6 +54,53 @@ export class ParseResultImpl implements ParseResult {
     return formatter.format();
   }
 
+  /**
+   * Export as Markdown (levels: overview, features, detailed, complete)
+   */
+  toMarkdown(level: DetailLevel = 'complete'): string {
+    const formatter = new MarkdownFormatter(this.graph, this.config, level);
+    return formatter.format();
+  }
+
+  /**
+   * Export as JSON-LD (@graph of entities linked by their relationships)
+   */
+  toJSONLD(options?: JsonLdOptions): any {
+    const formatter = new JsonLdFormatter(this.graph, this.config, options);
+    return formatter.format();
+  }
+
+  /**
+   * Export as a Neo4j Cypher import script (idempotent MERGE statements)
+   */
+  toCypher(): string {
+    const formatter = new CypherFormatter(this.graph, this.config);
+    return formatter.format();
+  }
+
+  /**
+   * Export as GraphML (yEd, Gephi)
+   */
+  toGraphML(): string {
+    const formatter = new GraphMlFormatter(this.graph, this.config);
+    return formatter.format();
+  }
+
+  /**
+   * Export as Graphviz DOT, clustered by feature / module
+   */
+  toDOT(): string {
+    const formatter = new DotFormatter(this.graph, this.config);
+    return formatter.format();
+  }
+
+  /**
+   * Split into token-budgeted chunks for RAG ingestion
+   */
+  toChunks(options?: ChunkOptions): ChunkSet {
+    return chunkGraph(this.graph, options);
+  }
+
   /**
    * Get knowledge graph
    */
@@ -0,0 +1,285 @@
+/**
+ * Parse worker pool
+ * Shards source files across worker threads for the core parsers and the built-in visitors
+ */
+
+import { Worker } from 'worker_threads';
+import type * as ts from 'typescript';
+import type { Entity, Relationship } from '../types/index.js';
+import type { GitRepository } from '../utils/git-helpers.js';
+import type { AngularProject } from './angular-core-parser.js';
+import type { VisitorOutcome } from './visitor-engine.js';
+
+/**
+ * Root files and compiler options of a program, enough for a worker to re-create it
+ */
+export interface ProgramSpec {
+  rootNames: string[];
+  options: ts.CompilerOptions;
+}
+
+/**
+ * Source file to process in a worker
+ */
+export interface ParseTask {
+  program: number;  // Index in the request's program specs
+  fileName: string;
+  size: number;     // Text length, used to balance shards
+}
+
+/**
+ * Entities and raw relationships extracted from one file
+ */
+export interface FileParseResult {
+  entities: Entity[];
+  relationships: Relationship[];
+}
+
+/**
+ * Output of one visitor in one worker, per file in shard order
+ */
+export interface VisitorShard {
+  files: Array<{
+    fileName: string;
+    warnings: any[];
+    errors: any[];
+    metrics: Array<[string, number | string]>;
+  }>;
+  lastFile?: string;                               // File visited last (its state is in results)
+  results?: unknown;
+  resultsFailure?: string;                         // getResults() threw
+  failure?: { fileName: string; message: string }; // The visitor threw on this file
+}
+
+export type WorkerRequest =
+  | {
+      id: number;
+      type: 'parse';
+      programs: ProgramSpec[];
+      tasks: ParseTask[];
+      rootDir: string;
+      gitInfo?: GitRepository;
+    }
+  | {
+      id: number;
+      type: 'visit';
+      programs: ProgramSpec[];
+      tasks: ParseTask[];
+      visitors: string[];
+      entities: Entity[];
+      relationships: Relationship[];
+    };
+
+export interface WorkerResponse {
+  id: number;
+  result?: unknown;
+  error?: string;
+}
+
+type WorkerMessage<T extends WorkerRequest['type']> = Omit<Extract<WorkerRequest, { type: T }>, 'id'>;
+
+interface PendingRequest {
+  worker: Worker;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Pool of parse workers
+ *
+ * Workers are started on first use and kept until close(). Results are merged in the
+ * order of the given tasks, so output does not depend on how files were sharded.
+ */
+export class ParseWorkerPool {
+  private workers: Array<Worker | undefined> = [];
+  private pending = new Map<number, PendingRequest>();
+  private nextId = 0;
+
+  constructor(readonly size: number) {
+    if (!Number.isInteger(size) || size < 1) {
+      throw new Error(`Invalid worker count: ${size}`);
+    }
+  }
+
+  /**
+   * Run the core parsers over the given files
+   */
+  async parseFiles(
+    programs: ProgramSpec[],
+    tasks: ParseTask[],
+    options: { rootDir: string; gitInfo?: GitRepository }
+  ): Promise<Map<string, FileParseResult>> {
+    const shards = shardTasks(tasks, this.size);
+    const outputs = await Promise.all(
+      shards.map((shard, index) =>
+        this.request<Array<[string, FileParseResult]>>(index, {
+          type: 'parse',
+          programs,
+          tasks: shard,
+          rootDir: options.rootDir,
+          gitInfo: options.gitInfo,
+        })
+      )
+    );
+
+    const results = new Map<string, FileParseResult>();
+    outputs.flat().forEach(([fileName, result]) => results.set(fileName, result));
+    return results;
+  }
+
+  /**
+   * Run built-in visitors (by name) over the given files
+   */
+  async runVisitors(
+    programs: ProgramSpec[],
+    tasks: ParseTask[],
+    visitors: string[],
+    angularProject: Pick<AngularProject, 'entities' | 'relationships'>
+  ): Promise<Map<string, VisitorOutcome>> {
+    const shards = shardTasks(tasks, this.size);
+    const entities = Array.from(angularProject.entities.values());
+    const outputs = await Promise.all(
+      shards.map((shard, index) =>
+        this.request<VisitorShard[]>(index, {
+          type: 'visit',
+          programs,
+          tasks: shard,
+          visitors,
+          entities,
+          relationships: angularProject.relationships,
+        })
+      )
+    );
+
+    const fileOrder = tasks.map((task) => task.fileName);
+    return new Map(
+      visitors.map((name, index) => [name, mergeVisitorShards(fileOrder, outputs.map((shards) => shards[index]))])
+    );
+  }
+
+  /**
+   * Terminate all workers
+   */
+  async close(): Promise<void> {
+    const workers = this.workers.filter((worker): worker is Worker => worker !== undefined);
+    this.workers = [];
+    await Promise.all(workers.map((worker) => worker.terminate()));
+  }
+
+  private async request<T>(index: number, message: WorkerMessage<'parse'> | WorkerMessage<'visit'>): Promise<T> {
+    const worker = await this.getWorker(index);
+    const id = this.nextId++;
+
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(id, { worker, resolve, reject });
+      worker.postMessage({ ...message, id });
+    });
+  }
+
+  private async getWorker(index: number): Promise<Worker> {
+    const { PARSE_WORKER_URL } = await import('./parse-worker-url.js');
+    const existing = this.workers[index];
+    if (existing) return existing;
+
+    const worker = new Worker(PARSE_WORKER_URL);
+    worker.on('message', (response: WorkerResponse) => {
+      const pending = this.pending.get(response.id);
+      if (!pending) return;
+      this.pending.delete(response.id);
+      if (response.error !== undefined) {
+        pending.reject(new Error(response.error));
+      } else {
+        pending.resolve(response.result);
+      }
+    });
+    worker.on('error', (error) => this.failWorker(worker, error));
+    worker.on('exit', (code) => this.failWorker(worker, new Error(`Worker exited with code ${code}`)));
+
+    this.workers[index] = worker;
+    return worker;
+  }
+
+  /**
+   * Reject the requests of a crashed worker (it is re-created on next use)
+   */
+  private failWorker(worker: Worker, error: Error): void {
+    const index = this.workers.indexOf(worker);
+    if (index !== -1) this.workers[index] = undefined;
+
+    for (const [id, pending] of this.pending) {
+      if (pending.worker === worker) {
+        this.pending.delete(id);
+        pending.reject(error);
+      }
+    }
+  }
+}
+
+/**
+ * Program spec of an existing program
+ */
+export function toProgramSpec(program: ts.Program): ProgramSpec {
+  return { rootNames: [...program.getRootFileNames()], options: program.getCompilerOptions() };
+}
+
+/**
+ * Split tasks into at most `count` shards of similar total size
+ *
+ * Deterministic: largest files first, each to the lightest shard (lowest index on ties).
+ * Every shard keeps the original task order.
+ */
+export function shardTasks<T extends { size: number }>(tasks: T[], count: number): T[][] {
+  const shardCount = Math.max(1, Math.min(count, tasks.length));
+  const loads = new Array<number>(shardCount).fill(0);
+  const assigned = new Array<number>(tasks.length);
+
+  const bySize = tasks.map((task, index) => ({ task, index }))
+    .sort((a, b) => b.task.size - a.task.size || a.index - b.index);
+
+  for (const { task, index } of bySize) {
+    const shard = loads.indexOf(Math.min(...loads));
+    assigned[index] = shard;
+    loads[shard] += task.size;
+  }
+
+  const shards = Array.from({ length: shardCount }, () => [] as T[]);
+  tasks.forEach((task, index) => shards[assigned[index]].push(task));
+  return shards;
+}
+
+/**
+ * Merge the outputs of one visitor from all shards, as if the files had been visited in order
+ *
+ * Outputs stop at the first failing file. Results come from the shard that visited the
+ * last file (built-in visitors reset their state for every file).
+ */
+export function mergeVisitorShards(fileOrder: string[], shards: VisitorShard[]): VisitorOutcome {
+  const byFile = new Map<string, VisitorShard['files'][number]>();
+  const failures = new Map<string, string>();
+  for (const shard of shards) {
+    shard.files.forEach((file) => byFile.set(file.fileName, file));
+    if (shard.failure) failures.set(shard.failure.fileName, shard.failure.message);
+  }
+
+  const outcome: VisitorOutcome = { warnings: [], errors: [], metrics: new Map() };
+  for (const fileName of fileOrder) {
+    if (failures.has(fileName)) {
+      outcome.failure = failures.get(fileName);
+      return outcome;
+    }
+
+    const file = byFile.get(fileName);
+    if (!file) continue;
+    outcome.warnings.push(...file.warnings);
+    outcome.errors.push(...file.errors);
+    file.metrics.forEach(([key, value]) => outcome.metrics.set(key, value));
+  }
+
+  const lastShard = shards.find((shard) => shard.lastFile === fileOrder[fileOrder.length - 1]);
+  if (lastShard?.resultsFailure !== undefined) {
+    outcome.failure = lastShard.resultsFailure;
+  } else {
+    outcome.results = lastShard?.results;
+  }
+  return outcome;
+}
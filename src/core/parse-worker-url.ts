@@ -0,0 +1,6 @@
+/**
+ * Location of the parse worker script
+ * Kept in its own module, loaded on first use: import.meta is only available to ES modules
+ */
+
+export const PARSE_WORKER_URL = new URL('./parse-worker.js', import.meta.url);
@@ -0,0 +1,151 @@
+/**
+ * Parse worker
+ * Worker thread entry of ParseWorkerPool: re-creates the programs, then parses files
+ * or runs built-in visitors over them
+ */
+
+import { parentPort } from 'worker_threads';
+import * as ts from 'typescript';
+import type { Entity } from '../types/index.js';
+import { AngularCoreParser } from './angular-core-parser.js';
+import { VisitorEngine } from './visitor-engine.js';
+import { BUILT_IN_VISITORS } from '../visitors/built-in/index.js';
+import type { FileParseResult, ParseTask, ProgramSpec, VisitorShard, WorkerRequest, WorkerResponse } from './parse-worker-pool.js';
+
+/**
+ * Programs of the previous request, reused as old programs (watch mode, parse then visit)
+ */
+let previousPrograms = new Map<string, ts.Program>();
+const sourceFileCache = new Map<string, ts.SourceFile>();
+
+parentPort?.on('message', async (request: WorkerRequest) => {
+  let response: WorkerResponse;
+  try {
+    const programs = createPrograms(request.programs, request.tasks);
+    const result = request.type === 'parse'
+      ? parseFiles(request, programs)
+      : await runVisitors(request, programs);
+    response = { id: request.id, result };
+  } catch (error) {
+    response = { id: request.id, error: error instanceof Error ? error.message : String(error) };
+  }
+  parentPort!.postMessage(response);
+});
+
+function parseFiles(
+  request: Extract<WorkerRequest, { type: 'parse' }>,
+  programs: Map<number, ts.Program>
+): Array<[string, FileParseResult]> {
+  const parser = new AngularCoreParser();
+
+  return request.tasks.map((task) => {
+    const { sourceFile, program } = getSourceFile(task, programs);
+    const result = parser.parseSourceFile(sourceFile, program, request.rootDir, request.gitInfo);
+    // Plain data, as in the parse cache
+    return [task.fileName, JSON.parse(JSON.stringify(result))];
+  });
+}
+
+async function runVisitors(
+  request: Extract<WorkerRequest, { type: 'visit' }>,
+  programs: Map<number, ts.Program>
+): Promise<VisitorShard[]> {
+  const engine = new VisitorEngine();
+  const angularProject = {
+    entities: new Map<string, Entity>(request.entities.map((entity) => [entity.id, entity])),
+    relationships: request.relationships,
+  };
+  const files = request.tasks.map((task) => getSourceFile(task, programs));
+
+  const shards: VisitorShard[] = [];
+  for (const name of request.visitors) {
+    const visitor = new BUILT_IN_VISITORS[name]();
+    const shard: VisitorShard = { files: [], lastFile: request.tasks[request.tasks.length - 1]?.fileName };
+    let current: string | undefined;
+
+    try {
+      visitor.reset?.();
+      for (const { sourceFile, program } of files) {
+        current = sourceFile.fileName;
+        const context = await engine.visitSourceFile(
+          visitor,
+          sourceFile,
+          program,
+          program.getTypeChecker(),
+          angularProject
+        );
+        shard.files.push({
+          fileName: sourceFile.fileName,
+          warnings: context.getWarnings(),
+          errors: context.getErrors(),
+          metrics: Array.from(context.getMetrics()),
+        });
+      }
+    } catch (error) {
+      console.error(`  ❌ Error in visitor ${visitor.name}:`, error);
+      shard.failure = { fileName: current!, message: String(error) };
+      shards.push(shard);
+      continue;
+    }
+
+    try {
+      shard.results = visitor.getResults();
+    } catch (error) {
+      console.error(`  ❌ Error in visitor ${visitor.name}:`, error);
+      shard.resultsFailure = String(error);
+    }
+    shards.push(shard);
+  }
+
+  return shards;
+}
+
+/**
+ * Create the programs used by the tasks, reusing unchanged source files of previous requests
+ */
+function createPrograms(specs: ProgramSpec[], tasks: ParseTask[]): Map<number, ts.Program> {
+  const programs = new Map<number, ts.Program>();
+  const created = new Map<string, ts.Program>();
+
+  for (const index of new Set(tasks.map((task) => task.program))) {
+    const spec = specs[index];
+    const key = JSON.stringify(spec);
+    const program = created.get(key) ?? ts.createProgram({
+      rootNames: spec.rootNames,
+      options: spec.options,
+      host: createCompilerHost(spec.options),
+      oldProgram: previousPrograms.get(key),
+    });
+    created.set(key, program);
+    programs.set(index, program);
+  }
+
+  previousPrograms = created;
+  return programs;
+}
+
+function createCompilerHost(options: ts.CompilerOptions): ts.CompilerHost {
+  const host = ts.createCompilerHost(options);
+  const getSourceFile = host.getSourceFile;
+
+  host.getSourceFile = (fileName, languageVersion, onError, shouldCreateNewSourceFile) => {
+    const cached = sourceFileCache.get(fileName);
+    if (cached && !shouldCreateNewSourceFile && cached.text === host.readFile(fileName)) {
+      return cached;
+    }
+    const sourceFile = getSourceFile.call(host, fileName, languageVersion, onError, shouldCreateNewSourceFile);
+    if (sourceFile) sourceFileCache.set(fileName, sourceFile);
+    return sourceFile;
+  };
+
+  return host;
+}
+
+function getSourceFile(task: ParseTask, programs: Map<number, ts.Program>): { sourceFile: ts.SourceFile; program: ts.Program } {
+  const program = programs.get(task.program)!;
+  const sourceFile = program.getSourceFile(task.fileName);
+  if (!sourceFile) {
+    throw new Error(`Source file not found in worker program: ${task.fileName}`);
+  }
+  return { sourceFile, program };
+}
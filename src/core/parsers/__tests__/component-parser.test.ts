@@ -165,6 +165,21 @@ describe('ComponentParser', () => {
       expect(nameInput!.isSignal).toBe(true);
     });
 
+    it('should extract required signal inputs and their types', () => {
+      const { program, sourceFile, typeChecker } = createProgram(COMPONENT_WITH_SIGNALS);
+      const context = createMockContext(sourceFile, typeChecker, program);
+
+      const classNode = findClass(sourceFile, 'SignalsComponent');
+      parser.parse(classNode!, context);
+
+      const component = parser.getResults()[0];
+      const valueInput = component.inputs!.find((i) => i.name === 'value');
+      expect(valueInput).toMatchObject({ isSignal: true, required: true, type: 'number' });
+
+      const nameInput = component.inputs!.find((i) => i.name === 'name');
+      expect(nameInput).toMatchObject({ required: false, type: 'string' });
+    });
+
     it('should extract signal-based outputs', () => {
       const { program, sourceFile, typeChecker } = createProgram(COMPONENT_WITH_SIGNALS);
       const context = createMockContext(sourceFile, typeChecker, program);
@@ -314,6 +329,49 @@ describe('ComponentParser', () => {
     });
   });
 
+  describe('Class Members', () => {
+    it('should extract members with their visibility', () => {
+      const code = `
+        import { Component, HostListener, model } from '@angular/core';
+
+        @Component({ selector: 'app-members', template: '' })
+        export class MembersComponent {
+          count = 0;
+          expanded = model(false);
+          protected label = 'x';
+          private cache = new Map();
+          #secret = 1;
+          static VERSION = 1;
+          constructor(private store: Store, readonly router: Router, plain: string) {}
+          get total() { return this.count; }
+          set total(value: number) {}
+          @HostListener('click') onClick() {}
+        }
+      `;
+
+      const { program, sourceFile, typeChecker } = createProgram(code);
+      const context = createMockContext(sourceFile, typeChecker, program);
+
+      parser.parse(findClass(sourceFile, 'MembersComponent')!, context);
+
+      const component = parser.getResults()[0];
+      expect(component.members).toEqual([
+        { name: 'count', kind: 'property', visibility: 'public' },
+        { name: 'expanded', kind: 'property', visibility: 'public' },
+        { name: 'label', kind: 'property', visibility: 'protected' },
+        { name: 'cache', kind: 'property', visibility: 'private' },
+        { name: '#secret', kind: 'property', visibility: 'private' },
+        { name: 'VERSION', kind: 'property', visibility: 'public', static: true },
+        { name: 'store', kind: 'property', visibility: 'private' },
+        { name: 'router', kind: 'property', visibility: 'public' },
+        { name: 'total', kind: 'accessor', visibility: 'public' },
+        { name: 'onClick', kind: 'method', visibility: 'public', decorators: ['HostListener'] },
+      ]);
+      expect(component.inputs!.map((i) => i.name)).toEqual(['expanded']);
+      expect(component.outputs!.map((o) => o.name)).toEqual(['expandedChange']);
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should handle malformed component', () => {
       const { program, sourceFile, typeChecker } = createProgram(MALFORMED_COMPONENT);
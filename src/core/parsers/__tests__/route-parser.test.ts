@@ -0,0 +1,206 @@
+/**
+ * Unit tests for RouteParser
+ */
+
+import * as ts from 'typescript';
+import { RouteParser, joinRoutePath } from '../route-parser.js';
+import { EntityType, RelationType } from '../../../types/index.js';
+import type { RouteEntity } from '../../../types/index.js';
+import {
+  createProgram,
+  createMockContext,
+} from '../../../__tests__/helpers/test-utils.js';
+import {
+  STANDALONE_ROUTES,
+  ROUTER_MODULE_ROUTES,
+} from '../../../__tests__/helpers/fixtures.js';
+
+/**
+ * Run the parser over every node of the fixture, like AngularCoreParser does
+ */
+function parseAll(parser: RouteParser, code: string) {
+  const { program, sourceFile, typeChecker } = createProgram(code);
+  const context = createMockContext(sourceFile, typeChecker, program);
+
+  const visit = (node: ts.Node) => {
+    parser.parse(node, context);
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return context;
+}
+
+function findRoute(parser: RouteParser, fullPath: string): RouteEntity | undefined {
+  return parser.getResults().find((r) => r.fullPath === fullPath);
+}
+
+describe('RouteParser', () => {
+  let parser: RouteParser;
+
+  beforeEach(() => {
+    parser = new RouteParser();
+  });
+
+  describe('Routes arrays', () => {
+    it('should extract one entity per route including children', () => {
+      parseAll(parser, STANDALONE_ROUTES);
+
+      const results = parser.getResults();
+      expect(results).toHaveLength(6);
+      expect(results.every((r) => r.type === EntityType.Route)).toBe(true);
+    });
+
+    it('should compute full paths for nested routes', () => {
+      parseAll(parser, STANDALONE_ROUTES);
+
+      const child = findRoute(parser, '/users/:id');
+      expect(child).toBeDefined();
+      expect(child!.path).toBe(':id');
+
+      const parent = findRoute(parser, '/users');
+      expect(child!.parentRoute).toBe(parent!.id);
+      expect(parent!.children).toEqual([child!.id]);
+    });
+
+    it('should generate unique IDs for routes sharing a path', () => {
+      parseAll(parser, STANDALONE_ROUTES);
+
+      const ids = parser.getResults().map((r) => r.id);
+      expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    it('should extract redirect, title and pathMatch', () => {
+      parseAll(parser, STANDALONE_ROUTES);
+
+      const redirect = parser.getResults().find((r) => r.redirectTo);
+      expect(redirect!.redirectTo).toBe('home');
+      expect(redirect!.pathMatch).toBe('full');
+      expect(findRoute(parser, '/home')!.title).toBe('Home');
+    });
+
+    it('should extract lazy imports', () => {
+      parseAll(parser, STANDALONE_ROUTES);
+
+      const detail = findRoute(parser, '/users/:id')!;
+      expect(detail.loadComponent).toBe('./users/user-detail.component');
+      expect(detail.lazyExport).toBe('UserDetailComponent');
+
+      const admin = findRoute(parser, '/admin')!;
+      expect(admin.loadChildren).toBe('./admin/admin.routes');
+      expect(admin.lazyExport).toBe('ADMIN_ROUTES');
+    });
+
+    it('should extract guards, resolvers and data', () => {
+      parseAll(parser, STANDALONE_ROUTES);
+
+      expect(findRoute(parser, '/users')!.guards).toEqual([
+        { guardType: 'canActivate', name: 'AuthGuard' },
+      ]);
+      const detail = findRoute(parser, '/users/:id')!;
+      expect(detail.resolvers).toEqual({ user: 'userResolver' });
+      expect(detail.data).toEqual({ breadcrumb: 'User' });
+    });
+
+    it('should record the Routes constant name on root routes', () => {
+      parseAll(parser, STANDALONE_ROUTES);
+
+      expect(findRoute(parser, '/home')!.routesName).toBe('routes');
+      expect(findRoute(parser, '/users/:id')!.routesName).toBeUndefined();
+    });
+  });
+
+  describe('Relationships', () => {
+    it('should create routesTo, guardedBy, lazyLoads and resolver relationships', () => {
+      const context = parseAll(parser, STANDALONE_ROUTES);
+      const rels = context.relationships;
+
+      const routesTo = rels.filter((r: any) => r.type === RelationType.RoutesTo);
+      expect(routesTo.some((r: any) => r.target === 'HomeComponent' && r.metadata.importPath === './home/home.component')).toBe(true);
+
+      const guarded = rels.find((r: any) => r.type === RelationType.GuardedBy);
+      expect(guarded.target).toBe('AuthGuard');
+      expect(guarded.metadata.guardType).toBe('canActivate');
+
+      const lazy = rels.filter((r: any) => r.type === RelationType.LazyLoads);
+      expect(lazy.map((r: any) => r.target).sort()).toEqual(['ADMIN_ROUTES', 'UserDetailComponent']);
+      expect(lazy.find((r: any) => r.target === 'UserDetailComponent').metadata.lazyType).toBe('component');
+
+      const resolver = rels.find((r: any) => r.type === RelationType.Uses && r.metadata.usage === 'resolver');
+      expect(resolver.target).toBe('userResolver');
+    });
+  });
+
+  describe('RouterModule registration', () => {
+    it('should detect forRoot with a referenced routes constant', () => {
+      const context = parseAll(parser, ROUTER_MODULE_ROUTES);
+
+      const route = findRoute(parser, '/dashboard')!;
+      expect(route).toBeDefined();
+      expect(route.routerConfig).toBe('forRoot');
+      expect(route.ownerModule).toBe('AppRoutingModule');
+      expect(route.component).toBe('DashboardComponent');
+
+      // Inline guards are recorded but not linked
+      expect(route.guards![0].inline).toBe(true);
+      expect(context.relationships.some((r: any) => r.type === RelationType.GuardedBy)).toBe(false);
+    });
+
+    it('should parse inline arrays passed to provideRouter', () => {
+      const code = `
+        import { provideRouter } from '@angular/router';
+        import { HomeComponent } from './home.component';
+        export const appConfig = { providers: [provideRouter([{ path: 'home', component: HomeComponent }])] };
+      `;
+      parseAll(parser, code);
+
+      const route = findRoute(parser, '/home')!;
+      expect(route.routerConfig).toBe('provideRouter');
+    });
+
+    it('should parse untyped arrays only when registered with the router', () => {
+      const code = `
+        import { Routes, provideRouter } from '@angular/router';
+        import { HomeComponent } from './home.component';
+        const adminRoutes = [{ path: 'users', component: HomeComponent }];
+        const routes = [{ path: 'admin', children: adminRoutes }];
+        export const extraRoutes = [{ path: 'help', component: HomeComponent }] satisfies Routes;
+        export const appConfig = { providers: [provideRouter(routes)] };
+      `;
+      parseAll(parser, code);
+
+      expect(parser.getResults().map((r) => r.fullPath).sort()).toEqual(['/admin', '/admin/users', '/help']);
+      expect(findRoute(parser, '/admin')!.routerConfig).toBe('provideRouter');
+    });
+
+    it('should ignore arrays that are not routes', () => {
+      const code = `
+        import { HomeComponent } from './home.component';
+        export const menu = [{ path: '/home', label: 'Home' }];
+        export const tabs = [{ label: 'Home', component: HomeComponent, children: [{ label: 'Sub', component: HomeComponent }] }];
+        export default [{ path: 'settings', component: HomeComponent }];
+      `;
+      parseAll(parser, code);
+
+      expect(parser.getResults()).toHaveLength(0);
+    });
+  });
+
+  describe('joinRoutePath', () => {
+    it('should join segments', () => {
+      expect(joinRoutePath(undefined, '')).toBe('/');
+      expect(joinRoutePath(undefined, 'home')).toBe('/home');
+      expect(joinRoutePath('/', 'home')).toBe('/home');
+      expect(joinRoutePath('/admin', '')).toBe('/admin');
+      expect(joinRoutePath('/admin', 'users/:id')).toBe('/admin/users/:id');
+    });
+  });
+
+  describe('Reset', () => {
+    it('should clear results', () => {
+      parseAll(parser, STANDALONE_ROUTES);
+      parser.reset();
+      expect(parser.getResults()).toHaveLength(0);
+    });
+  });
+});
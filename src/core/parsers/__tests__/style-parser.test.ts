@@ -0,0 +1,56 @@
+import { describe, it, expect } from '@jest/globals';
+import { StyleParser } from '../style-parser.js';
+import type { ComponentEntity, StyleFileMetadata } from '../../../types/index.js';
+
+const styleFile = (filePath: string, extra: Partial<StyleFileMetadata> = {}): StyleFileMetadata => ({
+  filePath,
+  imports: [],
+  uses: [],
+  ...extra,
+});
+
+const component = (name: string, files: StyleFileMetadata[], inline?: StyleFileMetadata[]): ComponentEntity =>
+  ({
+    id: `component:src/${name}.ts:${name}`,
+    type: 'component',
+    name,
+    location: { filePath: `src/${name}.ts`, start: 0, end: 0, line: 1, column: 1 },
+    styleAnalysis: { files, inline },
+  }) as ComponentEntity;
+
+describe('StyleParser', () => {
+  describe('buildStyleGraph', () => {
+    const theme = styleFile('src/theme.scss', {
+      uses: [{ path: '@angular/material', statement: "@use '@angular/material' as mat", namespace: 'mat', line: 1 }],
+      customProperties: { defined: ['--brand', '--gap'], used: [] },
+    });
+    const card = styleFile('src/card.scss', { customProperties: { defined: [], used: ['--brand', '--local'] } });
+    const inline = [
+      styleFile('src/Banner.ts', { customProperties: { defined: ['--local'], used: [] } }),
+      styleFile('src/Banner.ts', { customProperties: { defined: [], used: ['--gap'] } }),
+    ];
+
+    const graph = new StyleParser().buildStyleGraph(
+      [component('Card', [card]), component('Banner', [], inline)],
+      [theme],
+      '/app'
+    );
+
+    it('should list component, inline and global style files', () => {
+      expect(graph.files.map((f) => [f.filePath, f.components, f.inline, f.global])).toEqual([
+        ['src/card.scss', ['component:src/Card.ts:Card'], undefined, undefined],
+        ['src/Banner.ts', ['component:src/Banner.ts:Banner'], true, undefined],
+        ['src/theme.scss', [], undefined, true],
+      ]);
+    });
+
+    it('should link module loading and consumed custom properties', () => {
+      expect(graph.edges).toEqual([
+        { source: 'src/theme.scss', target: '@angular/material', type: 'use', namespace: 'mat', resolved: false, line: 1 },
+        { source: 'src/card.scss', target: 'src/Banner.ts', type: 'customProperty', properties: ['--local'], resolved: true },
+        { source: 'src/card.scss', target: 'src/theme.scss', type: 'customProperty', properties: ['--brand'], resolved: true },
+        { source: 'src/Banner.ts', target: 'src/theme.scss', type: 'customProperty', properties: ['--gap'], resolved: true },
+      ]);
+    });
+  });
+});
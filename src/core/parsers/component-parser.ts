@@ -10,6 +10,7 @@ import type {
   InputMetadata,
   OutputMetadata,
   SignalMetadata,
+  MemberMetadata,
   Relationship,
   VisitorContext as OldVisitorContext,
 } from '../../types/index.js';
@@ -29,6 +30,21 @@ import { getPrimaryTypeName } from '../../utils/type-helpers.js';
 import { extractPropertyInjectCalls, extractConstructorInjectCalls } from '../../utils/inject-helpers.js';
 import { parseProviders } from '../../utils/provider-helpers.js';
 
+const PARAMETER_PROPERTY_MODIFIERS = new Set([
+  ts.SyntaxKind.PublicKeyword,
+  ts.SyntaxKind.PrivateKeyword,
+  ts.SyntaxKind.ProtectedKeyword,
+  ts.SyntaxKind.ReadonlyKeyword,
+]);
+
+/**
+ * Decorator name: `@HostListener('click')` -> HostListener
+ */
+function getDecoratorName(decorator: ts.Decorator, sourceFile: ts.SourceFile): string {
+  const expression = ts.isCallExpression(decorator.expression) ? decorator.expression.expression : decorator.expression;
+  return expression.getText(sourceFile);
+}
+
 /**
  * Core parser for Angular @Component decorators
  *
@@ -78,7 +94,7 @@ export class ComponentParser {
       selector: args.selector,
       template: args.template,
       templateUrl: args.templateUrl,
-      styles: Array.isArray(args.styles) ? args.styles : undefined,
+      styles: typeof args.styles === 'string' ? [args.styles] : Array.isArray(args.styles) ? args.styles : undefined,
       styleUrls: this.extractStyleUrls(args, context),
       standalone: args.standalone ?? false,
       imports: Array.isArray(args.imports) ? args.imports : undefined,
@@ -92,6 +108,7 @@ export class ComponentParser {
       outputs: this.extractOutputs(node, context),
       lifecycle: extractLifecycleHooks(node),
       signals: this.extractSignals(node, context),
+      members: this.extractMembers(node, context),
     };
 
     context.addEntity(entity);
@@ -105,7 +122,7 @@ export class ComponentParser {
     const inputs: InputMetadata[] = [];
 
     node.members.forEach((member) => {
-      if (!ts.isPropertyDeclaration(member)) return;
+      if (!ts.isPropertyDeclaration(member) && !ts.isSetAccessor(member)) return;
 
       const decorators = getDecorators(member, context.sourceFile, context.rootDir, context.gitInfo);
       const inputDecorator = decorators?.find((d) => d.name === 'Input');
@@ -115,22 +132,29 @@ export class ComponentParser {
         inputs.push({
           name,
           propertyName: name,
-          type: member.type?.getText(context.sourceFile),
+          type: ts.isPropertyDeclaration(member)
+            ? member.type?.getText(context.sourceFile)
+            : undefined,
           required: inputDecorator.arguments.required ?? false,
           isSignal: false,
           alias: inputDecorator.arguments.alias,
         });
       }
 
-      // Check for signal-based input()
-      if (member.initializer && ts.isCallExpression(member.initializer)) {
-        const { isSignal, signalType } = isSignalFunction(member.initializer, context.sourceFile);
-        if (isSignal && signalType === 'input') {
+      // Check for signal-based input() and model()
+      if (
+        ts.isPropertyDeclaration(member) &&
+        member.initializer &&
+        ts.isCallExpression(member.initializer)
+      ) {
+        const { isSignal, signalType, required, typeArgument } = isSignalFunction(member.initializer, context.sourceFile);
+        if (isSignal && (signalType === 'input' || signalType === 'model')) {
           const name = member.name.getText(context.sourceFile);
           inputs.push({
             name,
             propertyName: name,
-            type: member.type?.getText(context.sourceFile),
+            type: member.type?.getText(context.sourceFile) ?? typeArgument,
+            required: required ?? false,
             isSignal: true,
           });
         }
@@ -160,15 +184,25 @@ export class ComponentParser {
         });
       }
 
-      // Check for signal-based output()
+      // Check for signal-based output() and model()
       if (member.initializer && ts.isCallExpression(member.initializer)) {
-        const { isSignal, signalType } = isSignalFunction(member.initializer, context.sourceFile);
+        const { isSignal, signalType, typeArgument } = isSignalFunction(member.initializer, context.sourceFile);
         if (isSignal && signalType === 'output') {
           const name = member.name.getText(context.sourceFile);
           outputs.push({
             name,
             propertyName: name,
-            type: member.type?.getText(context.sourceFile),
+            type: member.type?.getText(context.sourceFile) ?? typeArgument,
+            isSignal: true,
+          });
+        }
+        // model() also emits `<name>Change` for two-way binding
+        if (isSignal && signalType === 'model') {
+          const name = member.name.getText(context.sourceFile);
+          outputs.push({
+            name: `${name}Change`,
+            propertyName: name,
+            type: typeArgument,
             isSignal: true,
           });
         }
@@ -204,6 +238,49 @@ export class ComponentParser {
     return signals;
   }
 
+  /**
+   * Fields, methods, accessors and constructor parameter properties with their visibility
+   */
+  private extractMembers(node: ts.ClassDeclaration, context: OldVisitorContext): MemberMetadata[] {
+    const members = new Map<string, MemberMetadata>();
+
+    const add = (member: ts.ClassElement | ts.ParameterDeclaration, kind: MemberMetadata['kind']) => {
+      if (!member.name || (!ts.isIdentifier(member.name) && !ts.isPrivateIdentifier(member.name))) return;
+      const name = member.name.getText(context.sourceFile);
+      if (members.has(name)) return;
+
+      const modifiers = ts.canHaveModifiers(member) ? ts.getModifiers(member) ?? [] : [];
+      const has = (syntaxKind: ts.SyntaxKind) => modifiers.some((modifier) => modifier.kind === syntaxKind);
+      const decorators = ts.canHaveDecorators(member)
+        ? (ts.getDecorators(member) ?? []).map((d) => getDecoratorName(d, context.sourceFile))
+        : [];
+
+      members.set(name, {
+        name,
+        kind,
+        visibility: ts.isPrivateIdentifier(member.name) || has(ts.SyntaxKind.PrivateKeyword)
+          ? 'private'
+          : has(ts.SyntaxKind.ProtectedKeyword) ? 'protected' : 'public',
+        ...(has(ts.SyntaxKind.StaticKeyword) && { static: true }),
+        ...(decorators.length > 0 && { decorators }),
+      });
+    };
+
+    node.members.forEach((member) => {
+      if (ts.isPropertyDeclaration(member)) add(member, 'property');
+      else if (ts.isMethodDeclaration(member)) add(member, 'method');
+      else if (ts.isGetAccessor(member) || ts.isSetAccessor(member)) add(member, 'accessor');
+      else if (ts.isConstructorDeclaration(member)) {
+        // Parameter properties: constructor(private store: Store)
+        member.parameters
+          .filter((param) => ts.getModifiers(param)?.some((modifier) => PARAMETER_PROPERTY_MODIFIERS.has(modifier.kind)))
+          .forEach((param) => add(param, 'property'));
+      }
+    });
+
+    return Array.from(members.values());
+  }
+
   private extractRelationships(
     entity: ComponentEntity,
     node: ts.ClassDeclaration,
@@ -357,6 +434,7 @@ export class ComponentParser {
           // Normalize type name (strip array brackets, extract from generics)
           const typeName = getPrimaryTypeName(rawTypeName) || rawTypeName;
           const importPath = this.findImportPathForType(typeName, context.sourceFile);
+          const decorators = getDecorators(param, context.sourceFile);
           const relationship: Relationship = {
             id: `${entity.id}:injects:${typeName}`,
             type: RelationType.Injects,
@@ -365,6 +443,10 @@ export class ComponentParser {
             metadata: {
               importPath,
               originalType: rawTypeName !== typeName ? rawTypeName : undefined,
+              optional: decorators?.some((d) => d.name === 'Optional'),
+              self: decorators?.some((d) => d.name === 'Self'),
+              skipSelf: decorators?.some((d) => d.name === 'SkipSelf'),
+              host: decorators?.some((d) => d.name === 'Host'),
             },
           };
           context.addRelationship(relationship);
@@ -13,6 +13,7 @@ import {
   getSourceLocation,
   getDocumentation,
   generateEntityId,
+  parseObjectLiteral,
 } from '../../utils/ast-helpers.js';
 
 /**
@@ -97,6 +98,7 @@ export class ConstantParser {
       documentation: getDocumentation(node),
       constantType: 'InjectionToken',
       tokenType,
+      providedIn: getTokenProvidedIn(expr, context.sourceFile),
     };
 
     context.addEntity(entity);
@@ -183,3 +185,15 @@ export class ConstantParser {
     this.results = [];
   }
 }
+
+/**
+ * providedIn of an InjectionToken created with a factory (tokens without factory must be provided explicitly)
+ */
+function getTokenProvidedIn(expr: ts.NewExpression, sourceFile: ts.SourceFile): string | undefined {
+  const options = expr.arguments?.[1];
+  if (!options || !ts.isObjectLiteralExpression(options)) return undefined;
+
+  const properties = parseObjectLiteral(options, sourceFile);
+  if (!('factory' in properties)) return undefined;
+  return typeof properties.providedIn === 'string' ? properties.providedIn : 'root';
+}
@@ -101,19 +101,20 @@ export class DirectiveParser {
         });
       }
 
-      // Check for signal-based input()
+      // Check for signal-based input() and model()
       if (
         ts.isPropertyDeclaration(member) &&
         member.initializer &&
         ts.isCallExpression(member.initializer)
       ) {
-        const { isSignal, signalType } = isSignalFunction(member.initializer, context.sourceFile);
-        if (isSignal && signalType === 'input') {
+        const { isSignal, signalType, required, typeArgument } = isSignalFunction(member.initializer, context.sourceFile);
+        if (isSignal && (signalType === 'input' || signalType === 'model')) {
           const name = member.name.getText(context.sourceFile);
           inputs.push({
             name,
             propertyName: name,
-            type: member.type?.getText(context.sourceFile),
+            type: member.type?.getText(context.sourceFile) ?? typeArgument,
+            required: required ?? false,
             isSignal: true,
           });
         }
@@ -143,15 +144,25 @@ export class DirectiveParser {
         });
       }
 
-      // Check for signal-based output()
+      // Check for signal-based output() and model()
       if (member.initializer && ts.isCallExpression(member.initializer)) {
-        const { isSignal, signalType } = isSignalFunction(member.initializer, context.sourceFile);
+        const { isSignal, signalType, typeArgument } = isSignalFunction(member.initializer, context.sourceFile);
         if (isSignal && signalType === 'output') {
           const name = member.name.getText(context.sourceFile);
           outputs.push({
             name,
             propertyName: name,
-            type: member.type?.getText(context.sourceFile),
+            type: member.type?.getText(context.sourceFile) ?? typeArgument,
+            isSignal: true,
+          });
+        }
+        // model() also emits `<name>Change` for two-way binding
+        if (isSignal && signalType === 'model') {
+          const name = member.name.getText(context.sourceFile);
+          outputs.push({
+            name: `${name}Change`,
+            propertyName: name,
+            type: typeArgument,
             isSignal: true,
           });
         }
@@ -198,6 +209,7 @@ export class DirectiveParser {
           // Normalize type name (strip array brackets, extract from generics)
           const typeName = getPrimaryTypeName(rawTypeName) || rawTypeName;
           const importPath = this.findImportPathForType(typeName, context.sourceFile);
+          const decorators = getDecorators(param, context.sourceFile);
           const relationship: Relationship = {
             id: `${entity.id}:injects:${typeName}`,
             type: RelationType.Injects,
@@ -206,6 +218,10 @@ export class DirectiveParser {
             metadata: {
               importPath,
               originalType: rawTypeName !== typeName ? rawTypeName : undefined,
+              optional: decorators?.some((d) => d.name === 'Optional'),
+              self: decorators?.some((d) => d.name === 'Self'),
+              skipSelf: decorators?.some((d) => d.name === 'SkipSelf'),
+              host: decorators?.some((d) => d.name === 'Host'),
             },
           };
           context.addRelationship(relationship);
@@ -8,6 +8,7 @@ export { ModuleParser } from './module-parser.js';
 export { DirectiveParser } from './directive-parser.js';
 export { PipeParser } from './pipe-parser.js';
 export { ConstantParser } from './constant-parser.js';
+export { RouteParser } from './route-parser.js';
 export { GitRemoteParser } from './git-remote-parser.js';
 export { TemplateParser } from './template-parser.js';
 export { StyleParser } from './style-parser.js';
@@ -0,0 +1,918 @@
+/**
+ * Route parser - Core Angular parser (non-extensible)
+ * Extracts Angular Router configuration (Routes arrays, RouterModule.forRoot/forChild, provideRouter)
+ */
+
+import * as ts from 'typescript';
+import * as path from 'path';
+import type {
+  Entity,
+  ModuleEntity,
+  Relationship,
+  RouteEntity,
+  RouteGuardMetadata,
+  RouterConfigKind,
+  VisitorContext as OldVisitorContext,
+} from '../../types/index.js';
+import { EntityType, RelationType } from '../../types/index.js';
+import {
+  getSourceLocation,
+  getDocumentation,
+  generateEntityId,
+  parseExpression,
+} from '../../utils/ast-helpers.js';
+import { parseProviders } from '../../utils/provider-helpers.js';
+
+const GUARD_PROPERTIES: RouteGuardMetadata['guardType'][] = [
+  'canActivate',
+  'canActivateChild',
+  'canDeactivate',
+  'canMatch',
+  'canLoad',
+];
+
+/**
+ * Sources that may reference routes arrays (scanned for router references)
+ */
+const ROUTER_API_PATTERN = /\b(Routes|Route|forRoot|forChild|provideRouter|loadChildren)\b/;
+
+/**
+ * Registration info collected from forRoot/forChild/provideRouter calls
+ */
+interface RouterRegistration {
+  routerConfig: RouterConfigKind;
+  ownerModule?: string;
+}
+
+/**
+ * Untyped arrays used as routes somewhere in the program
+ */
+interface RouterReferences {
+  arrays: Set<string>;       // Array keys passed to forRoot/forChild/provideRouter, or `children` of routes
+  exports: Set<string>;      // `file#export` targets of loadChildren
+}
+
+/**
+ * Core parser for Angular Router configuration
+ *
+ * Recognizes:
+ * - `const routes: Routes = [...]` (and `Route[]`, `as Routes`, `satisfies Routes`)
+ * - `RouterModule.forRoot(routes)` / `RouterModule.forChild(routes)`
+ * - `provideRouter(routes)`
+ * - untyped arrays (and `export default [...]`) only when passed to one of the above, used as
+ *   `children` or loaded by `loadChildren`, so menu or tab config arrays are not taken for routes
+ *
+ * Each route object becomes a RouteEntity; nested `children` are linked through
+ * `parentRoute`/`children` and lazy `loadChildren` targets are linked after all files
+ * are parsed (see linkLazyRoutes()).
+ */
+export class RouteParser {
+  private results: RouteEntity[] = [];
+  private routesById = new Map<string, RouteEntity>();
+  private routeFiles = new Map<string, string>(); // route ID -> source file name in the program
+  private localPaths = new Map<string, string>(); // route ID -> path within its own file
+  private parsedArrays = new Map<string, RouteEntity[]>(); // array key -> root routes
+  private pendingRegistrations = new Map<string, RouterRegistration>();
+  private pendingParents = new Map<string, RouteEntity>();
+  private routerReferences?: RouterReferences;
+
+  /**
+   * Parse a TypeScript node for route configuration
+   */
+  parse(node: ts.Node, context: OldVisitorContext): void {
+    if (ts.isVariableDeclaration(node) && node.initializer && ts.isIdentifier(node.name)) {
+      const array = unwrapArray(node.initializer);
+      const isRoutes =
+        isRoutesTypeAnnotation(node.type, context.sourceFile) ||
+        isRoutesAssertion(node.initializer, context.sourceFile);
+      if (array && (isRoutes || this.isRouterReference(array, node.name.text, context))) {
+        this.parseRoutesArray(array, context, { routesName: node.name.text });
+      }
+      return;
+    }
+
+    if (ts.isExportAssignment(node) && !node.isExportEquals) {
+      const array = unwrapArray(node.expression);
+      if (array && (isRoutesAssertion(node.expression, context.sourceFile) || this.isRouterReference(array, 'default', context))) {
+        this.parseRoutesArray(array, context, { routesName: 'default' });
+      }
+      return;
+    }
+
+    if (ts.isCallExpression(node)) {
+      const routerConfig = getRouterConfigKind(node, context.sourceFile);
+      if (!routerConfig || node.arguments.length === 0) return;
+
+      const registration: RouterRegistration = {
+        routerConfig,
+        ownerModule: findOwnerModule(node),
+      };
+
+      const argument = node.arguments[0];
+      const inlineArray = unwrapArray(argument);
+      if (inlineArray) {
+        this.parseRoutesArray(inlineArray, context, {}, registration);
+        return;
+      }
+
+      const declared = this.resolveRoutesDeclaration(argument, context);
+      if (!declared) return;
+
+      const key = arrayKey(declared);
+      const roots = this.parsedArrays.get(key);
+      if (roots) {
+        roots.forEach((route) => applyRegistration(route, registration));
+      } else {
+        this.pendingRegistrations.set(key, registration);
+      }
+    }
+  }
+
+  /**
+   * Parse an array literal of route objects
+   *
+   * @returns Root routes of this array
+   */
+  private parseRoutesArray(
+    array: ts.ArrayLiteralExpression,
+    context: OldVisitorContext,
+    options: { routesName?: string },
+    registration?: RouterRegistration,
+    parent?: RouteEntity
+  ): RouteEntity[] {
+    const key = arrayKey(array);
+    const existing = this.parsedArrays.get(key);
+    if (existing) return existing;
+
+    const routes: RouteEntity[] = [];
+    this.parsedArrays.set(key, routes);
+
+    for (const element of array.elements) {
+      if (!ts.isObjectLiteralExpression(element)) continue;
+      routes.push(this.extractRoute(element, context, options, parent));
+    }
+
+    const pendingRegistration = this.pendingRegistrations.get(key);
+    const effectiveRegistration = registration ?? pendingRegistration;
+    if (effectiveRegistration) {
+      routes.forEach((route) => applyRegistration(route, effectiveRegistration));
+      this.pendingRegistrations.delete(key);
+    }
+
+    const pendingParent = this.pendingParents.get(key);
+    if (pendingParent && !parent) {
+      this.attachChildren(pendingParent, routes);
+      this.pendingParents.delete(key);
+    }
+
+    return routes;
+  }
+
+  private extractRoute(
+    node: ts.ObjectLiteralExpression,
+    context: OldVisitorContext,
+    options: { routesName?: string },
+    parent?: RouteEntity
+  ): RouteEntity {
+    const sourceFile = context.sourceFile;
+    const properties = new Map<string, ts.Expression>();
+    for (const prop of node.properties) {
+      if (ts.isPropertyAssignment(prop)) {
+        properties.set(getPropertyName(prop.name, sourceFile), prop.initializer);
+      } else if (ts.isShorthandPropertyAssignment(prop)) {
+        properties.set(prop.name.text, prop.name);
+      }
+    }
+
+    const routePath = getStringValue(properties.get('path')) ?? '';
+    const fullPath = joinRoutePath(parent?.fullPath, routePath);
+    const localPath = joinRoutePath(parent ? this.localPathOf(parent) : undefined, routePath);
+    const location = getSourceLocation(node, sourceFile, context.rootDir, context.gitInfo);
+
+    const entity: RouteEntity = {
+      id: this.uniqueId(generateEntityId(location.filePath, localPath, EntityType.Route, context.rootDir)),
+      type: EntityType.Route,
+      name: fullPath,
+      location,
+      documentation: getDocumentation(node),
+      path: routePath,
+      fullPath,
+      routesName: parent ? undefined : options.routesName,
+      routerConfig: parent ? undefined : 'routes',
+      parentRoute: parent?.id,
+    };
+    this.localPaths.set(entity.id, localPath);
+
+    const component = properties.get('component');
+    if (component) {
+      entity.component = component.getText(sourceFile);
+    }
+
+    const loadComponent = properties.get('loadComponent');
+    if (loadComponent) {
+      const lazy = extractLazyImport(loadComponent);
+      entity.loadComponent = lazy.importPath;
+      entity.lazyExport = lazy.exportName;
+    }
+
+    const loadChildren = properties.get('loadChildren');
+    if (loadChildren) {
+      const lazy = extractLazyImport(loadChildren);
+      entity.loadChildren = lazy.importPath;
+      entity.lazyExport = lazy.exportName;
+    }
+
+    const redirectTo = properties.get('redirectTo');
+    if (redirectTo) {
+      entity.redirectTo = getStringValue(redirectTo) ?? redirectTo.getText(sourceFile);
+    }
+
+    const pathMatch = getStringValue(properties.get('pathMatch'));
+    if (pathMatch === 'full' || pathMatch === 'prefix') {
+      entity.pathMatch = pathMatch;
+    }
+
+    const outlet = getStringValue(properties.get('outlet'));
+    if (outlet) {
+      entity.outlet = outlet;
+    }
+
+    const guards: RouteGuardMetadata[] = [];
+    for (const guardType of GUARD_PROPERTIES) {
+      const guardList = properties.get(guardType);
+      if (!guardList) continue;
+      for (const guard of getArrayElements(guardList)) {
+        guards.push({ guardType, ...describeReference(guard, sourceFile) });
+      }
+    }
+    if (guards.length > 0) {
+      entity.guards = guards;
+    }
+
+    const resolve = properties.get('resolve');
+    if (resolve && ts.isObjectLiteralExpression(resolve)) {
+      const resolvers: Record<string, string> = {};
+      for (const prop of resolve.properties) {
+        if (ts.isPropertyAssignment(prop)) {
+          resolvers[getPropertyName(prop.name, sourceFile)] = describeReference(prop.initializer, sourceFile).name;
+        } else if (ts.isShorthandPropertyAssignment(prop)) {
+          resolvers[prop.name.text] = prop.name.text;
+        }
+      }
+      entity.resolvers = resolvers;
+    }
+
+    const data = properties.get('data');
+    if (data) {
+      const value = parseExpression(data, sourceFile);
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        entity.data = value;
+      }
+    }
+
+    const title = properties.get('title');
+    if (title) {
+      entity.title = getStringValue(title) ?? title.getText(sourceFile);
+    }
+
+    const providers = properties.get('providers');
+    if (providers) {
+      const value = parseExpression(providers, sourceFile);
+      if (Array.isArray(value)) {
+        entity.providers = value;
+      }
+    }
+
+    context.addEntity(entity);
+    this.results.push(entity);
+    this.routesById.set(entity.id, entity);
+    this.routeFiles.set(entity.id, sourceFile.fileName);
+
+    if (parent) {
+      parent.children = [...(parent.children ?? []), entity.id];
+    }
+
+    this.extractRelationships(entity, context);
+
+    // Children: inline array or reference to another Routes array
+    const children = properties.get('children');
+    if (children) {
+      const childArray = unwrapArray(children);
+      if (childArray) {
+        this.parseRoutesArray(childArray, context, {}, undefined, entity);
+      } else {
+        const declared = this.resolveRoutesDeclaration(children, context);
+        if (declared) {
+          const key = arrayKey(declared);
+          const parsed = this.parsedArrays.get(key);
+          if (parsed) {
+            this.attachChildren(entity, parsed);
+          } else if (declared.getSourceFile() === sourceFile) {
+            this.parseRoutesArray(declared, context, { routesName: children.getText(sourceFile) }, undefined, entity);
+          } else {
+            this.pendingParents.set(key, entity);
+          }
+        }
+      }
+    }
+
+    return entity;
+  }
+
+  private extractRelationships(entity: RouteEntity, context: OldVisitorContext): void {
+    const sourceFile = context.sourceFile;
+
+    // Routed component
+    if (entity.component) {
+      context.addRelationship({
+        id: `${entity.id}:routesTo:${entity.component}`,
+        type: RelationType.RoutesTo,
+        source: entity.id,
+        target: entity.component,
+        metadata: {
+          importPath: this.findImportPathForType(entity.component, sourceFile),
+        },
+      });
+    }
+
+    // Lazy chunks (loadComponent / loadChildren)
+    const lazyImport = entity.loadComponent ?? entity.loadChildren;
+    if (lazyImport) {
+      const target = entity.lazyExport ?? lazyImport;
+      context.addRelationship({
+        id: `${entity.id}:lazyLoads:${target}`,
+        type: RelationType.LazyLoads,
+        source: entity.id,
+        target,
+        metadata: {
+          importPath: lazyImport,
+          lazyType: entity.loadComponent ? 'component' : 'children',
+        },
+      });
+    }
+
+    // Guards (inline arrow guards have nothing to link to)
+    entity.guards?.forEach((guard) => {
+      if (guard.inline) return;
+      context.addRelationship({
+        id: `${entity.id}:guardedBy:${guard.guardType}:${guard.name}`,
+        type: RelationType.GuardedBy,
+        source: entity.id,
+        target: guard.name,
+        metadata: {
+          importPath: this.findImportPathForType(guard.name, sourceFile),
+          guardType: guard.guardType,
+        },
+      });
+    });
+
+    // Resolvers
+    if (entity.resolvers) {
+      for (const [key, resolver] of Object.entries(entity.resolvers)) {
+        if (!isIdentifierLike(resolver)) continue;
+        context.addRelationship({
+          id: `${entity.id}:uses:${resolver}`,
+          type: RelationType.Uses,
+          source: entity.id,
+          target: resolver,
+          metadata: {
+            importPath: this.findImportPathForType(resolver, sourceFile),
+            usage: 'resolver',
+            resolveKey: key,
+          },
+        });
+      }
+    }
+
+    // Route-level providers (environment injector)
+    parseProviders(entity.providers, sourceFile).forEach((provider) => {
+      context.addRelationship({
+        id: `${entity.id}:provides:${provider.token}`,
+        type: RelationType.Provides,
+        source: entity.id,
+        target: provider.token,
+        metadata: {
+          importPath: this.findImportPathForType(provider.token, sourceFile),
+          providerType: 'route-token',
+        },
+      });
+
+      if (provider.implementation && provider.implementation !== provider.token) {
+        context.addRelationship({
+          id: `${entity.id}:provides:${provider.implementation}`,
+          type: RelationType.Provides,
+          source: entity.id,
+          target: provider.implementation,
+          metadata: {
+            importPath: this.findImportPathForType(provider.implementation, sourceFile),
+            providerType: 'route-implementation',
+          },
+        });
+      }
+    });
+  }
+
+  /**
+   * Link lazily loaded child routes (loadChildren) to the route that loads them
+   *
+   * Must be called after all source files were parsed, since the lazy target
+   * usually lives in another file. Updates parentRoute/children/fullPath of the
+   * lazy routes and points LazyLoads relationships that target a Routes array
+   * directly at its root route entities.
+   */
+  linkLazyRoutes(
+    entities: Map<string, Entity>,
+    relationships: Relationship[],
+    program: ts.Program,
+    optionsForFile?: (fileName: string) => ts.CompilerOptions
+  ): void {
+
+    for (const route of this.results) {
+      if (!route.loadChildren || !entities.has(route.id)) continue;
+
+      const containingFile = this.routeFiles.get(route.id);
+      if (!containingFile) continue;
+
+      const compilerOptions = optionsForFile?.(containingFile) ?? program.getCompilerOptions();
+      const resolved = ts.resolveModuleName(route.loadChildren, containingFile, compilerOptions, ts.sys);
+      const targetFile = resolved.resolvedModule?.resolvedFileName;
+
+      const candidates = this.results.filter(
+        (r) => !r.parentRoute && r.id !== route.id && entities.has(r.id)
+      );
+
+      let lazyRoots: RouteEntity[] = [];
+      let targetsRoutesArray = false;
+
+      if (targetFile) {
+        lazyRoots = candidates.filter(
+          (r) =>
+            normalizeFile(this.routeFiles.get(r.id)) === normalizeFile(targetFile) &&
+            (!route.lazyExport || r.routesName === route.lazyExport)
+        );
+        targetsRoutesArray = lazyRoots.length > 0;
+      }
+
+      // loadChildren pointing at an NgModule: follow RouterModule.forChild() in the module or its imports
+      if (lazyRoots.length === 0 && route.lazyExport) {
+        const moduleNames = new Set<string>([route.lazyExport]);
+        for (const entity of entities.values()) {
+          if (entity.type === EntityType.Module && entity.name === route.lazyExport) {
+            (entity as ModuleEntity).imports?.forEach((imp) => {
+              if (typeof imp === 'string') moduleNames.add(imp);
+            });
+          }
+        }
+        lazyRoots = candidates.filter(
+          (r) => r.routerConfig === 'forChild' && r.ownerModule && moduleNames.has(r.ownerModule)
+        );
+      }
+
+      if (lazyRoots.length === 0) continue;
+
+      this.attachChildren(route, lazyRoots);
+
+      if (targetsRoutesArray) {
+        const index = relationships.findIndex(
+          (r) => r.source === route.id && r.type === RelationType.LazyLoads
+        );
+        if (index !== -1) {
+          const original = relationships[index];
+          relationships.splice(
+            index,
+            1,
+            ...lazyRoots.map((child) => ({
+              ...original,
+              id: `${route.id}:lazyLoads:${child.id}`,
+              target: child.id,
+              metadata: {
+                ...original.metadata,
+                originalName: original.target,
+                classification: 'internal',
+                resolved: true,
+              },
+            }))
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Register routes restored from the parse cache, so they take part in lazy linking
+   */
+  restore(routes: RouteEntity[], fileName: string): void {
+    for (const route of routes) {
+      this.results.push(route);
+      this.routesById.set(route.id, route);
+      this.routeFiles.set(route.id, fileName);
+    }
+  }
+
+  /**
+   * Attach already-parsed root routes under a parent route
+   */
+  private attachChildren(parent: RouteEntity, children: RouteEntity[]): void {
+    for (const child of children) {
+      if (child.parentRoute || child.id === parent.id) continue;
+      child.parentRoute = parent.id;
+      if (!parent.children?.includes(child.id)) {
+        parent.children = [...(parent.children ?? []), child.id];
+      }
+      this.updateFullPath(child, parent.fullPath);
+    }
+  }
+
+  private updateFullPath(route: RouteEntity, parentFullPath: string): void {
+    route.fullPath = joinRoutePath(parentFullPath, route.path);
+    route.name = route.fullPath;
+    route.children?.forEach((childId) => {
+      const child = this.routesById.get(childId);
+      if (child) this.updateFullPath(child, route.fullPath);
+    });
+  }
+
+  private localPathOf(route: RouteEntity): string {
+    return this.localPaths.get(route.id) ?? route.fullPath;
+  }
+
+  /**
+   * Make route IDs unique (same path may be declared twice, e.g. redirect + component on '')
+   */
+  private uniqueId(baseId: string): string {
+    if (!this.routesById.has(baseId)) return baseId;
+    let index = 2;
+    while (this.routesById.has(`${baseId}#${index}`)) index++;
+    return `${baseId}#${index}`;
+  }
+
+  /**
+   * Whether an untyped array is registered with the router, used as `children` or loaded by `loadChildren`
+   */
+  private isRouterReference(array: ts.ArrayLiteralExpression, exportName: string, context: OldVisitorContext): boolean {
+    const key = arrayKey(array);
+    if (this.pendingRegistrations.has(key) || this.pendingParents.has(key)) return true;
+
+    const references = this.getRouterReferences(context);
+    return (
+      references.arrays.has(key) ||
+      references.exports.has(`${normalizeFile(context.sourceFile.fileName)}#${exportName}`)
+    );
+  }
+
+  /**
+   * Collect router references across the program once per parse
+   */
+  private getRouterReferences(context: OldVisitorContext): RouterReferences {
+    if (this.routerReferences) return this.routerReferences;
+
+    const references: RouterReferences = { arrays: new Set(), exports: new Set() };
+    this.routerReferences = references;
+
+    const program: ts.Program | undefined = context.program;
+    const sourceFiles = program?.getSourceFiles() ?? [context.sourceFile];
+    for (const sourceFile of sourceFiles) {
+      if (sourceFile.isDeclarationFile || !ROUTER_API_PATTERN.test(sourceFile.text)) continue;
+      const fileContext = { ...context, sourceFile };
+
+      // Routes arrays and, recursively, the arrays their routes reference as `children`
+      const addRoutes = (array: ts.ArrayLiteralExpression, declared: boolean) => {
+        const key = arrayKey(array);
+        if (references.arrays.has(key)) return;
+        if (declared) references.arrays.add(key);
+        for (const element of array.elements) {
+          if (!ts.isObjectLiteralExpression(element)) continue;
+          for (const prop of element.properties) {
+            if (!ts.isPropertyAssignment(prop) || getPropertyName(prop.name, sourceFile) !== 'children') continue;
+            const children = unwrapArray(prop.initializer) ?? this.resolveRoutesDeclaration(prop.initializer, fileContext);
+            if (children) addRoutes(children, true);
+          }
+        }
+      };
+
+      const visit = (node: ts.Node): void => {
+        if (ts.isCallExpression(node) && node.arguments.length > 0 && getRouterConfigKind(node, sourceFile)) {
+          const array = unwrapArray(node.arguments[0]) ?? this.resolveRoutesDeclaration(node.arguments[0], fileContext);
+          if (array) addRoutes(array, true);
+        } else if (ts.isVariableDeclaration(node) && node.initializer) {
+          const array = unwrapArray(node.initializer);
+          const isRoutes = isRoutesTypeAnnotation(node.type, sourceFile) || isRoutesAssertion(node.initializer, sourceFile);
+          if (array && isRoutes) addRoutes(array, false);
+        } else if (ts.isPropertyAssignment(node) && getPropertyName(node.name, sourceFile) === 'loadChildren') {
+          const lazy = extractLazyImport(node.initializer);
+          const resolved = lazy.importPath && program
+            ? ts.resolveModuleName(lazy.importPath, sourceFile.fileName, program.getCompilerOptions(), ts.sys)
+            : undefined;
+          const targetFile = resolved?.resolvedModule?.resolvedFileName;
+          if (targetFile) references.exports.add(`${normalizeFile(targetFile)}#${lazy.exportName ?? 'default'}`);
+        }
+        ts.forEachChild(node, visit);
+      };
+      visit(sourceFile);
+    }
+
+    return references;
+  }
+
+  /**
+   * Resolve an identifier to the array literal of its variable declaration
+   */
+  private resolveRoutesDeclaration(
+    expression: ts.Expression,
+    context: OldVisitorContext
+  ): ts.ArrayLiteralExpression | undefined {
+    if (!ts.isIdentifier(expression)) return undefined;
+
+    try {
+      let symbol = context.typeChecker?.getSymbolAtLocation(expression);
+      if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+        symbol = context.typeChecker.getAliasedSymbol(symbol);
+      }
+      const declaration = symbol?.valueDeclaration ?? symbol?.declarations?.[0];
+      if (declaration && ts.isVariableDeclaration(declaration) && declaration.initializer) {
+        return unwrapArray(declaration.initializer);
+      }
+    } catch {
+      // Fall back to same-file lookup below
+    }
+
+    for (const statement of context.sourceFile.statements) {
+      if (!ts.isVariableStatement(statement)) continue;
+      for (const declaration of statement.declarationList.declarations) {
+        if (
+          ts.isIdentifier(declaration.name) &&
+          declaration.name.text === expression.text &&
+          declaration.initializer
+        ) {
+          return unwrapArray(declaration.initializer);
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Find the import path for a given type name
+   * Searches through import declarations in the source file
+   */
+  private findImportPathForType(typeName: string, sourceFile: ts.SourceFile): string | undefined {
+    for (const statement of sourceFile.statements) {
+      if (ts.isImportDeclaration(statement)) {
+        const moduleSpecifier = statement.moduleSpecifier;
+        if (ts.isStringLiteral(moduleSpecifier)) {
+          const importPath = moduleSpecifier.text;
+
+          // Check named imports
+          const namedBindings = statement.importClause?.namedBindings;
+          if (namedBindings && ts.isNamedImports(namedBindings)) {
+            for (const element of namedBindings.elements) {
+              if (element.name.text === typeName) {
+                return importPath;
+              }
+            }
+          }
+
+          // Check default import
+          const defaultImport = statement.importClause?.name;
+          if (defaultImport && defaultImport.text === typeName) {
+            return importPath;
+          }
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Get all parsed routes
+   */
+  getResults(): RouteEntity[] {
+    return this.results;
+  }
+
+  /**
+   * Reset parser state
+   */
+  reset(): void {
+    this.results = [];
+    this.routesById.clear();
+    this.routeFiles.clear();
+    this.parsedArrays.clear();
+    this.pendingRegistrations.clear();
+    this.pendingParents.clear();
+    this.localPaths.clear();
+    this.routerReferences = undefined;
+  }
+}
+
+/**
+ * Join a parent full path with a child segment: ('/admin', 'users') -> '/admin/users'
+ */
+export function joinRoutePath(parentFullPath: string | undefined, segment: string): string {
+  const base = parentFullPath && parentFullPath !== '/' ? parentFullPath : '';
+  if (!segment) return base || '/';
+  return `${base}/${segment.replace(/^\/+/, '')}`;
+}
+
+function getRouterConfigKind(node: ts.CallExpression, sourceFile: ts.SourceFile): RouterConfigKind | undefined {
+  const callee = node.expression.getText(sourceFile);
+  if (callee === 'provideRouter') return 'provideRouter';
+  if (callee.endsWith('RouterModule.forRoot')) return 'forRoot';
+  if (callee.endsWith('RouterModule.forChild')) return 'forChild';
+  return undefined;
+}
+
+function applyRegistration(route: RouteEntity, registration: RouterRegistration): void {
+  route.routerConfig = registration.routerConfig;
+  if (registration.ownerModule) {
+    route.ownerModule = registration.ownerModule;
+  }
+}
+
+/**
+ * Find the NgModule class whose decorator contains this call
+ */
+function findOwnerModule(node: ts.Node): string | undefined {
+  let insideDecorator = false;
+  let current: ts.Node | undefined = node.parent;
+  while (current) {
+    if (ts.isDecorator(current)) insideDecorator = true;
+    if (ts.isClassDeclaration(current)) {
+      return insideDecorator ? current.name?.text : undefined;
+    }
+    current = current.parent;
+  }
+  return undefined;
+}
+
+function isRoutesTypeAnnotation(typeNode: ts.TypeNode | undefined, sourceFile: ts.SourceFile): boolean {
+  if (!typeNode) return false;
+  const text = typeNode.getText(sourceFile).replace(/\s/g, '');
+  return text === 'Routes' || text === 'Route[]' || text === 'Array<Route>';
+}
+
+/**
+ * `[...] as Routes` / `[...] satisfies Routes`
+ */
+function isRoutesAssertion(expression: ts.Expression, sourceFile: ts.SourceFile): boolean {
+  let current: ts.Expression = expression;
+  while (
+    ts.isAsExpression(current) ||
+    ts.isSatisfiesExpression(current) ||
+    ts.isParenthesizedExpression(current)
+  ) {
+    if (!ts.isParenthesizedExpression(current) && isRoutesTypeAnnotation(current.type, sourceFile)) return true;
+    current = current.expression;
+  }
+  return false;
+}
+
+/**
+ * Strip `as Routes`, `satisfies Routes` and parentheses around an array literal
+ */
+function unwrapArray(expression: ts.Expression): ts.ArrayLiteralExpression | undefined {
+  let current: ts.Expression = expression;
+  while (
+    ts.isAsExpression(current) ||
+    ts.isSatisfiesExpression(current) ||
+    ts.isParenthesizedExpression(current)
+  ) {
+    current = current.expression;
+  }
+  return ts.isArrayLiteralExpression(current) ? current : undefined;
+}
+
+function arrayKey(array: ts.ArrayLiteralExpression): string {
+  return `${array.getSourceFile().fileName}:${array.pos}`;
+}
+
+/**
+ * Absolute, forward-slash file name: program file names are relative to the working directory
+ * when rootDir is relative, while module resolution returns absolute paths
+ */
+function normalizeFile(filePath: string | undefined): string | undefined {
+  return filePath && path.resolve(filePath).replace(/\\/g, '/');
+}
+
+function getPropertyName(name: ts.PropertyName, sourceFile: ts.SourceFile): string {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name)) return name.text;
+  return name.getText(sourceFile);
+}
+
+function getStringValue(expression: ts.Expression | undefined): string | undefined {
+  if (!expression) return undefined;
+  if (ts.isStringLiteral(expression) || ts.isNoSubstitutionTemplateLiteral(expression)) {
+    return expression.text;
+  }
+  return undefined;
+}
+
+/**
+ * Elements of a guard list, unwrapping mapToCanActivate([...]) style helpers
+ */
+function getArrayElements(expression: ts.Expression): ts.Expression[] {
+  if (ts.isArrayLiteralExpression(expression)) {
+    return expression.elements.flatMap((element) =>
+      ts.isCallExpression(element) && /^mapToCan/.test(element.expression.getText())
+        ? getArrayElements(element.arguments[0] ?? element)
+        : [element]
+    );
+  }
+  if (ts.isCallExpression(expression) && /^mapToCan/.test(expression.expression.getText())) {
+    const first = expression.arguments[0];
+    return first ? getArrayElements(first) : [];
+  }
+  return [expression];
+}
+
+/**
+ * Describe a guard/resolver reference: class or function name, or inline expression
+ */
+function describeReference(expression: ts.Expression, sourceFile: ts.SourceFile): { name: string; inline?: boolean } {
+  if (ts.isIdentifier(expression) || ts.isPropertyAccessExpression(expression)) {
+    return { name: expression.getText(sourceFile) };
+  }
+  // Guard factories: roleGuard('admin')
+  if (ts.isCallExpression(expression) && (ts.isIdentifier(expression.expression) || ts.isPropertyAccessExpression(expression.expression))) {
+    return { name: expression.expression.getText(sourceFile) };
+  }
+  const text = expression.getText(sourceFile).replace(/\s+/g, ' ');
+  return { name: text.length > 80 ? `${text.slice(0, 77)}...` : text, inline: true };
+}
+
+function isIdentifierLike(name: string): boolean {
+  return /^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*$/.test(name);
+}
+
+/**
+ * Extract import path and picked export from a lazy loader
+ *
+ * Supports:
+ * - () => import('./admin/admin.routes').then(m => m.ADMIN_ROUTES)
+ * - () => import('./user.component').then(({ UserComponent }) => UserComponent)
+ * - () => import('./user.component')                    (default export)
+ * - './admin/admin.module#AdminModule'                    (legacy string syntax)
+ */
+function extractLazyImport(expression: ts.Expression): { importPath?: string; exportName?: string } {
+  const legacy = getStringValue(expression);
+  if (legacy !== undefined) {
+    const [importPath, exportName] = legacy.split('#');
+    return { importPath, exportName };
+  }
+
+  let importPath: string | undefined;
+  let exportName: string | undefined;
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isCallExpression(node)) {
+      if (node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+        const arg = node.arguments[0];
+        if (arg && (ts.isStringLiteral(arg) || ts.isNoSubstitutionTemplateLiteral(arg))) {
+          importPath = arg.text;
+        }
+      } else if (
+        ts.isPropertyAccessExpression(node.expression) &&
+        node.expression.name.text === 'then' &&
+        node.arguments.length > 0
+      ) {
+        exportName = extractPickedExport(node.arguments[0]);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(expression);
+
+  return { importPath, exportName };
+}
+
+function extractPickedExport(callback: ts.Expression): string | undefined {
+  if (!ts.isArrowFunction(callback) && !ts.isFunctionExpression(callback)) return undefined;
+
+  const param = callback.parameters[0];
+  if (!param) return undefined;
+
+  // ({ UserComponent }) => UserComponent
+  if (ts.isObjectBindingPattern(param.name)) {
+    const element = param.name.elements[0];
+    if (element) {
+      const propertyName = element.propertyName ?? element.name;
+      return ts.isIdentifier(propertyName) ? propertyName.text : undefined;
+    }
+    return undefined;
+  }
+
+  // m => m.UserComponent
+  let body: ts.Node | undefined = callback.body;
+  if (body && ts.isBlock(body)) {
+    const returnStatement = body.statements.find(ts.isReturnStatement);
+    body = returnStatement?.expression;
+  }
+  if (body && ts.isPropertyAccessExpression(body)) {
+    return body.name.text;
+  }
+  if (body && ts.isElementAccessExpression(body) && ts.isStringLiteral(body.argumentExpression)) {
+    return body.argumentExpression.text;
+  }
+  return undefined;
+}
@@ -1,20 +1,29 @@
 /**
  * Style Parser
- * Parses SCSS files for @import and @use statements
+ * Parses component style files and inline styles, and links style files into a dependency graph
  */
 
-import type { ComponentEntity, StyleLocation, StyleAnalysis, StyleFileMetadata } from '../../types/index.js';
+import type {
+  ComponentEntity,
+  StyleLocation,
+  StyleAnalysis,
+  StyleFileMetadata,
+  StyleGraph,
+  StyleGraphEdge,
+  StyleGraphFile,
+} from '../../types/index.js';
 import type { GitRepository } from '../../utils/git-helpers.js';
-import { resolveEntityPath } from '../../utils/git-helpers.js';
+import { resolveEntityPath, makeRelative } from '../../utils/git-helpers.js';
 import {
-  parseScssFile,
+  parseStyleFile,
+  parseInlineStyles,
   resolveStylePath,
   generateStyleLocations,
 } from '../../utils/style-helpers.js';
 
 /**
  * Style Parser
- * Analyzes SCSS files to extract @import and @use statements
+ * Analyzes style files (CSS, SCSS, Sass, LESS) and inline styles of components
  */
 export class StyleParser {
   /**
@@ -25,8 +34,11 @@ export class StyleParser {
     rootDir: string,
     gitInfo?: GitRepository
   ): { styleLocations?: StyleLocation[]; styleAnalysis?: StyleAnalysis } {
+    const hasStyleUrls = (entity.styleUrls?.length ?? 0) > 0;
+    const hasInlineStyles = (entity.styles?.length ?? 0) > 0;
+
     // No styles to parse
-    if (!entity.styleUrls || entity.styleUrls.length === 0) {
+    if (!hasStyleUrls && !hasInlineStyles) {
       return {};
     }
 
@@ -36,24 +48,22 @@ export class StyleParser {
     const baseDir = gitInfo?.rootDir || rootDir;
 
     // Generate style locations metadata
-    const styleLocations = generateStyleLocations(
-      absoluteComponentPath,
-      entity.styleUrls,
-      baseDir,
-      gitInfo
-    );
+    const styleLocations = hasStyleUrls
+      ? generateStyleLocations(absoluteComponentPath, entity.styleUrls!, baseDir, gitInfo)
+      : undefined;
 
     // Parse each style file
     const files: StyleFileMetadata[] = [];
 
-    for (const styleUrl of entity.styleUrls) {
+    for (const styleUrl of entity.styleUrls ?? []) {
       const stylePath = resolveStylePath(absoluteComponentPath, styleUrl, baseDir);
-      const fileMetadata = parseScssFile(stylePath, baseDir, gitInfo);
+      const fileMetadata = parseStyleFile(stylePath, baseDir, gitInfo);
       files.push(fileMetadata);
     }
 
     const styleAnalysis: StyleAnalysis = {
       files,
+      ...(hasInlineStyles && { inline: parseInlineStyles(absoluteComponentPath, entity.styles!, baseDir, gitInfo) }),
     };
 
     return {
@@ -62,6 +72,97 @@ export class StyleParser {
     };
   }
 
+  /**
+   * Build the dependency graph of component and global style files
+   *
+   * Resolved @import, @use and @forward targets are parsed as well, so the graph covers partials and
+   * theme files no component references directly. A file using a custom property it does not define
+   * gets a `customProperty` edge to every graph file defining it.
+   */
+  buildStyleGraph(
+    components: ComponentEntity[],
+    globalStyles: StyleFileMetadata[],
+    rootDir: string,
+    gitInfo?: GitRepository
+  ): StyleGraph {
+    const baseDir = gitInfo?.rootDir || rootDir;
+    const files = new Map<string, { node: StyleGraphFile; metadata: StyleFileMetadata }>();
+    const edges: StyleGraphEdge[] = [];
+    const pending: StyleFileMetadata[] = [];
+
+    const addFile = (metadata: StyleFileMetadata, extra: Partial<StyleGraphFile> = {}): StyleGraphFile => {
+      let entry = files.get(metadata.filePath);
+      if (!entry) {
+        entry = {
+          node: {
+            filePath: metadata.filePath,
+            ...(metadata.sourceUrl && { sourceUrl: metadata.sourceUrl }),
+            ...(metadata.language && { language: metadata.language }),
+            components: [],
+            definesCustomProperties: [...(metadata.customProperties?.defined ?? [])],
+          },
+          metadata,
+        };
+        files.set(metadata.filePath, entry);
+        pending.push(metadata);
+      }
+      Object.assign(entry.node, extra);
+      return entry.node;
+    };
+
+    for (const component of components) {
+      for (const file of component.styleAnalysis?.files ?? []) {
+        addFile(file).components.push(component.id);
+      }
+      if (component.styleAnalysis?.inline?.length) {
+        addFile(mergeInlineStyles(component.styleAnalysis.inline), { inline: true }).components.push(component.id);
+      }
+    }
+    globalStyles.forEach((file) => addFile(file, { global: true }));
+
+    // Module loading edges, parsing resolved dependencies on the way
+    while (pending.length > 0) {
+      const file = pending.shift()!;
+      const dependencies = [
+        ...file.imports.map((dep) => ({ ...dep, type: 'import' as const, namespace: undefined })),
+        ...file.uses.map((dep) => ({ ...dep, type: 'use' as const })),
+        ...(file.forwards ?? []).map((dep) => ({ ...dep, type: 'forward' as const, namespace: undefined })),
+      ];
+
+      for (const dependency of dependencies) {
+        const target = dependency.resolvedPath
+          ? (files.get(makeRelative(dependency.resolvedPath, baseDir))?.node ??
+             addFile(parseStyleFile(dependency.resolvedPath, baseDir, gitInfo))).filePath
+          : dependency.path;
+
+        edges.push({
+          source: file.filePath,
+          target,
+          type: dependency.type,
+          ...(dependency.namespace && { namespace: dependency.namespace }),
+          resolved: dependency.resolvedPath !== undefined,
+          line: dependency.line,
+        });
+      }
+    }
+
+    // Custom properties consumed from other files
+    for (const { node, metadata } of files.values()) {
+      const used = metadata.customProperties?.used ?? [];
+      const external = new Set(used.filter((name) => !node.definesCustomProperties.includes(name)));
+      if (external.size === 0) continue;
+
+      for (const other of files.values()) {
+        if (other.node === node) continue;
+        const properties = other.node.definesCustomProperties.filter((name) => external.has(name));
+        if (properties.length === 0) continue;
+        edges.push({ source: node.filePath, target: other.node.filePath, type: 'customProperty', properties, resolved: true });
+      }
+    }
+
+    return { files: Array.from(files.values(), (entry) => entry.node), edges };
+  }
+
   /**
    * Find all @import statements in a component's styles
    */
@@ -99,3 +200,21 @@ export class StyleParser {
     return uses;
   }
 }
+
+/**
+ * Single graph file for the inline style strings of a component
+ */
+function mergeInlineStyles(styles: StyleFileMetadata[]): StyleFileMetadata {
+  const distinct = (values: string[]) => Array.from(new Set(values));
+
+  return {
+    ...styles[0],
+    imports: styles.flatMap((style) => style.imports),
+    uses: styles.flatMap((style) => style.uses),
+    forwards: styles.flatMap((style) => style.forwards ?? []),
+    customProperties: {
+      defined: distinct(styles.flatMap((style) => style.customProperties?.defined ?? [])),
+      used: distinct(styles.flatMap((style) => style.customProperties?.used ?? [])),
+    },
+  };
+}
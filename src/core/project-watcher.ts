@@ -0,0 +1,255 @@
+/**
+ * Project watcher
+ * Re-parses an Angular project when its sources, templates or styles change
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { NgParser, NgParseResult } from './ng-parser.js';
+import type { ComponentEntity, Entity, StyleFileMetadata } from '../types/index.js';
+
+/**
+ * Entity-level summary of a re-parse
+ */
+export interface WatchChangeSummary {
+  files: string[];     // Changed files (relative to rootDir)
+  added: string[];     // Added entity IDs
+  removed: string[];   // Removed entity IDs
+  changed: string[];   // Entity IDs whose extracted data changed
+  duration: number;    // Re-parse duration in ms
+}
+
+export interface ProjectWatcherOptions {
+  debounceMs?: number; // Default: 300
+  onUpdate(result: NgParseResult, summary: WatchChangeSummary): void | Promise<void>;
+  onError?(error: Error): void;
+}
+
+/**
+ * Watches a project and re-parses it on changes
+ *
+ * The parser should be created with `incremental: true` (or a `cacheDir`) so
+ * that only changed files are re-parsed. Changes arriving during a re-parse are
+ * batched into the next one.
+ */
+export class ProjectWatcher {
+  private watchers = new Map<string, fs.FSWatcher>(); // Watched directory -> watcher
+  private perDirectory = false;
+  private timer?: NodeJS.Timeout;
+  private pendingFiles = new Set<string>();
+  private watchedFiles = new Set<string>(); // Absolute paths of resolved templates/styles
+  private running = false;
+  private lastResult?: NgParseResult;
+
+  constructor(
+    private parser: NgParser,
+    private rootDir: string,
+    private options: ProjectWatcherOptions
+  ) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  /**
+   * Run the initial parse and start watching
+   */
+  async start(): Promise<NgParseResult> {
+    this.lastResult = await this.parser.parse(this.rootDir);
+    this.watchedFiles = collectWatchedFiles(this.lastResult, this.rootDir);
+
+    try {
+      const watcher = fs.watch(this.rootDir, { recursive: true }, (_event, fileName) =>
+        this.onChange(this.rootDir, fileName)
+      );
+      this.watchers.set(this.rootDir, watcher);
+    } catch (error) {
+      // Recursive watching is not available on Linux before Node 20: watch every directory
+      if ((error as NodeJS.ErrnoException).code !== 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') throw error;
+      this.perDirectory = true;
+      this.watchTree(this.rootDir);
+    }
+
+    return this.lastResult;
+  }
+
+  /**
+   * Stop watching
+   */
+  close(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.watchers.forEach((watcher) => watcher.close());
+    this.watchers.clear();
+  }
+
+  private onChange(dir: string, fileName: string | Buffer | null): void {
+    if (!fileName) return;
+    const absolutePath = path.resolve(dir, fileName.toString());
+
+    // Directories created after start() need their own watchers
+    if (this.perDirectory && !this.watchers.has(absolutePath) && isWatchedDirectory(absolutePath)) {
+      this.watchTree(absolutePath);
+    }
+    if (!this.isRelevant(absolutePath)) return;
+
+    this.pendingFiles.add(absolutePath);
+    this.schedule();
+  }
+
+  /**
+   * Watch a directory and its subdirectories (except node_modules and hidden directories)
+   */
+  private watchTree(dir: string): void {
+    if (this.watchers.has(dir)) return;
+
+    try {
+      const watcher = fs.watch(dir, (_event, fileName) => this.onChange(dir, fileName));
+      watcher.on('error', () => {
+        watcher.close();
+        this.watchers.delete(dir);
+      });
+      this.watchers.set(dir, watcher);
+
+      for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        if (entry.isDirectory() && isWatchedDirectoryName(entry.name)) {
+          this.watchTree(path.join(dir, entry.name));
+        }
+      }
+    } catch {
+      // Directory removed while walking
+    }
+  }
+
+  private isRelevant(absolutePath: string): boolean {
+    if (absolutePath.split(path.sep).includes('node_modules')) return false;
+    if (absolutePath.endsWith('.ts') && !absolutePath.endsWith('.d.ts')) return true;
+    return this.watchedFiles.has(absolutePath);
+  }
+
+  private schedule(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      void this.rerun();
+    }, this.options.debounceMs ?? 300);
+  }
+
+  private async rerun(): Promise<void> {
+    if (this.running) return; // Picked up when the current run finishes
+    this.running = true;
+
+    const files = [...this.pendingFiles];
+    this.pendingFiles.clear();
+
+    try {
+      const startTime = Date.now();
+      const previous = this.lastResult!;
+      const result = await this.parser.parse(this.rootDir);
+      this.lastResult = result;
+      this.watchedFiles = collectWatchedFiles(result, this.rootDir);
+
+      const summary: WatchChangeSummary = {
+        files: files.map((f) => path.relative(this.rootDir, f).replace(/\\/g, '/')).sort(),
+        ...summarizeEntityChanges(previous.entities, result.entities),
+        duration: Date.now() - startTime,
+      };
+      await this.options.onUpdate(result, summary);
+    } catch (error) {
+      this.options.onError?.(error as Error);
+    } finally {
+      this.running = false;
+      if (this.pendingFiles.size > 0) this.schedule();
+    }
+  }
+}
+
+/**
+ * Compare two entity maps
+ */
+export function summarizeEntityChanges(
+  before: Map<string, Entity>,
+  after: Map<string, Entity>
+): Pick<WatchChangeSummary, 'added' | 'removed' | 'changed'> {
+  const added: string[] = [];
+  const removed: string[] = [];
+  const changed: string[] = [];
+
+  for (const [id, entity] of after) {
+    const previous = before.get(id);
+    if (!previous) {
+      added.push(id);
+    } else if (!isEqualJson(previous, entity)) {
+      changed.push(id);
+    }
+  }
+  for (const id of before.keys()) {
+    if (!after.has(id)) removed.push(id);
+  }
+
+  return { added: added.sort(), removed: removed.sort(), changed: changed.sort() };
+}
+
+function isWatchedDirectoryName(name: string): boolean {
+  return name !== 'node_modules' && !name.startsWith('.');
+}
+
+function isWatchedDirectory(filePath: string): boolean {
+  try {
+    return isWatchedDirectoryName(path.basename(filePath)) && fs.statSync(filePath).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Deep equality of JSON-like values, ignoring key order and undefined properties
+ * (entities restored from the parse cache went through a JSON round trip)
+ */
+function isEqualJson(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) && Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, index) => isEqualJson(item, b[index]))
+    );
+  }
+
+  const keysOf = (value: object) =>
+    Object.keys(value).filter((key) => (value as Record<string, unknown>)[key] !== undefined);
+  const keys = keysOf(a);
+  return (
+    keys.length === keysOf(b).length &&
+    keys.every((key) => isEqualJson((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]))
+  );
+}
+
+/**
+ * External templates and style files (incl. SCSS imports) resolved by the last parse
+ */
+export function collectWatchedFiles(result: NgParseResult, rootDir: string): Set<string> {
+  // Entity file paths are relative to the Git root when the project is in a repository
+  const sourceRoot = path.resolve(rootDir, result.metadata.repository?.rootDir ?? '.');
+  const files = new Set<string>();
+  const addStyle = (style: StyleFileMetadata) => {
+    files.add(path.resolve(sourceRoot, style.filePath));
+    style.imports.forEach((imp) => imp.resolvedPath && files.add(path.resolve(imp.resolvedPath)));
+    style.uses.forEach((use) => use.resolvedPath && files.add(path.resolve(use.resolvedPath)));
+    style.forwards?.forEach((forward) => forward.resolvedPath && files.add(path.resolve(forward.resolvedPath)));
+  };
+
+  for (const entity of result.entities.values()) {
+    if (entity.type !== 'component') continue;
+    const component = entity as ComponentEntity;
+
+    if (component.templateLocation) {
+      files.add(path.resolve(sourceRoot, component.templateLocation.filePath));
+    }
+    component.styleLocations?.forEach((style) => files.add(path.resolve(sourceRoot, style.filePath)));
+    component.styleAnalysis?.files.forEach(addStyle);
+  }
+
+  const metadata = result.metadata as { globalStyles?: StyleFileMetadata[] };
+  metadata.globalStyles?.forEach(addStyle);
+
+  return files;
+}
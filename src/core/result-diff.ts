@@ -0,0 +1,280 @@
+/**
+ * Result diff
+ * Compares two parse results entity by entity and field by field
+ */
+
+import type { Entity, Relationship } from '../types/index.js';
+
+/**
+ * Parse result to compare: an NgParseResult or its JSON export (`toJSON()`)
+ */
+export interface DiffInput {
+  entities: Map<string, Entity> | Entity[];
+  relationships: Relationship[];
+}
+
+/**
+ * Change of one field (dot path, array items keyed by name: `inputs[value].type`)
+ */
+export interface FieldChange {
+  field: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface EntitySummary {
+  id: string;
+  name: string;
+  type: string;
+}
+
+export interface ModifiedEntity extends EntitySummary {
+  changes: FieldChange[];
+}
+
+export interface RelationshipSummary {
+  type: string;
+  source: string;
+  target: string;
+  sourceName?: string; // Entity names, when source/target are known entities
+  targetName?: string;
+}
+
+/**
+ * Differences between two parse results
+ */
+export interface ResultDiff {
+  summary: {
+    entities: { added: number; removed: number; modified: number; unchanged: number };
+    relationships: { added: number; removed: number };
+  };
+  entities: {
+    added: EntitySummary[];
+    removed: EntitySummary[];
+    modified: ModifiedEntity[];
+  };
+  relationships: {
+    added: RelationshipSummary[];
+    removed: RelationshipSummary[];
+  };
+}
+
+/**
+ * Fields that change with unrelated edits (line shifts, Git URLs) or with the checkout
+ * directory (absolute `resolvedPath` of SCSS imports) and are not compared
+ */
+const VOLATILE_FIELDS = new Set(['location', 'sourceUrl', 'line', 'column', 'start', 'end', 'resolvedPath']);
+
+/**
+ * Compare two parse results
+ *
+ * Entities are matched by ID and relationships by type/source/target.
+ * Source positions are ignored, so moving code around is not reported.
+ */
+export function diffResults(before: DiffInput, after: DiffInput): ResultDiff {
+  const beforeEntities = toEntityMap(before.entities);
+  const afterEntities = toEntityMap(after.entities);
+
+  const added: EntitySummary[] = [];
+  const removed: EntitySummary[] = [];
+  const modified: ModifiedEntity[] = [];
+  let unchanged = 0;
+
+  for (const [id, entity] of afterEntities) {
+    const previous = beforeEntities.get(id);
+    if (!previous) {
+      added.push(summarizeEntity(entity));
+      continue;
+    }
+
+    const changes = diffEntity(previous, entity);
+    if (changes.length > 0) {
+      modified.push({ ...summarizeEntity(entity), changes });
+    } else {
+      unchanged++;
+    }
+  }
+  for (const [id, entity] of beforeEntities) {
+    if (!afterEntities.has(id)) removed.push(summarizeEntity(entity));
+  }
+
+  const beforeRelationships = toRelationshipMap(before.relationships, beforeEntities);
+  const afterRelationships = toRelationshipMap(after.relationships, afterEntities);
+  const addedRelationships = [...afterRelationships]
+    .filter(([key]) => !beforeRelationships.has(key))
+    .map(([, rel]) => rel);
+  const removedRelationships = [...beforeRelationships]
+    .filter(([key]) => !afterRelationships.has(key))
+    .map(([, rel]) => rel);
+
+  const byId = (a: EntitySummary, b: EntitySummary) => a.id.localeCompare(b.id);
+
+  return {
+    summary: {
+      entities: { added: added.length, removed: removed.length, modified: modified.length, unchanged },
+      relationships: { added: addedRelationships.length, removed: removedRelationships.length },
+    },
+    entities: {
+      added: added.sort(byId),
+      removed: removed.sort(byId),
+      modified: modified.sort(byId),
+    },
+    relationships: {
+      added: addedRelationships,
+      removed: removedRelationships,
+    },
+  };
+}
+
+/**
+ * Field-by-field changes between two versions of an entity
+ */
+export function diffEntity(before: Entity, after: Entity): FieldChange[] {
+  const changes: FieldChange[] = [];
+  diffValue('', normalizeEntity(before), normalizeEntity(after), changes);
+  return changes;
+}
+
+function diffValue(field: string, before: any, after: any, changes: FieldChange[]): void {
+  if (isEmpty(before) && isEmpty(after)) return;
+
+  // Compare arrays item by item, even when one side is missing
+  if (Array.isArray(before) || Array.isArray(after)) {
+    if (isEmpty(before) || isEmpty(after) || (Array.isArray(before) && Array.isArray(after))) {
+      diffArray(field, isEmpty(before) ? [] : before, isEmpty(after) ? [] : after, changes);
+      return;
+    }
+  }
+
+  if (isEmpty(before)) {
+    changes.push({ field, kind: 'added', after });
+    return;
+  }
+  if (isEmpty(after)) {
+    changes.push({ field, kind: 'removed', before });
+    return;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of [...keys].sort()) {
+      diffValue(field ? `${field}.${key}` : key, before[key], after[key], changes);
+    }
+    return;
+  }
+
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    changes.push({ field, kind: 'changed', before, after });
+  }
+}
+
+/**
+ * Arrays of primitives are compared as sets, arrays of named objects by name
+ */
+function diffArray(field: string, before: any[], after: any[], changes: FieldChange[]): void {
+  if ([...before, ...after].every((item) => !isPlainObject(item) && !Array.isArray(item))) {
+    const beforeSet = new Set(before.map(String));
+    const afterSet = new Set(after.map(String));
+    after.filter((item) => !beforeSet.has(String(item))).forEach((item) =>
+      changes.push({ field, kind: 'added', after: item })
+    );
+    before.filter((item) => !afterSet.has(String(item))).forEach((item) =>
+      changes.push({ field, kind: 'removed', before: item })
+    );
+    return;
+  }
+
+  const beforeKeyed = keyByName(before);
+  const afterKeyed = keyByName(after);
+  if (!beforeKeyed || !afterKeyed) {
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      changes.push({ field, kind: 'changed', before, after });
+    }
+    return;
+  }
+
+  for (const [key, item] of afterKeyed) {
+    const previous = beforeKeyed.get(key);
+    if (!previous) {
+      changes.push({ field, kind: 'added', after: item });
+    } else {
+      diffValue(`${field}[${key}]`, previous, item, changes);
+    }
+  }
+  for (const [key, item] of beforeKeyed) {
+    if (!afterKeyed.has(key)) changes.push({ field, kind: 'removed', before: item });
+  }
+}
+
+/**
+ * Key object items by `name` (route guards by `guardType:name`)
+ */
+function keyByName(items: any[]): Map<string, any> | undefined {
+  const keyed = new Map<string, any>();
+  for (const item of items) {
+    if (!isPlainObject(item) || typeof item.name !== 'string') return undefined;
+    const key = typeof item.guardType === 'string' ? `${item.guardType}:${item.name}` : item.name;
+    if (keyed.has(key)) return undefined;
+    keyed.set(key, item);
+  }
+  return keyed;
+}
+
+/**
+ * Drop volatile fields and decorator arguments already extracted as entity fields
+ */
+function normalizeEntity(entity: Entity): any {
+  const normalized = stripVolatile(entity);
+  normalized.decorators = normalized.decorators?.map((decorator: any) => ({
+    ...decorator,
+    arguments: Object.fromEntries(
+      Object.entries(decorator.arguments ?? {}).filter(([key]) => !(key in normalized))
+    ),
+  }));
+  return normalized;
+}
+
+function stripVolatile(value: any): any {
+  if (Array.isArray(value)) return value.map(stripVolatile);
+  if (!isPlainObject(value)) return value;
+
+  const result: Record<string, any> = {};
+  for (const [key, child] of Object.entries(value)) {
+    if (!VOLATILE_FIELDS.has(key)) result[key] = stripVolatile(child);
+  }
+  return result;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || (Array.isArray(value) && value.length === 0);
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toEntityMap(entities: Map<string, Entity> | Entity[]): Map<string, Entity> {
+  return entities instanceof Map ? entities : new Map(entities.map((e) => [e.id, e]));
+}
+
+function toRelationshipMap(
+  relationships: Relationship[],
+  entities: Map<string, Entity>
+): Map<string, RelationshipSummary> {
+  const map = new Map<string, RelationshipSummary>();
+  for (const rel of relationships) {
+    map.set(`${rel.type}|${rel.source}|${rel.target}`, {
+      type: rel.type,
+      source: rel.source,
+      target: rel.target,
+      sourceName: entities.get(rel.source)?.name,
+      targetName: entities.get(rel.target)?.name,
+    });
+  }
+  return map;
+}
+
+function summarizeEntity(entity: Entity): EntitySummary {
+  return { id: entity.id, name: entity.name, type: entity.type };
+}
@@ -0,0 +1,229 @@
+/**
+ * Rule engine
+ * Evaluates declarative architecture rules (ng-parser.rules.json) against the resolved graph
+ */
+
+import type { Entity, Relationship } from '../types/index.js';
+import type { VisitorWarning } from '../visitors/base/custom-visitor.js';
+import { entityMatcher, type EntityFilter, type QueryInput } from './graph-query.js';
+
+export const DEFAULT_RULES_FILE = 'ng-parser.rules.json';
+
+export type RuleSeverity = VisitorWarning['severity'];
+
+interface RuleBase {
+  id: string;
+  severity?: RuleSeverity;   // Default: 'error'
+  message?: string;          // Replaces the generated message
+}
+
+/**
+ * Entities matching `from` must not have relationships to entities matching `to`
+ */
+export interface NoDependencyRule extends RuleBase {
+  type: 'no-dependency';
+  from: EntityFilter;
+  to: EntityFilter;
+  via?: string[];            // Relationship types (default: all)
+}
+
+/**
+ * Entities matching `match` must have the expected property values (an array lists allowed values)
+ */
+export interface RequireRule extends RuleBase {
+  type: 'require';
+  match: EntityFilter;
+  expect: Record<string, unknown>;  // Property path -> value (`changeDetection`, `providedIn`, ...)
+}
+
+/**
+ * Entities matching `match` must have at most `max` outgoing relationships of a type
+ */
+export interface MaxRelationsRule extends RuleBase {
+  type: 'max-relations';
+  match: EntityFilter;
+  relation: string;
+  target?: EntityFilter;     // Only count relationships to matching entities
+  max: number;
+}
+
+export type ArchitectureRule = NoDependencyRule | RequireRule | MaxRelationsRule;
+
+export interface RulesConfig {
+  rules: ArchitectureRule[];
+}
+
+/**
+ * Rule violation; `code` is the rule ID
+ */
+export interface RuleViolation extends VisitorWarning {
+  entityId: string;
+  relationshipId?: string;
+}
+
+export interface RuleReport {
+  rules: number;
+  summary: Record<RuleSeverity, number>;
+  violations: RuleViolation[];
+}
+
+const RULE_TYPES = ['no-dependency', 'require', 'max-relations'];
+const SEVERITIES: RuleSeverity[] = ['error', 'warning', 'info'];
+
+/**
+ * Validate a parsed rules file
+ */
+export function validateRules(config: unknown): RulesConfig {
+  const rules = (config as RulesConfig)?.rules;
+  if (!Array.isArray(rules)) {
+    throw new Error('Invalid rules file: expected a "rules" array');
+  }
+
+  const ids = new Set<string>();
+  rules.forEach((rule: any, index) => {
+    const name = typeof rule?.id === 'string' && rule.id ? rule.id : `#${index + 1}`;
+    const fail = (reason: string) => {
+      throw new Error(`Invalid rule ${name}: ${reason}`);
+    };
+
+    if (name.startsWith('#')) fail('missing "id"');
+    if (ids.has(rule.id)) fail('duplicate id');
+    ids.add(rule.id);
+    if (!RULE_TYPES.includes(rule.type)) fail(`unknown type "${rule.type}" (expected ${RULE_TYPES.join(', ')})`);
+    if (rule.severity !== undefined && !SEVERITIES.includes(rule.severity)) {
+      fail(`unknown severity "${rule.severity}" (expected ${SEVERITIES.join(', ')})`);
+    }
+
+    const filters = rule.type === 'no-dependency' ? ['from', 'to'] : rule.type === 'max-relations' ? ['match', 'target'] : ['match'];
+    for (const key of filters) {
+      const required = key !== 'target';
+      if (rule[key] === undefined ? required : typeof rule[key] !== 'object' || Array.isArray(rule[key])) {
+        fail(`"${key}" must be an entity filter object`);
+      }
+    }
+    if (rule.type === 'require' && (typeof rule.expect !== 'object' || !rule.expect || !Object.keys(rule.expect).length)) {
+      fail('"expect" must map properties to expected values');
+    }
+    if (rule.type === 'max-relations') {
+      if (typeof rule.relation !== 'string') fail('"relation" must be a relationship type');
+      if (!Number.isInteger(rule.max) || rule.max < 0) fail('"max" must be a non-negative integer');
+    }
+  });
+
+  return config as RulesConfig;
+}
+
+/**
+ * Evaluate rules against entities and resolved relationships
+ */
+export function evaluateRules(input: QueryInput, config: RulesConfig): RuleReport {
+  const entities = input.entities instanceof Map ? input.entities : new Map(input.entities.map((e) => [e.id, e]));
+  const violations: RuleViolation[] = [];
+
+  for (const rule of config.rules) {
+    switch (rule.type) {
+      case 'no-dependency':
+        violations.push(...checkNoDependency(rule, entities, input.relationships));
+        break;
+      case 'require':
+        violations.push(...checkRequire(rule, entities));
+        break;
+      case 'max-relations':
+        violations.push(...checkMaxRelations(rule, entities, input.relationships));
+        break;
+    }
+  }
+
+  const summary: Record<RuleSeverity, number> = { error: 0, warning: 0, info: 0 };
+  violations.forEach((violation) => summary[violation.severity]++);
+
+  return { rules: config.rules.length, summary, violations };
+}
+
+function checkNoDependency(
+  rule: NoDependencyRule,
+  entities: Map<string, Entity>,
+  relationships: Relationship[]
+): RuleViolation[] {
+  const isSource = entityMatcher(rule.from);
+  const isTarget = entityMatcher(rule.to);
+  const violations: RuleViolation[] = [];
+
+  for (const rel of relationships) {
+    if (rule.via && !rule.via.includes(rel.type)) continue;
+    const source = entities.get(rel.source);
+    const target = entities.get(rel.target);
+    if (!source || !target || source.id === target.id || !isSource(source) || !isTarget(target)) continue;
+
+    violations.push({
+      ...violation(rule, source, `${source.name} must not depend on ${target.name} (${rel.type})`, `${source.name} → ${target.name}`),
+      relationshipId: rel.id,
+    });
+  }
+
+  return violations;
+}
+
+function checkRequire(rule: RequireRule, entities: Map<string, Entity>): RuleViolation[] {
+  const matches = entityMatcher(rule.match);
+  const violations: RuleViolation[] = [];
+
+  for (const entity of entities.values()) {
+    if (!matches(entity)) continue;
+
+    for (const [property, expected] of Object.entries(rule.expect)) {
+      const allowed = Array.isArray(expected) ? expected : [expected];
+      const actual = property.split('.').reduce<any>((value, key) => value?.[key], entity);
+      if (allowed.some((value) => value === actual)) continue;
+
+      const wanted = allowed.map((value) => JSON.stringify(value)).join(' or ');
+      violations.push({
+        ...violation(rule, entity, `${entity.name}: expected ${property} to be ${wanted}, found ${JSON.stringify(actual) ?? 'none'}`),
+        fix: `Set ${property} to ${JSON.stringify(allowed[0])}`,
+      });
+    }
+  }
+
+  return violations;
+}
+
+function checkMaxRelations(
+  rule: MaxRelationsRule,
+  entities: Map<string, Entity>,
+  relationships: Relationship[]
+): RuleViolation[] {
+  const matches = entityMatcher(rule.match);
+  const isTarget = rule.target ? entityMatcher(rule.target) : undefined;
+  const counts = new Map<string, number>();
+
+  for (const rel of relationships) {
+    if (rel.type !== rule.relation) continue;
+    if (isTarget) {
+      const target = entities.get(rel.target);
+      if (!target || !isTarget(target)) continue;
+    }
+    counts.set(rel.source, (counts.get(rel.source) ?? 0) + 1);
+  }
+
+  const violations: RuleViolation[] = [];
+  for (const [id, count] of counts) {
+    const entity = entities.get(id);
+    if (!entity || count <= rule.max || !matches(entity)) continue;
+    violations.push(violation(rule, entity, `${entity.name} has ${count} ${rule.relation} relationships (max ${rule.max})`));
+  }
+
+  return violations;
+}
+
+/**
+ * Violation located at the entity; custom rule messages are prefixed with the subject
+ */
+function violation(rule: ArchitectureRule, entity: Entity, message: string, subject = entity.name): RuleViolation {
+  return {
+    code: rule.id,
+    message: rule.message ? `${subject}: ${rule.message}` : message,
+    severity: rule.severity ?? 'error',
+    location: { filePath: entity.location.filePath, line: entity.location.line, column: entity.location.column },
+    entityId: entity.id,
+  };
+}
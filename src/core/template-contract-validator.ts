@@ -0,0 +1,270 @@
+/**
+ * Template contract validator
+ * Checks template bindings against the inputs and outputs of the components and directives they target
+ */
+
+import type {
+  BindingMetadata,
+  ComponentEntity,
+  DirectiveEntity,
+  Entity,
+  TemplateElement,
+} from '../types/index.js';
+import { EntityType } from '../types/index.js';
+import type { VisitorWarning } from '../visitors/base/custom-visitor.js';
+import { SelectorResolver } from '../utils/selector-resolver.js';
+import { inputAttributeRegistry } from '../utils/input-attribute-registry.js';
+import type { QueryInput } from './graph-query.js';
+
+/**
+ * Template diagnostic; `code` is `template-unknown-input`, `template-unknown-output`
+ * or `template-missing-required-input`
+ */
+export interface TemplateDiagnostic extends VisitorWarning {
+  entityId: string;          // Component owning the template
+  element: string;           // Tag name of the element carrying the binding
+  binding?: string;
+  targets: string[];         // Components/directives matched on the element
+  sourceUrl?: string;
+}
+
+export interface TemplateContractReport {
+  diagnostics: TemplateDiagnostic[];
+  summary: {
+    templates: number;       // Component templates with analyzed elements
+    elements: number;        // Elements matching at least one project component/directive
+    bindings: number;        // Bindings checked on those elements
+    errors: number;
+    warnings: number;
+  };
+}
+
+type Target = ComponentEntity | DirectiveEntity;
+
+/**
+ * DOM properties Angular binds natively, including the attribute spellings it maps to properties
+ */
+const DOM_PROPERTIES = new Set([
+  'id', 'title', 'lang', 'dir', 'hidden', 'inert', 'slot', 'role', 'translate', 'nonce',
+  'tabIndex', 'tabindex', 'accessKey', 'contentEditable', 'draggable', 'spellcheck', 'autofocus',
+  'className', 'innerHTML', 'innerHtml', 'innerText', 'textContent', 'outerHTML',
+  'value', 'defaultValue', 'checked', 'indeterminate', 'disabled', 'readOnly', 'readonly', 'required',
+  'placeholder', 'name', 'type', 'min', 'max', 'step', 'pattern', 'multiple', 'selected', 'selectedIndex',
+  'maxLength', 'minLength', 'size', 'rows', 'cols', 'label', 'form', 'htmlFor', 'for',
+  'formAction', 'formaction', 'action', 'method', 'noValidate', 'target', 'rel', 'download',
+  'src', 'srcset', 'sizes', 'href', 'alt', 'width', 'height', 'loading', 'poster', 'srcdoc', 'sandbox',
+  'allowFullscreen', 'open', 'controls', 'autoplay', 'muted', 'loop', 'volume', 'currentTime', 'playbackRate',
+  'colSpan', 'rowSpan', 'scrollTop', 'scrollLeft',
+]);
+
+/**
+ * Standard DOM events; other event names must be outputs of a matched component or directive
+ */
+const DOM_EVENTS = new Set([
+  'click', 'dblclick', 'contextmenu', 'auxclick',
+  'mousedown', 'mouseup', 'mousemove', 'mouseenter', 'mouseleave', 'mouseover', 'mouseout', 'wheel',
+  'pointerdown', 'pointerup', 'pointermove', 'pointerenter', 'pointerleave', 'pointerover', 'pointerout', 'pointercancel',
+  'touchstart', 'touchend', 'touchmove', 'touchcancel',
+  'keydown', 'keyup', 'keypress',
+  'focus', 'blur', 'focusin', 'focusout',
+  'input', 'change', 'beforeinput', 'submit', 'reset', 'invalid', 'select', 'search',
+  'copy', 'cut', 'paste',
+  'drag', 'dragstart', 'dragend', 'dragenter', 'dragleave', 'dragover', 'drop',
+  'scroll', 'scrollend', 'resize', 'load', 'error', 'abort',
+  'animationstart', 'animationend', 'animationiteration', 'transitionstart', 'transitionend', 'transitionrun', 'transitioncancel',
+  'play', 'pause', 'ended', 'timeupdate', 'volumechange', 'loadeddata', 'loadedmetadata', 'canplay', 'seeked', 'seeking',
+  'toggle', 'close', 'cancel',
+]);
+
+/**
+ * Validates the bindings recorded by template analysis against component and directive contracts
+ *
+ * Each element is matched against the project's components and directives with its full
+ * selector (tag, attributes, bound inputs and outputs). On matched elements:
+ * - `[prop]` / `[(prop)]` must be an input of a matched entity, a selector attribute, or a DOM property
+ * - `(event)` must be an output of a matched entity or a DOM event; `[(prop)]` needs a `propChange` output
+ * - required inputs of every matched entity must be bound or set as static attributes
+ *
+ * Elements matching nothing in the project are skipped: their bindings may target library components or
+ * directives the parse result knows nothing about. Known library inputs (input attribute registry) are
+ * accepted everywhere. Unknown inputs are errors on component elements and warnings otherwise, since an
+ * external directive may still claim them; unknown events are always warnings (Angular falls back to a DOM listener).
+ */
+export class TemplateContractValidator {
+  private entities: Map<string, Entity>;
+  private selectorResolver = new SelectorResolver();
+
+  constructor(input: QueryInput) {
+    this.entities = input.entities instanceof Map ? input.entities : new Map(input.entities.map((e) => [e.id, e]));
+    this.selectorResolver.buildIndex(this.entities);
+  }
+
+  /**
+   * Validate every component template
+   */
+  validate(): TemplateContractReport {
+    const diagnostics: TemplateDiagnostic[] = [];
+    const summary = { templates: 0, elements: 0, bindings: 0, errors: 0, warnings: 0 };
+
+    for (const entity of this.entities.values()) {
+      if (entity.type !== EntityType.Component) continue;
+      const component = entity as ComponentEntity;
+      const elements = component.templateAnalysis?.elements;
+      if (!elements) continue;
+
+      summary.templates++;
+      for (const element of elements) {
+        const targets = this.matchElement(element);
+        if (targets.length === 0) continue;
+
+        summary.elements++;
+        summary.bindings += (element.bindings ?? []).filter(isChecked).length;
+        diagnostics.push(...this.validateElement(component, element, targets));
+      }
+    }
+
+    for (const diagnostic of diagnostics) {
+      if (diagnostic.severity === 'error') summary.errors++;
+      else summary.warnings++;
+    }
+
+    return { diagnostics, summary };
+  }
+
+  /**
+   * Project components and directives whose selector matches the element
+   */
+  matchElement(element: TemplateElement): Target[] {
+    const names = [...(element.attributes ?? []), ...(element.bindings ?? []).filter(isChecked).map((binding) => binding.name)];
+    return this.selectorResolver
+      .resolveElement(element.name, names)
+      .map((id) => this.entities.get(id) as Target | undefined)
+      .filter((target): target is Target => target !== undefined);
+  }
+
+  private validateElement(component: ComponentEntity, element: TemplateElement, targets: Target[]): TemplateDiagnostic[] {
+    const diagnostics: TemplateDiagnostic[] = [];
+    const inputs = new Set(targets.flatMap((target) => (target.inputs ?? []).map((input) => input.alias ?? input.name)));
+    const outputs = new Set(targets.flatMap((target) => (target.outputs ?? []).map((output) => output.alias ?? output.name)));
+    const selectorAttributes = new Set(targets.flatMap((target) => attributeNames(target.selector)));
+    const isComponent = targets.some((target) => target.type === EntityType.Component);
+    const targetNames = targets.map((target) => target.name).join(', ');
+
+    for (const binding of element.bindings ?? []) {
+      if (binding.type === 'property' || binding.type === 'twoWay') {
+        const known =
+          inputs.has(binding.name) ||
+          selectorAttributes.has(binding.name) ||
+          inputAttributeRegistry.isInputAttribute(binding.name) ||
+          (binding.type === 'property' && DOM_PROPERTIES.has(binding.name));
+        if (!known) {
+          diagnostics.push(this.diagnostic(component, element, targets, binding, {
+            code: 'template-unknown-input',
+            severity: isComponent ? 'error' : 'warning',
+            message: `${component.name}: [${binding.name}] on <${element.name}> is not an input of ${targetNames}`,
+            fix: `Declare an input named ${binding.name} on ${targets[0].name} or fix the binding name`,
+          }));
+        }
+      }
+
+      if (binding.type === 'twoWay' && !outputs.has(`${binding.name}Change`) && !inputAttributeRegistry.isInputAttribute(binding.name)) {
+        diagnostics.push(this.diagnostic(component, element, targets, binding, {
+          code: 'template-unknown-output',
+          severity: isComponent ? 'error' : 'warning',
+          message: `${component.name}: [(${binding.name})] on <${element.name}> needs an output ${binding.name}Change on ${targetNames}`,
+          fix: `Declare ${binding.name} with model() or add an output named ${binding.name}Change`,
+        }));
+      }
+
+      if (binding.type === 'event' && !binding.name.includes(':')) {
+        // Key event modifiers: (keydown.enter)
+        const eventName = binding.name.split('.')[0];
+        const known =
+          outputs.has(binding.name) ||
+          outputs.has(eventName) ||
+          DOM_EVENTS.has(eventName) ||
+          inputAttributeRegistry.isInputAttribute(eventName);
+        if (!known) {
+          diagnostics.push(this.diagnostic(component, element, targets, binding, {
+            code: 'template-unknown-output',
+            severity: 'warning',
+            message: `${component.name}: (${binding.name}) on <${element.name}> is neither an output of ${targetNames} nor a DOM event`,
+            fix: `Declare an output named ${binding.name} on ${targets[0].name} or fix the event name`,
+          }));
+        }
+      }
+    }
+
+    // Required inputs: bound or set as static attributes
+    const provided = new Set([
+      ...(element.attributes ?? []),
+      ...(element.bindings ?? []).filter((b) => b.type === 'property' || b.type === 'twoWay').map((b) => b.name),
+    ]);
+    for (const target of targets) {
+      for (const input of target.inputs ?? []) {
+        const name = input.alias ?? input.name;
+        if (!input.required || provided.has(name)) continue;
+        diagnostics.push(this.diagnostic(component, element, [target], undefined, {
+          code: 'template-missing-required-input',
+          severity: 'error',
+          message: `${component.name}: <${element.name}> is missing required input ${name} of ${target.name}`,
+          fix: `Bind [${name}] on <${element.name}>`,
+        }));
+      }
+    }
+
+    return diagnostics;
+  }
+
+  private diagnostic(
+    component: ComponentEntity,
+    element: TemplateElement,
+    targets: Target[],
+    binding: BindingMetadata | undefined,
+    warning: Omit<VisitorWarning, 'location'>
+  ): TemplateDiagnostic {
+    const sourceUrl = binding?.sourceUrl ?? element.sourceUrl;
+
+    return {
+      ...warning,
+      location: templateLocation(component, binding?.line ?? element.line),
+      entityId: component.id,
+      element: element.name,
+      ...(binding && { binding: binding.name }),
+      targets: targets.map((target) => target.id),
+      ...(sourceUrl && { sourceUrl }),
+    };
+  }
+}
+
+/**
+ * Validate all component templates of a parse result or JSON export
+ */
+export function validateTemplates(input: QueryInput): TemplateContractReport {
+  return new TemplateContractValidator(input).validate();
+}
+
+/**
+ * Location of a (0-based) template line: in the template file, or at the component for inline
+ * templates, since their lines are relative to the template string
+ */
+export function templateLocation(component: ComponentEntity, line: number): VisitorWarning['location'] {
+  const templateFile = component.templateLocation?.filePath;
+  return templateFile
+    ? { filePath: templateFile, line: line + 1, column: 1 }
+    : { filePath: component.location.filePath, line: component.location.line, column: component.location.column };
+}
+
+/**
+ * Bindings checked against contracts (attribute, class and style bindings are left to the DOM)
+ */
+function isChecked(binding: BindingMetadata): boolean {
+  return binding.type === 'property' || binding.type === 'twoWay' || binding.type === 'event';
+}
+
+/**
+ * Attribute names of a selector: `button[appTooltip], [appTooltipFor]` -> appTooltip, appTooltipFor
+ */
+function attributeNames(selector: string | undefined): string[] {
+  return Array.from(selector?.matchAll(/\[([^\]=~|^$*]+)/g) ?? [], (match) => match[1].trim());
+}
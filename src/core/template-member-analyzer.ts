@@ -0,0 +1,146 @@
+/**
+ * Template member analyzer
+ * Compares the members a component template uses with the visibility of the component class members
+ */
+
+import type { ComponentEntity, Entity, MemberMetadata, TemplateMemberUsage } from '../types/index.js';
+import { EntityType } from '../types/index.js';
+import type { VisitorWarning } from '../visitors/base/custom-visitor.js';
+import { templateLocation } from './template-contract-validator.js';
+import type { QueryInput } from './graph-query.js';
+
+/**
+ * Member diagnostic; `code` is `template-private-member` or `template-unused-public-member`
+ */
+export interface TemplateMemberDiagnostic extends VisitorWarning {
+  entityId: string;
+  member: string;
+  sourceUrl?: string;
+}
+
+/**
+ * Template member usage of one component
+ */
+export interface ComponentMemberUsage {
+  entityId: string;
+  used: string[];               // Class members used by the template
+  unusedPublic: string[];       // Public members the template never uses (framework-wired members excluded)
+  privateReferenced: string[];  // Private members the template uses (AOT compilation fails)
+}
+
+export interface TemplateMemberReport {
+  components: ComponentMemberUsage[];
+  diagnostics: TemplateMemberDiagnostic[];
+}
+
+/**
+ * Methods called by Angular forms and lifecycle interfaces rather than templates
+ */
+const FRAMEWORK_METHODS = new Set([
+  'writeValue', 'registerOnChange', 'registerOnTouched', 'setDisabledState', 'validate', 'registerOnValidatorChange',
+  'canDeactivate',
+]);
+
+/**
+ * Report, for every component with an analyzed template, the class members the template uses,
+ * public members it never uses and private members it references
+ *
+ * Inputs, outputs, lifecycle hooks, static and decorated members, view/content queries and members
+ * referenced by `host` bindings are never reported as unused: they are wired by Angular, not the template.
+ * Unused public members are `info` diagnostics, since other classes (parents, tests) may still use them.
+ */
+export function analyzeTemplateMembers(input: QueryInput): TemplateMemberReport {
+  const entities: Entity[] = input.entities instanceof Map ? Array.from(input.entities.values()) : input.entities;
+  const report: TemplateMemberReport = { components: [], diagnostics: [] };
+
+  for (const entity of entities) {
+    if (entity.type !== EntityType.Component) continue;
+    const component = entity as ComponentEntity;
+    if (!component.templateAnalysis || !component.members) continue;
+
+    const usages = (component.templateAnalysis.memberUsages ?? []).filter((usage) => usage.kind === 'member');
+    const members = new Map(component.members.map((member) => [member.name, member]));
+    const frameworkWired = frameworkMembers(component);
+
+    const used = Array.from(new Set(usages.map((usage) => usage.name))).filter((name) => members.has(name));
+    const unusedPublic = component.members
+      .filter((member) => member.visibility === 'public' && !used.includes(member.name) && !isFrameworkMember(member, frameworkWired))
+      .map((member) => member.name);
+    const privateReferenced = used.filter((name) => members.get(name)!.visibility === 'private');
+
+    report.components.push({ entityId: component.id, used, unusedPublic, privateReferenced });
+
+    for (const name of privateReferenced) {
+      const usage = usages.find((u) => u.name === name)!;
+      report.diagnostics.push(diagnostic(component, name, usage, {
+        code: 'template-private-member',
+        severity: 'error',
+        message: `${component.name}: private member ${name} is used by the template in ${usage.context}`,
+        fix: `Make ${name} protected or public`,
+      }));
+    }
+    for (const name of unusedPublic) {
+      report.diagnostics.push(diagnostic(component, name, undefined, {
+        code: 'template-unused-public-member',
+        severity: 'info',
+        message: `${component.name}: public member ${name} is not used by the template`,
+        fix: `Make ${name} private or remove it if nothing else uses it`,
+      }));
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Names wired by Angular: inputs, outputs, queries and identifiers of host bindings
+ */
+function frameworkMembers(component: ComponentEntity): Set<string> {
+  const names = new Set<string>([
+    // JSON exports omit propertyName when it equals name
+    ...(component.inputs ?? []).map((input) => input.propertyName ?? input.name),
+    ...(component.outputs ?? []).map((output) => output.propertyName ?? output.name),
+    ...(component.signals ?? [])
+      .filter((signal) => /^(view|content)Child/.test(signal.signalType))
+      .map((signal) => signal.name),
+  ]);
+
+  const host = component.decorators?.find((d) => d.name === 'Component')?.arguments.host;
+  for (const value of Object.values(host ?? {})) {
+    if (typeof value !== 'string') continue;
+    for (const match of value.matchAll(/[A-Za-z_$][\w$]*/g)) names.add(match[0]);
+  }
+
+  return names;
+}
+
+function isFrameworkMember(member: MemberMetadata, frameworkWired: Set<string>): boolean {
+  return (
+    member.static === true ||
+    (member.decorators?.length ?? 0) > 0 ||
+    frameworkWired.has(member.name) ||
+    FRAMEWORK_METHODS.has(member.name) ||
+    (member.kind === 'method' && /^ng[A-Z]/.test(member.name))
+  );
+}
+
+function diagnostic(
+  component: ComponentEntity,
+  member: string,
+  usage: TemplateMemberUsage | undefined,
+  warning: Omit<VisitorWarning, 'location'>
+): TemplateMemberDiagnostic {
+  return {
+    ...warning,
+    // Unused members point at the component class
+    location: usage ? templateLocation(component, usage.line) : componentLocation(component),
+    entityId: component.id,
+    member,
+    ...(usage?.sourceUrl && { sourceUrl: usage.sourceUrl }),
+  };
+}
+
+function componentLocation(component: ComponentEntity): VisitorWarning['location'] {
+  const { filePath, line, column } = component.location;
+  return { filePath, line, column };
+}
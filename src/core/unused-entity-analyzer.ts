@@ -0,0 +1,277 @@
+/**
+ * Unused entity analyzer
+ * Reports components, directives, pipes, services, InjectionTokens and NgModules nothing in the project uses
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ConstantEntity, Entity, ModuleEntity, Relationship } from '../types/index.js';
+import { EntityType, RelationType } from '../types/index.js';
+import type { VisitorWarning } from '../visitors/base/custom-visitor.js';
+import { parseProviders } from '../utils/provider-helpers.js';
+import type { QueryInput } from './graph-query.js';
+
+/**
+ * Kinds of entities checked for usage
+ */
+export type UnusedEntityKind = 'component' | 'directive' | 'pipe' | 'service' | 'token' | 'module';
+
+/**
+ * Unused entity diagnostic; `code` is `unused-component`, `unused-directive`, `unused-pipe`,
+ * `unused-service`, `unused-injection-token` or `unused-module`
+ */
+export interface UnusedEntityDiagnostic extends VisitorWarning {
+  entityId: string;
+  name: string;
+  kind: UnusedEntityKind;
+}
+
+export interface UnusedEntityReport {
+  diagnostics: UnusedEntityDiagnostic[];
+  entryPoints: string[];     // Entity IDs treated as used: bootstrap, routes, barrels, configured entry points
+  summary: Record<UnusedEntityKind, { total: number; unused: number }>;
+}
+
+export interface UnusedEntityOptions {
+  bootstrap?: boolean;       // Bootstrapped components and NgModules are entry points (default: true)
+  routes?: boolean;          // Routed and lazily loaded entities are entry points (default: true)
+  barrels?: string[];        // Public API files (index.ts, public-api.ts): entities they export are entry points
+  entryPoints?: string[];    // Additional entity names or IDs
+  rootDir?: string;          // Directory entity file paths are relative to, for barrels (default: current directory)
+}
+
+const ROUTE_USAGE = [RelationType.RoutesTo, RelationType.LazyLoads];
+
+const MESSAGES: Record<UnusedEntityKind, { code: string; message: string }> = {
+  component: { code: 'unused-component', message: 'is not used by any template, route or bootstrap' },
+  directive: { code: 'unused-directive', message: 'is not used by any template' },
+  pipe: { code: 'unused-pipe', message: 'is not used by any template' },
+  service: { code: 'unused-service', message: 'is never injected' },
+  token: { code: 'unused-injection-token', message: 'is never provided or injected' },
+  module: { code: 'unused-module', message: 'is never imported, so its exports are unused' },
+};
+
+/**
+ * Report project entities nothing uses
+ *
+ * - components: not rendered by a template, routed, lazily loaded or bootstrapped
+ * - directives and pipes: not used by a template
+ * - services: not injected, used as a class guard or resolver, or registered as the `useClass` /
+ *   `useExisting` implementation of another token
+ * - InjectionTokens: neither injected nor provided (`provide: TOKEN` in any providers array)
+ * - NgModules: not imported, re-exported, lazily loaded or bootstrapped
+ *
+ * A relationship from an entity to itself (recursive components) is not a use. Entry points are
+ * never reported. Usage is only known within the parse result: entities consumed by other
+ * applications, or created dynamically (`ViewContainerRef.createComponent()`), must be listed
+ * as entry points or exported from a barrel.
+ */
+export function findUnusedEntities(input: QueryInput, options: UnusedEntityOptions = {}): UnusedEntityReport {
+  const entities: Entity[] = input.entities instanceof Map ? Array.from(input.entities.values()) : input.entities;
+  const entryPoints = collectEntryPoints(input, entities, options);
+
+  // Used entities by kind; relationship targets are entity IDs, or names when unresolved
+  const used = new Map<UnusedEntityKind, Set<string>>();
+  const use = (kinds: UnusedEntityKind[], target: string) => {
+    for (const kind of kinds) {
+      if (!used.has(kind)) used.set(kind, new Set());
+      used.get(kind)!.add(target);
+    }
+  };
+  for (const rel of input.relationships) {
+    if (rel.source !== rel.target) use(usedKinds(rel), rel.target);
+  }
+  for (const [kinds, name] of configuredUsages(input)) use(kinds, name);
+
+  const summary = Object.fromEntries(
+    Object.keys(MESSAGES).map((kind) => [kind, { total: 0, unused: 0 }])
+  ) as UnusedEntityReport['summary'];
+  const diagnostics: UnusedEntityDiagnostic[] = [];
+
+  for (const entity of entities) {
+    const kind = entityKind(entity);
+    if (!kind) continue;
+    summary[kind].total++;
+
+    const isUsed =
+      entryPoints.has(entity.id) ||
+      used.get(kind)?.has(entity.id) ||
+      used.get(kind)?.has(entity.name);
+    if (isUsed) continue;
+
+    summary[kind].unused++;
+    const { code, message } = MESSAGES[kind];
+    diagnostics.push({
+      code,
+      message: `${entity.name} ${message}`,
+      severity: 'warning',
+      location: { filePath: entity.location.filePath, line: entity.location.line, column: entity.location.column },
+      fix: `Remove ${entity.name} or add it to the entry points`,
+      entityId: entity.id,
+      name: entity.name,
+      kind,
+    });
+  }
+
+  return { diagnostics, entryPoints: Array.from(entryPoints), summary };
+}
+
+function entityKind(entity: Entity): UnusedEntityKind | undefined {
+  switch (entity.type) {
+    case EntityType.Component:
+      return 'component';
+    case EntityType.Directive:
+      return 'directive';
+    case EntityType.Pipe:
+      return 'pipe';
+    case EntityType.Service:
+    case EntityType.Injectable:
+      return 'service';
+    case EntityType.Module:
+      return 'module';
+    case EntityType.Constant:
+      return (entity as ConstantEntity).constantType === 'InjectionToken' ? 'token' : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Kinds of entities a relationship uses when they are its target
+ */
+function usedKinds(rel: Relationship): UnusedEntityKind[] {
+  switch (rel.type) {
+    case RelationType.UsesInTemplate:
+    case RelationType.DefersInTemplate:
+      return ['component', 'directive', 'pipe'];
+    case RelationType.Injects:
+      return ['service', 'token'];
+    case RelationType.GuardedBy:
+      return ['service'];
+    case RelationType.Uses:
+      return rel.metadata?.usage === 'resolver' ? ['service'] : [];
+    case RelationType.Provides:
+      // Classes registered only as their own token are provided, not used
+      return String(rel.metadata?.providerType ?? '').endsWith('implementation') ? ['service', 'token'] : ['token'];
+    case RelationType.Imports:
+    case RelationType.Exports:
+      return ['module'];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Usages in `bootstrapApplication()` config providers, which have no relationships: provided tokens,
+ * `useClass` / `useExisting` implementations and NgModules in `importProvidersFrom()`
+ */
+function configuredUsages(input: QueryInput): Array<[UnusedEntityKind[], string]> {
+  const usages: Array<[UnusedEntityKind[], string]> = [];
+
+  for (const application of input.metadata?.applications ?? []) {
+    const raw = (application.providers ?? []).flat(Infinity);
+    for (const provider of parseProviders(raw)) {
+      usages.push([['token'], provider.token]);
+      if (provider.implementation && provider.implementation !== provider.token) {
+        usages.push([['service', 'token'], provider.implementation]);
+      }
+    }
+    for (const item of raw) {
+      const imported = typeof item === 'string' ? /^importProvidersFrom\(([\s\S]*)\)$/.exec(item) : null;
+      imported?.[1].split(',').forEach((name) => usages.push([['module'], name.trim()]));
+    }
+  }
+
+  return usages;
+}
+
+/**
+ * Entity IDs used from outside the parse result
+ */
+function collectEntryPoints(input: QueryInput, entities: Entity[], options: UnusedEntityOptions): Set<string> {
+  const entryPoints = new Set<string>();
+  const byName = new Map<string, Entity[]>();
+  for (const entity of entities) byName.set(entity.name, [...(byName.get(entity.name) ?? []), entity]);
+  const addNamed = (name: string | undefined) => {
+    byName.get(name ?? '')?.forEach((entity) => entryPoints.add(entity.id));
+  };
+
+  if (options.bootstrap !== false) {
+    for (const entity of entities) {
+      if (entity.type === EntityType.Module && (entity as ModuleEntity).bootstrap?.length) {
+        entryPoints.add(entity.id);
+        (entity as ModuleEntity).bootstrap!.forEach(addNamed);
+      }
+    }
+    input.metadata?.applications?.forEach((application) => addNamed(application.component));
+  }
+
+  if (options.routes !== false) {
+    for (const rel of input.relationships) {
+      if (ROUTE_USAGE.includes(rel.type)) {
+        entryPoints.add(rel.target);
+        addNamed(rel.target);
+      }
+    }
+  }
+
+  if (options.barrels?.length) {
+    const rootDir = options.rootDir ?? process.cwd();
+    const exported = { files: new Set<string>(), names: new Set<string>() };
+    options.barrels.forEach((barrel) => readBarrel(path.resolve(barrel), exported));
+    for (const entity of entities) {
+      if (exported.files.has(path.resolve(rootDir, entity.location.filePath)) || exported.names.has(entity.name)) {
+        entryPoints.add(entity.id);
+      }
+    }
+  }
+
+  for (const entryPoint of options.entryPoints ?? []) {
+    if (entities.some((entity) => entity.id === entryPoint)) entryPoints.add(entryPoint);
+    addNamed(entryPoint);
+  }
+
+  // Keep only project entities (route targets may be unresolved names)
+  const ids = new Set(entities.map((entity) => entity.id));
+  return new Set(Array.from(entryPoints).filter((id) => ids.has(id)));
+}
+
+/**
+ * Collect the files re-exported by a barrel (`export * from`, followed through nested barrels)
+ * and the names it exports explicitly (`export { A, B as C } from`, local declarations)
+ */
+function readBarrel(file: string, exported: { files: Set<string>; names: Set<string> }): void {
+  if (exported.files.has(file)) return;
+  exported.files.add(file);
+
+  let content: string;
+  try {
+    content = fs.readFileSync(file, 'utf-8');
+  } catch (error) {
+    console.warn(`⚠️  Failed to read barrel ${file}:`, (error as Error).message);
+    return;
+  }
+
+  for (const match of content.matchAll(/export\s*\*\s*(?:as\s+\w+\s+)?from\s*['"]([^'"]+)['"]/g)) {
+    const resolved = resolveModuleFile(file, match[1]);
+    if (resolved) readBarrel(resolved, exported);
+  }
+  for (const match of content.matchAll(/export\s+(?:type\s+)?\{([^}]*)\}/g)) {
+    match[1].split(',').forEach((specifier) => {
+      const name = specifier.trim().replace(/^type\s+/, '').split(/\s+as\s+/)[0];
+      if (name) exported.names.add(name);
+    });
+  }
+}
+
+/**
+ * Resolve a relative module specifier to a TypeScript file
+ */
+function resolveModuleFile(fromFile: string, specifier: string): string | undefined {
+  if (!specifier.startsWith('.')) return undefined;
+
+  const base = path.resolve(path.dirname(fromFile), specifier.replace(/\.js$/, ''));
+  return [`${base}.ts`, path.join(base, 'index.ts'), base].find(
+    (candidate) => fs.existsSync(candidate) && fs.statSync(candidate).isFile()
+  );
+}
@@ -6,6 +6,8 @@ import * as ts from 'typescript';
 import type { CustomVisitor } from '../visitors/base/custom-visitor.js';
 import { VisitorContextImpl } from '../visitors/base/visitor-context-impl.js';
 import type { AngularProject } from './angular-core-parser.js';
+import { toProgramSpec, type ParseWorkerPool } from './parse-worker-pool.js';
+import { isBuiltInVisitor } from '../visitors/built-in/index.js';
 
 export interface VisitorResults {
   results: Map<string, unknown>;
@@ -14,6 +16,23 @@ export interface VisitorResults {
   metrics: Map<string, number | string>;
 }
 
+/**
+ * Output of one visitor over all source files
+ */
+export interface VisitorOutcome {
+  results?: unknown;
+  warnings: any[];
+  errors: any[];
+  metrics: Map<string, number | string>;
+  failure?: string; // Set when the visitor threw (results are then missing)
+}
+
+interface VisitedFile {
+  sourceFile: ts.SourceFile;
+  program: ts.Program;
+  typeChecker: ts.TypeChecker;
+}
+
 /**
  * Engine for executing custom visitors
  */
@@ -50,8 +69,15 @@ export class VisitorEngine {
 
   /**
    * Execute all registered visitors
+   *
+   * @param programs - Program, or one program per workspace project (shared files are visited once)
+   * @param workerPool - Runs the built-in visitors in worker threads (custom visitors stay here)
    */
-  async execute(angularProject: AngularProject, program: ts.Program): Promise<VisitorResults> {
+  async execute(
+    angularProject: AngularProject,
+    programs: ts.Program | ts.Program[],
+    workerPool?: ParseWorkerPool
+  ): Promise<VisitorResults> {
     const results = new Map<string, unknown>();
     const allWarnings: any[] = [];
     const allErrors: any[] = [];
@@ -61,86 +87,164 @@ export class VisitorEngine {
       return { results, warnings: allWarnings, errors: allErrors, metrics: allMetrics };
     }
 
-    const typeChecker = program.getTypeChecker();
+    const programList = Array.isArray(programs) ? programs : [programs];
+    const sourceFiles = this.collectSourceFiles(programList);
+    const offloaded = workerPool
+      ? await this.runInWorkers(workerPool, programList, sourceFiles, angularProject)
+      : new Map<string, VisitorOutcome>();
 
     for (const visitor of this.visitors) {
       console.log(`  🔌 Running ${visitor.name}...`);
 
-      try {
-        // Reset visitor if supported
-        visitor.reset?.();
-
-        // Execute for each source file
-        for (const sourceFile of program.getSourceFiles()) {
-          if (this.shouldSkipFile(sourceFile)) continue;
-
-          const context = new VisitorContextImpl(
-            sourceFile,
-            typeChecker,
-            program,
-            angularProject.entities,
-            angularProject.relationships
-          );
-
-          // Before parse hook
-          await visitor.onBeforeParse?.(context);
-
-          // Visit entities
-          if (visitor.visitEntity) {
-            for (const entity of angularProject.entities.values()) {
-              try {
-                await visitor.visitEntity(entity, context);
-              } catch (error) {
-                console.error(`  Error in ${visitor.name}.visitEntity():`, error);
-                context.addError({
-                  code: 'VISITOR_ENTITY_ERROR',
-                  message: `Error visiting entity: ${error}`,
-                  severity: 'error',
-                });
-              }
-            }
-          }
-
-          // Visit relationships
-          if (visitor.visitRelationship) {
-            for (const relationship of angularProject.relationships) {
-              try {
-                await visitor.visitRelationship(relationship, context);
-              } catch (error) {
-                console.error(`  Error in ${visitor.name}.visitRelationship():`, error);
-              }
-            }
-          }
-
-          // Visit AST nodes
-          await this.traverseNode(sourceFile, visitor, context);
-
-          // After parse hook
-          await visitor.onAfterParse?.(context);
-
-          // Collect context results
-          allWarnings.push(...context.getWarnings());
-          allErrors.push(...context.getErrors());
-          context.getMetrics().forEach((value, key) => {
-            allMetrics.set(key, value);
-          });
-        }
+      const outcome = offloaded.get(visitor.name) ?? (await this.runVisitor(visitor, sourceFiles, angularProject));
 
-        // Store visitor results
-        results.set(visitor.name, visitor.getResults());
-      } catch (error) {
-        console.error(`  ❌ Error in visitor ${visitor.name}:`, error);
+      // Collect context results
+      allWarnings.push(...outcome.warnings);
+      allErrors.push(...outcome.errors);
+      outcome.metrics.forEach((value, key) => {
+        allMetrics.set(key, value);
+      });
+
+      if (outcome.failure !== undefined) {
         allErrors.push({
           code: 'VISITOR_FAILED',
-          message: `Visitor ${visitor.name} failed: ${error}`,
+          message: `Visitor ${visitor.name} failed: ${outcome.failure}`,
           severity: 'error',
         });
+      } else {
+        // Store visitor results
+        results.set(visitor.name, outcome.results);
       }
     }
 
     return { results, warnings: allWarnings, errors: allErrors, metrics: allMetrics };
   }
 
+  /**
+   * Run one visitor over all source files
+   */
+  private async runVisitor(
+    visitor: CustomVisitor,
+    sourceFiles: VisitedFile[],
+    angularProject: Pick<AngularProject, 'entities' | 'relationships'>
+  ): Promise<VisitorOutcome> {
+    const outcome: VisitorOutcome = { warnings: [], errors: [], metrics: new Map() };
+
+    try {
+      // Reset visitor if supported
+      visitor.reset?.();
+
+      // Execute for each source file
+      for (const { sourceFile, program, typeChecker } of sourceFiles) {
+        const context = await this.visitSourceFile(visitor, sourceFile, program, typeChecker, angularProject);
+
+        outcome.warnings.push(...context.getWarnings());
+        outcome.errors.push(...context.getErrors());
+        context.getMetrics().forEach((value, key) => {
+          outcome.metrics.set(key, value);
+        });
+      }
+
+      outcome.results = visitor.getResults();
+    } catch (error) {
+      console.error(`  ❌ Error in visitor ${visitor.name}:`, error);
+      outcome.failure = String(error);
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Run one visitor over a source file: hooks, entities, relationships, then AST nodes
+   *
+   * Errors of the hooks propagate (the visitor fails); errors of the visit methods are logged.
+   */
+  async visitSourceFile(
+    visitor: CustomVisitor,
+    sourceFile: ts.SourceFile,
+    program: ts.Program,
+    typeChecker: ts.TypeChecker,
+    angularProject: Pick<AngularProject, 'entities' | 'relationships'>
+  ): Promise<VisitorContextImpl> {
+    const context = new VisitorContextImpl(
+      sourceFile,
+      typeChecker,
+      program,
+      angularProject.entities,
+      angularProject.relationships
+    );
+
+    // Before parse hook
+    await visitor.onBeforeParse?.(context);
+
+    // Visit entities
+    if (visitor.visitEntity) {
+      for (const entity of angularProject.entities.values()) {
+        try {
+          await visitor.visitEntity(entity, context);
+        } catch (error) {
+          console.error(`  Error in ${visitor.name}.visitEntity():`, error);
+          context.addError({
+            code: 'VISITOR_ENTITY_ERROR',
+            message: `Error visiting entity: ${error}`,
+            severity: 'error',
+          });
+        }
+      }
+    }
+
+    // Visit relationships
+    if (visitor.visitRelationship) {
+      for (const relationship of angularProject.relationships) {
+        try {
+          await visitor.visitRelationship(relationship, context);
+        } catch (error) {
+          console.error(`  Error in ${visitor.name}.visitRelationship():`, error);
+        }
+      }
+    }
+
+    // Visit AST nodes
+    await this.traverseNode(sourceFile, visitor, context);
+
+    // After parse hook
+    await visitor.onAfterParse?.(context);
+
+    return context;
+  }
+
+  /**
+   * Run the built-in visitors in worker threads
+   *
+   * Built-in visitors only keep the state of the current file, so files can be sharded;
+   * per-file outputs are merged back in file order. Falls back to this thread on failure.
+   */
+  private async runInWorkers(
+    workerPool: ParseWorkerPool,
+    programs: ts.Program[],
+    sourceFiles: VisitedFile[],
+    angularProject: AngularProject
+  ): Promise<Map<string, VisitorOutcome>> {
+    const names = this.visitors.filter(isBuiltInVisitor).map((visitor) => visitor.name);
+    if (names.length === 0 || sourceFiles.length === 0) return new Map();
+
+    try {
+      return await workerPool.runVisitors(
+        programs.map(toProgramSpec),
+        sourceFiles.map(({ sourceFile, program }) => ({
+          program: programs.indexOf(program),
+          fileName: sourceFile.fileName,
+          size: sourceFile.text.length,
+        })),
+        names,
+        angularProject
+      );
+    } catch (error) {
+      console.warn(`⚠️  Worker visitors failed, running them sequentially: ${(error as Error).message}`);
+      return new Map();
+    }
+  }
+
   private async traverseNode(
     node: ts.Node,
     visitor: CustomVisitor,
@@ -167,6 +271,23 @@ export class VisitorEngine {
     }
   }
 
+  /**
+   * Source files to visit, each with the first program containing it
+   */
+  private collectSourceFiles(programs: ts.Program[]): VisitedFile[] {
+    const files = new Map<string, VisitedFile>();
+
+    for (const program of programs) {
+      const typeChecker = program.getTypeChecker();
+      for (const sourceFile of program.getSourceFiles()) {
+        if (this.shouldSkipFile(sourceFile) || files.has(sourceFile.fileName)) continue;
+        files.set(sourceFile.fileName, { sourceFile, program, typeChecker });
+      }
+    }
+
+    return Array.from(files.values());
+  }
+
   private shouldSkipFile(sourceFile: ts.SourceFile): boolean {
     return (
       sourceFile.isDeclarationFile ||
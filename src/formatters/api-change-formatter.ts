@@ -0,0 +1,87 @@
+/**
+ * API change formatter
+ * Renders an ApiChangeReport as text, JSON or Markdown
+ */
+
+import type { ApiChange, ApiChangeReport, ChangeSeverity } from '../core/api-change-detector.js';
+import type { DiffFormat } from './diff-formatter.js';
+
+const SEVERITY_ICONS: Record<ChangeSeverity, string> = {
+  major: '💥',
+  minor: '✨',
+  patch: '🔧',
+};
+
+/**
+ * Formats public API changes grouped by severity
+ */
+export class ApiChangeFormatter {
+  constructor(private report: ApiChangeReport) {}
+
+  format(format: DiffFormat): string {
+    switch (format) {
+      case 'json':
+        return JSON.stringify(this.report, null, 2);
+      case 'markdown':
+        return this.toMarkdown();
+      case 'text':
+      default:
+        return this.toText();
+    }
+  }
+
+  /**
+   * Plain text output for terminals
+   */
+  toText(): string {
+    const { bump, summary } = this.report;
+    const lines = [
+      `Required version bump: ${bump}`,
+      `Changes: ${summary.major} major, ${summary.minor} minor, ${summary.patch} patch`,
+      '',
+    ];
+
+    for (const severity of ['major', 'minor', 'patch'] as ChangeSeverity[]) {
+      const changes = this.bySeverity(severity);
+      if (changes.length === 0) continue;
+
+      lines.push(`${severity.toUpperCase()}:`);
+      changes.forEach((c) => lines.push(`  ${SEVERITY_ICONS[severity]} ${c.message}`));
+      lines.push('');
+    }
+
+    return lines.join('\n').trimEnd() + '\n';
+  }
+
+  /**
+   * Markdown output, suitable for pull request comments
+   */
+  toMarkdown(): string {
+    const { bump, summary } = this.report;
+    const lines = [
+      '## ng-parser API check',
+      '',
+      `**Required version bump: \`${bump}\`** (${summary.major} major, ${summary.minor} minor, ${summary.patch} patch)`,
+      '',
+    ];
+
+    if (this.report.changes.length === 0) {
+      lines.push('✅ No public API changes', '');
+      return lines.join('\n');
+    }
+
+    lines.push('| Severity | Entity | Change | Details |', '|---|---|---|---|');
+    for (const severity of ['major', 'minor', 'patch'] as ChangeSeverity[]) {
+      for (const c of this.bySeverity(severity)) {
+        lines.push(`| ${SEVERITY_ICONS[severity]} ${severity} | \`${c.entityName}\` | ${c.kind} | ${c.message.replace(/\|/g, '\\|')} |`);
+      }
+    }
+    lines.push('');
+
+    return lines.join('\n');
+  }
+
+  private bySeverity(severity: ChangeSeverity): ApiChange[] {
+    return this.report.changes.filter((c) => c.severity === severity);
+  }
+}
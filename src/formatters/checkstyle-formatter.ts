@@ -0,0 +1,50 @@
+/**
+ * Checkstyle formatter
+ * Checkstyle XML for Jenkins Warnings NG, reviewdog, SonarQube and other Checkstyle consumers
+ */
+
+import type { Finding } from '../core/findings.js';
+
+/**
+ * Formats findings as Checkstyle XML (`source` is the rule ID)
+ *
+ * Findings without a location are listed under the project root file name `.`.
+ */
+export class CheckstyleFormatter {
+  constructor(private findings: Finding[]) {}
+
+  format(): string {
+    const byFile = new Map<string, Finding[]>();
+    for (const finding of this.findings) {
+      const file = finding.location?.filePath ?? '.';
+      byFile.set(file, [...(byFile.get(file) ?? []), finding]);
+    }
+
+    const lines = ['<?xml version="1.0" encoding="UTF-8"?>', '<checkstyle version="4.3">'];
+    for (const [file, findings] of byFile) {
+      lines.push(`  <file name="${escapeXml(file)}">`);
+      for (const finding of findings) {
+        const position = finding.location
+          ? ` line="${finding.location.line}" column="${finding.location.column}"`
+          : '';
+        lines.push(
+          `    <error${position} severity="${finding.severity}" message="${escapeXml(finding.message)}" ` +
+          `source="${escapeXml(finding.ruleId)}"/>`
+        );
+      }
+      lines.push('  </file>');
+    }
+    lines.push('</checkstyle>');
+
+    return lines.join('\n') + '\n';
+  }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
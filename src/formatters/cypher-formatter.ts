@@ -0,0 +1,75 @@
+/**
+ * Cypher formatter
+ * Neo4j import script; MERGE statements keyed on IDs, so re-running it updates the graph
+ */
+
+import type { KnowledgeGraph, ParserConfig } from '../types/index.js';
+import { collectGraphData, type GraphValue } from './graph-data.js';
+
+/**
+ * Formats knowledge graph as a Cypher script
+ *
+ * Every node has the `NgEntity` label (unique `id`) plus a label per type (`Component`,
+ * `Service`, `External`, ...). Relationship types are upper snake case (`USES_IN_TEMPLATE`).
+ */
+export class CypherFormatter {
+  constructor(
+    private graph: KnowledgeGraph,
+    private config: ParserConfig
+  ) {}
+
+  format(): string {
+    const { nodes, edges } = collectGraphData(this.graph);
+    const lines = [
+      `// ng-parser graph export (${this.graph.metadata.timestamp})`,
+      `// ${nodes.length} nodes, ${edges.length} relationships`,
+      '',
+      'CREATE CONSTRAINT ng_entity_id IF NOT EXISTS FOR (n:NgEntity) REQUIRE n.id IS UNIQUE;',
+      '',
+    ];
+
+    for (const node of nodes) {
+      lines.push(
+        `MERGE (n:NgEntity {id: ${literal(node.id)}}) SET n:${toLabel(node.label)}, n += ${map(node.properties)};`
+      );
+    }
+    lines.push('');
+
+    for (const edge of edges) {
+      lines.push(
+        `MATCH (a:NgEntity {id: ${literal(edge.source)}}), (b:NgEntity {id: ${literal(edge.target)}}) ` +
+        `MERGE (a)-[r:${toRelationshipType(edge.type)} {id: ${literal(edge.id)}}]->(b) SET r += ${map(edge.properties)};`
+      );
+    }
+
+    return lines.join('\n') + '\n';
+  }
+}
+
+/**
+ * Node label of a type: `internal-file` -> `InternalFile`
+ */
+function toLabel(type: string): string {
+  return type.split(/[^a-zA-Z0-9]+/).filter(Boolean).map((part) => part[0].toUpperCase() + part.slice(1)).join('');
+}
+
+/**
+ * Relationship type: `usesInTemplate` -> `USES_IN_TEMPLATE`
+ */
+function toRelationshipType(type: string): string {
+  return type.replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/[^a-zA-Z0-9]+/g, '_').toUpperCase();
+}
+
+function map(properties: Record<string, GraphValue>): string {
+  const entries = Object.entries(properties).map(([key, value]) => `${propertyKey(key)}: ${literal(value)}`);
+  return `{${entries.join(', ')}}`;
+}
+
+function propertyKey(name: string): string {
+  return /^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name) ? name : `\`${name.replace(/`/g, '``')}\``;
+}
+
+function literal(value: GraphValue): string {
+  if (typeof value !== 'string') return String(value);
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n').replace(/\r/g, '\\r')}'`;
+}
@@ -0,0 +1,136 @@
+/**
+ * DI formatter
+ * Renders a DiReport as text, JSON or Markdown
+ */
+
+import type { DiReport, InjectionResolution, InjectionStatus } from '../core/di-resolver.js';
+import type { Entity } from '../types/index.js';
+import type { DiffFormat } from './diff-formatter.js';
+
+const STATUS_ICONS: Record<InjectionStatus, string> = {
+  resolved: '✓',
+  optional: '○',
+  external: '↗',
+  missing: '❌',
+};
+
+/**
+ * Formats DI resolutions grouped by consumer; entity names are looked up for readability
+ */
+export class DiFormatter {
+  private entities: Map<string, Entity>;
+
+  constructor(
+    private report: DiReport,
+    entities: Map<string, Entity> | Entity[] = []
+  ) {
+    this.entities = entities instanceof Map ? entities : new Map(entities.map((e) => [e.id, e]));
+  }
+
+  format(format: DiffFormat): string {
+    switch (format) {
+      case 'json':
+        return JSON.stringify(this.report, null, 2);
+      case 'markdown':
+        return this.toMarkdown();
+      case 'text':
+      default:
+        return this.toText();
+    }
+  }
+
+  /**
+   * Plain text output for terminals
+   */
+  toText(): string {
+    const lines: string[] = [];
+
+    for (const [consumerId, injections] of this.byConsumer()) {
+      const consumer = this.entities.get(consumerId);
+      lines.push(consumer ? `${consumer.type} ${consumer.name} (${consumer.location.filePath})` : consumerId);
+      for (const injection of injections) {
+        lines.push(`  ${STATUS_ICONS[injection.status]} ${injection.token}${this.describe(injection)}`);
+      }
+      lines.push('');
+    }
+
+    for (const diagnostic of this.report.diagnostics) {
+      const { filePath, line, column } = diagnostic.location;
+      lines.push(`${filePath}:${line}:${column}  ${diagnostic.severity}  ${diagnostic.message}  [${diagnostic.code}]`);
+    }
+    if (this.report.diagnostics.length > 0) lines.push('');
+
+    lines.push(this.summaryLine());
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Markdown output, suitable for pull request comments
+   */
+  toMarkdown(): string {
+    const lines = ['## ng-parser di', '', this.summaryLine(), ''];
+
+    if (this.report.diagnostics.length > 0) {
+      lines.push('| Rule | Location | Message |', '|---|---|---|');
+      for (const d of this.report.diagnostics) {
+        lines.push(`| \`${d.code}\` | \`${d.location.filePath}:${d.location.line}\` | ${d.message.replace(/\|/g, '\\|')} |`);
+      }
+      lines.push('');
+    }
+
+    lines.push('| Consumer | Token | Status | Provided by |', '|---|---|---|---|');
+    for (const injection of this.report.injections) {
+      lines.push(
+        `| ${this.name(injection.consumerId)} | \`${injection.token}\` | ${injection.status} | ` +
+        `${injection.providedBy ? this.name(injection.providedBy) : '-'} |`
+      );
+    }
+    lines.push('');
+
+    return lines.join('\n');
+  }
+
+  private describe(injection: InjectionResolution): string {
+    const flags = Object.keys(injection.flags ?? {}).map((flag) => `@${flag[0].toUpperCase()}${flag.slice(1)}`);
+    const parts = flags.length > 0 ? [` ${flags.join(' ')}`] : [];
+
+    switch (injection.status) {
+      case 'resolved': {
+        const injector = injection.injector === 'root' || injection.injector === 'platform'
+          ? injection.injector
+          : this.name(injection.injector!);
+        parts.push(` → ${injection.providedBy ? this.name(injection.providedBy) : '?'} [${injector}]`);
+        if (injection.aliases?.length) parts.push(` via ${injection.aliases.join(' → ')}`);
+        if (injection.providers.length > 1) parts.push(` (${injection.providers.length} multi providers)`);
+        break;
+      }
+      case 'optional':
+        parts.push(' → none (optional)');
+        break;
+      case 'external':
+        parts.push(' → outside the project');
+        break;
+      case 'missing':
+        parts.push(' → no provider');
+        break;
+    }
+    return parts.join('');
+  }
+
+  private summaryLine(): string {
+    const { resolved, missing, optional, external } = this.report.summary;
+    return `${resolved} resolved, ${missing} missing, ${optional} optional, ${external} external`;
+  }
+
+  private name(id: string): string {
+    return this.entities.get(id)?.name ?? id;
+  }
+
+  private byConsumer(): Map<string, InjectionResolution[]> {
+    const consumers = new Map<string, InjectionResolution[]>();
+    for (const injection of this.report.injections) {
+      consumers.set(injection.consumerId, [...(consumers.get(injection.consumerId) ?? []), injection]);
+    }
+    return consumers;
+  }
+}
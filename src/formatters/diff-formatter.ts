@@ -0,0 +1,171 @@
+/**
+ * Diff formatter
+ * Renders a ResultDiff as text (terminal), JSON or Markdown (pull request comments)
+ */
+
+import type { FieldChange, ResultDiff, RelationshipSummary } from '../core/result-diff.js';
+
+export type DiffFormat = 'text' | 'json' | 'markdown';
+
+/**
+ * Formats the differences between two parse results
+ */
+export class DiffFormatter {
+  constructor(private diff: ResultDiff) {}
+
+  format(format: DiffFormat): string {
+    switch (format) {
+      case 'json':
+        return JSON.stringify(this.diff, null, 2);
+      case 'markdown':
+        return this.toMarkdown();
+      case 'text':
+      default:
+        return this.toText();
+    }
+  }
+
+  /**
+   * Plain text output for terminals
+   */
+  toText(): string {
+    const { entities, relationships } = this.diff;
+    const lines: string[] = [this.summaryLine(), ''];
+
+    if (entities.added.length > 0) {
+      lines.push('Added entities:');
+      entities.added.forEach((e) => lines.push(`  + ${e.type} ${e.name} (${e.id})`));
+      lines.push('');
+    }
+
+    if (entities.removed.length > 0) {
+      lines.push('Removed entities:');
+      entities.removed.forEach((e) => lines.push(`  - ${e.type} ${e.name} (${e.id})`));
+      lines.push('');
+    }
+
+    if (entities.modified.length > 0) {
+      lines.push('Modified entities:');
+      for (const entity of entities.modified) {
+        lines.push(`  ~ ${entity.type} ${entity.name} (${entity.id})`);
+        entity.changes.forEach((change) => lines.push(`      ${this.describeChange(change)}`));
+      }
+      lines.push('');
+    }
+
+    if (relationships.added.length > 0 || relationships.removed.length > 0) {
+      lines.push('Relationships:');
+      relationships.added.forEach((r) => lines.push(`  + ${this.describeRelationship(r)}`));
+      relationships.removed.forEach((r) => lines.push(`  - ${this.describeRelationship(r)}`));
+      lines.push('');
+    }
+
+    if (this.isEmpty()) {
+      lines.push('No changes detected');
+    }
+
+    return lines.join('\n').trimEnd() + '\n';
+  }
+
+  /**
+   * Markdown output, suitable for pull request comments
+   */
+  toMarkdown(): string {
+    const { summary, entities, relationships } = this.diff;
+    const lines: string[] = [
+      '## ng-parser diff',
+      '',
+      '| | Added | Removed | Modified | Unchanged |',
+      '|---|---|---|---|---|',
+      `| Entities | ${summary.entities.added} | ${summary.entities.removed} | ${summary.entities.modified} | ${summary.entities.unchanged} |`,
+      `| Relationships | ${summary.relationships.added} | ${summary.relationships.removed} | - | - |`,
+      '',
+    ];
+
+    if (this.isEmpty()) {
+      lines.push('✅ No changes detected', '');
+      return lines.join('\n');
+    }
+
+    if (entities.added.length > 0) {
+      lines.push(`### ➕ Added entities (${entities.added.length})`, '');
+      entities.added.forEach((e) => lines.push(`- \`${e.name}\` (${e.type})`));
+      lines.push('');
+    }
+
+    if (entities.removed.length > 0) {
+      lines.push(`### ➖ Removed entities (${entities.removed.length})`, '');
+      entities.removed.forEach((e) => lines.push(`- \`${e.name}\` (${e.type})`));
+      lines.push('');
+    }
+
+    if (entities.modified.length > 0) {
+      lines.push(`### ✏️ Modified entities (${entities.modified.length})`, '');
+      for (const entity of entities.modified) {
+        lines.push(`#### \`${entity.name}\` (${entity.type})`, '');
+        lines.push('| Field | Change | Before | After |', '|---|---|---|---|');
+        for (const change of entity.changes) {
+          lines.push(
+            `| \`${change.field}\` | ${change.kind} | ${this.markdownValue(change.before)} | ${this.markdownValue(change.after)} |`
+          );
+        }
+        lines.push('');
+      }
+    }
+
+    if (relationships.added.length > 0 || relationships.removed.length > 0) {
+      lines.push('### 🔗 Relationships', '');
+      relationships.added.forEach((r) => lines.push(`- ➕ ${this.describeRelationship(r)}`));
+      relationships.removed.forEach((r) => lines.push(`- ➖ ${this.describeRelationship(r)}`));
+      lines.push('');
+    }
+
+    return lines.join('\n');
+  }
+
+  private summaryLine(): string {
+    const { entities, relationships } = this.diff.summary;
+    return (
+      `Entities: +${entities.added} added, -${entities.removed} removed, ~${entities.modified} modified ` +
+      `(${entities.unchanged} unchanged) | Relationships: +${relationships.added} added, -${relationships.removed} removed`
+    );
+  }
+
+  private isEmpty(): boolean {
+    const { entities, relationships } = this.diff.summary;
+    return entities.added + entities.removed + entities.modified + relationships.added + relationships.removed === 0;
+  }
+
+  private describeChange(change: FieldChange): string {
+    switch (change.kind) {
+      case 'added':
+        return `${change.field}: + ${formatValue(change.after)}`;
+      case 'removed':
+        return `${change.field}: - ${formatValue(change.before)}`;
+      case 'changed':
+        return `${change.field}: ${formatValue(change.before)} → ${formatValue(change.after)}`;
+    }
+  }
+
+  private describeRelationship(rel: RelationshipSummary): string {
+    const source = rel.sourceName ?? rel.source;
+    const target = rel.targetName ?? rel.target;
+    return `${source} --${rel.type}--> ${target}`;
+  }
+
+  private markdownValue(value: unknown): string {
+    if (value === undefined) return '';
+    return `\`${formatValue(value).replace(/\|/g, '\\|').replace(/`/g, "'")}\``;
+  }
+}
+
+/**
+ * Compact single-line value (named objects are shown by name)
+ */
+function formatValue(value: unknown): string {
+  if (value && typeof value === 'object' && !Array.isArray(value) && typeof (value as any).name === 'string') {
+    return (value as any).name;
+  }
+  const text = typeof value === 'string' ? `'${value}'` : JSON.stringify(value);
+  return text && text.length > 80 ? text.slice(0, 77) + '...' : String(text);
+}
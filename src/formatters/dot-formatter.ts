@@ -0,0 +1,110 @@
+/**
+ * DOT formatter
+ * Graphviz digraph with one cluster per hierarchy feature / module
+ */
+
+import type { HierarchyNode, KnowledgeGraph, ParserConfig } from '../types/index.js';
+import { collectGraphData, type GraphNode } from './graph-data.js';
+
+/**
+ * Fill colors per node type (light tints of the HTML graph colors)
+ */
+const NODE_COLORS: Record<string, string> = {
+  component: '#dbeafe',
+  directive: '#ede9fe',
+  pipe: '#fce7f3',
+  service: '#dcfce7',
+  injectable: '#dcfce7',
+  module: '#fef3c7',
+  constant: '#ffedd5',
+  route: '#ccfbf1',
+  external: '#e2e8f0',
+  unresolved: '#fee2e2',
+  'internal-file': '#cffafe',
+};
+
+/**
+ * Formats knowledge graph as Graphviz DOT
+ *
+ * Entities are nested in `cluster_*` subgraphs following the hierarchy (entities left at
+ * the app root and virtual nodes stay at the top level). Edges are labelled with their
+ * relationship type; external and unresolved ones are dashed.
+ */
+export class DotFormatter {
+  constructor(
+    private graph: KnowledgeGraph,
+    private config: ParserConfig
+  ) {}
+
+  format(): string {
+    const { nodes, edges } = collectGraphData(this.graph);
+    const nodesById = new Map(nodes.map((node) => [node.id, node]));
+    const written = new Set<string>();
+
+    const lines = [
+      'digraph "ng-parser" {',
+      '  rankdir=LR;',
+      '  compound=true;',
+      '  node [shape=box, style="rounded,filled", fontname="Helvetica", fontsize=10];',
+      '  edge [fontname="Helvetica", fontsize=8, color="#64748b"];',
+      '',
+    ];
+
+    let clusterIndex = 0;
+    const writeCluster = (hierarchyNode: HierarchyNode, depth: number) => {
+      const indent = '  '.repeat(depth);
+      lines.push(
+        `${indent}subgraph cluster_${clusterIndex++} {`,
+        `${indent}  label=${quote(hierarchyNode.name)};`,
+        `${indent}  style="rounded${hierarchyNode.type === 'module' ? ',dashed' : ''}";`
+      );
+      writeNodes(hierarchyNode.entities, depth + 1);
+      hierarchyNode.children.forEach((child) => writeCluster(child, depth + 1));
+      lines.push(`${indent}}`);
+    };
+    const writeNodes = (ids: string[], depth: number) => {
+      for (const id of ids) {
+        const node = nodesById.get(id);
+        if (!node || written.has(id)) continue;
+        written.add(id);
+        lines.push(`${'  '.repeat(depth)}${quote(id)} ${attributes(nodeAttributes(node))};`);
+      }
+    };
+
+    writeNodes(this.graph.hierarchy.entities, 1);
+    this.graph.hierarchy.children.forEach((child) => writeCluster(child, 1));
+    writeNodes(nodes.map((node) => node.id), 1);
+    lines.push('');
+
+    for (const edge of edges) {
+      const classification = edge.properties.classification;
+      lines.push(
+        `  ${quote(edge.source)} -> ${quote(edge.target)} ${attributes({
+          label: edge.type,
+          ...(classification === 'external' || classification === 'unresolved' ? { style: 'dashed' } : {}),
+        })};`
+      );
+    }
+
+    lines.push('}');
+    return lines.join('\n') + '\n';
+  }
+}
+
+function nodeAttributes(node: GraphNode): Record<string, string> {
+  const detail = node.properties.selector ?? node.properties.fullPath ?? node.properties.packageName;
+  return {
+    label: `${node.name}\n<${node.label}>${detail !== undefined ? `\n${detail}` : ''}`,
+    fillcolor: NODE_COLORS[node.label] ?? '#ffffff',
+    ...(node.virtual ? { style: 'rounded,filled,dashed' } : {}),
+    ...(typeof node.properties.sourceUrl === 'string' ? { URL: node.properties.sourceUrl } : {}),
+  };
+}
+
+function attributes(values: Record<string, string>): string {
+  return `[${Object.entries(values).map(([key, value]) => `${key}=${quote(value)}`).join(', ')}]`;
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
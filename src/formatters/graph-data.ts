@@ -0,0 +1,105 @@
+/**
+ * Graph data shared by the graph database exporters (Cypher, GraphML, DOT)
+ */
+
+import type { Entity, KnowledgeGraph } from '../types/index.js';
+
+export type GraphValue = string | number | boolean;
+
+export interface GraphNode {
+  id: string;
+  label: string;          // Node label: entity type, or external / unresolved / internal-file
+  name: string;
+  properties: Record<string, GraphValue>;
+  virtual: boolean;       // Relationship target that is not a project entity
+}
+
+export interface GraphEdge {
+  id: string;
+  source: string;
+  target: string;
+  type: string;
+  properties: Record<string, GraphValue>;  // Scalar relationship metadata (classification, ...)
+}
+
+export interface GraphData {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+/**
+ * Nodes and edges of a knowledge graph
+ *
+ * Relationship targets that are not project entities (external packages, unresolved
+ * symbols, non-entity files) become virtual nodes, as in the HTML graph.
+ */
+export function collectGraphData(graph: KnowledgeGraph): GraphData {
+  const nodes = new Map<string, GraphNode>();
+  for (const entity of graph.entities.values()) {
+    nodes.set(entity.id, entityNode(entity));
+  }
+
+  const edges: GraphEdge[] = [];
+  for (const rel of graph.relationships) {
+    if (!nodes.has(rel.source) || nodes.get(rel.source)!.virtual) continue;
+
+    if (!nodes.has(rel.target)) {
+      nodes.set(rel.target, virtualNode(rel.target, rel.metadata));
+    }
+
+    edges.push({
+      id: rel.id,
+      source: rel.source,
+      target: rel.target,
+      type: rel.type,
+      properties: scalarProperties(rel.metadata ?? {}),
+    });
+  }
+
+  return { nodes: Array.from(nodes.values()), edges };
+}
+
+function entityNode(entity: Entity): GraphNode {
+  const fields = entity as any;
+  const properties: Record<string, GraphValue> = {
+    name: entity.name,
+    type: entity.type,
+    file: entity.location.filePath,
+    line: entity.location.line,
+  };
+
+  for (const field of ['selector', 'standalone', 'providedIn', 'pipeName', 'fullPath', 'project']) {
+    if (isScalar(fields[field]) && fields[field] !== '') properties[field] = fields[field];
+  }
+  if (entity.location.sourceUrl) properties.sourceUrl = entity.location.sourceUrl;
+
+  return { id: entity.id, label: entity.type, name: entity.name, properties, virtual: false };
+}
+
+function virtualNode(id: string, metadata: Record<string, any> = {}): GraphNode {
+  const label = id.startsWith('external:') ? 'external'
+    : id.startsWith('internal-file:') ? 'internal-file'
+    : 'unresolved';
+  const name = metadata.originalName || id.replace(/^(external|unresolved|internal-file):/, '').slice(0, 50);
+
+  const properties: Record<string, GraphValue> = { name, type: label };
+  if (label === 'external') {
+    if (metadata.packageName) properties.packageName = metadata.packageName;
+    if (metadata.version) properties.version = metadata.version;
+  }
+  if (label === 'internal-file' && metadata.resolvedPath) properties.file = metadata.resolvedPath;
+
+  return { id, label, name, properties, virtual: true };
+}
+
+function scalarProperties(metadata: Record<string, any>): Record<string, GraphValue> {
+  const properties: Record<string, GraphValue> = {};
+  for (const [key, value] of Object.entries(metadata)) {
+    if (isScalar(value)) properties[key] = value;
+  }
+  return properties;
+}
+
+function isScalar(value: unknown): value is GraphValue {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
@@ -0,0 +1,98 @@
+/**
+ * GraphML formatter
+ * Directed graph for yEd, Gephi and other GraphML tools
+ */
+
+import type { KnowledgeGraph, ParserConfig } from '../types/index.js';
+import { collectGraphData, type GraphValue } from './graph-data.js';
+
+type AttributeType = 'string' | 'int' | 'double' | 'boolean';
+
+/**
+ * Formats knowledge graph as GraphML
+ *
+ * Node and edge properties become typed `<key>` attributes; every node also gets a
+ * `label` (its name, used by Gephi and yEd).
+ */
+export class GraphMlFormatter {
+  constructor(
+    private graph: KnowledgeGraph,
+    private config: ParserConfig
+  ) {}
+
+  format(): string {
+    const { nodes, edges } = collectGraphData(this.graph);
+    const nodeRows = nodes.map((node) => ({
+      id: node.id,
+      data: { label: node.name, ...node.properties } as Record<string, GraphValue>,
+    }));
+    const edgeRows = edges.map((edge) => ({ edge, data: { type: edge.type, ...edge.properties } as Record<string, GraphValue> }));
+
+    const nodeKeys = attributeTypes(nodeRows.map((row) => row.data));
+    const edgeKeys = attributeTypes(edgeRows.map((row) => row.data));
+
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<graphml xmlns="http://graphml.graphdrawing.org/xmlns"',
+      '         xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+      '         xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    ];
+    for (const [name, type] of nodeKeys) {
+      lines.push(`  <key id="n_${escapeXml(name)}" for="node" attr.name="${escapeXml(name)}" attr.type="${type}"/>`);
+    }
+    for (const [name, type] of edgeKeys) {
+      lines.push(`  <key id="e_${escapeXml(name)}" for="edge" attr.name="${escapeXml(name)}" attr.type="${type}"/>`);
+    }
+
+    lines.push('  <graph id="ng-parser" edgedefault="directed">');
+    for (const row of nodeRows) {
+      lines.push(`    <node id="${escapeXml(row.id)}">`, ...dataLines('n', row.data), '    </node>');
+    }
+    edgeRows.forEach(({ edge, data }, index) => {
+      lines.push(
+        `    <edge id="e${index}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">`,
+        ...dataLines('e', data),
+        '    </edge>'
+      );
+    });
+    lines.push('  </graph>', '</graphml>');
+
+    return lines.join('\n') + '\n';
+  }
+}
+
+/**
+ * Attribute type of every key; keys with mixed types are strings
+ */
+function attributeTypes(rows: Array<Record<string, GraphValue>>): Map<string, AttributeType> {
+  const types = new Map<string, AttributeType>();
+  for (const row of rows) {
+    for (const [key, value] of Object.entries(row)) {
+      const type: AttributeType = typeof value === 'boolean' ? 'boolean'
+        : typeof value === 'number' ? (Number.isInteger(value) ? 'int' : 'double')
+        : 'string';
+      const known = types.get(key);
+      if (known === undefined) {
+        types.set(key, type);
+      } else if (known !== type) {
+        types.set(key, known === 'int' && type === 'double' || known === 'double' && type === 'int' ? 'double' : 'string');
+      }
+    }
+  }
+  return types;
+}
+
+function dataLines(prefix: string, data: Record<string, GraphValue>): string[] {
+  return Object.entries(data).map(
+    ([key, value]) => `      <data key="${prefix}_${escapeXml(key)}">${escapeXml(String(value))}</data>`
+  );
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -340,6 +340,7 @@ export class HtmlFormatter {
     .badge-module { background: #fef3c7; color: #92400e; }
     .badge-directive { background: #e9d5ff; color: #6b21a8; }
     .badge-pipe { background: #fce7f3; color: #9f1239; }
+    .badge-route { background: #ccfbf1; color: #115e59; }
     .badge-standalone { background: #dcfce7; color: #166534; }
     .badge-signal { background: #fef08a; color: #854d0e; }
 
@@ -1397,6 +1398,7 @@ export class HtmlFormatter {
         directive: '#8b5cf6',      // Purple
         pipe: '#ec4899',           // Pink
         constant: '#f97316',       // Orange (InjectionTokens, constants)
+        route: '#14b8a6',          // Teal (router configuration)
         external: '#94a3b8',       // Gray (external packages)
         unresolved: '#ef4444',     // Red (unresolved dependencies)
         'internal-file': '#06b6d4' // Cyan (internal files, not entities)
@@ -2306,6 +2308,7 @@ export class HtmlFormatter {
       module: 'NgModules',
       directive: 'Directives',
       pipe: 'Pipes',
+      route: 'Routes',
     };
     return descriptions[type] || type;
   }
@@ -1,12 +1,44 @@
 /**
  * JSON-LD context for GraphRAG format
- * Can be referenced externally to reduce duplication
+ * Can be referenced externally to reduce duplication (jsonld-context.json holds the same context)
  */
 
 export const JSONLD_CONTEXT = {
   '@vocab': 'https://schema.org/',
   angular: 'https://angular.io/api/',
   code: 'https://schema.org/SoftwareSourceCode',
+  ng: 'https://github.com/apelleti/ng-parser/vocab#',
+  entity: 'urn:ng-parser:entity:',
+
+  // Entity properties
+  url: { '@id': 'https://schema.org/url', '@type': '@id' },
+  filePath: 'ng:filePath',
+  line: 'ng:line',
+  project: 'ng:project',
+  selector: 'ng:selector',
+  standalone: 'ng:standalone',
+  changeDetection: 'ng:changeDetection',
+  providedIn: 'ng:providedIn',
+  pipeName: 'ng:pipeName',
+  pure: 'ng:pure',
+  path: 'ng:path',
+  fullPath: 'ng:fullPath',
+  inputs: 'ng:input',
+  outputs: 'ng:output',
+  angularVersion: 'ng:angularVersion',
+
+  // Relationships (source entity -> target entity)
+  imports: { '@id': 'ng:imports', '@type': '@id' },
+  exports: { '@id': 'ng:exports', '@type': '@id' },
+  declares: { '@id': 'ng:declares', '@type': '@id' },
+  provides: { '@id': 'ng:provides', '@type': '@id' },
+  injects: { '@id': 'ng:injects', '@type': '@id' },
+  uses: { '@id': 'ng:uses', '@type': '@id' },
+  usesInTemplate: { '@id': 'ng:usesInTemplate', '@type': '@id' },
+  defersInTemplate: { '@id': 'ng:defersInTemplate', '@type': '@id' },
+  routesTo: { '@id': 'ng:routesTo', '@type': '@id' },
+  guardedBy: { '@id': 'ng:guardedBy', '@type': '@id' },
+  lazyLoads: { '@id': 'ng:lazyLoads', '@type': '@id' },
 };
 
 export const JSONLD_CONTEXT_URL = 'https://raw.githubusercontent.com/apelleti/ng-parser/main/src/formatters/jsonld-context.json';
@@ -0,0 +1,125 @@
+/**
+ * JSON-LD formatter
+ * Emits the knowledge graph as a JSON-LD @graph for triple stores and GraphRAG tooling
+ */
+
+import type { Entity, JsonLdOptions, KnowledgeGraph, ParserConfig } from '../types/index.js';
+import { EntityType } from '../types/index.js';
+import { JSONLD_CONTEXT, JSONLD_CONTEXT_URL } from './jsonld-context.js';
+import { getProjectName } from '../utils/file-helpers.js';
+
+/**
+ * @type of each entity type, in the ng: vocabulary
+ */
+const ENTITY_TYPES: Record<EntityType, string> = {
+  [EntityType.Component]: 'ng:Component',
+  [EntityType.Directive]: 'ng:Directive',
+  [EntityType.Pipe]: 'ng:Pipe',
+  [EntityType.Service]: 'ng:Service',
+  [EntityType.Injectable]: 'ng:Injectable',
+  [EntityType.Module]: 'ng:NgModule',
+  [EntityType.Route]: 'ng:Route',
+  [EntityType.Interface]: 'ng:Interface',
+  [EntityType.Class]: 'ng:Class',
+  [EntityType.Function]: 'ng:Function',
+  [EntityType.Constant]: 'ng:Constant',
+};
+
+/**
+ * Scalar entity fields exported as is (all mapped in JSONLD_CONTEXT)
+ */
+const SCALAR_FIELDS = [
+  'selector', 'standalone', 'changeDetection', 'providedIn', 'pipeName', 'pure', 'path', 'fullPath', 'project',
+] as const;
+
+/**
+ * Formats knowledge graph as JSON-LD
+ *
+ * Every entity becomes a node with a stable `@id` (`entity:` + entity ID) and relationships
+ * become properties linking the source node to target node IDs (`"injects": ["entity:..."]`).
+ */
+export class JsonLdFormatter {
+  constructor(
+    private graph: KnowledgeGraph,
+    private config: ParserConfig,
+    private options: JsonLdOptions = {}
+  ) {
+    const context = options.context ?? 'embed';
+    if (context !== 'embed' && context !== 'url') {
+      throw new Error(`Unknown JSON-LD context mode: ${context} (expected embed or url)`);
+    }
+  }
+
+  format(): any {
+    const links = this.collectLinks();
+    const { metadata } = this.graph;
+
+    return {
+      '@context': this.options.context === 'url' ? JSONLD_CONTEXT_URL : JSONLD_CONTEXT,
+      '@graph': [
+        {
+          '@id': 'entity:project',
+          '@type': 'code',
+          name: metadata.projectName ?? getProjectName(this.config.rootDir),
+          programmingLanguage: 'TypeScript',
+          ...(metadata.angularVersion && { angularVersion: metadata.angularVersion }),
+          dateCreated: metadata.timestamp,
+        },
+        ...Array.from(this.graph.entities.values()).map((entity) => ({
+          ...this.formatEntity(entity),
+          ...Object.fromEntries(links.get(entity.id) ?? []),
+        })),
+      ],
+    };
+  }
+
+  private formatEntity(entity: Entity): Record<string, any> {
+    const node: Record<string, any> = {
+      '@id': toNodeId(entity.id),
+      '@type': ENTITY_TYPES[entity.type] ?? `ng:${entity.type}`,
+      name: entity.name,
+      filePath: entity.location.filePath,
+      line: entity.location.line,
+    };
+
+    if (entity.location.sourceUrl) node.url = entity.location.sourceUrl;
+    if (entity.documentation) node.description = entity.documentation;
+
+    const fields = entity as any;
+    for (const field of SCALAR_FIELDS) {
+      if (fields[field] !== undefined && fields[field] !== '') node[field] = fields[field];
+    }
+    if (fields.inputs?.length) node.inputs = fields.inputs.map((input: any) => input.name);
+    if (fields.outputs?.length) node.outputs = fields.outputs.map((output: any) => output.name);
+
+    return node;
+  }
+
+  /**
+   * Relationship targets per source entity and relationship type (deduplicated, in order)
+   */
+  private collectLinks(): Map<string, Map<string, string[]>> {
+    const links = new Map<string, Map<string, string[]>>();
+
+    for (const rel of this.graph.relationships) {
+      if (!this.graph.entities.has(rel.source) || !this.graph.entities.has(rel.target)) continue;
+
+      if (!links.has(rel.source)) links.set(rel.source, new Map());
+      const byType = links.get(rel.source)!;
+      if (!byType.has(rel.type)) byType.set(rel.type, []);
+
+      const targets = byType.get(rel.type)!;
+      const target = toNodeId(rel.target);
+      if (!targets.includes(target)) targets.push(target);
+    }
+
+    return links;
+  }
+}
+
+/**
+ * Stable node ID of an entity (compact IRI expanding to urn:ng-parser:entity:<entity ID>)
+ */
+export function toNodeId(entityId: string): string {
+  return `entity:${encodeURI(entityId)}`;
+}
@@ -0,0 +1,72 @@
+/**
+ * JUnit formatter
+ * JUnit XML for CI test report tabs (one test suite per file, one test case per finding)
+ */
+
+import type { Finding } from '../core/findings.js';
+
+/**
+ * Formats findings as JUnit XML
+ *
+ * Errors and warnings are failures (`type` is the severity); info findings are
+ * passing test cases with the message as `system-out`.
+ */
+export class JUnitFormatter {
+  constructor(private findings: Finding[]) {}
+
+  format(): string {
+    const byFile = new Map<string, Finding[]>();
+    for (const finding of this.findings) {
+      const file = finding.location?.filePath ?? '(project)';
+      byFile.set(file, [...(byFile.get(file) ?? []), finding]);
+    }
+
+    const failures = this.findings.filter((f) => f.severity !== 'info').length;
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="ng-parser" tests="${this.findings.length}" failures="${failures}" errors="0">`,
+    ];
+
+    for (const [file, findings] of byFile) {
+      const fileFailures = findings.filter((f) => f.severity !== 'info').length;
+      lines.push(
+        `  <testsuite name="${escapeXml(file)}" tests="${findings.length}" failures="${fileFailures}" errors="0">`
+      );
+      for (const finding of findings) {
+        const position = finding.location ? `${finding.location.line}:${finding.location.column}` : '';
+        const name = escapeXml(`${file}${position ? `:${position}` : ''} ${finding.ruleId}`);
+        lines.push(`    <testcase name="${name}" classname="${escapeXml(finding.ruleId)}">`);
+        if (finding.severity === 'info') {
+          lines.push(`      <system-out>${escapeXml(finding.message)}</system-out>`);
+        } else {
+          lines.push(
+            `      <failure type="${finding.severity}" message="${escapeXml(finding.message)}">` +
+            `${escapeXml(describe(finding, file, position))}</failure>`
+          );
+        }
+        lines.push('    </testcase>');
+      }
+      lines.push('  </testsuite>');
+    }
+
+    lines.push('</testsuites>');
+    return lines.join('\n') + '\n';
+  }
+}
+
+function describe(finding: Finding, file: string, position: string): string {
+  return [
+    `${finding.severity}: ${finding.message} [${finding.ruleId}]`,
+    `at ${file}${position ? `:${position}` : ''}`,
+    ...(finding.fix ? [`fix: ${finding.fix}`] : []),
+  ].join('\n');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
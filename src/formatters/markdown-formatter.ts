@@ -0,0 +1,397 @@
+/**
+ * Markdown formatter
+ * Renders the knowledge graph as Markdown for LLM prompts and wikis, at four detail levels
+ */
+
+import type {
+  ComponentEntity,
+  DetailLevel,
+  DirectiveEntity,
+  Entity,
+  HierarchyNode,
+  InputMetadata,
+  KnowledgeGraph,
+  ModuleEntity,
+  OutputMetadata,
+  ParserConfig,
+  PipeEntity,
+  Relationship,
+  RouteEntity,
+  ServiceEntity,
+} from '../types/index.js';
+import { getProjectName } from '../utils/file-helpers.js';
+
+/**
+ * Detail levels, each one including everything of the previous ones
+ *
+ * - overview: project metadata, entity counts and feature summaries
+ * - features: entity table per feature
+ * - detailed: per-entity inputs/outputs, DI, module/route metadata and architecture context
+ * - complete: template and style analysis, all relationships and the hierarchy
+ */
+export const DETAIL_LEVELS: readonly DetailLevel[] = ['overview', 'features', 'detailed', 'complete'];
+
+/**
+ * Section titles of entity types, in output order
+ */
+const TYPE_LABELS: Record<string, string> = {
+  component: 'Components',
+  directive: 'Directives',
+  pipe: 'Pipes',
+  service: 'Services',
+  injectable: 'Injectables',
+  module: 'Modules',
+  route: 'Routes',
+  constant: 'Constants',
+};
+
+interface Feature {
+  name: string;
+  entities: Entity[];
+}
+
+/**
+ * Formats knowledge graph as Markdown
+ */
+export class MarkdownFormatter {
+  private outgoing = new Map<string, Relationship[]>();
+  private incoming = new Map<string, Relationship[]>();
+
+  constructor(
+    private graph: KnowledgeGraph,
+    private config: ParserConfig,
+    private level: DetailLevel = 'complete'
+  ) {
+    if (!DETAIL_LEVELS.includes(level)) {
+      throw new Error(`Unknown detail level: ${level} (expected ${DETAIL_LEVELS.join(', ')})`);
+    }
+
+    for (const rel of graph.relationships) {
+      if (!this.outgoing.has(rel.source)) this.outgoing.set(rel.source, []);
+      this.outgoing.get(rel.source)!.push(rel);
+      if (!this.incoming.has(rel.target)) this.incoming.set(rel.target, []);
+      this.incoming.get(rel.target)!.push(rel);
+    }
+  }
+
+  format(): string {
+    const features = this.collectFeatures();
+    const lines: string[] = [...this.formatFrontmatter(), `# Angular Project: ${this.projectName()}`, ''];
+
+    lines.push(...this.formatSummary(features));
+
+    if (this.includes('features')) {
+      for (const feature of features) {
+        lines.push(...this.formatFeature(feature));
+      }
+    }
+
+    if (this.includes('complete')) {
+      lines.push(...this.formatRelationships(), ...this.formatHierarchy());
+    }
+
+    return lines.join('\n').trimEnd() + '\n';
+  }
+
+  private includes(level: DetailLevel): boolean {
+    return DETAIL_LEVELS.indexOf(this.level) >= DETAIL_LEVELS.indexOf(level);
+  }
+
+  private formatFrontmatter(): string[] {
+    const { metadata } = this.graph;
+    return [
+      '---',
+      `project: ${this.projectName()}`,
+      ...(metadata.angularVersion ? [`angularVersion: ${metadata.angularVersion}`] : []),
+      `level: ${this.level}`,
+      `totalEntities: ${metadata.totalEntities}`,
+      `totalRelationships: ${metadata.totalRelationships}`,
+      `generatedAt: ${metadata.timestamp}`,
+      '---',
+      '',
+    ];
+  }
+
+  private formatSummary(features: Feature[]): string[] {
+    const lines = ['## Summary', '', '| Type | Count |', '|---|---|'];
+    for (const [type, count] of this.countByType(Array.from(this.graph.entities.values()))) {
+      lines.push(`| ${TYPE_LABELS[type] ?? type} | ${count} |`);
+    }
+    lines.push('');
+
+    const workspace = this.graph.metadata.workspace;
+    if (workspace) {
+      lines.push(`## Projects (${workspace.type === 'nx' ? 'Nx' : 'Angular'} workspace)`, '');
+      for (const project of workspace.projects) {
+        const dependencies = project.dependencies?.length ? ` → ${project.dependencies.join(', ')}` : '';
+        lines.push(`- **${project.name}** (${project.projectType}, \`${project.root || '.'}\`)${dependencies}`);
+      }
+      lines.push('');
+    }
+
+    lines.push('## Features', '');
+    for (const feature of features) {
+      const counts = this.countByType(feature.entities)
+        .map(([type, count]) => `${count} ${(TYPE_LABELS[type] ?? type).toLowerCase()}`)
+        .join(', ');
+      lines.push(`- **${feature.name}**: ${feature.entities.length} entities (${counts})`);
+    }
+    lines.push('');
+
+    return lines;
+  }
+
+  private formatFeature(feature: Feature): string[] {
+    const lines = [`## Feature: ${feature.name}`, '', '| Entity | Type | Selector / Path | File |', '|---|---|---|---|'];
+    for (const entity of feature.entities) {
+      lines.push(
+        `| ${cell(entity.name)} | ${entity.type} | ${cell(this.identifier(entity))} | ${cell(this.fileLink(entity))} |`
+      );
+    }
+    lines.push('');
+
+    if (this.includes('detailed')) {
+      for (const entity of feature.entities) {
+        lines.push(...this.formatEntity(entity));
+      }
+    }
+
+    return lines;
+  }
+
+  private formatEntity(entity: Entity): string[] {
+    const lines = [`### ${entity.name} (${entity.type})`, ''];
+    const facts = [`File: ${this.fileLink(entity)}`, ...this.entityFacts(entity)];
+    facts.forEach((fact) => lines.push(`- ${fact}`));
+    if (entity.documentation) {
+      lines.push('', `> ${entity.documentation.replace(/\n/g, '\n> ')}`);
+    }
+    lines.push('');
+
+    const component = entity as ComponentEntity | DirectiveEntity;
+    if (component.inputs?.length) lines.push(...this.formatInputs(component.inputs));
+    if (component.outputs?.length) lines.push(...this.formatOutputs(component.outputs));
+
+    const service = entity as ServiceEntity;
+    if (service.dependencies?.length) {
+      lines.push('**Dependencies (DI)**', '');
+      for (const dep of service.dependencies) {
+        const flags = (['optional', 'self', 'skipSelf', 'host'] as const).filter((flag) => dep[flag]);
+        lines.push(`- \`${dep.name}\`: \`${dep.type}\`${flags.length ? ` (${flags.join(', ')})` : ''}`);
+      }
+      lines.push('');
+    }
+
+    lines.push(...this.formatArchitecture(entity));
+
+    if (this.includes('complete') && entity.type === 'component') {
+      lines.push(...this.formatTemplate(entity as ComponentEntity), ...this.formatStyles(entity as ComponentEntity));
+    }
+
+    return lines;
+  }
+
+  /**
+   * One-line facts of an entity (selector, flags, module/route/pipe metadata)
+   */
+  private entityFacts(entity: Entity): string[] {
+    const facts: string[] = [];
+    const any = entity as any;
+
+    if (any.selector) facts.push(`Selector: \`${any.selector}\``);
+    if (entity.project) facts.push(`Project: ${entity.project}`);
+
+    const flags = [
+      any.standalone ? 'standalone' : undefined,
+      any.changeDetection === 'OnPush' ? 'OnPush' : undefined,
+      any.providedIn ? `providedIn: '${any.providedIn}'` : undefined,
+    ].filter(Boolean);
+    if (flags.length) facts.push(`Flags: ${flags.join(', ')}`);
+
+    if (entity.type === 'module') {
+      const module = entity as ModuleEntity;
+      for (const key of ['declarations', 'imports', 'exports', 'providers', 'bootstrap'] as const) {
+        if (module[key]?.length) facts.push(`${capitalize(key)}: ${module[key]!.join(', ')}`);
+      }
+    } else if (entity.type === 'route') {
+      const route = entity as RouteEntity;
+      facts.push(`Path: \`${route.fullPath}\``);
+      if (route.component) facts.push(`Component: ${route.component}`);
+      if (route.loadComponent) facts.push(`Lazy component: \`${route.loadComponent}\``);
+      if (route.loadChildren) facts.push(`Lazy children: \`${route.loadChildren}\``);
+      if (route.redirectTo !== undefined) facts.push(`Redirects to: \`${route.redirectTo}\``);
+      if (route.guards?.length) facts.push(`Guards: ${route.guards.map((g) => `${g.name} (${g.guardType})`).join(', ')}`);
+    } else if (entity.type === 'pipe') {
+      const pipe = entity as PipeEntity;
+      facts.push(`Name: \`${pipe.pipeName}\`${pipe.pure === false ? ' (impure)' : ''}`);
+    }
+
+    if (entity.type !== 'module' && any.providers?.length) facts.push(`Providers: ${any.providers.join(', ')}`);
+    if (entity.type === 'component' && any.imports?.length) facts.push(`Imports: ${any.imports.join(', ')}`);
+    if (any.lifecycle?.length) facts.push(`Lifecycle: ${any.lifecycle.join(', ')}`);
+
+    return facts;
+  }
+
+  private formatInputs(inputs: InputMetadata[]): string[] {
+    const lines = ['**Inputs**', '', '| Name | Type | Required | Signal |', '|---|---|---|---|'];
+    for (const input of inputs) {
+      lines.push(
+        `| ${cell(input.name)} | ${cell(input.type ? `\`${input.type}\`` : '')} | ${input.required ? 'yes' : ''} | ${input.isSignal ? 'yes' : ''} |`
+      );
+    }
+    return [...lines, ''];
+  }
+
+  private formatOutputs(outputs: OutputMetadata[]): string[] {
+    const lines = ['**Outputs**', '', '| Name | Type | Signal |', '|---|---|---|'];
+    for (const output of outputs) {
+      lines.push(`| ${cell(output.name)} | ${cell(output.type ? `\`${output.type}\`` : '')} | ${output.isSignal ? 'yes' : ''} |`);
+    }
+    return [...lines, ''];
+  }
+
+  /**
+   * What the entity uses (→), and what uses it (←), grouped by relationship type
+   */
+  private formatArchitecture(entity: Entity): string[] {
+    const uses = this.groupByType(this.outgoing.get(entity.id) ?? [], (rel) => rel.target);
+    const usedBy = this.groupByType(this.incoming.get(entity.id) ?? [], (rel) => rel.source);
+    if (uses.length === 0 && usedBy.length === 0) return [];
+
+    const lines = ['**Architecture**', ''];
+    uses.forEach(([type, names]) => lines.push(`- → ${type}: ${names.join(', ')}`));
+    usedBy.forEach(([type, names]) => lines.push(`- ← ${type}: ${names.join(', ')}`));
+    return [...lines, ''];
+  }
+
+  private formatTemplate(component: ComponentEntity): string[] {
+    const analysis = component.templateAnalysis;
+    if (!analysis) return [];
+
+    const lines = ['**Template**', ''];
+    if (component.templateLocation) lines.push(`- File: \`${component.templateLocation.filePath}\``);
+    if (analysis.usedComponents.length) lines.push(`- Components: ${code(analysis.usedComponents)}`);
+    if (analysis.deferredComponents?.length) lines.push(`- Deferred components: ${code(analysis.deferredComponents)}`);
+    if (analysis.usedDirectives.length) lines.push(`- Directives: ${code(analysis.usedDirectives)}`);
+    if (analysis.usedPipes.length) lines.push(`- Pipes: ${code(analysis.usedPipes)}`);
+    if (analysis.templateRefs.length) lines.push(`- Template refs: ${code(analysis.templateRefs)}`);
+    for (const block of analysis.controlFlow ?? []) {
+      const details = [
+        block.alias && block.type !== 'let' ? `as ${block.alias}` : undefined,
+        block.track ? `track ${block.track}` : undefined,
+        block.triggers?.length ? `on ${block.triggers.map((t) => t.expression ?? t.type).join(', ')}` : undefined,
+        block.prefetchTriggers?.length ? `prefetch on ${block.prefetchTriggers.map((t) => t.type).join(', ')}` : undefined,
+        block.branches?.length ? `+ ${block.branches.join(', ')}` : undefined,
+      ].filter(Boolean);
+      const head = block.type === 'let' ? `@let ${block.alias} = ${block.expression}` : `@${block.type}${block.expression ? ` (${block.expression})` : ''}`;
+      lines.push(`- \`${head}\`${details.length ? ` ${details.join('; ')}` : ''}`);
+    }
+    if (analysis.complexity !== undefined) lines.push(`- Complexity: ${analysis.complexity}`);
+    return [...lines, ''];
+  }
+
+  private formatStyles(component: ComponentEntity): string[] {
+    const files = component.styleAnalysis?.files ?? [];
+    const locations = component.styleLocations ?? [];
+    if (files.length === 0 && locations.length === 0) return [];
+
+    const lines = ['**Styles**', ''];
+    for (const location of locations) {
+      const file = files.find((f) => f.filePath === location.filePath);
+      const dependencies = [...(file?.imports ?? []), ...(file?.uses ?? []), ...(file?.forwards ?? [])].map((dep) => dep.path);
+      lines.push(
+        `- \`${location.filePath}\`${location.exists ? '' : ' (missing)'}` +
+        (dependencies.length ? `: ${code(dependencies)}` : '')
+      );
+    }
+    return [...lines, ''];
+  }
+
+  private formatRelationships(): string[] {
+    const lines = ['## Relationships', '', '| Source | Type | Target |', '|---|---|---|'];
+    for (const rel of this.graph.relationships) {
+      lines.push(`| ${cell(this.nameOf(rel.source))} | ${rel.type} | ${cell(this.nameOf(rel.target))} |`);
+    }
+    return [...lines, ''];
+  }
+
+  private formatHierarchy(): string[] {
+    const lines = ['## Hierarchy', ''];
+    const visit = (node: HierarchyNode, depth: number) => {
+      const entities = node.entities.map((id) => this.nameOf(id)).join(', ');
+      lines.push(`${'  '.repeat(depth)}- **${node.name}** (${node.type})${entities ? `: ${entities}` : ''}`);
+      node.children.forEach((child) => visit(child, depth + 1));
+    };
+    visit(this.graph.hierarchy, 0);
+    return [...lines, ''];
+  }
+
+  /**
+   * Features are the top-level clusters of the hierarchy; entities left at the root are shared
+   */
+  private collectFeatures(): Feature[] {
+    const toEntities = (ids: string[]) =>
+      ids.map((id) => this.graph.entities.get(id)).filter((e): e is Entity => e !== undefined);
+    const collectIds = (node: HierarchyNode): string[] => [...node.entities, ...node.children.flatMap(collectIds)];
+
+    const features = this.graph.hierarchy.children
+      .map((node) => ({ name: node.name, entities: toEntities(collectIds(node)) }))
+      .filter((feature) => feature.entities.length > 0);
+
+    const shared = toEntities(this.graph.hierarchy.entities);
+    if (shared.length > 0) features.push({ name: 'shared', entities: shared });
+
+    return features;
+  }
+
+  private countByType(entities: Entity[]): Array<[string, number]> {
+    const counts = new Map<string, number>();
+    entities.forEach((entity) => counts.set(entity.type, (counts.get(entity.type) ?? 0) + 1));
+
+    const order = Object.keys(TYPE_LABELS);
+    const rank = (type: string) => (order.includes(type) ? order.indexOf(type) : order.length);
+    return Array.from(counts).sort(([a], [b]) => rank(a) - rank(b) || a.localeCompare(b));
+  }
+
+  private groupByType(relationships: Relationship[], end: (rel: Relationship) => string): Array<[string, string[]]> {
+    const groups = new Map<string, Set<string>>();
+    for (const rel of relationships) {
+      if (!groups.has(rel.type)) groups.set(rel.type, new Set());
+      groups.get(rel.type)!.add(this.nameOf(end(rel)));
+    }
+    return Array.from(groups).map(([type, names]) => [type, Array.from(names)]);
+  }
+
+  private identifier(entity: Entity): string {
+    const any = entity as any;
+    if (entity.type === 'route') return `\`${(entity as RouteEntity).fullPath}\``;
+    if (entity.type === 'pipe') return `\`${(entity as PipeEntity).pipeName}\``;
+    return any.selector ? `\`${any.selector}\`` : '';
+  }
+
+  private fileLink(entity: Entity): string {
+    const { filePath, line, sourceUrl } = entity.location;
+    return sourceUrl ? `[${filePath}:${line}](${sourceUrl})` : `\`${filePath}:${line}\``;
+  }
+
+  private nameOf(id: string): string {
+    return this.graph.entities.get(id)?.name ?? id;
+  }
+
+  private projectName(): string {
+    return this.graph.metadata.projectName ?? getProjectName(this.config.rootDir);
+  }
+}
+
+function cell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function code(values: string[]): string {
+  return values.map((value) => `\`${value}\``).join(', ');
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
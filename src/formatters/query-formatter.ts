@@ -0,0 +1,159 @@
+/**
+ * Query formatter
+ * Renders a GraphQuery result as text, JSON or Markdown
+ */
+
+import type { QueryResult } from '../core/graph-query.js';
+import type { Entity } from '../types/index.js';
+import type { DiffFormat } from './diff-formatter.js';
+
+/**
+ * Formats graph query results; JSON output lists entities as `{id, type, name, file}`
+ */
+export class QueryFormatter {
+  constructor(private result: QueryResult) {}
+
+  format(format: DiffFormat): string {
+    switch (format) {
+      case 'json':
+        return JSON.stringify(this.toJSON(), null, 2);
+      case 'markdown':
+        return this.toMarkdown();
+      case 'text':
+      default:
+        return this.toText();
+    }
+  }
+
+  toJSON(): object {
+    const result = this.result;
+    switch (result.kind) {
+      case 'entities':
+        return { kind: result.kind, count: result.entities.length, entities: result.entities.map(summarize) };
+      case 'dependencies':
+      case 'dependents':
+        return {
+          kind: result.kind,
+          root: summarize(result.root),
+          count: result.steps.length,
+          entities: result.steps.map((step) => ({
+            ...summarize(step.entity),
+            depth: step.depth,
+            from: step.from,
+            relation: step.relation,
+          })),
+        };
+      case 'path':
+        return {
+          kind: result.kind,
+          from: summarize(result.from),
+          to: summarize(result.to),
+          found: result.path !== undefined,
+          path: result.path?.map((step) => ({
+            ...summarize(step.entity),
+            ...(step.relation && { relation: step.relation }),
+            ...(step.reverse && { reverse: true }),
+          })),
+        };
+    }
+  }
+
+  /**
+   * Plain text output for terminals
+   */
+  toText(): string {
+    const result = this.result;
+    const lines: string[] = [];
+
+    switch (result.kind) {
+      case 'entities':
+        lines.push(`${result.entities.length} ${plural(result.entities.length, 'entity', 'entities')}`, '');
+        result.entities.forEach((e) => lines.push(`  ${e.type} ${e.name} (${e.location.filePath})`));
+        break;
+      case 'dependencies':
+      case 'dependents': {
+        lines.push(
+          `${result.steps.length} ${result.kind === 'dependencies' ? 'dependencies of' : 'dependents of'} ` +
+          `${result.root.type} ${result.root.name}`,
+          ''
+        );
+        const writeTree = (from: string, depth: number) => {
+          for (const step of result.steps.filter((s) => s.from === from)) {
+            const arrow = result.kind === 'dependencies' ? `--${step.relation}-->` : `<--${step.relation}--`;
+            lines.push(`  ${'  '.repeat(depth)}${arrow} ${step.entity.type} ${step.entity.name}`);
+            writeTree(step.entity.id, depth + 1);
+          }
+        };
+        writeTree(result.root.id, 0);
+        break;
+      }
+      case 'path': {
+        if (!result.path) {
+          lines.push(`No path from ${result.from.name} to ${result.to.name}`);
+          break;
+        }
+        const hops = result.path.length - 1;
+        lines.push(`Path from ${result.from.name} to ${result.to.name} (${hops} ${plural(hops, 'hop', 'hops')})`, '');
+        result.path.forEach((step, index) => {
+          const prefix = index === 0 ? '' : step.reverse ? `<--${step.relation}-- ` : `--${step.relation}--> `;
+          lines.push(`  ${prefix}${step.entity.type} ${step.entity.name}`);
+        });
+        break;
+      }
+    }
+
+    return lines.join('\n').trimEnd() + '\n';
+  }
+
+  /**
+   * Markdown output
+   */
+  toMarkdown(): string {
+    const result = this.result;
+    const lines: string[] = [];
+
+    switch (result.kind) {
+      case 'entities':
+        lines.push(`## Query results (${result.entities.length})`, '', '| Name | Type | File |', '|---|---|---|');
+        result.entities.forEach((e) => lines.push(`| \`${e.name}\` | ${e.type} | \`${e.location.filePath}\` |`));
+        break;
+      case 'dependencies':
+      case 'dependents': {
+        lines.push(
+          `## ${result.kind === 'dependencies' ? 'Dependencies' : 'Dependents'} of \`${result.root.name}\` (${result.steps.length})`,
+          '',
+          '| Name | Type | Depth | Relation | Via |',
+          '|---|---|---|---|---|'
+        );
+        const names = new Map([result.root, ...result.steps.map((step) => step.entity)].map((e) => [e.id, e.name]));
+        for (const step of result.steps) {
+          lines.push(
+            `| \`${step.entity.name}\` | ${step.entity.type} | ${step.depth} | ${step.relation} | \`${names.get(step.from)}\` |`
+          );
+        }
+        break;
+      }
+      case 'path':
+        lines.push(`## Path from \`${result.from.name}\` to \`${result.to.name}\``, '');
+        if (!result.path) {
+          lines.push('No path found');
+          break;
+        }
+        result.path.forEach((step, index) => {
+          const relation = index === 0 ? '' : step.reverse ? ` ⬅ ${step.relation}` : ` ➡ ${step.relation}`;
+          lines.push(`${index + 1}.${relation} \`${step.entity.name}\` (${step.entity.type})`);
+        });
+        break;
+    }
+
+    return lines.join('\n') + '\n';
+  }
+}
+
+function summarize(entity: Entity) {
+  return { id: entity.id, type: entity.type, name: entity.name, file: entity.location.filePath };
+}
+
+function plural(count: number, singular: string, pluralForm: string): string {
+  return count === 1 ? singular : pluralForm;
+}
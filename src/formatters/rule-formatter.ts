@@ -0,0 +1,91 @@
+/**
+ * Rule formatter
+ * Renders a RuleReport as text, JSON or Markdown
+ */
+
+import type { RuleReport, RuleSeverity, RuleViolation } from '../core/rule-engine.js';
+import type { DiffFormat } from './diff-formatter.js';
+
+const SEVERITY_ICONS: Record<RuleSeverity, string> = {
+  error: '❌',
+  warning: '⚠️',
+  info: 'ℹ️',
+};
+
+/**
+ * Formats architecture rule violations grouped by file
+ */
+export class RuleFormatter {
+  constructor(private report: RuleReport) {}
+
+  format(format: DiffFormat): string {
+    switch (format) {
+      case 'json':
+        return JSON.stringify(this.report, null, 2);
+      case 'markdown':
+        return this.toMarkdown();
+      case 'text':
+      default:
+        return this.toText();
+    }
+  }
+
+  /**
+   * Plain text output for terminals (`file:line:column`, clickable in most editors)
+   */
+  toText(): string {
+    const lines: string[] = [];
+
+    for (const [file, violations] of this.byFile()) {
+      lines.push(file);
+      for (const v of violations) {
+        lines.push(`  ${v.location.line}:${v.location.column}  ${v.severity.padEnd(7)}  ${v.message}  [${v.code}]`);
+      }
+      lines.push('');
+    }
+
+    lines.push(this.summaryLine());
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Markdown output, suitable for pull request comments
+   */
+  toMarkdown(): string {
+    const lines = ['## ng-parser check', '', this.summaryLine(), ''];
+    if (this.report.violations.length === 0) {
+      return lines.join('\n');
+    }
+
+    lines.push('| | Rule | Location | Message |', '|---|---|---|---|');
+    for (const v of this.report.violations) {
+      lines.push(
+        `| ${SEVERITY_ICONS[v.severity]} | \`${v.code}\` | \`${v.location.filePath}:${v.location.line}\` | ${v.message.replace(/\|/g, '\\|')} |`
+      );
+    }
+    lines.push('');
+
+    return lines.join('\n');
+  }
+
+  private summaryLine(): string {
+    const { rules, summary } = this.report;
+    if (this.report.violations.length === 0) {
+      return `✅ ${rules} rule(s) passed`;
+    }
+    return `${summary.error} error(s), ${summary.warning} warning(s), ${summary.info} info (${rules} rule(s))`;
+  }
+
+  private byFile(): Map<string, RuleViolation[]> {
+    const files = new Map<string, RuleViolation[]>();
+    const sorted = [...this.report.violations].sort(
+      (a, b) => a.location.filePath.localeCompare(b.location.filePath) || a.location.line - b.location.line
+    );
+    for (const violation of sorted) {
+      const list = files.get(violation.location.filePath) ?? [];
+      list.push(violation);
+      files.set(violation.location.filePath, list);
+    }
+    return files;
+  }
+}
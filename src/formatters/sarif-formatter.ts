@@ -0,0 +1,78 @@
+/**
+ * SARIF formatter
+ * SARIF 2.1.0 log for code scanning UIs (GitHub code scanning, Azure DevOps, VS Code SARIF viewer)
+ */
+
+import { findingRules, type Finding, type FindingSeverity } from '../core/findings.js';
+
+export const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+const SARIF_LEVELS: Record<FindingSeverity, string> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note',
+};
+
+export interface SarifOptions {
+  toolVersion?: string;
+}
+
+/**
+ * Formats findings as a SARIF log with one run
+ *
+ * File paths are relative URIs against the `%SRCROOT%` base, so code scanning
+ * resolves them from the repository root.
+ */
+export class SarifFormatter {
+  constructor(
+    private findings: Finding[],
+    private options: SarifOptions = {}
+  ) {}
+
+  format(): string {
+    return JSON.stringify(this.toSarif(), null, 2);
+  }
+
+  toSarif(): object {
+    const rules = findingRules(this.findings);
+    const ruleIndex = new Map(rules.map((rule, index) => [rule.id, index]));
+
+    return {
+      $schema: SARIF_SCHEMA,
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: 'ng-parser',
+              ...(this.options.toolVersion && { version: this.options.toolVersion }),
+              informationUri: 'https://github.com/apelleti/ng-parser',
+              rules: rules.map((rule) => ({
+                id: rule.id,
+                shortDescription: { text: rule.description },
+                defaultConfiguration: { level: SARIF_LEVELS[rule.severity] },
+              })),
+            },
+          },
+          results: this.findings.map((finding) => ({
+            ruleId: finding.ruleId,
+            ruleIndex: ruleIndex.get(finding.ruleId),
+            level: SARIF_LEVELS[finding.severity],
+            message: { text: finding.message },
+            ...(finding.location && {
+              locations: [
+                {
+                  physicalLocation: {
+                    artifactLocation: { uri: encodeURI(finding.location.filePath), uriBaseId: '%SRCROOT%' },
+                    region: { startLine: finding.location.line, startColumn: finding.location.column },
+                  },
+                },
+              ],
+            }),
+            ...(finding.fix && { fixes: [{ description: { text: finding.fix } }] }),
+          })),
+        },
+      ],
+    };
+  }
+}
@@ -44,6 +44,7 @@ export class SimpleJsonFormatter {
       name: entity.name,
       file: entity.location.filePath,
       line: entity.location.line,
+      ...(entity.project && { project: entity.project }),
       ...this.extractTypeSpecificFields(entity),
     }));
   }
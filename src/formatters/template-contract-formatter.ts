@@ -0,0 +1,85 @@
+/**
+ * Template contract formatter
+ * Renders a TemplateContractReport as text, JSON or Markdown
+ */
+
+import type { TemplateContractReport, TemplateDiagnostic } from '../core/template-contract-validator.js';
+import type { TemplateMemberDiagnostic, TemplateMemberReport } from '../core/template-member-analyzer.js';
+import type { DiffFormat } from './diff-formatter.js';
+
+/**
+ * Formats template contract diagnostics, followed by member usage diagnostics when given
+ */
+export class TemplateContractFormatter {
+  constructor(
+    private report: TemplateContractReport,
+    private members?: TemplateMemberReport
+  ) {}
+
+  format(format: DiffFormat): string {
+    switch (format) {
+      case 'json':
+        return JSON.stringify(this.members ? { ...this.report, members: this.members } : this.report, null, 2);
+      case 'markdown':
+        return this.toMarkdown();
+      case 'text':
+      default:
+        return this.toText();
+    }
+  }
+
+  /**
+   * Plain text output for terminals
+   */
+  toText(): string {
+    const lines: string[] = [];
+
+    for (const diagnostic of this.diagnostics()) {
+      const { filePath, line, column } = diagnostic.location;
+      lines.push(`${filePath}:${line}:${column}  ${diagnostic.severity}  ${diagnostic.message}  [${diagnostic.code}]`);
+      if (diagnostic.sourceUrl) lines.push(`  ${diagnostic.sourceUrl}`);
+    }
+    if (this.diagnostics().length > 0) lines.push('');
+
+    lines.push(this.summaryLine());
+    if (this.members) lines.push(this.membersLine());
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Markdown output, suitable for pull request comments
+   */
+  toMarkdown(): string {
+    const lines = ['## ng-parser templates', '', this.summaryLine(), ...(this.members ? ['', this.membersLine()] : []), ''];
+
+    if (this.diagnostics().length > 0) {
+      lines.push('| Severity | Rule | Location | Message |', '|---|---|---|---|');
+      for (const d of this.diagnostics()) {
+        const location = `${d.location.filePath}:${d.location.line}`;
+        lines.push(
+          `| ${d.severity} | \`${d.code}\` | ${d.sourceUrl ? `[\`${location}\`](${d.sourceUrl})` : `\`${location}\``} | ` +
+          `${d.message.replace(/\|/g, '\\|').replace(/</g, '&lt;')} |`
+        );
+      }
+      lines.push('');
+    }
+
+    return lines.join('\n');
+  }
+
+  private summaryLine(): string {
+    const { templates, elements, bindings, errors, warnings } = this.report.summary;
+    return `${templates} templates, ${elements} elements, ${bindings} bindings checked: ${errors} errors, ${warnings} warnings`;
+  }
+
+  private membersLine(): string {
+    const components = this.members!.components;
+    const count = (key: 'used' | 'unusedPublic' | 'privateReferenced') =>
+      components.reduce((total, component) => total + component[key].length, 0);
+    return `Members: ${count('used')} used, ${count('unusedPublic')} public but unused, ${count('privateReferenced')} private but referenced`;
+  }
+
+  private diagnostics(): Array<TemplateDiagnostic | TemplateMemberDiagnostic> {
+    return [...this.report.diagnostics, ...(this.members?.diagnostics ?? [])];
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Unused entity formatter
+ * Renders an UnusedEntityReport as text, JSON or Markdown
+ */
+
+import type { UnusedEntityKind, UnusedEntityReport } from '../core/unused-entity-analyzer.js';
+import type { DiffFormat } from './diff-formatter.js';
+
+const KIND_LABELS: Record<UnusedEntityKind, string> = {
+  component: 'components',
+  directive: 'directives',
+  pipe: 'pipes',
+  service: 'services',
+  token: 'InjectionTokens',
+  module: 'NgModules',
+};
+
+/**
+ * Formats unused entity diagnostics
+ */
+export class UnusedEntityFormatter {
+  constructor(private report: UnusedEntityReport) {}
+
+  format(format: DiffFormat): string {
+    switch (format) {
+      case 'json':
+        return JSON.stringify(this.report, null, 2);
+      case 'markdown':
+        return this.toMarkdown();
+      case 'text':
+      default:
+        return this.toText();
+    }
+  }
+
+  /**
+   * Plain text output for terminals
+   */
+  toText(): string {
+    const lines: string[] = [];
+
+    for (const diagnostic of this.report.diagnostics) {
+      const { filePath, line, column } = diagnostic.location;
+      lines.push(`${filePath}:${line}:${column}  ${diagnostic.severity}  ${diagnostic.message}  [${diagnostic.code}]`);
+    }
+    if (this.report.diagnostics.length > 0) lines.push('');
+
+    lines.push(this.summaryLine());
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Markdown output, suitable for pull request comments
+   */
+  toMarkdown(): string {
+    const lines = ['## ng-parser unused', '', this.summaryLine(), ''];
+
+    if (this.report.diagnostics.length > 0) {
+      lines.push('| Kind | Entity | Location | Rule |', '|---|---|---|---|');
+      for (const d of this.report.diagnostics) {
+        lines.push(`| ${d.kind} | \`${d.name}\` | \`${d.location.filePath}:${d.location.line}\` | \`${d.code}\` |`);
+      }
+      lines.push('');
+    }
+
+    return lines.join('\n');
+  }
+
+  private summaryLine(): string {
+    const counts = (Object.keys(KIND_LABELS) as UnusedEntityKind[])
+      .filter((kind) => this.report.summary[kind].total > 0)
+      .map((kind) => `${this.report.summary[kind].unused}/${this.report.summary[kind].total} ${KIND_LABELS[kind]}`);
+    return `Unused: ${counts.length > 0 ? counts.join(', ') : 'nothing checked'} (${this.report.entryPoints.length} entry points)`;
+  }
+}
@@ -8,6 +8,113 @@
 
 // === Main API ===
 export { NgParser, type NgParseResult } from './core/ng-parser.js';
+export {
+  ProjectWatcher,
+  type ProjectWatcherOptions,
+  type WatchChangeSummary,
+} from './core/project-watcher.js';
+export {
+  diffResults,
+  diffEntity,
+  type DiffInput,
+  type ResultDiff,
+  type FieldChange,
+  type EntitySummary,
+  type ModifiedEntity,
+  type RelationshipSummary,
+} from './core/result-diff.js';
+export {
+  detectApiChanges,
+  type ApiChange,
+  type ApiChangeKind,
+  type ApiChangeReport,
+  type ChangeSeverity,
+} from './core/api-change-detector.js';
+export { analyzeImpact } from './core/impact-analyzer.js';
+export { chunkGraph, estimateTokens, DEFAULT_CHUNK_TOKENS } from './core/graph-chunker.js';
+export {
+  GraphQuery,
+  entityMatcher,
+  type QueryInput,
+  type QueryResult,
+  type EntityFilter,
+  type TraversalOptions,
+  type TraversalStep,
+  type PathOptions,
+  type PathStep,
+} from './core/graph-query.js';
+export {
+  GraphServer,
+  MCP_PROTOCOL_VERSION,
+  type GraphServerOptions,
+  type GraphServerTool,
+} from './core/graph-server.js';
+export {
+  evaluateRules,
+  validateRules,
+  DEFAULT_RULES_FILE,
+  type ArchitectureRule,
+  type NoDependencyRule,
+  type RequireRule,
+  type MaxRelationsRule,
+  type RulesConfig,
+  type RuleReport,
+  type RuleSeverity,
+  type RuleViolation,
+} from './core/rule-engine.js';
+export {
+  DiResolver,
+  resolveInjections,
+  type DiProvider,
+  type DiReport,
+  type DiDiagnostic,
+  type InjectorNode,
+  type InjectorKind,
+  type InjectFlags,
+  type InjectionResolution,
+  type InjectionStatus,
+} from './core/di-resolver.js';
+export type { ProviderInfo, ProviderKind } from './utils/provider-helpers.js';
+export {
+  TemplateContractValidator,
+  validateTemplates,
+  type TemplateContractReport,
+  type TemplateDiagnostic,
+} from './core/template-contract-validator.js';
+export {
+  analyzeTemplateMembers,
+  type ComponentMemberUsage,
+  type TemplateMemberDiagnostic,
+  type TemplateMemberReport,
+} from './core/template-member-analyzer.js';
+export {
+  findUnusedEntities,
+  type UnusedEntityDiagnostic,
+  type UnusedEntityKind,
+  type UnusedEntityOptions,
+  type UnusedEntityReport,
+} from './core/unused-entity-analyzer.js';
+export {
+  collectFindings,
+  fromWarning,
+  findingRules,
+  PATTERN_RULES,
+  type Finding,
+  type FindingRule,
+  type FindingSeverity,
+  type FindingsInput,
+  type FindingsOptions,
+} from './core/findings.js';
+export {
+  createBaseline,
+  applyBaseline,
+  fingerprintFinding,
+  validateBaseline,
+  DEFAULT_BASELINE_FILE,
+  type Baseline,
+  type BaselineEntry,
+  type BaselineResult,
+} from './core/baseline.js';
 
 // === Custom Visitor API ===
 export type {
@@ -38,6 +145,22 @@ export {
 // === Formatters ===
 export { SimpleJsonFormatter } from './formatters/simple-json-formatter.js';
 export { HtmlFormatter } from './formatters/html-formatter.js';
+export { MarkdownFormatter, DETAIL_LEVELS } from './formatters/markdown-formatter.js';
+export { JsonLdFormatter, toNodeId } from './formatters/jsonld-formatter.js';
+export { JSONLD_CONTEXT, JSONLD_CONTEXT_URL } from './formatters/jsonld-context.js';
+export { CypherFormatter } from './formatters/cypher-formatter.js';
+export { GraphMlFormatter } from './formatters/graphml-formatter.js';
+export { DotFormatter } from './formatters/dot-formatter.js';
+export { DiffFormatter, type DiffFormat } from './formatters/diff-formatter.js';
+export { ApiChangeFormatter } from './formatters/api-change-formatter.js';
+export { QueryFormatter } from './formatters/query-formatter.js';
+export { RuleFormatter } from './formatters/rule-formatter.js';
+export { DiFormatter } from './formatters/di-formatter.js';
+export { TemplateContractFormatter } from './formatters/template-contract-formatter.js';
+export { UnusedEntityFormatter } from './formatters/unused-entity-formatter.js';
+export { SarifFormatter, SARIF_SCHEMA, type SarifOptions } from './formatters/sarif-formatter.js';
+export { JUnitFormatter } from './formatters/junit-formatter.js';
+export { CheckstyleFormatter } from './formatters/checkstyle-formatter.js';
 
 // === Types ===
 export * from './types/index.js';
@@ -45,3 +168,4 @@ export * from './types/index.js';
 // === Utils ===
 export * from './utils/ast-helpers.js';
 export * from './utils/file-helpers.js';
+export * from './utils/suppression-helpers.js';
@@ -27,6 +27,7 @@ export interface Entity {
   documentation?: string;
   decorators?: DecoratorMetadata[];
   modifiers?: string[];
+  project?: string; // Owning workspace project (angular.json / project.json)
 }
 
 /**
@@ -81,6 +82,7 @@ export interface ComponentEntity extends Entity {
   encapsulation?: 'Emulated' | 'None' | 'ShadowDom';
   lifecycle?: string[];
   signals?: SignalMetadata[];
+  members?: MemberMetadata[];
 }
 
 /**
@@ -133,9 +135,50 @@ export interface ConstantEntity extends Entity {
   type: EntityType.Constant;
   constantType?: 'InjectionToken' | 'const' | 'function';
   value?: string;
-  tokenType?: string; // For InjectionToken<Type>
+  tokenType?: string;   // For InjectionToken<Type>
+  providedIn?: string;  // InjectionToken with a factory: new InjectionToken(desc, { providedIn, factory })
 }
 
+/**
+ * Route metadata (Angular Router configuration)
+ */
+export interface RouteEntity extends Entity {
+  type: EntityType.Route;
+  path: string;                       // Own path segment: 'users/:id'
+  fullPath: string;                   // Path including parents: '/admin/users/:id'
+  component?: string;                 // Routed component class name
+  loadComponent?: string;             // Import path of lazy component
+  loadChildren?: string;              // Import path of lazy children (routes or NgModule)
+  lazyExport?: string;                // Export picked in .then(m => m.X)
+  redirectTo?: string;
+  pathMatch?: 'full' | 'prefix';
+  outlet?: string;
+  guards?: RouteGuardMetadata[];
+  resolvers?: Record<string, string>; // resolve key -> resolver name
+  data?: Record<string, any>;
+  title?: string;
+  providers?: string[];               // Route-level environment providers
+  parentRoute?: string;               // Parent route entity ID
+  children?: string[];                // Child route entity IDs
+  routerConfig?: RouterConfigKind;    // How the routes reach the router
+  routesName?: string;                // Name of the Routes constant, if any
+  ownerModule?: string;               // NgModule importing RouterModule.forRoot/forChild
+}
+
+/**
+ * Route guard reference
+ */
+export interface RouteGuardMetadata {
+  guardType: 'canActivate' | 'canActivateChild' | 'canDeactivate' | 'canMatch' | 'canLoad';
+  name: string;      // Guard class/function name, or expression text for inline guards
+  inline?: boolean;  // Inline arrow function guard
+}
+
+/**
+ * Router registration style
+ */
+export type RouterConfigKind = 'forRoot' | 'forChild' | 'provideRouter' | 'routes';
+
 /**
  * Input metadata (supports both decorator and signal-based)
  */
@@ -170,6 +213,17 @@ export interface SignalMetadata {
   initialValue?: any;
 }
 
+/**
+ * Class member (fields, methods, accessors and constructor parameter properties)
+ */
+export interface MemberMetadata {
+  name: string;
+  kind: 'property' | 'method' | 'accessor';
+  visibility: 'public' | 'protected' | 'private';  // `#name` members are private
+  static?: boolean;
+  decorators?: string[];   // @Input, @HostListener, @ViewChild, ...
+}
+
 /**
  * Dependency injection metadata
  */
@@ -204,6 +258,10 @@ export enum RelationType {
   Injects = 'injects',
   Uses = 'uses',
   UsesInTemplate = 'usesInTemplate',
+  DefersInTemplate = 'defersInTemplate', // Component -> component only rendered inside @defer blocks
+  RoutesTo = 'routesTo',       // Route -> routed component
+  GuardedBy = 'guardedBy',     // Route -> guard
+  LazyLoads = 'lazyLoads',     // Route -> lazily loaded component/module/routes
 }
 
 /**
@@ -261,8 +319,71 @@ export interface GraphMetadata {
   timestamp: string;
   patterns?: PatternDetection[];
   globalStyles?: StyleFileMetadata[];
+  styleGraph?: StyleGraph;                   // Dependencies between style files
   dependencies?: DependencyInfo;             // Dependency versions and stats
   typescript?: TypeScriptConfig;             // TypeScript configuration
+  impact?: ImpactAnalysis;                   // Entities impacted by changes (git.since)
+  workspace?: WorkspaceInfo;                 // Angular CLI / Nx workspace projects
+  applications?: ApplicationBootstrap[];     // Standalone applications (bootstrapApplication() calls)
+}
+
+/**
+ * Standalone application started with bootstrapApplication(component, config)
+ */
+export interface ApplicationBootstrap {
+  component: string;                         // Bootstrapped component
+  config?: string;                           // ApplicationConfig constant passed by name
+  providers?: string[];                      // Root environment injector providers (config.providers)
+  location: SourceLocation;                  // The bootstrapApplication() call
+}
+
+/**
+ * Angular CLI (angular.json) or Nx (project.json) workspace
+ */
+export interface WorkspaceInfo {
+  type: 'angular' | 'nx';
+  projects: WorkspaceProject[];
+}
+
+/**
+ * Application or library of a workspace
+ */
+export interface WorkspaceProject {
+  name: string;
+  projectType: 'application' | 'library';
+  root: string;                    // Relative to the workspace root ('' = workspace root)
+  sourceRoot?: string;
+  prefix?: string;                 // Component selector prefix
+  tsConfigPath?: string;           // Build tsconfig, relative to the workspace root
+  dependencies?: string[];         // Projects referenced by this project's entities
+}
+
+/**
+ * Entities impacted by the files changed since a Git ref
+ */
+export interface ImpactAnalysis {
+  since: string;
+  until?: string;
+  changedFiles: string[];          // Relative to the entity base directory
+  changedEntities: string[];       // Entity IDs declared in (or templated/styled by) changed files
+  impactedEntities: ImpactedEntity[];
+  components: string[];            // Impacted component IDs (changed + dependents)
+  routes: string[];
+  modules: string[];
+  files: string[];                 // Source files of all impacted entities
+}
+
+/**
+ * Entity reached from a changed entity through its dependents
+ */
+export interface ImpactedEntity {
+  id: string;
+  name: string;
+  type: EntityType;
+  filePath: string;
+  depth: number;                   // 0 = changed, 1 = direct dependent, ...
+  via?: string;                    // Entity ID it depends on (depth > 0)
+  relation?: string;               // Relationship type to `via`
 }
 
 /**
@@ -288,9 +409,15 @@ export interface ParserConfig {
   detectPatterns?: boolean;
   maxDepth?: number;
   strictMode?: boolean; // Throw on entity ID collisions
+  cacheDir?: string;    // Enables incremental parsing with a persistent cache in this directory
+  incremental?: boolean; // Re-parse only changed files on later parse() calls (implied by cacheDir)
+  workspace?: boolean;  // Parse angular.json / project.json projects separately (default: true)
+  workers?: number;     // Parse in this many worker threads (default: 1, single-threaded)
   git?: {
     enabled?: boolean; // Default: true
     branch?: string;   // Auto-detected if not specified
+    since?: string;    // Report entities impacted by the files changed since this ref
+    until?: string;    // End of the range (default: working tree)
   };
 }
 
@@ -332,12 +459,86 @@ export interface ParseResult {
   toJSON(): any;
   toSimpleJSON(): any;
   toHTML(): string;
+  toMarkdown(level?: DetailLevel): string;
+  toJSONLD(options?: JsonLdOptions): any;
+  toCypher(): string;
+  toGraphML(): string;
+  toDOT(): string;
+  toChunks(options?: ChunkOptions): ChunkSet;
   getGraph(): KnowledgeGraph;
   getEntities(): Map<string, Entity>;
   getRelationships(): Relationship[];
   getMetadata(): GraphMetadata;
 }
 
+/**
+ * JSON-LD export options
+ */
+export interface JsonLdOptions {
+  context?: 'embed' | 'url';  // Embed the context, or reference jsonld-context.json by URL (default: 'embed')
+}
+
+/**
+ * Chunking options
+ */
+export interface ChunkOptions {
+  maxTokens?: number;  // Token budget per chunk (default: 4000)
+}
+
+/**
+ * Relationship to an entity of another chunk
+ */
+export interface ChunkReference {
+  type: string;                        // Relationship type
+  direction: 'outgoing' | 'incoming';  // Seen from `entity`
+  entity: string;                      // Entity ID in this chunk
+  related: string;                     // Entity ID in the other chunk
+  chunk: string;                       // ID of the other chunk
+}
+
+/**
+ * Related entities fitting a token budget
+ */
+export interface GraphChunk {
+  id: string;
+  title: string;
+  path: string[];                      // Hierarchy node names, from the app root
+  tokens: number;                      // Estimated tokens of the serialized chunk
+  oversized?: boolean;                 // A single entity exceeding the budget
+  entities: Entity[];
+  relationships: Relationship[];       // Relationships between entities of this chunk
+  references: ChunkReference[];
+}
+
+/**
+ * Index of the chunks, written next to them
+ */
+export interface ChunkManifest {
+  project: string;
+  maxTokens: number;
+  totalChunks: number;
+  totalEntities: number;
+  totalTokens: number;
+  chunks: Array<{
+    id: string;
+    title: string;
+    path: string[];
+    file: string;
+    tokens: number;
+    entities: string[];
+    references: number;
+  }>;
+  entityChunks: Record<string, string>; // Entity ID -> chunk ID
+}
+
+/**
+ * Result of chunkGraph() / toChunks()
+ */
+export interface ChunkSet {
+  chunks: GraphChunk[];
+  manifest: ChunkManifest;
+}
+
 /**
  * Template location (for external templates)
  */
@@ -357,6 +558,76 @@ export interface TemplateAnalysis {
   bindings: BindingMetadata[];   // Property/event bindings
   templateRefs: string[];        // Template references (#ref)
   complexity?: number;           // Template complexity score
+  controlFlow?: ControlFlowBlock[]; // @if/@for/@switch/@let/@defer blocks, in template order
+  deferredComponents?: string[];    // Component selectors only used inside @defer blocks
+  elements?: TemplateElement[];     // Elements with attributes or bindings, for contract validation
+  memberUsages?: TemplateMemberUsage[]; // Component members, @let declarations and template refs used by expressions
+  pipeUsages?: TemplatePipeUsage[];     // Pipes applied by expressions, from the template AST
+}
+
+/**
+ * Pipe applied by a template expression (`date:'short':'UTC'` has 2 arguments)
+ */
+export interface TemplatePipeUsage {
+  name: string;
+  args: number;
+  context: string;         // Where it is used: '{{ }}', '[value]', '@if', ...
+  line: number;
+  sourceUrl?: string;
+}
+
+/**
+ * Identifier read, called or assigned by a template expression
+ *
+ * Template-local variables (`@for` items, `let-x`, `@if ... as x`, `$event`) are not recorded.
+ */
+export interface TemplateMemberUsage {
+  name: string;
+  kind: 'member' | 'let' | 'templateRef';
+  access: 'read' | 'call' | 'write';   // call: methods and signal reads (`count()`)
+  context: string;                      // Where it is used: '{{ }}', '[value]', '(click)', '@if', '@let total', ...
+  line: number;
+  sourceUrl?: string;
+}
+
+/**
+ * Element (or ng-template) in a template with the attributes and bindings it carries
+ *
+ * Structural directives (`*ngIf`) are recorded as an `ng-template` holding the template attributes.
+ */
+export interface TemplateElement {
+  name: string;            // Tag name
+  attributes: string[];    // Static attribute names
+  bindings: BindingMetadata[];
+  line: number;
+  sourceUrl?: string;
+  parent?: number;         // Index of the enclosing element in `elements` (content projected into it)
+}
+
+/**
+ * Built-in control flow block (or @let declaration) in a template
+ */
+export interface ControlFlowBlock {
+  type: 'if' | 'for' | 'switch' | 'let' | 'defer';
+  line: number;
+  expression?: string;     // @if condition, @for collection, @switch value, @let value
+  alias?: string;          // @if alias (`as x`), @for item, @let name
+  track?: string;          // @for track expression
+  branches?: string[];     // Sub-blocks: else if, else, case, default, empty, placeholder, loading, error
+  triggers?: DeferTrigger[];         // @defer loading triggers
+  prefetchTriggers?: DeferTrigger[]; // @defer prefetch triggers
+  hydrateTriggers?: DeferTrigger[];  // @defer incremental hydration triggers
+  sourceUrl?: string;
+}
+
+/**
+ * @defer trigger (`on viewport`, `on timer(2s)`, `when ready`, ...)
+ */
+export interface DeferTrigger {
+  type: 'idle' | 'immediate' | 'timer' | 'hover' | 'interaction' | 'viewport' | 'when' | 'never';
+  reference?: string;  // Template reference of hover / interaction / viewport triggers
+  delay?: number;      // Timer delay in milliseconds
+  expression?: string; // Condition of `when` triggers
 }
 
 /**
@@ -385,8 +656,14 @@ export interface StyleLocation {
  */
 export interface StyleAnalysis {
   files: StyleFileMetadata[];
+  inline?: StyleFileMetadata[];      // Inline `styles`; filePath is the component file, lines are relative to the style string
 }
 
+/**
+ * Stylesheet syntax, from the file extension
+ */
+export type StyleLanguage = 'css' | 'scss' | 'sass' | 'less';
+
 /**
  * Style file metadata
  */
@@ -395,6 +672,36 @@ export interface StyleFileMetadata {
   sourceUrl?: string;                // URL to file in Git
   imports: ScssImportMetadata[];     // @import statements
   uses: ScssUseMetadata[];           // @use statements
+  language?: StyleLanguage;
+  forwards?: ScssForwardMetadata[];  // @forward statements
+  selectors?: string[];              // Distinct rule selectors as written (nested selectors keep `&`)
+  ruleCount?: number;                // Style rules, nested rules included (approximate)
+  encapsulation?: StyleEncapsulationUsage;
+  customProperties?: {
+    defined: string[];               // --name: value
+    used: string[];                  // var(--name)
+  };
+  mixins?: string[];                 // @mixin (SCSS), =mixin (Sass) and .mixin() (LESS) definitions
+  includes?: StyleIncludeMetadata[]; // @include, +mixin (Sass) and .mixin(); (LESS) calls
+  mediaQueries?: string[];           // Distinct @media conditions
+}
+
+/**
+ * Number of selectors using Angular view encapsulation selectors
+ */
+export interface StyleEncapsulationUsage {
+  host: number;                      // :host
+  hostContext: number;               // :host-context()
+  ngDeep: number;                    // ::ng-deep (and the deprecated /deep/, >>>)
+}
+
+/**
+ * Mixin call metadata
+ */
+export interface StyleIncludeMetadata {
+  name: string;          // Mixin name: 'button-theme'
+  namespace?: string;    // Module namespace: 'mat' in '@include mat.button-theme($theme)'
+  line: number;
 }
 
 /**
@@ -408,6 +715,18 @@ export interface ScssImportMetadata {
   sourceUrl?: string;    // Git source URL with line number
 }
 
+/**
+ * SCSS @forward metadata
+ */
+export interface ScssForwardMetadata {
+  path: string;          // Forwarded path: 'src/theme'
+  statement: string;     // Full statement: '@forward "src/theme" as theme-*'
+  prefix?: string;       // Member prefix: 'theme-'
+  resolvedPath?: string; // Resolved absolute path if found
+  line: number;          // Line number in file
+  sourceUrl?: string;    // Git source URL with line number
+}
+
 /**
  * SCSS @use metadata
  */
@@ -419,3 +738,38 @@ export interface ScssUseMetadata {
   line: number;          // Line number in file
   sourceUrl?: string;    // Git source URL with line number
 }
+
+/**
+ * Dependency graph between style files: module loading (@import, @use, @forward) and
+ * CSS custom properties consumed from the files defining them (theming)
+ */
+export interface StyleGraph {
+  files: StyleGraphFile[];
+  edges: StyleGraphEdge[];
+}
+
+/**
+ * Style file in the graph
+ */
+export interface StyleGraphFile {
+  filePath: string;                  // Relative to rootDir; the component file for inline styles
+  sourceUrl?: string;
+  language?: StyleLanguage;
+  inline?: boolean;                  // Inline `styles` of a component
+  global?: boolean;                  // Global stylesheet (styles.scss, theme.scss, ...)
+  components: string[];              // IDs of components using the file
+  definesCustomProperties: string[];
+}
+
+/**
+ * Style dependency; targets of unresolved module paths ('@angular/material', 'sass:math') are the paths as written
+ */
+export interface StyleGraphEdge {
+  source: string;                    // filePath of the dependent file
+  target: string;
+  type: 'import' | 'use' | 'forward' | 'customProperty';
+  namespace?: string;                // @use namespace
+  properties?: string[];             // Custom properties consumed (customProperty edges)
+  resolved: boolean;
+  line?: number;
+}
@@ -0,0 +1,25 @@
+import { describe, it, expect } from '@jest/globals';
+import { isAngularBuiltinPipe, isAngularPurePipe } from '../angular-builtin-registry.js';
+
+describe('Angular built-in registry', () => {
+  describe('Pipes', () => {
+    it('should identify built-in pipes', () => {
+      expect(isAngularBuiltinPipe('async')).toBe(true);
+      expect(isAngularBuiltinPipe('date')).toBe(true);
+      expect(isAngularBuiltinPipe('money')).toBe(false);
+    });
+
+    it('should identify impure built-in pipes', () => {
+      expect(isAngularPurePipe('async')).toBe(false);
+      expect(isAngularPurePipe('json')).toBe(false);
+      expect(isAngularPurePipe('slice')).toBe(false);
+      expect(isAngularPurePipe('keyvalue')).toBe(false);
+    });
+
+    it('should treat other built-in pipes as pure', () => {
+      expect(isAngularPurePipe('date')).toBe(true);
+      expect(isAngularPurePipe('currency')).toBe(true);
+      expect(isAngularPurePipe('i18nPlural')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from '@jest/globals';
+import { analyzeStyleRules, detectStyleLanguage, parseScssForwards } from '../style-helpers.js';
+
+describe('Style helpers', () => {
+  describe('analyzeStyleRules', () => {
+    it('should extract selectors, encapsulation selectors and media queries from SCSS', () => {
+      const scss = [
+        '// :host in a comment',
+        ':host {',
+        '  display: block;',
+        '  &.active, &:hover { color: red; }',
+        '}',
+        ':host-context(.dark) .title { color: white; }',
+        '::ng-deep .mat-mdc-button { padding: 0; }',
+        '@media (max-width: 600px) {',
+        '  .title { font: { size: 12px; } }',
+        '}',
+        '@keyframes fade { from { opacity: 0; } to { opacity: 1; } }',
+        '.icon-#{$name} { width: 1px; }',
+      ].join('\n');
+
+      const analysis = analyzeStyleRules(scss, 'scss');
+      expect(analysis.selectors).toEqual([
+        ':host', '&.active', '&:hover', ':host-context(.dark) .title', '::ng-deep .mat-mdc-button', '.title', '.icon-#{$name}',
+      ]);
+      expect(analysis.ruleCount).toBe(6);
+      expect(analysis.encapsulation).toEqual({ host: 1, hostContext: 1, ngDeep: 1 });
+      expect(analysis.mediaQueries).toEqual(['(max-width: 600px)']);
+    });
+
+    it('should extract custom properties, mixins and includes', () => {
+      const scss = [
+        ':root { --brand: #3f51b5; --spacing: 8px }',
+        '@mixin elevated($level: 1) { box-shadow: 0 0 $level black; }',
+        '.card {',
+        '  padding: var(--spacing);',
+        '  color: var( --text , var(--brand));',
+        '  @include elevated(2);',
+        '  @include mat.button-theme($theme);',
+        '}',
+      ].join('\n');
+
+      const analysis = analyzeStyleRules(scss, 'scss');
+      expect(analysis.customProperties).toEqual({ defined: ['--brand', '--spacing'], used: ['--spacing', '--text', '--brand'] });
+      expect(analysis.mixins).toEqual(['elevated']);
+      expect(analysis.includes).toEqual([
+        { name: 'elevated', line: 6 },
+        { name: 'button-theme', namespace: 'mat', line: 7 },
+      ]);
+    });
+
+    it('should analyze indented Sass', () => {
+      const sass = ['=rounded($r)', '  border-radius: $r', '', ':host', '  --gap: 4px', '  .item', '    +rounded(2px)'].join('\n');
+
+      const analysis = analyzeStyleRules(sass, 'sass');
+      expect(analysis.selectors).toEqual([':host', '.item']);
+      expect(analysis.mixins).toEqual(['rounded']);
+      expect(analysis.includes).toEqual([{ name: 'rounded', line: 7 }]);
+      expect(analysis.customProperties?.defined).toEqual(['--gap']);
+    });
+
+    it('should tell LESS mixins from rules', () => {
+      const less = ['@primary: #333;', '.rounded(@r: 4px) { border-radius: @r; }', '.banner { .rounded(); color: @primary; }'].join('\n');
+
+      const analysis = analyzeStyleRules(less, 'less');
+      expect(analysis.selectors).toEqual(['.banner']);
+      expect(analysis.mixins).toEqual(['rounded']);
+      expect(analysis.includes).toEqual([{ name: 'rounded', line: 3 }]);
+    });
+
+    it('should keep unquoted URLs', () => {
+      const css = '.hero { background: url(//cdn.example.com/bg.png); }\n.footer { color: var(--muted); }';
+
+      const analysis = analyzeStyleRules(css, 'css');
+      expect(analysis.selectors).toEqual(['.hero', '.footer']);
+      expect(analysis.customProperties?.used).toEqual(['--muted']);
+    });
+  });
+
+  describe('parseScssForwards', () => {
+    it('should extract @forward statements with their prefix', () => {
+      const forwards = parseScssForwards("@forward 'sass:math';\n@forward 'tokens' as tok-*;", '/app/src/theme/_index.scss');
+      expect(forwards.map(({ path, prefix, line }) => ({ path, prefix, line }))).toEqual([
+        { path: 'sass:math', prefix: undefined, line: 1 },
+        { path: 'tokens', prefix: 'tok-', line: 2 },
+      ]);
+    });
+  });
+
+  describe('detectStyleLanguage', () => {
+    it('should detect the language from the extension', () => {
+      expect(detectStyleLanguage('a.component.scss')).toBe('scss');
+      expect(detectStyleLanguage('a.component.sass')).toBe('sass');
+      expect(detectStyleLanguage('a.component.less')).toBe('less');
+      expect(detectStyleLanguage('a.component.css')).toBe('css');
+    });
+  });
+});
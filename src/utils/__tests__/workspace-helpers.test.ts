@@ -0,0 +1,111 @@
+/**
+ * Unit tests for workspace detection (angular.json / Nx project.json)
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { detectWorkspace, findOwningProject } from '../workspace-helpers.js';
+
+describe('workspace-helpers', () => {
+  let rootDir: string;
+
+  const write = (file: string, content: unknown) => {
+    const filePath = path.join(rootDir, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, typeof content === 'string' ? content : JSON.stringify(content));
+  };
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ng-parser-workspace-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  describe('detectWorkspace', () => {
+    it('should return undefined outside of a workspace', () => {
+      write('src/app.ts', '');
+      expect(detectWorkspace(rootDir)).toBeUndefined();
+    });
+
+    it('should read angular.json projects', () => {
+      write('angular.json', {
+        projects: {
+          shop: {
+            projectType: 'application',
+            root: '',
+            sourceRoot: 'src',
+            prefix: 'app',
+            architect: { build: { options: { tsConfig: 'tsconfig.app.json' } } },
+          },
+          ui: { projectType: 'library', root: 'projects/ui', sourceRoot: 'projects/ui/src' },
+        },
+      });
+      write('projects/ui/tsconfig.lib.json', '{}');
+
+      expect(detectWorkspace(rootDir)).toEqual({
+        type: 'angular',
+        projects: [
+          {
+            name: 'shop',
+            projectType: 'application',
+            root: '',
+            sourceRoot: 'src',
+            prefix: 'app',
+            tsConfigPath: 'tsconfig.app.json',
+          },
+          {
+            name: 'ui',
+            projectType: 'library',
+            root: 'projects/ui',
+            sourceRoot: 'projects/ui/src',
+            prefix: undefined,
+            tsConfigPath: 'projects/ui/tsconfig.lib.json',
+          },
+        ],
+      });
+    });
+
+    it('should find Nx project.json files and resolve {projectRoot}', () => {
+      write('nx.json', {});
+      write('apps/shop/project.json', {
+        name: 'shop',
+        projectType: 'application',
+        sourceRoot: '{projectRoot}/src',
+        targets: { build: { options: { tsConfig: '{projectRoot}/tsconfig.app.json' } } },
+      });
+      write('libs/ui/project.json', { name: 'ui' });
+      write('node_modules/pkg/project.json', { name: 'ignored' });
+
+      const workspace = detectWorkspace(rootDir)!;
+
+      expect(workspace.type).toBe('nx');
+      expect(workspace.projects.map((p) => [p.name, p.projectType, p.root, p.sourceRoot, p.tsConfigPath])).toEqual([
+        ['shop', 'application', 'apps/shop', 'apps/shop/src', 'apps/shop/tsconfig.app.json'],
+        ['ui', 'library', 'libs/ui', undefined, undefined],
+      ]);
+    });
+  });
+
+  describe('findOwningProject', () => {
+    const projects = [
+      { name: 'shop', projectType: 'application' as const, root: '' },
+      { name: 'ui', projectType: 'library' as const, root: 'projects/ui' },
+    ];
+
+    it('should pick the deepest project root', () => {
+      expect(findOwningProject(projects, rootDir, path.join(rootDir, 'projects/ui/src/button.ts'))?.name).toBe('ui');
+      expect(findOwningProject(projects, rootDir, path.join(rootDir, 'src/app/app.ts'))?.name).toBe('shop');
+    });
+
+    it('should not match sibling directories with a common prefix', () => {
+      expect(findOwningProject(projects.slice(1), rootDir, path.join(rootDir, 'projects/ui-kit/a.ts'))).toBeUndefined();
+    });
+
+    it('should ignore files outside the workspace', () => {
+      expect(findOwningProject(projects, rootDir, path.join(rootDir, '..', 'other.ts'))).toBeUndefined();
+    });
+  });
+});
@@ -72,6 +72,11 @@ export const ANGULAR_BUILTIN_PIPES = new Set([
   'keyvalue',
 ]);
 
+/**
+ * Angular built-in pipes declared with `pure: false`
+ */
+const ANGULAR_IMPURE_PIPES = new Set(['async', 'json', 'slice', 'keyvalue']);
+
 /**
  * Check if a selector is an Angular built-in structural element
  */
@@ -93,6 +98,13 @@ export function isAngularBuiltinPipe(pipeName: string): boolean {
   return ANGULAR_BUILTIN_PIPES.has(pipeName);
 }
 
+/**
+ * Check if an Angular built-in pipe is pure
+ */
+export function isAngularPurePipe(pipeName: string): boolean {
+  return !ANGULAR_IMPURE_PIPES.has(pipeName);
+}
+
 /**
  * Check if a selector/name is any kind of Angular built-in
  */
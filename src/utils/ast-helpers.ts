@@ -268,10 +268,14 @@ export function getHeritageClauses(node: ts.ClassDeclaration): {
 
 /**
  * Check if a call expression is an Angular signal function
+ *
+ * `input.required<T>()` style calls report the base function with `required: true`
  */
 export function isSignalFunction(node: ts.CallExpression, sourceFile: ts.SourceFile): {
   isSignal: boolean;
   signalType?: string;
+  required?: boolean;
+  typeArgument?: string;
 } {
   const signalFunctions = [
     'signal',
@@ -288,11 +292,16 @@ export function isSignalFunction(node: ts.CallExpression, sourceFile: ts.SourceF
 
   const expression = node.expression;
   let functionName = '';
+  let required = false;
 
   if (ts.isIdentifier(expression)) {
     functionName = expression.getText(sourceFile);
   } else if (ts.isPropertyAccessExpression(expression)) {
     functionName = expression.name.getText(sourceFile);
+    if (functionName === 'required' && ts.isIdentifier(expression.expression)) {
+      functionName = expression.expression.getText(sourceFile);
+      required = true;
+    }
   }
 
   const isSignal = signalFunctions.includes(functionName);
@@ -300,6 +309,8 @@ export function isSignalFunction(node: ts.CallExpression, sourceFile: ts.SourceF
   return {
     isSignal,
     signalType: isSignal ? functionName : undefined,
+    required: isSignal && required ? true : undefined,
+    typeArgument: isSignal ? node.typeArguments?.[0]?.getText(sourceFile) : undefined,
   };
 }
 
@@ -164,6 +164,50 @@ export function resolvePath(...paths: string[]): string {
   return normalizePath(path.resolve(...paths));
 }
 
+/**
+ * Project name derived from its directory (the parent directory for a `src` folder)
+ */
+export function getProjectName(rootDir: string): string {
+  const resolved = path.resolve(rootDir || '.');
+  const base = path.basename(resolved);
+  return base === 'src' ? path.basename(path.dirname(resolved)) : base;
+}
+
+/**
+ * Convert a glob (`**`, `*`, `?`, `{a,b}`) to an anchored regular expression
+ *
+ * `*` and `?` do not match `/`; `**` matches any number of path segments.
+ */
+export function globToRegExp(pattern: string, flags = ''): RegExp {
+  let source = '';
+  let braces = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      const segment = pattern[i + 2] === '/';
+      source += segment ? '(?:.*/)?' : '.*';
+      i += segment ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braces++;
+      source += '(?:';
+    } else if (char === '}' && braces > 0) {
+      braces--;
+      source += ')';
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`, flags);
+}
+
 // === LEGACY SYNC VERSIONS (deprecated) ===
 
 /**
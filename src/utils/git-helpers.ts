@@ -66,6 +66,39 @@ export async function detectGitRepository(dir: string): Promise<GitRepository |
   }
 }
 
+/**
+ * List files changed since a Git ref (local repository only, no fetch)
+ *
+ * Without `until`, compares the working tree (including uncommitted and untracked files)
+ * with the merge base of `since` and HEAD. Returns absolute paths.
+ */
+export async function getChangedFiles(dir: string, since: string, until?: string): Promise<string[]> {
+  const git: SimpleGit = simpleGit({ baseDir: dir, binary: 'git', maxConcurrentProcesses: 1 });
+
+  if (!(await git.checkIsRepo())) {
+    throw new Error(`Cannot compute changes since '${since}': ${dir} is not inside a Git repository`);
+  }
+
+  const rootDir = (await git.revparse(['--show-toplevel'])).trim();
+  const files = new Set<string>();
+
+  try {
+    const mergeBase = (await git.raw(['merge-base', since, until ?? 'HEAD'])).trim();
+    const diff = await git.raw(['diff', '--name-only', '--no-renames', mergeBase, ...(until ? [until] : [])]);
+    diff.split('\n').filter(Boolean).forEach((file) => files.add(file));
+
+    if (!until) {
+      const untracked = await git.raw(['ls-files', '--others', '--exclude-standard', '--full-name']);
+      untracked.split('\n').filter(Boolean).forEach((file) => files.add(file));
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message.trim() : String(error);
+    throw new Error(`Cannot compute changes since '${since}': ${message}`);
+  }
+
+  return Array.from(files).map((file) => path.resolve(rootDir, file));
+}
+
 /**
  * Parse remote URL and detect provider
  * Converts SSH URLs to HTTPS format
@@ -26,10 +26,14 @@ export class ImportResolver {
   private compilerOptions: ts.CompilerOptions;
   private cache: Map<string, ImportResolution>;
 
+  /**
+   * @param optionsForFile - Compiler options of the file's project (workspaces with one tsconfig per project)
+   */
   constructor(
     private program: ts.Program,
     private rootDir: string,
-    private packageInfo: PackageInfo | null
+    private packageInfo: PackageInfo | null,
+    private optionsForFile?: (fileName: string) => ts.CompilerOptions
   ) {
     this.compilerOptions = program.getCompilerOptions();
     this.cache = new Map();
@@ -111,7 +115,7 @@ export class ImportResolver {
     const resolved = ts.resolveModuleName(
       importPath,
       sourceFile.fileName,
-      this.compilerOptions,
+      this.optionsForFile?.(sourceFile.fileName) ?? this.compilerOptions,
       ts.sys
     );
 
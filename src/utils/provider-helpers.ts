@@ -11,15 +11,21 @@ export interface ProviderInfo {
   implementation?: string; // useClass, useFactory, useExisting
   value?: string;          // useValue (if it's a reference)
   multi?: boolean;
+  kind?: ProviderKind;
 }
 
+/**
+ * Provider recipe: class (`[X]`, useClass), useFactory, useExisting (alias) or useValue
+ */
+export type ProviderKind = 'class' | 'factory' | 'existing' | 'value';
+
 /**
  * Parse Angular provider configurations
  * Handles: { provide: X, useClass: Y }, { provide: X, useFactory: fn }, etc.
  */
 export function parseProviders(
   providersArray: any[] | undefined,
-  sourceFile: ts.SourceFile
+  sourceFile?: ts.SourceFile
 ): ProviderInfo[] {
   if (!providersArray || !Array.isArray(providersArray)) {
     return [];
@@ -33,6 +39,7 @@ export function parseProviders(
       result.push({
         token: provider,
         implementation: provider,
+        kind: 'class',
       });
       continue;
     }
@@ -54,7 +61,7 @@ export function parseProviders(
  */
 function parseProviderObject(
   provider: Record<string, any>,
-  sourceFile: ts.SourceFile
+  sourceFile?: ts.SourceFile
 ): ProviderInfo | null {
   const token = provider.provide;
   if (!token) return null;
@@ -62,6 +69,7 @@ function parseProviderObject(
   const info: ProviderInfo = {
     token: typeof token === 'string' ? token : String(token),
     multi: provider.multi === true,
+    kind: providerKind(provider),
   };
 
   // useClass
@@ -93,6 +101,16 @@ function parseProviderObject(
   return info;
 }
 
+/**
+ * Recipe of a provider object (`{ provide: X }` alone is a class provider)
+ */
+function providerKind(provider: Record<string, any>): ProviderKind {
+  if ('useExisting' in provider) return 'existing';
+  if ('useFactory' in provider) return 'factory';
+  if ('useValue' in provider) return 'value';
+  return 'class';
+}
+
 /**
  * Extract provider configurations from AST node
  * Handles complex provider objects directly from TypeScript AST
@@ -109,6 +127,7 @@ export function extractProvidersFromAST(
       result.push({
         token: element.text,
         implementation: element.text,
+        kind: 'class',
       });
       continue;
     }
@@ -148,6 +167,7 @@ function parseProviderObjectAST(
   let implementation: string | undefined;
   let value: string | undefined;
   let multi = false;
+  let kind: ProviderKind = 'class';
 
   for (const prop of node.properties) {
     if (!ts.isPropertyAssignment(prop)) continue;
@@ -164,11 +184,14 @@ function parseProviderObjectAST(
         break;
       case 'useFactory':
         implementation = extractTokenFromInitializer(initializer, sourceFile);
+        kind = 'factory';
         break;
       case 'useExisting':
         implementation = extractTokenFromInitializer(initializer, sourceFile);
+        kind = 'existing';
         break;
       case 'useValue':
+        kind = 'value';
         // Only extract if it's a reference (identifier), not a literal
         if (ts.isIdentifier(initializer)) {
           value = initializer.text;
@@ -187,6 +210,7 @@ function parseProviderObjectAST(
     implementation,
     value,
     multi,
+    kind,
   };
 }
 
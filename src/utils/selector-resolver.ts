@@ -12,12 +12,22 @@ export interface SelectorMapping {
   entityType: 'component' | 'directive';
 }
 
+/**
+ * One comma-separated part of a selector: `button[mat-button]` -> element + attributes
+ */
+interface CompoundSelector {
+  element?: string;
+  attributes: string[];
+  classes: string[];
+}
+
 /**
  * Resolves CSS selectors to entity IDs
  */
 export class SelectorResolver {
   private selectorMap: Map<string, SelectorMapping[]> = new Map();
   private attributeMap: Map<string, SelectorMapping[]> = new Map();
+  private compoundSelectors: Map<string, CompoundSelector[]> = new Map();
 
   /**
    * Build selector index from entities
@@ -25,6 +35,7 @@ export class SelectorResolver {
   buildIndex(entities: Map<string, Entity>): void {
     this.selectorMap.clear();
     this.attributeMap.clear();
+    this.compoundSelectors.clear();
 
     for (const [id, entity] of entities) {
       if (entity.type !== 'component' && entity.type !== 'directive') {
@@ -36,6 +47,7 @@ export class SelectorResolver {
 
       // Parse selector patterns
       const patterns = this.parseSelector(selector);
+      this.compoundSelectors.set(id, this.parseCompoundSelectors(selector));
 
       for (const pattern of patterns) {
         const mapping: SelectorMapping = {
@@ -104,6 +116,44 @@ export class SelectorResolver {
     return patterns;
   }
 
+  /**
+   * Parse each comma-separated part into its element, attribute names and classes (`:not()` is ignored)
+   */
+  private parseCompoundSelectors(selector: string): CompoundSelector[] {
+    return selector.split(',').map((part) => {
+      const compound = part.trim().replace(/:not\([^)]*\)/g, '');
+      return {
+        element: compound.match(/^([a-z][a-z0-9-]*)/i)?.[1],
+        attributes: Array.from(compound.matchAll(/\[([^\]=~|^$*]+)[^\]]*\]/g), (match) => match[1].trim()),
+        classes: Array.from(compound.matchAll(/\.([a-z][a-z0-9-]*)/gi), (match) => match[1]),
+      };
+    });
+  }
+
+  /**
+   * Resolve an element to the entities whose selector it fully matches
+   *
+   * Unlike resolve(), every part of a compound selector must match: `button[mat-button]` needs both
+   * the tag and the attribute. `attributes` are the element's attribute, input and output names;
+   * class selectors never match since element classes are not tracked.
+   */
+  resolveElement(name: string, attributes: string[]): string[] {
+    const candidates = new Set([
+      ...this.resolveElementSelector(name),
+      ...attributes.flatMap((attribute) => this.resolveAttributeSelector(attribute)),
+    ]);
+
+    return Array.from(candidates).filter((entityId) =>
+      (this.compoundSelectors.get(entityId) ?? []).some(
+        (compound) =>
+          (compound.element !== undefined || compound.attributes.length > 0) &&
+          compound.classes.length === 0 &&
+          (compound.element === undefined || compound.element === name) &&
+          compound.attributes.every((attribute) => attributes.includes(attribute))
+      )
+    );
+  }
+
   /**
    * Resolve element selector to entity IDs
    */
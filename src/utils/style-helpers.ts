@@ -1,11 +1,19 @@
 /**
  * Style helper utilities
- * Parse and analyze SCSS files for @import and @use statements
+ * Parse and analyze CSS, SCSS, Sass and LESS files: module loading, selectors, custom properties and mixins
  */
 
 import * as path from 'path';
 import * as fs from 'fs';
-import type { StyleLocation, StyleFileMetadata, ScssImportMetadata, ScssUseMetadata } from '../types/index.js';
+import type {
+  StyleLocation,
+  StyleFileMetadata,
+  StyleLanguage,
+  StyleIncludeMetadata,
+  ScssImportMetadata,
+  ScssUseMetadata,
+  ScssForwardMetadata,
+} from '../types/index.js';
 import {
   generateSourceUrl,
   type GitRepository,
@@ -42,9 +50,9 @@ export function resolveStylePath(componentPath: string, styleUrl: string, rootDi
 }
 
 /**
- * Parse SCSS file for @import and @use statements
+ * Parse a style file (CSS, SCSS, Sass or LESS, from its extension)
  */
-export function parseScssFile(filePath: string, rootDir: string, gitInfo?: GitRepository): StyleFileMetadata {
+export function parseStyleFile(filePath: string, rootDir: string, gitInfo?: GitRepository): StyleFileMetadata {
   let content = '';
 
   try {
@@ -55,18 +63,68 @@ export function parseScssFile(filePath: string, rootDir: string, gitInfo?: GitRe
     console.warn(`⚠️  Failed to read style file ${filePath}:`, (error as Error).message);
   }
 
-  const imports = parseScssImports(content, filePath, gitInfo);
-  const uses = parseScssUses(content, filePath, gitInfo);
   const location = generateLocationMetadata(filePath, rootDir, gitInfo);
 
   return {
     filePath: location.filePath,
     sourceUrl: location.sourceUrl,
-    imports,
-    uses,
+    ...parseStyleContent(content, filePath, detectStyleLanguage(filePath), gitInfo),
+  };
+}
+
+/**
+ * Parse SCSS file for @import and @use statements
+ * @deprecated Use parseStyleFile(), which also handles CSS, Sass and LESS
+ */
+export function parseScssFile(filePath: string, rootDir: string, gitInfo?: GitRepository): StyleFileMetadata {
+  return parseStyleFile(filePath, rootDir, gitInfo);
+}
+
+/**
+ * Parse the inline `styles` of a component; lines are relative to each style string,
+ * so statements get no Git source URL
+ */
+export function parseInlineStyles(
+  componentFilePath: string,
+  styles: string[],
+  rootDir: string,
+  gitInfo?: GitRepository
+): StyleFileMetadata[] {
+  const location = generateLocationMetadata(componentFilePath, rootDir, gitInfo);
+
+  return styles.map((style) => ({
+    filePath: location.filePath,
+    sourceUrl: location.sourceUrl,
+    ...parseStyleContent(style, componentFilePath, 'css'),
+  }));
+}
+
+/**
+ * Parse style content: module loading statements and the structure of its rules
+ */
+export function parseStyleContent(
+  content: string,
+  filePath: string,
+  language: StyleLanguage,
+  gitInfo?: GitRepository
+): Omit<StyleFileMetadata, 'filePath' | 'sourceUrl'> {
+  return {
+    language,
+    imports: parseScssImports(content, filePath, gitInfo),
+    uses: parseScssUses(content, filePath, gitInfo),
+    forwards: parseScssForwards(content, filePath, gitInfo),
+    ...analyzeStyleRules(content, language),
   };
 }
 
+/**
+ * Style language from the file extension (CSS for unknown extensions)
+ */
+export function detectStyleLanguage(filePath: string): StyleLanguage {
+  const extension = path.extname(filePath).slice(1).toLowerCase();
+  return extension === 'scss' || extension === 'sass' || extension === 'less' ? extension : 'css';
+}
+
 /**
  * Parse @import statements from SCSS content
  */
@@ -74,8 +132,8 @@ export function parseScssImports(content: string, filePath: string, gitInfo?: Gi
   const imports: ScssImportMetadata[] = [];
 
   // Regex to match @import statements
-  // Matches: @import 'path', @import "path", @import 'path1', 'path2'
-  const importRegex = /@import\s+(['"])([^'"]+)\1/g;
+  // Matches: @import 'path', @import "path", @import 'path1', 'path2', @import (reference) 'path' (LESS)
+  const importRegex = /@import\s+(?:\([\w\s,-]*\)\s*)?(['"])([^'"]+)\1/g;
 
   let match: RegExpExecArray | null;
   while ((match = importRegex.exec(content)) !== null) {
@@ -127,6 +185,32 @@ export function parseScssUses(content: string, filePath: string, gitInfo?: GitRe
   return uses;
 }
 
+/**
+ * Parse @forward statements from SCSS content
+ */
+export function parseScssForwards(content: string, filePath: string, gitInfo?: GitRepository): ScssForwardMetadata[] {
+  const forwards: ScssForwardMetadata[] = [];
+
+  // Matches: @forward 'path', @forward 'path' as prefix-*, @forward 'path' show a, b
+  const forwardRegex = /@forward\s+(['"])([^'"]+)\1(?:\s+as\s+([\w-]+)\*)?/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = forwardRegex.exec(content)) !== null) {
+    const line = getLineNumber(content, match.index);
+
+    forwards.push({
+      path: match[2],
+      statement: match[0],
+      prefix: match[3],
+      resolvedPath: tryResolveScssPath(filePath, match[2]),
+      line,
+      sourceUrl: generateSourceUrl(filePath, gitInfo, line),
+    });
+  }
+
+  return forwards;
+}
+
 /**
  * Try to resolve SCSS import/use path
  */
@@ -137,21 +221,25 @@ export function tryResolveScssPath(fromFile: string, importPath: string): string
   }
 
   const dir = path.dirname(fromFile);
+  // Partials: 'theme/colors' -> 'theme/_colors.scss'
+  const partial = path.join(path.dirname(importPath), `_${path.basename(importPath)}`);
 
   // Try different variations
   const variations = [
     importPath,
     `${importPath}.scss`,
     `${importPath}.sass`,
-    `_${importPath}.scss`,
-    `_${importPath}.sass`,
+    `${partial}.scss`,
+    `${partial}.sass`,
+    `${importPath}.less`,
+    `${importPath}.css`,
     path.join(importPath, 'index.scss'),
     path.join(importPath, '_index.scss'),
   ];
 
   for (const variation of variations) {
     const resolved = path.resolve(dir, variation);
-    if (fs.existsSync(resolved)) {
+    if (fs.existsSync(resolved) && fs.statSync(resolved).isFile()) {
       return resolved;
     }
   }
@@ -159,6 +247,259 @@ export function tryResolveScssPath(fromFile: string, importPath: string): string
   return undefined; // Could not resolve
 }
 
+/**
+ * At-rules whose blocks contain no style rules of their own (keyframe selectors, declarations, Sass control flow)
+ */
+const NON_RULE_AT_RULES = new Set(['keyframes', 'font-face', 'page', 'property', 'counter-style', 'function', 'font-feature-values']);
+
+/**
+ * Statement of a style sheet: a block prelude (`a:hover`, `@media ...`) or a declaration / at-rule ending with `;`
+ */
+interface StyleStatement {
+  text: string;
+  line: number;
+  block: boolean;
+  parent?: string;  // Prelude of the enclosing block
+}
+
+/**
+ * Analyze the rules of a style sheet: selectors, Angular encapsulation selectors, custom properties,
+ * mixins and media queries. This is a lightweight scanner, not a full CSS parser: nested SCSS and LESS
+ * rules are counted as written and control flow (@if, @each) is not evaluated.
+ */
+export function analyzeStyleRules(
+  content: string,
+  language: StyleLanguage
+): Pick<StyleFileMetadata, 'selectors' | 'ruleCount' | 'encapsulation' | 'customProperties' | 'mixins' | 'includes' | 'mediaQueries'> {
+  const stripped = stripComments(content);
+  const statements = language === 'sass' ? scanIndentedStatements(stripped) : scanBlockStatements(stripped);
+
+  const selectors = new Set<string>();
+  const encapsulation = { host: 0, hostContext: 0, ngDeep: 0 };
+  const defined = new Set<string>();
+  const mixins = new Set<string>();
+  const includes: StyleIncludeMetadata[] = [];
+  const mediaQueries = new Set<string>();
+  let ruleCount = 0;
+
+  for (const statement of statements) {
+    const { text, line } = statement;
+    const atRule = /^@([\w-]+)\s*(.*)$/s.exec(text);
+
+    if (atRule) {
+      const [, name, rest] = atRule;
+      if (name === 'media' && statement.block) mediaQueries.add(normalizeSpace(rest));
+      if (name === 'mixin') mixins.add(rest.split(/[\s(]/)[0]);
+      if (name === 'include') includes.push(parseInclude(rest, line));
+      continue;
+    }
+
+    if (language === 'sass' && /^[=+]/.test(text)) {
+      if (text.startsWith('=')) mixins.add(text.slice(1).split(/[\s(]/)[0]);
+      else includes.push(parseInclude(text.slice(1), line));
+      continue;
+    }
+
+    if (!statement.block) {
+      const property = /^(--[\w-]+)\s*:/.exec(text);
+      if (property) defined.add(property[1]);
+      // LESS mixin call: .bordered(); or .bordered;
+      const lessCall = language === 'less' ? /^[.#]([\w-]+)\s*(\(.*\))?\s*(!important)?$/s.exec(text) : null;
+      if (lessCall) includes.push({ name: lessCall[1], line });
+      continue;
+    }
+
+    // Nested SCSS properties (font: { family: ... }) and keyframe selectors are not rules
+    if (/^[\w-]+\s*:(\s|$)/.test(text)) continue;
+    const parentAtRule = /^@([\w-]+)/.exec(statement.parent ?? '')?.[1]?.replace(/^-\w+-/, '');
+    if (parentAtRule && NON_RULE_AT_RULES.has(parentAtRule)) continue;
+
+    // LESS mixin definition: .bordered(@width: 2px) { ... }
+    const lessMixin = language === 'less' ? /^[.#]([\w-]+)\s*\(.*\)\s*(when\s.*)?$/s.exec(text) : null;
+    if (lessMixin) {
+      mixins.add(lessMixin[1]);
+      continue;
+    }
+
+    ruleCount++;
+    for (const selector of splitTopLevel(text, ',')) {
+      const normalized = normalizeSpace(selector);
+      if (!normalized) continue;
+      selectors.add(normalized);
+      if (/:host(?![\w-])/.test(normalized)) encapsulation.host++;
+      if (/:host-context\b/.test(normalized)) encapsulation.hostContext++;
+      if (/::ng-deep\b|\/deep\/|>>>/.test(normalized)) encapsulation.ngDeep++;
+    }
+  }
+
+  const used = new Set(Array.from(stripped.matchAll(/var\(\s*(--[\w-]+)/g), (match) => match[1]));
+
+  return {
+    selectors: Array.from(selectors),
+    ruleCount,
+    encapsulation,
+    customProperties: { defined: Array.from(defined), used: Array.from(used) },
+    mixins: Array.from(mixins),
+    includes,
+    mediaQueries: Array.from(mediaQueries),
+  };
+}
+
+/**
+ * Replace comments with spaces, keeping line breaks so that line numbers still match
+ */
+function stripComments(content: string): string {
+  let result = '';
+  let quote: string | undefined;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quote) {
+      result += char;
+      if (char === '\\') result += content[++i] ?? '';
+      else if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      result += char;
+    } else if (char === '/' && content[i + 1] === '*') {
+      const end = content.indexOf('*/', i + 2);
+      const comment = content.slice(i, end === -1 ? content.length : end + 2);
+      result += comment.replace(/[^\n]/g, ' ');
+      i += comment.length - 1;
+    } else if (char === '/' && content[i + 1] === '/' && !/url\([^)]*$/i.test(content.slice(Math.max(0, i - 200), i))) {
+      // Line comment (SCSS, Sass, LESS); not the // of an unquoted url(http://...)
+      while (i < content.length && content[i] !== '\n') i++;
+      result += '\n';
+    } else {
+      result += char;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Split a brace-delimited style sheet (CSS, SCSS, LESS) into statements
+ */
+function scanBlockStatements(content: string): StyleStatement[] {
+  const statements: StyleStatement[] = [];
+  const parents: string[] = [];
+  let buffer = '';
+  let bufferLine = 1;
+  let line = 1;
+  let quote: string | undefined;
+  let parens = 0;
+
+  const flush = (block: boolean) => {
+    const text = buffer.trim();
+    if (text) statements.push({ text, line: bufferLine, block, parent: parents[parents.length - 1] });
+    buffer = '';
+    return text;
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (char === '\n') line++;
+    if (!buffer.trim() && !/\s/.test(char)) bufferLine = line;
+
+    if (quote) {
+      buffer += char;
+      if (char === '\\') buffer += content[++i] ?? '';
+      else if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      buffer += char;
+    } else if (char === '#' && content[i + 1] === '{') {
+      // Interpolation: #{$name}
+      const end = content.indexOf('}', i);
+      const interpolation = content.slice(i, end === -1 ? content.length : end + 1);
+      buffer += interpolation;
+      i += interpolation.length - 1;
+    } else if (char === '(' || char === ')') {
+      parens += char === '(' ? 1 : -1;
+      buffer += char;
+    } else if (char === '{' && parens <= 0) {
+      parents.push(flush(true));
+    } else if (char === ';' && parens <= 0) {
+      flush(false);
+    } else if (char === '}' && parens <= 0) {
+      flush(false);
+      parents.pop();
+    } else {
+      buffer += char;
+    }
+  }
+  flush(false);
+
+  return statements;
+}
+
+/**
+ * Split an indented Sass style sheet into statements: a line is a block prelude
+ * when the next non-empty line is indented deeper
+ */
+function scanIndentedStatements(content: string): StyleStatement[] {
+  const lines = content
+    .split('\n')
+    .map((text, index) => ({ text: text.trim(), indent: text.search(/\S/), line: index + 1 }))
+    .filter((entry) => entry.text);
+  const statements: StyleStatement[] = [];
+  const parents: Array<{ text: string; indent: number }> = [];
+
+  lines.forEach((entry, index) => {
+    while (parents.length > 0 && parents[parents.length - 1].indent >= entry.indent) parents.pop();
+    const block = (lines[index + 1]?.indent ?? -1) > entry.indent;
+    const text = entry.text.replace(/;$/, '');
+    statements.push({ text, line: entry.line, block, parent: parents[parents.length - 1]?.text });
+    if (block) parents.push({ text, indent: entry.indent });
+  });
+
+  return statements;
+}
+
+/**
+ * Mixin call: `mat.button-theme($theme)` -> { name: 'button-theme', namespace: 'mat' }
+ */
+function parseInclude(call: string, line: number): StyleIncludeMetadata {
+  const [, namespace, name] = /^\s*(?:([\w-]+)\.)?([\w-]+)/.exec(call) ?? [];
+  return { name: name ?? call.trim(), ...(namespace && { namespace }), line };
+}
+
+/**
+ * Split on a separator outside parentheses, brackets and strings
+ */
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | undefined;
+  let current = '';
+
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(' || char === '[') {
+      depth++;
+    } else if (char === ')' || char === ']') {
+      depth--;
+    } else if (char === separator && depth === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts;
+}
+
+function normalizeSpace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
 /**
  * Get line number from character index in string
  */
@@ -0,0 +1,88 @@
+/**
+ * Inline suppression comments
+ *
+ * `// ng-parser-ignore` suppresses every finding reported on its line (or the next one, on a line of its own);
+ * `// ng-parser-ignore innerHTML, eval` only the listed patterns (or visitor prefixes such as
+ * `security`, or rule IDs such as `security/eval`). Templates use `<!-- ng-parser-ignore innerHTML -->`
+ * the same way: it applies to the template line it is on, or to the next one.
+ */
+
+import * as ts from 'typescript';
+
+const DIRECTIVE = /(?:\/\/|\/\*|<!--)\s*ng-parser-ignore\b([^\n]*)/;
+const COMMENT_LINE = /^\s*(?:\/\/|\/\*|<!--)/;
+
+/**
+ * Names listed by an ng-parser-ignore directive in a text ([] = all), or undefined without directive
+ */
+export function parseSuppression(text: string): string[] | undefined {
+  const match = DIRECTIVE.exec(text);
+  if (!match) return undefined;
+  const list = match[1].replace(/\*\/.*|-->.*/, '').trim();
+  return list ? list.split(/[\s,]+/).filter(Boolean) : [];
+}
+
+/**
+ * Template of a component and the 1-based template lines a finding was made on
+ */
+export interface TemplateFinding {
+  template: string;
+  lines: number[];
+}
+
+/**
+ * Whether a directive on the given 1-based line, or a comment-only line above it, suppresses one of the names
+ */
+export function isSuppressedAt(sourceFile: ts.SourceFile, line: number, names: string[]): boolean {
+  return isSuppressedOnLine(sourceFile.text, line, names);
+}
+
+/**
+ * Whether directives in a template suppress one of the names on every line of the finding
+ */
+export function isSuppressedInTemplate(finding: TemplateFinding, names: string[]): boolean {
+  return finding.lines.length > 0 && finding.lines.every((line) => isSuppressedOnLine(finding.template, line, names));
+}
+
+/**
+ * Lines of a template matching a pattern, for a finding about them
+ */
+export function findInTemplate(template: string, pattern: RegExp): TemplateFinding {
+  const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+  const lines = new Set<number>();
+  for (const match of template.matchAll(global)) {
+    lines.add(template.slice(0, match.index).split('\n').length);
+  }
+  return { template, lines: Array.from(lines) };
+}
+
+/**
+ * Source file of a location: the given file if it matches, else a program file ending with the path
+ */
+export function findSourceFile(
+  program: ts.Program,
+  filePath: string,
+  current?: ts.SourceFile
+): ts.SourceFile | undefined {
+  const normalized = filePath.replace(/\\/g, '/');
+  const isMatch = (sourceFile: ts.SourceFile) =>
+    sourceFile.fileName === normalized || sourceFile.fileName.endsWith(`/${normalized}`);
+
+  if (current && isMatch(current)) return current;
+  return program.getSourceFiles().find(isMatch);
+}
+
+function isSuppressedOnLine(text: string, line: number, names: string[]): boolean {
+  const lines = text.split('\n');
+  const current = lines[line - 1] ?? '';
+  const previous = lines[line - 2] ?? '';
+  return (
+    matches(parseSuppression(current), names) ||
+    (COMMENT_LINE.test(previous) && matches(parseSuppression(previous), names))
+  );
+}
+
+function matches(suppressed: string[] | undefined, names: string[]): boolean {
+  if (!suppressed) return false;
+  return suppressed.length === 0 || suppressed.some((name) => names.includes(name));
+}
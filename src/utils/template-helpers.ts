@@ -5,7 +5,15 @@
 
 import * as path from 'path';
 import * as fs from 'fs';
-import type { TemplateAnalysis, BindingMetadata } from '../types/index.js';
+import type {
+  TemplateAnalysis,
+  TemplateElement,
+  TemplateMemberUsage,
+  TemplatePipeUsage,
+  BindingMetadata,
+  ControlFlowBlock,
+  DeferTrigger,
+} from '../types/index.js';
 import {
   generateSourceUrl,
   type GitRepository,
@@ -87,6 +95,10 @@ export function analyzeTemplate(
     const usedPipes = new Set<string>();
     const bindings: BindingMetadata[] = [];
     const templateRefs: string[] = [];
+    const controlFlow: ControlFlowBlock[] = [];
+    const elements: TemplateElement[] = [];
+    const eagerSelectors = new Set<string>();
+    const deferredSelectors = new Set<string>();
 
     // HTML standard attributes to ignore (not Angular directives)
     const htmlStandardAttrs = new Set([
@@ -102,12 +114,27 @@ export function analyzeTemplate(
     ]);
 
     // Visit all nodes in the template AST
-    function visitNode(node: any): void {
+    function visitNode(node: any, deferred: boolean, parent?: number): void {
+      // Control flow blocks (@if, @for, @switch, @let, @defer)
+      const block = describeControlFlow(node, filePath, gitInfo);
+      if (block) {
+        controlFlow.push(block);
+      }
+
+      // Elements with their attributes and bindings (contract validation)
+      const element = describeElement(node, filePath, gitInfo);
+      if (element) {
+        if (parent !== undefined) element.parent = parent;
+        elements.push(element);
+      }
+      const childParent = element ? elements.length - 1 : parent;
+
       // Element nodes (components and directives)
-      if (node.name) {
+      if (node.name && !(node instanceof angularCompiler.TmplAstLetDeclaration)) {
         // Custom component selector (contains dash)
         if (node.name.includes('-')) {
           usedComponents.add(node.name);
+          (deferred ? deferredSelectors : eagerSelectors).add(node.name);
         }
 
         // Structural directives (*ngIf, *ngFor, etc.)
@@ -182,20 +209,20 @@ export function analyzeTemplate(
         }
       }
 
-      // Visit children recursively
-      if (node.children) {
-        node.children.forEach((child: any) => visitNode(child));
-      }
+      // Visit children recursively (only the main content of @defer is deferred, not its sub-blocks)
+      const deferredChildren: any[] = node instanceof angularCompiler.TmplAstDeferredBlock ? node.children : [];
+      childNodes(node).forEach((child) => visitNode(child, deferred || deferredChildren.includes(child), childParent));
     }
 
     // Visit all nodes in the parsed template
-    parsed.nodes.forEach((node: any) => visitNode(node));
+    parsed.nodes.forEach((node: any) => visitNode(node, false));
 
-    // Extract pipes from template content (regex fallback)
-    const pipeMatches = templateContent.matchAll(/\|\s*(\w+)(?:\s|:|}})/g);
-    for (const match of pipeMatches) {
-      usedPipes.add(match[1]);
-    }
+    // Components rendered eagerly anywhere are not lazy-loaded
+    const deferredComponents = Array.from(deferredSelectors).filter((selector) => !eagerSelectors.has(selector));
+
+    // Identifiers and pipes used by template expressions
+    const { memberUsages, pipeUsages } = collectExpressionUsages(parsed.nodes, filePath, gitInfo);
+    pipeUsages.forEach((usage) => usedPipes.add(usage.name));
 
     // Calculate complexity (simple heuristic)
     const complexity = calculateComplexity(parsed.nodes);
@@ -207,6 +234,11 @@ export function analyzeTemplate(
       bindings,
       templateRefs,
       complexity,
+      controlFlow: controlFlow.length > 0 ? controlFlow : undefined,
+      deferredComponents: deferredComponents.length > 0 ? deferredComponents.sort() : undefined,
+      elements: elements.length > 0 ? elements : undefined,
+      memberUsages: memberUsages.length > 0 ? memberUsages : undefined,
+      pipeUsages: pipeUsages.length > 0 ? pipeUsages : undefined,
     };
   } catch (error) {
     console.warn(`⚠️  Failed to parse template ${filePath}:`, (error as Error).message);
@@ -220,6 +252,352 @@ export function analyzeTemplate(
   }
 }
 
+/**
+ * Nested template nodes, including control flow branches and @defer sub-blocks
+ */
+function childNodes(node: any): any[] {
+  const children: any[] = [...(node.children ?? [])];
+
+  if (node instanceof angularCompiler.TmplAstIfBlock) {
+    children.push(...node.branches);
+  } else if (node instanceof angularCompiler.TmplAstSwitchBlock) {
+    children.push(...node.cases);
+  } else if (node instanceof angularCompiler.TmplAstForLoopBlock && node.empty) {
+    children.push(node.empty);
+  } else if (node instanceof angularCompiler.TmplAstDeferredBlock) {
+    children.push(...[node.placeholder, node.loading, node.error].filter(Boolean));
+  }
+
+  return children;
+}
+
+/**
+ * Describe an element or ng-template with its attributes and bindings (undefined for other nodes)
+ *
+ * Inline structural directives (`*ngIf`) become an `ng-template` carrying the template attributes;
+ * the host element itself is visited as a child. Animation bindings are left out, and two-way
+ * bindings are recorded once (their `xChange` event is implied).
+ */
+function describeElement(node: any, filePath?: string, gitInfo?: GitRepository): TemplateElement | undefined {
+  let name: string;
+  let attributes: any[];
+  let inputs: any[];
+  let outputs: any[];
+
+  if (node instanceof angularCompiler.TmplAstElement) {
+    ({ name, attributes, inputs, outputs } = node);
+  } else if (node instanceof angularCompiler.TmplAstTemplate) {
+    name = 'ng-template';
+    const inline = node.templateAttrs.length > 0;
+    attributes = (inline ? node.templateAttrs : node.attributes).filter((attr: any) => attr instanceof angularCompiler.TmplAstTextAttribute);
+    inputs = inline ? node.templateAttrs.filter((attr: any) => attr instanceof angularCompiler.TmplAstBoundAttribute) : node.inputs;
+    outputs = inline ? [] : node.outputs;
+  } else {
+    return undefined;
+  }
+
+  const { BindingType, ParsedEventType } = angularCompiler;
+  const binding = (type: BindingMetadata['type'], bindingName: string, expression: any, span: any): BindingMetadata => {
+    const line = span?.start?.line ?? 0;
+    return {
+      type,
+      name: bindingName,
+      expression: cleanExpression(expression?.toString()),
+      line,
+      sourceUrl: filePath ? generateSourceUrl(filePath, gitInfo, line) : undefined,
+    };
+  };
+
+  const bindings: BindingMetadata[] = [];
+  for (const input of inputs) {
+    const type = ({
+      [BindingType.Property]: 'property',
+      [BindingType.Attribute]: 'attribute',
+      [BindingType.Class]: 'class',
+      [BindingType.Style]: 'style',
+      [BindingType.TwoWay]: 'twoWay',
+    } as Record<number, BindingMetadata['type']>)[input.type];
+    if (type) bindings.push(binding(type, input.name, input.value, input.sourceSpan));
+  }
+  for (const output of outputs) {
+    if (output.type !== ParsedEventType.Regular) continue;
+    // Global targets (window:resize) are not element events
+    const eventName = output.target ? `${output.target}:${output.name}` : output.name;
+    bindings.push(binding('event', eventName, output.handler, output.sourceSpan));
+  }
+
+  if (!name.includes('-') && attributes.length === 0 && bindings.length === 0) {
+    return undefined;
+  }
+
+  const line = node.startSourceSpan?.start?.line ?? node.sourceSpan?.start?.line ?? 0;
+  return {
+    name,
+    attributes: attributes.map((attr: any) => attr.name),
+    bindings,
+    line,
+    sourceUrl: filePath ? generateSourceUrl(filePath, gitInfo, line) : undefined,
+  };
+}
+
+/**
+ * Identifiers and pipes used by one expression
+ */
+interface ExpressionUsages {
+  members: Array<{ name: string; access: TemplateMemberUsage['access'] }>;
+  pipes: Array<{ name: string; args: number }>;
+}
+
+/**
+ * Collect the identifiers and pipes used by every expression of a template (bindings, interpolations, blocks)
+ *
+ * Template-local variables are left out by name, without block scoping: a local shadowing a
+ * component member hides that member's usages.
+ */
+function collectExpressionUsages(
+  nodes: any[],
+  filePath?: string,
+  gitInfo?: GitRepository
+): { memberUsages: TemplateMemberUsage[]; pipeUsages: TemplatePipeUsage[] } {
+  const lets = new Set<string>();
+  const refs = new Set<string>();
+  const locals = new Set<string>();
+  const usages = new Map<string, TemplateMemberUsage>();
+  const pipeUsages = new Map<string, TemplatePipeUsage>();
+
+  const declare = (node: any): void => {
+    if (node instanceof angularCompiler.TmplAstLetDeclaration) lets.add(node.name);
+    (node.references ?? []).forEach((ref: any) => refs.add(ref.name));
+    (node.variables ?? []).forEach((variable: any) => locals.add(variable.name));
+    if (node instanceof angularCompiler.TmplAstForLoopBlock) {
+      locals.add(node.item.name);
+      Object.values(node.contextVariables ?? {}).forEach((variable: any) => locals.add(variable.name));
+    }
+    if (node.expressionAlias) locals.add(node.expressionAlias.name);
+    childNodes(node).forEach(declare);
+  };
+  nodes.forEach(declare);
+
+  const record = (expression: any, context: string, span: any): void => {
+    if (!expression) return;
+    const line = span?.start?.line ?? 0;
+    const sourceUrl = filePath ? generateSourceUrl(filePath, gitInfo, line) : undefined;
+    const { members, pipes } = expressionUsages(expression);
+
+    for (const { name, args } of pipes) {
+      const key = `${name}|${args}|${context}|${line}`;
+      if (!pipeUsages.has(key)) pipeUsages.set(key, { name, args, context, line, sourceUrl });
+    }
+
+    for (const { name, access } of members) {
+      if (name.startsWith('$') || locals.has(name)) continue;
+      const key = `${name}|${access}|${context}|${line}`;
+      if (usages.has(key)) continue;
+      usages.set(key, {
+        name,
+        kind: lets.has(name) ? 'let' : refs.has(name) ? 'templateRef' : 'member',
+        access,
+        context,
+        line,
+        sourceUrl,
+      });
+    }
+  };
+
+  const visit = (node: any): void => {
+    const { BindingType, ParsedEventType } = angularCompiler;
+
+    if (node instanceof angularCompiler.TmplAstBoundText) {
+      record(node.value, '{{ }}', node.sourceSpan);
+    } else if (node instanceof angularCompiler.TmplAstIcu) {
+      // i18n plural/select expressions and their interpolations
+      [...Object.values(node.vars), ...Object.values(node.placeholders)]
+        .filter((part: any) => part instanceof angularCompiler.TmplAstBoundText)
+        .forEach((part: any) => record(part.value, '{{ }}', part.sourceSpan));
+    } else if (node instanceof angularCompiler.TmplAstElement || node instanceof angularCompiler.TmplAstTemplate) {
+      const templateAttrs = node instanceof angularCompiler.TmplAstTemplate ? node.templateAttrs : [];
+      for (const input of [...node.inputs, ...templateAttrs]) {
+        if (!(input instanceof angularCompiler.TmplAstBoundAttribute)) continue;
+        const prefix = ({
+          [BindingType.Attribute]: 'attr.',
+          [BindingType.Class]: 'class.',
+          [BindingType.Style]: 'style.',
+          [BindingType.Animation]: '@',
+        } as Record<number, string>)[input.type] ?? '';
+        const context = input.type === BindingType.TwoWay ? `[(${input.name})]` : `[${prefix}${input.name}]`;
+        record(input.value, context, input.sourceSpan);
+      }
+      for (const output of node.outputs) {
+        const context = output.type === ParsedEventType.TwoWay
+          ? `[(${output.name.replace(/Change$/, '')})]`
+          : `(${output.target ? `${output.target}:` : ''}${output.name})`;
+        record(output.handler, context, output.sourceSpan);
+      }
+    } else if (node instanceof angularCompiler.TmplAstIfBlockBranch) {
+      record(node.expression, '@if', node.sourceSpan);
+    } else if (node instanceof angularCompiler.TmplAstForLoopBlock) {
+      record(node.expression, '@for', node.sourceSpan);
+      record(node.trackBy, '@for track', node.sourceSpan);
+    } else if (node instanceof angularCompiler.TmplAstSwitchBlock) {
+      record(node.expression, '@switch', node.sourceSpan);
+    } else if (node instanceof angularCompiler.TmplAstSwitchBlockCase) {
+      record(node.expression, '@case', node.sourceSpan);
+    } else if (node instanceof angularCompiler.TmplAstLetDeclaration) {
+      record(node.value, `@let ${node.name}`, node.sourceSpan);
+    } else if (node instanceof angularCompiler.TmplAstDeferredBlock) {
+      for (const triggers of [node.triggers, node.prefetchTriggers, node.hydrateTriggers]) {
+        record(triggers?.when?.value, '@defer when', node.sourceSpan);
+      }
+    }
+
+    childNodes(node).forEach(visit);
+  };
+  nodes.forEach(visit);
+
+  return { memberUsages: Array.from(usages.values()), pipeUsages: Array.from(pipeUsages.values()) };
+}
+
+let usageVisitor: any = null;
+
+/**
+ * Identifiers an expression reads, calls or assigns on the component (implicit or `this` receiver),
+ * and the pipes it applies with their argument count
+ */
+function expressionUsages(expression: any): ExpressionUsages {
+  const { ImplicitReceiver, PropertyRead, SafePropertyRead } = angularCompiler;
+  const isMember = (ast: any) =>
+    (ast instanceof PropertyRead || ast instanceof SafePropertyRead) && ast.receiver instanceof ImplicitReceiver;
+
+  // Created on first use: the compiler is loaded dynamically
+  usageVisitor ??= new (class extends angularCompiler.RecursiveAstVisitor {
+    visitPipe(ast: any, found: ExpressionUsages): void {
+      found.pipes.push({ name: ast.name, args: ast.args.length });
+      super.visitPipe(ast, found);
+    }
+
+    visitPropertyRead(ast: any, found: ExpressionUsages): void {
+      if (isMember(ast)) found.members.push({ name: ast.name, access: 'read' });
+      else super.visitPropertyRead(ast, found);
+    }
+
+    visitSafePropertyRead(ast: any, found: ExpressionUsages): void {
+      if (isMember(ast)) found.members.push({ name: ast.name, access: 'read' });
+      else super.visitSafePropertyRead(ast, found);
+    }
+
+    visitPropertyWrite(ast: any, found: ExpressionUsages): void {
+      if (ast.receiver instanceof ImplicitReceiver) {
+        found.members.push({ name: ast.name, access: 'write' });
+        this.visit(ast.value, found);
+      } else {
+        super.visitPropertyWrite(ast, found);
+      }
+    }
+
+    visitCall(ast: any, found: ExpressionUsages): void {
+      if (isMember(ast.receiver)) {
+        found.members.push({ name: ast.receiver.name, access: 'call' });
+        this.visitAll(ast.args, found);
+      } else {
+        super.visitCall(ast, found);
+      }
+    }
+
+    visitSafeCall(ast: any, found: ExpressionUsages): void {
+      if (isMember(ast.receiver)) {
+        found.members.push({ name: ast.receiver.name, access: 'call' });
+        this.visitAll(ast.args, found);
+      } else {
+        super.visitSafeCall(ast, found);
+      }
+    }
+  })();
+
+  const found: ExpressionUsages = { members: [], pipes: [] };
+  usageVisitor.visit(expression.ast ?? expression, found);
+  return found;
+}
+
+/**
+ * Describe a control flow block or @let declaration (undefined for other nodes)
+ */
+function describeControlFlow(node: any, filePath?: string, gitInfo?: GitRepository): ControlFlowBlock | undefined {
+  const line = node.sourceSpan?.start?.line ?? 0;
+  const sourceUrl = filePath ? generateSourceUrl(filePath, gitInfo, line) : undefined;
+
+  if (node instanceof angularCompiler.TmplAstIfBlock) {
+    const [main, ...others] = node.branches;
+    return {
+      type: 'if',
+      line,
+      expression: cleanExpression(main?.expression?.toString()),
+      alias: main?.expressionAlias?.name,
+      branches: others.length > 0 ? others.map((branch: any) => (branch.expression ? 'else if' : 'else')) : undefined,
+      sourceUrl,
+    };
+  }
+
+  if (node instanceof angularCompiler.TmplAstForLoopBlock) {
+    return {
+      type: 'for',
+      line,
+      expression: cleanExpression(node.expression?.toString()),
+      alias: node.item?.name,
+      track: cleanExpression(node.trackBy?.toString()),
+      branches: node.empty ? ['empty'] : undefined,
+      sourceUrl,
+    };
+  }
+
+  if (node instanceof angularCompiler.TmplAstSwitchBlock) {
+    return {
+      type: 'switch',
+      line,
+      expression: cleanExpression(node.expression?.toString()),
+      branches: node.cases.map((switchCase: any) => (switchCase.expression ? 'case' : 'default')),
+      sourceUrl,
+    };
+  }
+
+  if (node instanceof angularCompiler.TmplAstLetDeclaration) {
+    return {
+      type: 'let',
+      line,
+      expression: cleanExpression(node.value?.toString()),
+      alias: node.name,
+      sourceUrl,
+    };
+  }
+
+  if (node instanceof angularCompiler.TmplAstDeferredBlock) {
+    const branches = (['placeholder', 'loading', 'error'] as const).filter((name) => node[name]);
+    return {
+      type: 'defer',
+      line,
+      branches: branches.length > 0 ? [...branches] : undefined,
+      triggers: describeTriggers(node.triggers),
+      prefetchTriggers: describeTriggers(node.prefetchTriggers),
+      hydrateTriggers: describeTriggers(node.hydrateTriggers),
+      sourceUrl,
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Describe @defer triggers, keyed by type in the compiler AST (`viewport`, `when`, ...)
+ */
+function describeTriggers(triggers?: Record<string, any>): DeferTrigger[] | undefined {
+  const described = Object.entries(triggers ?? {}).map(([type, trigger]) => ({
+    type: type as DeferTrigger['type'],
+    reference: trigger.reference ?? undefined,
+    delay: trigger.delay,
+    expression: cleanExpression(trigger.value?.toString()),
+  }));
+  return described.length > 0 ? described : undefined;
+}
+
 /**
  * Calculate template complexity score
  */
@@ -238,6 +616,16 @@ function calculateComplexity(nodes: any[]): number {
       });
     }
 
+    // Control flow blocks add complexity like structural directives
+    if (
+      node instanceof angularCompiler.TmplAstIfBlock ||
+      node instanceof angularCompiler.TmplAstForLoopBlock ||
+      node instanceof angularCompiler.TmplAstSwitchBlock ||
+      node instanceof angularCompiler.TmplAstDeferredBlock
+    ) {
+      score += 2;
+    }
+
     // Bindings add complexity
     if (node.inputs) {
       score += node.inputs.length;
@@ -247,9 +635,7 @@ function calculateComplexity(nodes: any[]): number {
     }
 
     // Visit children
-    if (node.children) {
-      node.children.forEach((child: any) => visit(child, depth + 1));
-    }
+    childNodes(node).forEach((child) => visit(child, depth + 1));
   }
 
   nodes.forEach((node) => visit(node, 1));
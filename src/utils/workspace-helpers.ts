@@ -0,0 +1,147 @@
+/**
+ * Workspace helper utilities
+ * Reads Angular CLI (angular.json) and Nx (project.json) workspace configurations
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { WorkspaceInfo, WorkspaceProject } from '../types/index.js';
+
+/**
+ * Directories never scanned for project.json files
+ */
+const IGNORED_DIRS = new Set(['node_modules', 'dist', 'coverage', 'tmp', '.git', '.angular', '.nx', '.vscode']);
+
+/**
+ * Default build tsconfig names, relative to the project root
+ */
+const TSCONFIG_CANDIDATES = ['tsconfig.app.json', 'tsconfig.lib.json', 'tsconfig.json'];
+
+/**
+ * Detect the workspace rooted at a directory
+ *
+ * angular.json takes precedence; otherwise every project.json below the directory
+ * is an Nx project. Returns undefined when the directory is not a workspace root.
+ */
+export function detectWorkspace(rootDir: string): WorkspaceInfo | undefined {
+  const workspaceRoot = path.resolve(rootDir);
+
+  const angularJson = readJson(path.join(workspaceRoot, 'angular.json'));
+  if (angularJson?.projects) {
+    const projects = Object.entries<any>(angularJson.projects)
+      .map(([name, config]) => {
+        // Nx with angular.json: `"name": "apps/name"` points at a project.json
+        if (typeof config === 'string') {
+          const projectJson = readJson(path.join(workspaceRoot, config, 'project.json'));
+          return projectJson ? toProject(workspaceRoot, name, config, projectJson) : undefined;
+        }
+        return toProject(workspaceRoot, name, config.root ?? '', config);
+      })
+      .filter((project): project is WorkspaceProject => project !== undefined);
+
+    return { type: 'angular', projects: sortProjects(projects) };
+  }
+
+  const projectFiles = findProjectJsonFiles(workspaceRoot);
+  if (projectFiles.length === 0) return undefined;
+
+  const projects = projectFiles
+    .map((file) => {
+      const config = readJson(file);
+      if (!config) return undefined;
+      const root = toPosix(path.relative(workspaceRoot, path.dirname(file)));
+      return toProject(workspaceRoot, config.name ?? path.basename(path.dirname(file)), root, config);
+    })
+    .filter((project): project is WorkspaceProject => project !== undefined);
+
+  return { type: 'nx', projects: sortProjects(projects) };
+}
+
+/**
+ * Project owning a file: the one with the deepest root containing it
+ */
+export function findOwningProject(
+  projects: WorkspaceProject[],
+  workspaceRoot: string,
+  fileName: string
+): WorkspaceProject | undefined {
+  const relative = toPosix(path.relative(path.resolve(workspaceRoot), path.resolve(fileName)));
+  if (relative.startsWith('../')) return undefined;
+
+  let owner: WorkspaceProject | undefined;
+  for (const project of projects) {
+    const contains = project.root === '' || relative === project.root || relative.startsWith(project.root + '/');
+    if (contains && (!owner || project.root.length > owner.root.length)) {
+      owner = project;
+    }
+  }
+  return owner;
+}
+
+/**
+ * Normalize an angular.json / project.json project entry
+ */
+function toProject(workspaceRoot: string, name: string, root: string, config: any): WorkspaceProject {
+  const normalizedRoot = toPosix(root).replace(/^\.?\/?/, '').replace(/\/$/, '');
+  const resolveToken = (value: string) =>
+    value.replace(/\{projectRoot\}/g, normalizedRoot).replace(/\{workspaceRoot\}\/?/g, '');
+
+  const targets = config.architect ?? config.targets ?? {};
+  const configuredTsConfig: string | undefined = targets.build?.options?.tsConfig;
+  const tsConfigPath = configuredTsConfig
+    ? toPosix(path.normalize(resolveToken(configuredTsConfig)))
+    : TSCONFIG_CANDIDATES
+        .map((candidate) => toPosix(path.join(normalizedRoot, candidate)))
+        .find((candidate) => fs.existsSync(path.join(workspaceRoot, candidate)));
+
+  return {
+    name,
+    projectType: config.projectType ?? (normalizedRoot.startsWith('apps/') ? 'application' : 'library'),
+    root: normalizedRoot,
+    sourceRoot: config.sourceRoot ? toPosix(resolveToken(config.sourceRoot)) : undefined,
+    prefix: config.prefix,
+    tsConfigPath,
+  };
+}
+
+function findProjectJsonFiles(workspaceRoot: string, maxDepth = 6): string[] {
+  const files: string[] = [];
+
+  const traverse = (dir: string, depth: number) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (entry.isFile() && entry.name === 'project.json') {
+        files.push(path.join(dir, entry.name));
+      } else if (entry.isDirectory() && depth < maxDepth && !IGNORED_DIRS.has(entry.name)) {
+        traverse(path.join(dir, entry.name), depth + 1);
+      }
+    }
+  };
+
+  traverse(workspaceRoot, 0);
+  return files;
+}
+
+function readJson(filePath: string): any {
+  if (!fs.existsSync(filePath)) return undefined;
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    console.warn(`⚠️  Failed to parse ${filePath}: ${(error as Error).message}`);
+    return undefined;
+  }
+}
+
+function sortProjects(projects: WorkspaceProject[]): WorkspaceProject[] {
+  return projects.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function toPosix(filePath: string): string {
+  return filePath.replace(/\\/g, '/');
+}
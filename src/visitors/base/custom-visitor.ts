@@ -4,6 +4,12 @@
 
 import * as ts from 'typescript';
 import type { Entity, Relationship } from '../../types/index.js';
+import {
+  findSourceFile,
+  isSuppressedAt,
+  isSuppressedInTemplate,
+  type TemplateFinding,
+} from '../../utils/suppression-helpers.js';
 
 /**
  * Warning reported by a visitor
@@ -259,4 +265,19 @@ export abstract class BaseVisitor<TResult = unknown> implements CustomVisitor<TR
     this.metrics.set(name, value);
     context.addMetric(`${this.name}.${name}`, value);
   }
+
+  /**
+   * Whether an `ng-parser-ignore` comment at the location (or on the template lines of the finding)
+   * suppresses one of the names
+   */
+  protected isSuppressed(
+    context: VisitorContext,
+    location: { filePath: string; line: number },
+    names: string[],
+    template?: TemplateFinding
+  ): boolean {
+    if (template && isSuppressedInTemplate(template, names)) return true;
+    const sourceFile = findSourceFile(context.program, location.filePath, context.sourceFile);
+    return sourceFile !== undefined && isSuppressedAt(sourceFile, location.line, names);
+  }
 }
@@ -145,4 +145,32 @@ describe('RxJSPatternVisitor', () => {
     expect(Array.isArray(results.componentsWithoutNgOnDestroy)).toBe(true);
     expect(Array.isArray(results.patterns)).toBe(true);
   });
+
+  it('should honor ng-parser-ignore comments', async () => {
+    const code = `
+      import { Observable, Subject } from 'rxjs';
+
+      class TestService {
+        // ng-parser-ignore Subject
+        private events$: Subject<string>;
+        data$: Observable<string>;
+        /* ng-parser-ignore */ other$: Observable<number>;
+      }
+    `;
+
+    const { sourceFile, program } = createTestProgram(code);
+    const context = new VisitorContextImpl(sourceFile, program.getTypeChecker(), program, new Map(), []);
+    const service: any = { id: 's1', type: 'service', name: 'TestService', location: { filePath: 'test.ts', line: 4, column: 7 } };
+
+    visitor.onBeforeParse(context);
+    await visitor.visitEntity(service, context);
+
+    function visit(node: ts.Node) {
+      visitor.visitNode(node, context);
+      ts.forEachChild(node, visit);
+    }
+    visit(sourceFile);
+
+    expect(visitor.getResults().patterns.map((p) => p.propertyName)).toEqual(['data$']);
+  });
 });
@@ -151,4 +151,78 @@ describe('SecurityVisitor', () => {
     const total = Object.values(results.byPattern).reduce((sum: number, count) => sum + (count as number), 0);
     expect(total).toBe(results.totalPatterns);
   });
+
+  it('should honor ng-parser-ignore comments', async () => {
+    const code = `
+      class Component {
+        run() {
+          // ng-parser-ignore eval
+          eval('trusted');
+          eval('untrusted');
+          document.body.innerHTML = 'x'; // ng-parser-ignore security/innerHTML
+          document.body.innerHTML = 'y'; // ng-parser-ignore performance
+        }
+      }
+    `;
+
+    const { sourceFile, program } = createTestProgram(code);
+    const context = new VisitorContextImpl(sourceFile, program.getTypeChecker(), program, new Map(), []);
+    const component: any = {
+      id: 'c1',
+      type: 'component',
+      name: 'Component',
+      location: { filePath: 'test.ts', line: 2, column: 7 },
+      template: '<!-- ng-parser-ignore innerHTML --><div [innerHTML]="html"></div><div [outerHTML]="html"></div>',
+    };
+
+    visitor.onBeforeParse(context);
+    await visitor.visitEntity(component, context);
+
+    function visit(node: ts.Node) {
+      visitor.visitNode(node, context);
+      ts.forEachChild(node, visit);
+    }
+    visit(sourceFile);
+
+    const patterns = visitor.getResults().patterns.map((p) => [p.pattern, p.location.line]);
+    expect(patterns).toEqual([
+      ['outerHTML', 2],
+      ['eval', 6],
+      ['innerHTML', 8],
+    ]);
+  });
+
+  it('should only suppress template patterns on the lines following a template comment', async () => {
+    const { sourceFile, program } = createTestProgram('class Component {}');
+    const context = new VisitorContextImpl(sourceFile, program.getTypeChecker(), program, new Map(), []);
+    const component = (name: string, template: string): any => ({
+      id: name,
+      type: 'component',
+      name,
+      location: { filePath: 'test.ts', line: 1, column: 1 },
+      template,
+    });
+
+    visitor.onBeforeParse(context);
+    await visitor.visitEntity(component('Suppressed', [
+      '<!-- ng-parser-ignore innerHTML -->',
+      '<div [innerHTML]="trusted"></div>',
+    ].join('\n')), context);
+    await visitor.visitEntity(component('Partial', [
+      '<!-- ng-parser-ignore innerHTML -->',
+      '<div [innerHTML]="trusted"></div>',
+      '<p>text</p>',
+      '<div [innerHTML]="untrusted"></div>',
+    ].join('\n')), context);
+    await visitor.visitEntity(component('Elsewhere', [
+      '<!-- ng-parser-ignore innerHTML -->',
+      '<p>text</p>',
+      '<div [innerHTML]="untrusted"></div>',
+    ].join('\n')), context);
+
+    expect(visitor.getResults().patterns.map((p) => [p.pattern, p.entityName])).toEqual([
+      ['innerHTML', 'Partial'],
+      ['innerHTML', 'Elsewhere'],
+    ]);
+  });
 });
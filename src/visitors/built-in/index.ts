@@ -5,3 +5,24 @@
 export * from './rxjs-pattern-visitor.js';
 export * from './security-visitor.js';
 export * from './performance-visitor.js';
+
+import type { CustomVisitor } from '../base/custom-visitor.js';
+import { RxJSPatternVisitor } from './rxjs-pattern-visitor.js';
+import { SecurityVisitor } from './security-visitor.js';
+import { PerformanceVisitor } from './performance-visitor.js';
+
+/**
+ * Built-in visitors by name (they take no options, so worker threads can re-create them)
+ */
+export const BUILT_IN_VISITORS: Record<string, new () => CustomVisitor> = {
+  RxJSPatternVisitor,
+  SecurityVisitor,
+  PerformanceVisitor,
+};
+
+/**
+ * Whether a visitor is an unmodified built-in visitor (subclasses are not)
+ */
+export function isBuiltInVisitor(visitor: CustomVisitor): boolean {
+  return Object.hasOwn(BUILT_IN_VISITORS, visitor.name) && visitor.constructor === BUILT_IN_VISITORS[visitor.name];
+}
@@ -10,6 +10,7 @@ import * as ts from 'typescript';
 import { BaseVisitor, type VisitorContext } from '../base/index.js';
 import type { Entity, ComponentEntity } from '../../types/index.js';
 import { getSourceLocation } from '../../utils/ast-helpers.js';
+import { findInTemplate, type TemplateFinding } from '../../utils/suppression-helpers.js';
 
 export interface PerformancePattern {
   pattern:
@@ -144,14 +145,14 @@ export class PerformanceVisitor extends BaseVisitor<PerformanceResults> {
         entityId: component.id,
         entityName: component.name,
         location: component.location,
-      });
+      }, context);
     } else if (!changeDetection || changeDetection === 'Default') {
       this.addPattern({
         pattern: 'change_detection_default',
         entityId: component.id,
         entityName: component.name,
         location: component.location,
-      });
+      }, context);
     }
 
     // Extract *ngFor patterns
@@ -163,25 +164,26 @@ export class PerformanceVisitor extends BaseVisitor<PerformanceResults> {
           entityId: component.id,
           entityName: component.name,
           location: component.location,
-        });
+        }, context, findInTemplate(template, /\*ngFor/));
       } else {
         this.addPattern({
           pattern: 'ngfor_without_trackby',
           entityId: component.id,
           entityName: component.name,
           location: component.location,
-        });
+        }, context, findInTemplate(template, /\*ngFor/));
       }
     }
 
     // Extract function calls in templates
-    if (/\{\{[^}]*\([^)]*\)[^}]*\}\}/.test(template) || /\[[^\]]*\]\s*=\s*"[^"]*\([^)]*\)"/.test(template)) {
+    const functionCall = /\{\{[^}]*\([^)]*\)[^}]*\}\}|\[[^\]]*\]\s*=\s*"[^"]*\([^)]*\)"/;
+    if (functionCall.test(template)) {
       this.addPattern({
         pattern: 'function_in_template',
         entityId: component.id,
         entityName: component.name,
         location: component.location,
-      });
+      }, context, findInTemplate(template, functionCall));
     }
   }
 
@@ -198,7 +200,7 @@ export class PerformanceVisitor extends BaseVisitor<PerformanceResults> {
           entityId: this.currentEntity.id,
           entityName: this.currentEntity.name,
           location: getSourceLocation(node, context.sourceFile),
-        });
+        }, context);
       }
 
       if (hasLoop) {
@@ -207,7 +209,7 @@ export class PerformanceVisitor extends BaseVisitor<PerformanceResults> {
           entityId: this.currentEntity.id,
           entityName: this.currentEntity.name,
           location: getSourceLocation(node, context.sourceFile),
-        });
+        }, context);
       }
     }
   }
@@ -228,7 +230,7 @@ export class PerformanceVisitor extends BaseVisitor<PerformanceResults> {
             entityName: this.currentEntity.name,
             location: getSourceLocation(node, context.sourceFile),
             context: lib,
-          });
+          }, context);
         }
       }
     }
@@ -247,7 +249,7 @@ export class PerformanceVisitor extends BaseVisitor<PerformanceResults> {
           entityId: this.currentEntity.id,
           entityName: this.currentEntity.name,
           location: getSourceLocation(node, context.sourceFile),
-        });
+        }, context);
       }
 
       // Extract indexOf in loops
@@ -257,7 +259,7 @@ export class PerformanceVisitor extends BaseVisitor<PerformanceResults> {
           entityId: this.currentEntity.id,
           entityName: this.currentEntity.name,
           location: getSourceLocation(node, context.sourceFile),
-        });
+        }, context);
       }
     }
   }
@@ -275,7 +277,7 @@ export class PerformanceVisitor extends BaseVisitor<PerformanceResults> {
           entityId: this.currentEntity.id,
           entityName: this.currentEntity.name,
           location: getSourceLocation(node, context.sourceFile),
-        });
+        }, context);
       }
     }
   }
@@ -328,7 +330,9 @@ export class PerformanceVisitor extends BaseVisitor<PerformanceResults> {
     return false;
   }
 
-  private addPattern(pattern: PerformancePattern): void {
+  private addPattern(pattern: PerformancePattern, context: VisitorContext, template?: TemplateFinding): void {
+    const names = [pattern.pattern, 'performance', `performance/${pattern.pattern}`];
+    if (this.isSuppressed(context, pattern.location, names, template)) return;
     this.patterns.push(pattern);
   }
 }
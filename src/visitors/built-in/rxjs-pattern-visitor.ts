@@ -91,6 +91,7 @@ export class RxJSPatternVisitor extends BaseVisitor<RxJSPatternResults> {
           isInComponent: isComponent,
         };
 
+        if (this.isSuppressed(context, pattern.location, [rxjsType, propertyName, 'rxjs'])) return;
         this.patterns.push(pattern);
       }
     }
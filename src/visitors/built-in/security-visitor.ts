@@ -10,6 +10,7 @@ import * as ts from 'typescript';
 import { BaseVisitor, type VisitorContext } from '../base/index.js';
 import type { Entity, ComponentEntity } from '../../types/index.js';
 import { getSourceLocation } from '../../utils/ast-helpers.js';
+import { findInTemplate, type TemplateFinding } from '../../utils/suppression-helpers.js';
 
 export interface SecurityPattern {
   pattern:
@@ -148,7 +149,7 @@ export class SecurityVisitor extends BaseVisitor<SecurityResults> {
         entityName: component.name,
         location: component.location,
         context: 'template binding',
-      });
+      }, context, findInTemplate(template, /\[innerHTML\]/));
     }
 
     if (template.includes('[outerHTML]')) {
@@ -158,7 +159,7 @@ export class SecurityVisitor extends BaseVisitor<SecurityResults> {
         entityName: component.name,
         location: component.location,
         context: 'template binding',
-      });
+      }, context, findInTemplate(template, /\[outerHTML\]/));
     }
   }
 
@@ -177,7 +178,7 @@ export class SecurityVisitor extends BaseVisitor<SecurityResults> {
             entityName: this.currentEntity.name,
             location: getSourceLocation(node, context.sourceFile),
             context: 'direct assignment',
-          });
+          }, context);
         }
       }
     }
@@ -195,7 +196,7 @@ export class SecurityVisitor extends BaseVisitor<SecurityResults> {
           entityName: this.currentEntity.name,
           location: getSourceLocation(node, context.sourceFile),
           context: callText,
-        });
+        }, context);
       }
     }
   }
@@ -215,7 +216,7 @@ export class SecurityVisitor extends BaseVisitor<SecurityResults> {
           entityName: this.currentEntity.name,
           location,
           context: 'api_key_pattern',
-        });
+        }, context);
       }
 
       // Extract password assignments
@@ -228,7 +229,7 @@ export class SecurityVisitor extends BaseVisitor<SecurityResults> {
             entityName: this.currentEntity.name,
             location,
             context: 'password_pattern',
-          });
+          }, context);
         }
       }
 
@@ -240,7 +241,7 @@ export class SecurityVisitor extends BaseVisitor<SecurityResults> {
           entityName: this.currentEntity.name,
           location,
           context: 'token_pattern',
-        });
+        }, context);
       }
     }
   }
@@ -257,7 +258,7 @@ export class SecurityVisitor extends BaseVisitor<SecurityResults> {
           entityName: this.currentEntity.name,
           location: getSourceLocation(node, context.sourceFile),
           context: value,
-        });
+        }, context);
       }
     }
   }
@@ -273,7 +274,7 @@ export class SecurityVisitor extends BaseVisitor<SecurityResults> {
           entityId: this.currentEntity.id,
           entityName: this.currentEntity.name,
           location: getSourceLocation(node, context.sourceFile),
-        });
+        }, context);
       }
       if (callText === 'Function') {
         this.addPattern({
@@ -281,7 +282,7 @@ export class SecurityVisitor extends BaseVisitor<SecurityResults> {
           entityId: this.currentEntity.id,
           entityName: this.currentEntity.name,
           location: getSourceLocation(node, context.sourceFile),
-        });
+        }, context);
       }
     }
   }
@@ -300,12 +301,14 @@ export class SecurityVisitor extends BaseVisitor<SecurityResults> {
           entityName: this.currentEntity.name,
           location: getSourceLocation(node, context.sourceFile),
           context: callText,
-        });
+        }, context);
       }
     }
   }
 
-  private addPattern(pattern: SecurityPattern): void {
+  private addPattern(pattern: SecurityPattern, context: VisitorContext, template?: TemplateFinding): void {
+    const names = [pattern.pattern, 'security', `security/${pattern.pattern}`];
+    if (this.isSuppressed(context, pattern.location, names, template)) return;
     this.patterns.push(pattern);
   }
 }